@@ -0,0 +1,48 @@
+import { getFirestore, type Transaction } from 'firebase-admin/firestore';
+import { getAdminApp } from './firebaseAdmin';
+
+// Shared answers in aiCache/{key}, which clients can only read. A shared answer is only
+// accepted for a model request /api/ai/reserve counted: reserving it issues a single-use ticket
+// in aiCacheTickets, bound to the user, feature and cache key, that /api/ai/cache redeems.
+
+export const CACHE_COLLECTION = 'aiCache';
+const TICKET_COLLECTION = 'aiCacheTickets';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Long enough for a request with all its retries
+export const TICKET_TTL = 10 * 60 * 1000;
+
+// Features whose answers depend only on profile fields and may be shared between athletes,
+// with their TTLs. Keep in step with the shared policies in src/components/services/llm/cache.ts.
+export const SHARED_TTLS: Record<string, number> = {
+  nutritionPlan: 7 * DAY,
+  trainingPlan: 7 * DAY,
+  athleteInsights: DAY,
+  motivationalQuote: DAY,
+  mealOutline: 7 * DAY,
+  recoveryTargets: DAY,
+  growthTrend: DAY,
+  injuryPreventionTips: 7 * DAY,
+};
+
+// SHA-256 hex, as built by cacheKey on the client
+export const isCacheKey = (key: unknown): key is string => typeof key === 'string' && /^[0-9a-f]{64}$/.test(key);
+
+export interface CacheTicket {
+  userId: string;
+  feature: string;
+  key: string;
+  expiresAt: number;
+}
+
+export const ticketDoc = (ticket: string) => getFirestore(getAdminApp()).collection(TICKET_COLLECTION).doc(ticket);
+
+// Returns the ticket id to hand to the client
+export const issueCacheTicket = (transaction: Transaction, userId: string, feature: string, key: string) => {
+  const ref = getFirestore(getAdminApp()).collection(TICKET_COLLECTION).doc();
+  const ticket: CacheTicket = { userId, feature, key, expiresAt: Date.now() + TICKET_TTL };
+  transaction.set(ref, ticket);
+  return ref.id;
+};
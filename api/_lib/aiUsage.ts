@@ -0,0 +1,52 @@
+import { FieldValue, getFirestore, type Transaction } from 'firebase-admin/firestore';
+import { getAdminApp } from './firebaseAdmin';
+import { httpError } from './http';
+
+// Per-user AI accounting at users/{uid}/aiUsage/{YYYY-MM-DD}, the documents the admin view
+// reads. Only these endpoints write them, so the counts the quota relies on can't be edited.
+
+// Same variable as the client's VITE_AI_DAILY_QUOTA, which the admin view shows
+export const DAILY_AI_QUOTA = Number(process.env.AI_DAILY_QUOTA || process.env.VITE_AI_DAILY_QUOTA) || 50;
+
+const FEATURE_PATTERN = /^[A-Za-z]{1,64}$/;
+
+export interface UsageTotals {
+  requests?: number;
+  cacheHits?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  costUsd?: number;
+}
+
+export const usageDay = (timestamp = Date.now()) => new Date(timestamp).toISOString().slice(0, 10);
+
+export const usageDoc = (userId: string, day = usageDay()) =>
+  getFirestore(getAdminApp()).collection('users').doc(userId).collection('aiUsage').doc(day);
+
+export const checkFeature = (feature: unknown): string => {
+  if (typeof feature !== 'string' || !FEATURE_PATTERN.test(feature)) {
+    throw httpError(400, 'Invalid feature');
+  }
+  return feature;
+};
+
+// Counters are incremented in place, so concurrent tabs and devices never overwrite each other
+export const addUsage = (
+  user: { uid: string; email?: string },
+  feature: string,
+  totals: UsageTotals,
+  transaction?: Transaction
+) => {
+  const day = usageDay();
+  const increments = Object.fromEntries(Object.entries(totals).map(([key, value]) => [key, FieldValue.increment(value)]));
+  const data = {
+    userId: user.uid,
+    email: user.email ?? null,
+    date: day,
+    ...increments,
+    features: { [feature]: increments },
+    updatedAt: Date.now(),
+  };
+  const ref = usageDoc(user.uid, day);
+  return transaction ? transaction.set(ref, data, { merge: true }) : ref.set(data, { merge: true });
+};
@@ -0,0 +1,45 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+
+// AES-256-GCM envelope for stored OAuth tokens. The key comes from TOKEN_ENCRYPTION_KEY
+// (32 bytes, base64), e.g. `openssl rand -base64 32`. Each value is bound to the user and
+// provider it belongs to, so a ciphertext copied to another record fails to decrypt.
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+const IV_BYTES = 12;
+
+const getKey = () => {
+  const encoded = process.env.TOKEN_ENCRYPTION_KEY;
+  if (!encoded) {
+    throw new Error('TOKEN_ENCRYPTION_KEY is not configured');
+  }
+
+  const key = Buffer.from(encoded, 'base64');
+  if (key.length !== 32) {
+    throw new Error('TOKEN_ENCRYPTION_KEY must be 32 bytes, base64 encoded');
+  }
+  return key;
+};
+
+export const encrypt = (plaintext: string, context: string) => {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  cipher.setAAD(Buffer.from(context));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':');
+};
+
+export const decrypt = (payload: string, context: string) => {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unrecognised token payload');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAAD(Buffer.from(context));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+};
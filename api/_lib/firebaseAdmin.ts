@@ -0,0 +1,15 @@
+import { cert, getApps, initializeApp, type App } from 'firebase-admin/app';
+
+// Admin SDK app for the broker. FIREBASE_SERVICE_ACCOUNT holds the service account JSON on
+// Vercel; locally application default credentials or the Firebase emulators work as well.
+
+export const getAdminApp = (): App => {
+  const [existing] = getApps();
+  if (existing) return existing;
+
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+  return initializeApp({
+    projectId: process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID,
+    ...(serviceAccount && { credential: cert(JSON.parse(serviceAccount)) }),
+  });
+};
@@ -0,0 +1,64 @@
+import { getAuth } from 'firebase-admin/auth';
+import { getAdminApp } from './firebaseAdmin';
+
+// Request helpers shared by the broker endpoints
+
+export type HttpError = Error & { status: number };
+
+export const httpError = (status: number, message: string): HttpError =>
+  Object.assign(new Error(message), { status });
+
+const isHttpError = (error: unknown): error is HttpError =>
+  error instanceof Error && typeof (error as HttpError).status === 'number';
+
+export const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      // Access tokens must never end up in a shared cache
+      'Cache-Control': 'no-store',
+    },
+  });
+
+export const readJson = async <T>(request: Request): Promise<Partial<T>> => {
+  try {
+    return (await request.json()) as Partial<T>;
+  } catch {
+    throw httpError(400, 'Request body must be JSON');
+  }
+};
+
+// Origin of the page that started the OAuth flow, used to rebuild the redirect URI
+export const requestOrigin = (request: Request) => request.headers.get('Origin') ?? new URL(request.url).origin;
+
+// The caller is identified by their Firebase ID token, never by anything in the body
+export const verifyIdToken = async (request: Request) => {
+  const header = request.headers.get('Authorization');
+  const idToken = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+  if (!idToken) {
+    throw httpError(401, 'Missing Firebase ID token');
+  }
+
+  try {
+    return await getAuth(getAdminApp()).verifyIdToken(idToken);
+  } catch (error) {
+    console.error('Error verifying ID token:', error);
+    throw httpError(401, 'Invalid Firebase ID token');
+  }
+};
+
+export const verifyUser = async (request: Request) => (await verifyIdToken(request)).uid;
+
+// Wrap an endpoint so thrown errors become JSON responses without leaking internals
+export const handle = (endpoint: (request: Request) => Promise<Response>) => async (request: Request) => {
+  try {
+    return await endpoint(request);
+  } catch (error) {
+    if (isHttpError(error)) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error('Token broker error:', error);
+    return json({ error: 'Internal error' }, 500);
+  }
+};
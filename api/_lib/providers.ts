@@ -0,0 +1,146 @@
+import { httpError } from './http';
+
+// OAuth client configuration for the providers the broker handles. Client secrets only
+// exist here, on the server; the browser never sees them. When OAUTH_MOCK_SERVER_URL is
+// set every endpoint points at the local mock server instead (see scripts/mockOAuthServer.ts).
+
+export type BrokerProvider = 'google_fit' | 'strava';
+
+export interface ProviderConfig {
+  tokenUrl: string;
+  revokeUrl: string;
+  clientId: string;
+  clientSecret: string;
+  // Path of the front-end page the provider redirects back to, which must match the authorize request
+  callbackPath: string;
+}
+
+// Tokens as returned by either provider, normalised
+export interface ProviderTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // ms since epoch
+  scope?: string;
+}
+
+interface TokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number; // seconds, Google
+  expires_at?: number; // seconds since epoch, Strava
+  scope?: string;
+  error?: string;
+  error_description?: string;
+}
+
+const PRODUCTION_ENDPOINTS: Record<BrokerProvider, { tokenUrl: string; revokeUrl: string }> = {
+  google_fit: {
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    revokeUrl: 'https://oauth2.googleapis.com/revoke',
+  },
+  strava: {
+    tokenUrl: 'https://www.strava.com/oauth/token',
+    revokeUrl: 'https://www.strava.com/oauth/deauthorize',
+  },
+};
+
+const CALLBACK_PATHS: Record<BrokerProvider, string> = {
+  google_fit: '/google-fit-callback',
+  strava: '/strava-callback',
+};
+
+export const isBrokerProvider = (value: unknown): value is BrokerProvider =>
+  value === 'google_fit' || value === 'strava';
+
+const requireEnv = (name: string) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+};
+
+export const getProviderConfig = (provider: BrokerProvider): ProviderConfig => {
+  const mockServer = process.env.OAUTH_MOCK_SERVER_URL;
+  const endpoints = mockServer
+    ? { tokenUrl: `${mockServer}/${provider}/token`, revokeUrl: `${mockServer}/${provider}/revoke` }
+    : PRODUCTION_ENDPOINTS[provider];
+  const prefix = provider === 'google_fit' ? 'GOOGLE_FIT' : 'STRAVA';
+
+  return {
+    ...endpoints,
+    // The client id is public and shared with the front end's authorize URL
+    clientId: process.env[`${prefix}_CLIENT_ID`] || requireEnv(`VITE_${prefix}_CLIENT_ID`),
+    clientSecret: requireEnv(`${prefix}_CLIENT_SECRET`),
+    callbackPath: CALLBACK_PATHS[provider],
+  };
+};
+
+const requestTokens = async (config: ProviderConfig, params: Record<string, string>): Promise<TokenResponse> => {
+  const response = await fetch(config.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      ...params,
+    }),
+  });
+
+  const data = (await response.json().catch(() => ({}))) as TokenResponse;
+  if (!response.ok || !data.access_token) {
+    // 400/401 from the provider means the grant itself is bad, e.g. a revoked refresh token
+    const status = response.status === 400 || response.status === 401 ? 401 : 502;
+    throw httpError(status, `Token request failed with status ${response.status}${data.error ? ` (${data.error})` : ''}`);
+  }
+  return data;
+};
+
+const normalise = (data: TokenResponse, previousRefreshToken?: string): ProviderTokens => {
+  // Google only issues a refresh token on the first consent; Strava may rotate it on refresh
+  const refreshToken = data.refresh_token ?? previousRefreshToken;
+  if (!refreshToken) {
+    throw httpError(502, 'Provider did not return a refresh token');
+  }
+
+  return {
+    accessToken: data.access_token!,
+    refreshToken,
+    expiresAt: data.expires_at ? data.expires_at * 1000 : Date.now() + (data.expires_in ?? 3600) * 1000,
+    scope: data.scope,
+  };
+};
+
+export const exchangeCode = async (provider: BrokerProvider, code: string, origin: string) => {
+  const config = getProviderConfig(provider);
+  const data = await requestTokens(config, {
+    code,
+    grant_type: 'authorization_code',
+    redirect_uri: `${origin}${config.callbackPath}`,
+  });
+  return normalise(data);
+};
+
+export const refreshTokens = async (provider: BrokerProvider, tokens: ProviderTokens) => {
+  const data = await requestTokens(getProviderConfig(provider), {
+    refresh_token: tokens.refreshToken,
+    grant_type: 'refresh_token',
+  });
+  return normalise(data, tokens.refreshToken);
+};
+
+// Best effort: the stored tokens are deleted whether or not the provider accepts the revocation
+export const revokeTokens = async (provider: BrokerProvider, tokens: ProviderTokens) => {
+  const config = getProviderConfig(provider);
+  const response = await fetch(config.revokeUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: provider === 'google_fit'
+      ? new URLSearchParams({ token: tokens.refreshToken })
+      : new URLSearchParams({ access_token: tokens.accessToken }),
+  });
+
+  if (!response.ok) {
+    console.error(`Revoking ${provider} tokens failed with status ${response.status}`);
+  }
+};
@@ -0,0 +1,73 @@
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import { decrypt, encrypt } from './encryption';
+import { getAdminApp } from './firebaseAdmin';
+import type { BrokerProvider, ProviderTokens } from './providers';
+
+// Encrypted per-user token storage. Tokens live in `oauthTokens/{uid}`, one field per
+// provider, which the Firestore rules keep out of reach of every client. Set
+// OAUTH_TOKEN_STORE=memory to keep them in process instead when running against the mock
+// OAuth server.
+
+const COLLECTION = 'oauthTokens';
+
+interface StoredEntry {
+  payload: string; // encrypted ProviderTokens JSON
+  expiresAt: number;
+  updatedAt: number;
+}
+
+export interface TokenStore {
+  get: (userId: string, provider: BrokerProvider) => Promise<ProviderTokens | null>;
+  set: (userId: string, provider: BrokerProvider, tokens: ProviderTokens) => Promise<void>;
+  remove: (userId: string, provider: BrokerProvider) => Promise<void>;
+}
+
+const encryptionContext = (userId: string, provider: BrokerProvider) => `${userId}:${provider}`;
+
+const toEntry = (userId: string, provider: BrokerProvider, tokens: ProviderTokens): StoredEntry => ({
+  payload: encrypt(JSON.stringify(tokens), encryptionContext(userId, provider)),
+  expiresAt: tokens.expiresAt,
+  updatedAt: Date.now(),
+});
+
+const fromEntry = (userId: string, provider: BrokerProvider, entry: StoredEntry | undefined): ProviderTokens | null =>
+  entry ? JSON.parse(decrypt(entry.payload, encryptionContext(userId, provider))) : null;
+
+const createFirestoreTokenStore = (): TokenStore => {
+  const tokensDoc = (userId: string) => getFirestore(getAdminApp()).collection(COLLECTION).doc(userId);
+
+  return {
+    get: async (userId, provider) => {
+      const snapshot = await tokensDoc(userId).get();
+      return fromEntry(userId, provider, snapshot.get(provider));
+    },
+    set: async (userId, provider, tokens) => {
+      await tokensDoc(userId).set({ [provider]: toEntry(userId, provider, tokens) }, { merge: true });
+    },
+    remove: async (userId, provider) => {
+      await tokensDoc(userId).set({ [provider]: FieldValue.delete() }, { merge: true });
+    },
+  };
+};
+
+const createMemoryTokenStore = (): TokenStore => {
+  const entries = new Map<string, StoredEntry>();
+  const key = (userId: string, provider: BrokerProvider) => `${userId}/${provider}`;
+
+  return {
+    get: async (userId, provider) => fromEntry(userId, provider, entries.get(key(userId, provider))),
+    set: async (userId, provider, tokens) => {
+      entries.set(key(userId, provider), toEntry(userId, provider, tokens));
+    },
+    remove: async (userId, provider) => {
+      entries.delete(key(userId, provider));
+    },
+  };
+};
+
+let store: TokenStore | null = null;
+
+export const getTokenStore = () => {
+  store ??= process.env.OAUTH_TOKEN_STORE === 'memory' ? createMemoryTokenStore() : createFirestoreTokenStore();
+  return store;
+};
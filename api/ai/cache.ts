@@ -0,0 +1,70 @@
+import { getFirestore } from 'firebase-admin/firestore';
+import { sharedResponseSchemas } from '../../src/components/services/gemini/responses';
+import { validate } from '../../src/components/services/gemini/schema';
+import { CACHE_COLLECTION, SHARED_TTLS, isCacheKey, ticketDoc, type CacheTicket } from '../_lib/aiCache';
+import { getAdminApp } from '../_lib/firebaseAdmin';
+import { handle, httpError, json, readJson, verifyUser } from '../_lib/http';
+
+// Well below Firestore's 1 MiB document limit; the largest plans are a few kilobytes
+const MAX_VALUE_LENGTH = 100 * 1024;
+
+const parseValue = (feature: string, value: unknown) => {
+  if (typeof value !== 'string' || value.length > MAX_VALUE_LENGTH) {
+    throw httpError(400, 'Invalid cache value');
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw httpError(400, 'Cache value must be JSON');
+  }
+  const { issues } = validate(sharedResponseSchemas[feature], parsed);
+  if (issues.length > 0) {
+    throw httpError(400, `Cache value does not match the ${feature} schema: ${issues[0]}`);
+  }
+  return value;
+};
+
+// POST /api/ai/cache { feature, key, value, ticket }
+// Shares an answer through aiCache/{key}. The answer must match the feature's response schema
+// and come with the ticket /api/ai/reserve issued to this user for this feature and key, which
+// is used up here. An unexpired answer is never replaced.
+// The answer itself still comes from the browser, which calls the model directly, so a user
+// could share content of their own for a request they did make. Moving generation of shared
+// answers to the server is what would close that.
+export const POST = handle(async (request) => {
+  const userId = await verifyUser(request);
+  const body = await readJson<{ feature: string; key: string; value: string; ticket: string }>(request);
+  const { feature, key, ticket } = body;
+  const ttl = typeof feature === 'string' ? SHARED_TTLS[feature] : undefined;
+  if (!ttl || !sharedResponseSchemas[feature as string]) {
+    throw httpError(400, 'Answers for this feature are not shared');
+  }
+  if (!isCacheKey(key)) {
+    throw httpError(400, 'Invalid cache key');
+  }
+  if (typeof ticket !== 'string' || !/^[A-Za-z0-9]{1,64}$/.test(ticket)) {
+    throw httpError(403, 'Missing cache ticket');
+  }
+  const value = parseValue(feature as string, body.value);
+
+  const firestore = getFirestore(getAdminApp());
+  const answerDoc = firestore.collection(CACHE_COLLECTION).doc(key);
+  const stored = await firestore.runTransaction(async (transaction) => {
+    const issued = await transaction.get(ticketDoc(ticket));
+    const existing = await transaction.get(answerDoc);
+    const createdAt = Date.now();
+    const grant = issued.data() as CacheTicket | undefined;
+    if (!grant || grant.userId !== userId || grant.feature !== feature || grant.key !== key || grant.expiresAt <= createdAt) {
+      throw httpError(403, 'Invalid cache ticket');
+    }
+
+    transaction.delete(ticketDoc(ticket));
+    if (existing.exists && existing.get('expiresAt') > createdAt) return false;
+
+    transaction.set(answerDoc, { key, feature, value, createdAt, expiresAt: createdAt + ttl, createdBy: userId });
+    return true;
+  });
+
+  return json({ stored });
+});
@@ -0,0 +1,31 @@
+import { getFirestore } from 'firebase-admin/firestore';
+import { SHARED_TTLS, isCacheKey, issueCacheTicket } from '../_lib/aiCache';
+import { DAILY_AI_QUOTA, addUsage, checkFeature, usageDoc } from '../_lib/aiUsage';
+import { getAdminApp } from '../_lib/firebaseAdmin';
+import { handle, httpError, json, readJson, verifyIdToken } from '../_lib/http';
+
+// POST /api/ai/reserve { feature, cacheKey? }
+// Counts one model request against the user's daily quota before it is made. The check and
+// the count happen in one transaction, so parallel requests can't slip past the quota. For a
+// shared feature with a cache key, the response carries the ticket needed to share the answer.
+export const POST = handle(async (request) => {
+  const user = await verifyIdToken(request);
+  const body = await readJson<{ feature: string; cacheKey: string }>(request);
+  const feature = checkFeature(body.feature);
+  const shareable = SHARED_TTLS[feature] !== undefined && isCacheKey(body.cacheKey);
+
+  const { used, ticket } = await getFirestore(getAdminApp()).runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(usageDoc(user.uid));
+    const requests: number = snapshot.get('requests') ?? 0;
+    if (requests >= DAILY_AI_QUOTA) {
+      throw httpError(429, `Daily quota of ${DAILY_AI_QUOTA} AI requests reached`);
+    }
+    addUsage(user, feature, { requests: 1 }, transaction);
+    return {
+      used: requests + 1,
+      ticket: shareable ? issueCacheTicket(transaction, user.uid, feature, body.cacheKey as string) : null,
+    };
+  });
+
+  return json({ remaining: DAILY_AI_QUOTA - used, ticket });
+});
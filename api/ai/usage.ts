@@ -0,0 +1,41 @@
+import { addUsage, checkFeature, type UsageTotals } from '../_lib/aiUsage';
+import { handle, httpError, json, readJson, verifyIdToken } from '../_lib/http';
+
+// Far above any single answer; anything larger is a bad report, not usage
+const MAX_TOKENS = 10_000_000;
+const MAX_COST = 100; // USD
+
+interface UsageReport {
+  feature: string;
+  cacheHit: boolean;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+const checkAmount = (value: unknown, max: number, name: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > max) {
+    throw httpError(400, `Invalid ${name}`);
+  }
+  return value;
+};
+
+// POST /api/ai/usage { feature, cacheHit: true } or { feature, inputTokens, outputTokens, costUsd }
+// Records a cache hit, or the tokens and cost of a model answer. The request itself was
+// already counted by /api/ai/reserve.
+export const POST = handle(async (request) => {
+  const user = await verifyIdToken(request);
+  const report = await readJson<UsageReport>(request);
+  const feature = checkFeature(report.feature);
+
+  const totals: UsageTotals = report.cacheHit === true
+    ? { cacheHits: 1 }
+    : {
+        inputTokens: Math.round(checkAmount(report.inputTokens, MAX_TOKENS, 'inputTokens')),
+        outputTokens: Math.round(checkAmount(report.outputTokens, MAX_TOKENS, 'outputTokens')),
+        costUsd: checkAmount(report.costUsd, MAX_COST, 'costUsd'),
+      };
+  await addUsage(user, feature, totals);
+
+  return json({ recorded: true });
+});
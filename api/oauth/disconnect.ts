@@ -0,0 +1,22 @@
+import { handle, httpError, json, readJson, verifyUser } from '../_lib/http';
+import { isBrokerProvider, revokeTokens } from '../_lib/providers';
+import { getTokenStore } from '../_lib/tokenStore';
+
+// POST /api/oauth/disconnect { provider }
+// Revokes the provider grant and deletes the stored tokens.
+export const POST = handle(async (request) => {
+  const userId = await verifyUser(request);
+  const { provider } = await readJson<{ provider: string }>(request);
+  if (!isBrokerProvider(provider)) {
+    throw httpError(400, 'Unknown provider');
+  }
+
+  const store = getTokenStore();
+  const tokens = await store.get(userId, provider);
+  if (tokens) {
+    await revokeTokens(provider, tokens).catch((error) => console.error(`Error revoking ${provider} tokens:`, error));
+    await store.remove(userId, provider);
+  }
+
+  return json({ disconnected: true });
+});
@@ -0,0 +1,19 @@
+import { handle, httpError, json, readJson, requestOrigin, verifyUser } from '../_lib/http';
+import { exchangeCode, isBrokerProvider } from '../_lib/providers';
+import { getTokenStore } from '../_lib/tokenStore';
+
+// POST /api/oauth/exchange { provider, code }
+// Trades an authorization code for tokens, keeps the refresh token and returns only the
+// short-lived access token.
+export const POST = handle(async (request) => {
+  const userId = await verifyUser(request);
+  const { provider, code } = await readJson<{ provider: string; code: string }>(request);
+  if (!isBrokerProvider(provider) || typeof code !== 'string' || !code) {
+    throw httpError(400, 'Expected a provider and an authorization code');
+  }
+
+  const tokens = await exchangeCode(provider, code, requestOrigin(request));
+  await getTokenStore().set(userId, provider, tokens);
+
+  return json({ accessToken: tokens.accessToken, expiresAt: tokens.expiresAt });
+});
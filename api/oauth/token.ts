@@ -0,0 +1,38 @@
+import { handle, httpError, json, readJson, verifyUser, type HttpError } from '../_lib/http';
+import { isBrokerProvider, refreshTokens } from '../_lib/providers';
+import { getTokenStore } from '../_lib/tokenStore';
+
+// Refresh a little before the provider's own expiry so in-flight requests don't fail
+const EXPIRY_MARGIN = 5 * 60 * 1000;
+
+// POST /api/oauth/token { provider, forceRefresh? }
+// Returns a valid access token for the signed-in user, refreshing it when it is about to
+// expire or when the caller just had it rejected.
+export const POST = handle(async (request) => {
+  const userId = await verifyUser(request);
+  const { provider, forceRefresh } = await readJson<{ provider: string; forceRefresh: boolean }>(request);
+  if (!isBrokerProvider(provider)) {
+    throw httpError(400, 'Unknown provider');
+  }
+
+  const store = getTokenStore();
+  let tokens = await store.get(userId, provider);
+  if (!tokens) {
+    throw httpError(404, `No ${provider} connection for this user`);
+  }
+
+  if (forceRefresh === true || Date.now() > tokens.expiresAt - EXPIRY_MARGIN) {
+    try {
+      tokens = await refreshTokens(provider, tokens);
+    } catch (error) {
+      // The grant was revoked on the provider's side; the user has to connect again
+      if ((error as HttpError).status === 401) {
+        await store.remove(userId, provider);
+      }
+      throw error;
+    }
+    await store.set(userId, provider, tokens);
+  }
+
+  return json({ accessToken: tokens.accessToken, expiresAt: tokens.expiresAt });
+});
@@ -0,0 +1,126 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomBytes } from 'node:crypto';
+
+// Stand-in for the Google and Strava OAuth endpoints, for exercising the token broker
+// locally. Start it with `npm run oauth:mock`, then run the broker with
+// OAUTH_MOCK_SERVER_URL=http://localhost:4010 and the front end with
+// VITE_OAUTH_MOCK_SERVER_URL=http://localhost:4010. Access tokens expire after
+// MOCK_TOKEN_TTL seconds (default 120) so refreshes happen within a normal session.
+
+const PORT = Number(process.env.MOCK_OAUTH_PORT) || 4010;
+const TOKEN_TTL = Number(process.env.MOCK_TOKEN_TTL) || 120;
+const PROVIDERS = ['google_fit', 'strava'];
+
+const codes = new Map<string, string>(); // code -> provider
+const refreshTokens = new Map<string, string>(); // refresh token -> provider
+const grants = new Map<string, string>(); // access token -> refresh token, for Strava's deauthorize
+
+const token = (prefix: string) => `${prefix}-${randomBytes(12).toString('hex')}`;
+
+const readForm = async (request: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf8'));
+};
+
+const send = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+// Google returns expires_in and only sends a refresh token on consent; Strava returns
+// expires_at and may hand out a new refresh token on every refresh
+const issueTokens = (provider: string, previousRefreshToken?: string) => {
+  const refreshToken = provider === 'strava' || !previousRefreshToken ? token('mock-refresh') : undefined;
+  if (refreshToken) {
+    refreshTokens.set(refreshToken, provider);
+    if (previousRefreshToken) refreshTokens.delete(previousRefreshToken);
+  }
+
+  const accessToken = token('mock-access');
+  grants.set(accessToken, refreshToken ?? previousRefreshToken!);
+  return provider === 'strava'
+    ? { token_type: 'Bearer', access_token: accessToken, refresh_token: refreshToken, expires_in: TOKEN_TTL, expires_at: Math.floor(Date.now() / 1000) + TOKEN_TTL }
+    : { token_type: 'Bearer', access_token: accessToken, expires_in: TOKEN_TTL, scope: 'mock', ...(refreshToken && { refresh_token: refreshToken }) };
+};
+
+const handleToken = async (provider: string, request: IncomingMessage, response: ServerResponse) => {
+  const form = await readForm(request);
+  if (!form.get('client_id') || !form.get('client_secret')) {
+    send(response, 401, { error: 'invalid_client' });
+    return;
+  }
+
+  const grantType = form.get('grant_type');
+  if (grantType === 'authorization_code') {
+    const code = form.get('code') ?? '';
+    if (codes.get(code) !== provider || !form.get('redirect_uri')) {
+      send(response, 400, { error: 'invalid_grant' });
+      return;
+    }
+    codes.delete(code);
+    send(response, 200, issueTokens(provider));
+    return;
+  }
+
+  if (grantType === 'refresh_token') {
+    const refreshToken = form.get('refresh_token') ?? '';
+    if (refreshTokens.get(refreshToken) !== provider) {
+      send(response, 400, { error: 'invalid_grant' });
+      return;
+    }
+    send(response, 200, issueTokens(provider, refreshToken));
+    return;
+  }
+
+  send(response, 400, { error: 'unsupported_grant_type' });
+};
+
+const server = createServer(async (request, response) => {
+  const url = new URL(request.url ?? '/', `http://localhost:${PORT}`);
+  const [, provider, action] = url.pathname.split('/');
+  console.log(`${request.method} ${url.pathname}`);
+
+  if (!PROVIDERS.includes(provider)) {
+    send(response, 404, { error: 'not_found' });
+    return;
+  }
+
+  // Consent is granted immediately: redirect straight back with a fresh code
+  if (action === 'authorize' && request.method === 'GET') {
+    const redirectUri = url.searchParams.get('redirect_uri');
+    if (!redirectUri) {
+      send(response, 400, { error: 'invalid_request' });
+      return;
+    }
+    const code = token('mock-code');
+    codes.set(code, provider);
+    const redirect = new URL(redirectUri);
+    redirect.searchParams.set('code', code);
+    const state = url.searchParams.get('state');
+    if (state) redirect.searchParams.set('state', state);
+    response.writeHead(302, { Location: redirect.toString() });
+    response.end();
+    return;
+  }
+
+  if (action === 'token' && request.method === 'POST') {
+    await handleToken(provider, request, response);
+    return;
+  }
+
+  if (action === 'revoke' && request.method === 'POST') {
+    const form = await readForm(request);
+    // Google revokes by token, Strava deauthorizes by access token
+    const accessToken = form.get('access_token');
+    refreshTokens.delete(accessToken ? grants.get(accessToken) ?? '' : form.get('token') ?? '');
+    send(response, 200, {});
+    return;
+  }
+
+  send(response, 404, { error: 'not_found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OAuth server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,49 @@
+import { createServer } from 'node:http';
+import dotenv from 'dotenv';
+import { POST as aiCache } from '../api/ai/cache';
+import { POST as aiReserve } from '../api/ai/reserve';
+import { POST as aiUsage } from '../api/ai/usage';
+import { POST as disconnect } from '../api/oauth/disconnect';
+import { POST as exchange } from '../api/oauth/exchange';
+import { POST as token } from '../api/oauth/token';
+
+// Serves the token broker and AI endpoints locally, outside of Vercel. `npm run dev` proxies
+// /api here. Reads the same .env as the front end; see the README for the variables.
+
+dotenv.config();
+
+const PORT = Number(process.env.OAUTH_BROKER_PORT) || 3001;
+
+const routes: Record<string, (request: Request) => Promise<Response>> = {
+  '/api/oauth/exchange': exchange,
+  '/api/oauth/token': token,
+  '/api/oauth/disconnect': disconnect,
+  '/api/ai/cache': aiCache,
+  '/api/ai/reserve': aiReserve,
+  '/api/ai/usage': aiUsage,
+};
+
+const server = createServer(async (incoming, outgoing) => {
+  const url = new URL(incoming.url ?? '/', `http://localhost:${PORT}`);
+  const route = routes[url.pathname];
+  if (!route || incoming.method !== 'POST') {
+    outgoing.writeHead(404).end();
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of incoming) chunks.push(chunk as Buffer);
+  const headers = new Headers();
+  Object.entries(incoming.headers).forEach(([name, value]) => {
+    if (typeof value === 'string') headers.set(name, value);
+  });
+
+  const response = await route(new Request(url, { method: 'POST', headers, body: Buffer.concat(chunks) }));
+  outgoing.writeHead(response.status, Object.fromEntries(response.headers));
+  outgoing.end(Buffer.from(await response.arrayBuffer()));
+  console.log(`${url.pathname} ${response.status}`);
+});
+
+server.listen(PORT, () => {
+  console.log(`Token broker listening on http://localhost:${PORT}`);
+});
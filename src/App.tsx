@@ -21,6 +21,7 @@ import AthleteDashboard from './components/Athlete/AthleteDashboard';
 import RecruiterDashboard from './components/Recruiter/RecruiterDashboard';
 import GoogleFitCallback from './components/auth/GoogleFitCallback';
 import StravaCallback from './components/auth/StravaCallback';
+import AiUsageDashboard from './components/Admin/AiUsageDashboard';
 import './App.css';
 
 function App() {
@@ -44,6 +45,7 @@ function App() {
           <Route path="/privacy-policy" element={<PrivacyPolicy />} />
           <Route path="/terms-and-conditions" element={<TermsAndConditions />} />
           <Route path="/strava-callback" element={<StravaCallback />} />
+          <Route path="/admin/ai-usage" element={<AiUsageDashboard />} />
           <Route path="/" element={
             <>
               <HeroSection />
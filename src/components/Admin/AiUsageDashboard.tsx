@@ -0,0 +1,188 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { FaRobot, FaSyncAlt, FaSpinner } from 'react-icons/fa';
+import { DAILY_AI_QUOTA, usageDay, useAiUsage } from '../services/llm/usage';
+import type { AiUsageTotals } from '../types';
+
+const emptyTotals = (): AiUsageTotals => ({ requests: 0, cacheHits: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+
+// Usage documents only contain the counters that were ever incremented
+const addTotals = (sum: AiUsageTotals, totals: Partial<AiUsageTotals>) => ({
+  requests: sum.requests + (totals.requests ?? 0),
+  cacheHits: sum.cacheHits + (totals.cacheHits ?? 0),
+  inputTokens: sum.inputTokens + (totals.inputTokens ?? 0),
+  outputTokens: sum.outputTokens + (totals.outputTokens ?? 0),
+  costUsd: sum.costUsd + (totals.costUsd ?? 0),
+});
+
+const hitRate = (totals: AiUsageTotals) => {
+  const answered = totals.requests + totals.cacheHits;
+  return answered ? `${Math.round((totals.cacheHits / answered) * 100)}%` : '--';
+};
+
+const formatCost = (costUsd: number) => `$${costUsd.toFixed(costUsd < 1 ? 4 : 2)}`;
+
+const AiUsageDashboard = () => {
+  const [day, setDay] = useState(usageDay());
+  const [revision, setRevision] = useState(0);
+  const { usage, loading, error } = useAiUsage(day, revision);
+
+  const totals = useMemo(() => usage.reduce(addTotals, emptyTotals()), [usage]);
+  const users = useMemo(
+    () => usage.map((entry) => ({ ...entry, ...addTotals(emptyTotals(), entry) })).sort((a, b) => b.costUsd - a.costUsd),
+    [usage]
+  );
+  const features = useMemo(() => {
+    const byFeature: Record<string, AiUsageTotals> = {};
+    usage.forEach((entry) =>
+      Object.entries(entry.features ?? {}).forEach(([feature, featureTotals]) => {
+        byFeature[feature] = addTotals(byFeature[feature] ?? emptyTotals(), featureTotals);
+      })
+    );
+    return Object.entries(byFeature).sort(([, a], [, b]) => b.requests - a.requests);
+  }, [usage]);
+  const usersAtQuota = users.filter((entry) => entry.requests >= DAILY_AI_QUOTA).length;
+
+  return (
+    <div className="min-h-screen p-8 max-w-6xl mx-auto space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <FaRobot className="text-primary text-2xl" />
+          <h1 className="text-2xl font-bold">AI Usage</h1>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={day}
+            max={usageDay()}
+            onChange={(e) => e.target.value && setDay(e.target.value)}
+            className="bg-white/10 rounded-lg px-3 py-2"
+          />
+          <button
+            onClick={() => setRevision((prev) => prev + 1)}
+            className="p-3 bg-white/10 hover:bg-white/20 rounded-lg"
+            title="Refresh"
+          >
+            {loading ? <FaSpinner className="animate-spin" /> : <FaSyncAlt />}
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-400">Days are UTC. Each user may make {DAILY_AI_QUOTA} model requests per day.</p>
+
+      {error && <div className="bg-red-500/20 text-red-300 p-4 rounded-lg">{error}</div>}
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="grid grid-cols-2 md:grid-cols-5 gap-4"
+      >
+        <div className="bg-white/10 p-4 rounded-lg">
+          <p className="text-sm text-gray-400">Model requests</p>
+          <p className="text-2xl font-bold">{totals.requests}</p>
+        </div>
+        <div className="bg-white/10 p-4 rounded-lg">
+          <p className="text-sm text-gray-400">Cache hits</p>
+          <p className="text-2xl font-bold">{totals.cacheHits}</p>
+          <p className="text-xs text-gray-400">{hitRate(totals)} hit rate</p>
+        </div>
+        <div className="bg-white/10 p-4 rounded-lg">
+          <p className="text-sm text-gray-400">Tokens in / out</p>
+          <p className="text-2xl font-bold">
+            {totals.inputTokens.toLocaleString()}
+            <span className="text-sm text-gray-400"> / {totals.outputTokens.toLocaleString()}</span>
+          </p>
+        </div>
+        <div className="bg-white/10 p-4 rounded-lg">
+          <p className="text-sm text-gray-400">Estimated cost</p>
+          <p className="text-2xl font-bold">{formatCost(totals.costUsd)}</p>
+        </div>
+        <div className="bg-white/10 p-4 rounded-lg">
+          <p className="text-sm text-gray-400">Users at quota</p>
+          <p className={`text-2xl font-bold ${usersAtQuota > 0 ? 'text-yellow-500' : ''}`}>
+            {usersAtQuota}
+            <span className="text-sm text-gray-400"> / {users.length}</span>
+          </p>
+        </div>
+      </motion.div>
+
+      <div className="bg-white/10 p-6 rounded-xl overflow-x-auto">
+        <h2 className="text-xl font-semibold mb-4">By user</h2>
+        {users.length === 0 ? (
+          <p className="text-gray-400">{loading ? 'Loading usage...' : 'No AI usage on this day'}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-white/10 text-left text-gray-400">
+                <th className="p-2">User</th>
+                <th className="p-2">Requests</th>
+                <th className="p-2">Cache hits</th>
+                <th className="p-2">Tokens in / out</th>
+                <th className="p-2">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((entry) => (
+                <tr key={entry.userId} className="border-b border-white/10 last:border-0">
+                  <td className="p-2">
+                    <p>{entry.email ?? 'Unknown'}</p>
+                    <p className="text-xs text-gray-500">{entry.userId}</p>
+                  </td>
+                  <td className="p-2 w-48">
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 h-2 bg-white/10 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full ${entry.requests >= DAILY_AI_QUOTA ? 'bg-yellow-500' : 'bg-primary'}`}
+                          style={{ width: `${Math.min(100, (entry.requests / DAILY_AI_QUOTA) * 100)}%` }}
+                        />
+                      </div>
+                      <span>
+                        {entry.requests}/{DAILY_AI_QUOTA}
+                      </span>
+                    </div>
+                  </td>
+                  <td className="p-2">{entry.cacheHits}</td>
+                  <td className="p-2">
+                    {entry.inputTokens.toLocaleString()} / {entry.outputTokens.toLocaleString()}
+                  </td>
+                  <td className="p-2">{formatCost(entry.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {features.length > 0 && (
+        <div className="bg-white/10 p-6 rounded-xl overflow-x-auto">
+          <h2 className="text-xl font-semibold mb-4">By feature</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-white/10 text-left text-gray-400">
+                <th className="p-2">Feature</th>
+                <th className="p-2">Requests</th>
+                <th className="p-2">Cache hit rate</th>
+                <th className="p-2">Tokens in / out</th>
+                <th className="p-2">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {features.map(([feature, featureTotals]) => (
+                <tr key={feature} className="border-b border-white/10 last:border-0">
+                  <td className="p-2 font-medium">{feature}</td>
+                  <td className="p-2">{featureTotals.requests}</td>
+                  <td className="p-2">{hitRate(featureTotals)}</td>
+                  <td className="p-2">
+                    {featureTotals.inputTokens.toLocaleString()} / {featureTotals.outputTokens.toLocaleString()}
+                  </td>
+                  <td className="p-2">{formatCost(featureTotals.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AiUsageDashboard;
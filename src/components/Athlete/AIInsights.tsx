@@ -30,266 +30,99 @@ import {
   PolarRadiusAxis,
   Radar,
 } from 'recharts';
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import type { AthleteData } from './AthleteDashboard';
-
-// Initialize Gemini AI
-const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
+import ForecastNarrative from './ForecastNarrative';
+import { auth } from '../config/firebase';
+import {
+  getAthleteInsights,
+  getGrowthTrend,
+  getMotivationalQuote,
+  getRecoveryTargets,
+  getWeeklyMealOutline,
+  type AthleteInsight,
+  type GrowthTrendPoint,
+  type MealOutline,
+  type MotivationalQuote,
+  type RecoveryTarget,
+} from '../services/gemini';
+import { formatTestValue, PERFORMANCE_TESTS, usePerformanceForecasts } from '../services/performanceForecast';
+import { useUnits } from '../services/units';
 
 interface AIInsightsProps {
   athleteData: AthleteData;
 }
 
-interface Insight {
+interface Insight extends AthleteInsight {
   id: string;
-  type: 'performance' | 'training' | 'nutrition' | 'recovery';
-  title: string;
-  description: string;
-  recommendation: string;
-  priority: 'high' | 'medium' | 'low';
   timestamp: Date;
 }
 
-interface PerformanceMetric {
-  date: string;
-  value: number;
-  benchmark: number;
-}
-
-interface Quote {
-  text: string;
-  author: string;
-}
-
-interface NutritionPlan {
-  day: string;
-  meals: string[];
-  calories: number;
-}
-
-interface RecoveryMetric {
-  type: string;
-  value: number;
-  target: number;
-}
-
-interface GrowthData {
-  date: string;
-  performance: number;
-  recovery: number;
-  nutrition: number;
-}
 
 const AIInsights = ({ athleteData }: AIInsightsProps) => {
   const [insights, setInsights] = useState<Insight[]>([]);
-  const [performanceData, setPerformanceData] = useState<PerformanceMetric[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedInsight, setSelectedInsight] = useState<Insight | null>(null);
-  const [motivationalQuote, setMotivationalQuote] = useState<Quote | null>(null);
+  const [motivationalQuote, setMotivationalQuote] = useState<MotivationalQuote | null>(null);
   const [strengthMetrics, setStrengthMetrics] = useState<any[]>([]);
-  const [nutritionPlans, setNutritionPlans] = useState<NutritionPlan[]>([]);
-  const [recoveryMetrics, setRecoveryMetrics] = useState<RecoveryMetric[]>([]);
-  const [growthData, setGrowthData] = useState<GrowthData[]>([]);
+  const [nutritionPlans, setNutritionPlans] = useState<MealOutline[]>([]);
+  const [recoveryMetrics, setRecoveryMetrics] = useState<RecoveryTarget[]>([]);
+  const [growthData, setGrowthData] = useState<GrowthTrendPoint[]>([]);
   const [theme, setTheme] = useState<'dark' | 'light'>('dark');
+  const { forecasts, loading: forecastsLoading } = usePerformanceForecasts(auth.currentUser?.uid);
+  const { system } = useUnits();
 
   // Generate insights using Gemini AI
   const generateInsights = async () => {
     try {
-      const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-
-      const prompt = `
-        Generate personalized insights for a ${athleteData.sport} athlete playing ${athleteData.position} position.
-        Include:
-        1. Performance analysis
-        2. Training recommendations
-        3. Recovery suggestions
-        4. Nutrition tips
-        Format as JSON with structure:
-        {
-          "insights": [
-            {
-              "type": "performance|training|nutrition|recovery",
-              "title": "string",
-              "description": "string",
-              "recommendation": "string",
-              "priority": "high|medium|low"
-            }
-          ]
-        }
-      `;
-
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
-
-      // Clean the response (remove Markdown formatting)
-      const cleanedResponse = responseText.replace(/```json/g, "").replace(/```/g, "").trim();
-
-      // Parse the cleaned response
-      const response = JSON.parse(cleanedResponse);
-
-      if (!response.insights) {
-        throw new Error("Invalid response format from Gemini AI");
-      }
-
-      const formattedInsights = response.insights.map((insight: any, index: number) => ({
+      const { insights: athleteInsights } = await getAthleteInsights(athleteData.sport, athleteData.position);
+      setInsights(athleteInsights.map((insight, index) => ({
         ...insight,
         id: `insight-${index}`,
         timestamp: new Date(),
-      }));
-
-      setInsights(formattedInsights);
+      })));
     } catch (error) {
       console.error('Error generating insights:', error);
-      setInsights([]); // Fallback to empty insights
+      setInsights([]);
     }
   };
 
   // Generate motivational quote
   const generateQuote = async () => {
     try {
-      const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-      const result = await model.generateContent(
-        `Generate an inspiring sports quote relevant for a ${athleteData.sport} athlete.`
-      );
-      const quote = result.response.text().split(' - ');
-      setMotivationalQuote({
-        text: quote[0],
-        author: quote[1] || 'Anonymous',
-      });
+      setMotivationalQuote(await getMotivationalQuote(athleteData.sport));
     } catch (error) {
       console.error('Error generating quote:', error);
-      setMotivationalQuote(null); // Fallback to no quote
+      setMotivationalQuote(null);
     }
   };
 
   // Generate nutrition plans
   const generateNutritionPlans = async () => {
     try {
-      const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-
-      const prompt = `
-        Generate a 7-day nutrition plan for a ${athleteData.sport} athlete. Include meals and calorie counts.
-        Format the response as a valid JSON object with the following structure:
-        {
-          "plans": [
-            {
-              "day": "string",
-              "meals": ["string"],
-              "calories": number
-            }
-          ]
-        }
-        Do not include any additional text or explanations. Only return the JSON object.
-      `;
-
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
-
-      // Clean the response (remove Markdown formatting and extra text)
-      const cleanedResponse = responseText.replace(/```json/g, "").replace(/```/g, "").trim();
-
-      // Validate if the response is valid JSON
-      try {
-        const response = JSON.parse(cleanedResponse);
-        if (!response.plans) {
-          throw new Error("Invalid response format from Gemini AI");
-        }
-        setNutritionPlans(response.plans);
-      } catch (error) {
-        console.error("Invalid JSON response:", cleanedResponse);
-        setNutritionPlans([]); // Fallback to empty plans
-      }
+      setNutritionPlans((await getWeeklyMealOutline(athleteData.sport)).plans);
     } catch (error) {
       console.error('Error generating nutrition plans:', error);
-      setNutritionPlans([]); // Fallback to empty plans
+      setNutritionPlans([]);
     }
   };
 
   // Generate recovery metrics
   const generateRecoveryMetrics = async () => {
     try {
-      const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-
-      const prompt = `
-        Generate recovery metrics for a ${athleteData.sport} athlete. Include sleep quality, heart rate variability, and recovery scores.
-        Format the response as a valid JSON object with the following structure:
-        {
-          "metrics": [
-            {
-              "type": "string",
-              "value": number,
-              "target": number
-            }
-          ]
-        }
-        Do not include any additional text or explanations. Only return the JSON object.
-      `;
-
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
-
-      // Clean the response (remove Markdown formatting and extra text)
-      const cleanedResponse = responseText.replace(/```json/g, "").replace(/```/g, "").trim();
-
-      // Validate if the response is valid JSON
-      try {
-        const response = JSON.parse(cleanedResponse);
-        if (!response.metrics) {
-          throw new Error("Invalid response format from Gemini AI");
-        }
-        setRecoveryMetrics(response.metrics);
-      } catch (error) {
-        console.error("Invalid JSON response:", cleanedResponse);
-        setRecoveryMetrics([]); // Fallback to empty metrics
-      }
+      setRecoveryMetrics((await getRecoveryTargets(athleteData.sport)).metrics);
     } catch (error) {
       console.error('Error generating recovery metrics:', error);
-      setRecoveryMetrics([]); // Fallback to empty metrics
+      setRecoveryMetrics([]);
     }
   };
 
   // Generate growth data
   const generateGrowthData = async () => {
     try {
-      const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-
-      const prompt = `
-        Generate overall growth data for a ${athleteData.sport} athlete over the last month.
-        Include performance, recovery, and nutrition scores.
-        Format the response as a valid JSON object with the following structure:
-        {
-          "growthData": [
-            {
-              "date": "string",
-              "performance": number,
-              "recovery": number,
-              "nutrition": number
-            }
-          ]
-        }
-        Do not include any additional text or explanations. Only return the JSON object.
-      `;
-
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
-
-      // Clean the response (remove Markdown formatting and extra text)
-      const cleanedResponse = responseText.replace(/```json/g, "").replace(/```/g, "").trim();
-
-      // Validate if the response is valid JSON
-      try {
-        const response = JSON.parse(cleanedResponse);
-        if (!response.growthData) {
-          throw new Error("Invalid response format from Gemini AI");
-        }
-        setGrowthData(response.growthData);
-      } catch (error) {
-        console.error("Invalid JSON response:", cleanedResponse);
-        setGrowthData([]); // Fallback to empty growth data
-      }
+      setGrowthData((await getGrowthTrend(athleteData.sport)).growthData);
     } catch (error) {
       console.error('Error generating growth data:', error);
-      setGrowthData([]); // Fallback to empty growth data
+      setGrowthData([]);
     }
   };
 
@@ -304,14 +137,6 @@ const AIInsights = ({ athleteData }: AIInsightsProps) => {
           generateNutritionPlans(),
           generateRecoveryMetrics(),
           generateGrowthData(),
-          // Generate sample performance data
-          setPerformanceData(
-            Array.from({ length: 7 }, (_, i) => ({
-              date: new Date(Date.now() - i * 24 * 60 * 60 * 1000).toLocaleDateString(),
-              value: 70 + Math.random() * 20,
-              benchmark: 75,
-            }))
-          ),
           // Generate sample strength metrics
           setStrengthMetrics([
             { attribute: 'Speed', value: 80, average: 70 },
@@ -387,7 +212,7 @@ const AIInsights = ({ athleteData }: AIInsightsProps) => {
 
       {/* Performance Overview */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
-        {/* Performance Trend */}
+        {/* Performance Forecast */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -395,38 +220,41 @@ const AIInsights = ({ athleteData }: AIInsightsProps) => {
         >
           <div className="flex items-center gap-3 mb-6">
             <FaChartLine className="text-primary text-2xl" />
-            <h2 className="text-xl font-semibold">Performance Trend</h2>
+            <h2 className="text-xl font-semibold">Performance Forecast</h2>
+            {forecastsLoading && <FaSpinner className="animate-spin text-gray-400" />}
           </div>
 
-          <div className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={performanceData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#444" />
-                <XAxis dataKey="date" stroke="#888" />
-                <YAxis stroke="#888" />
-                <Tooltip
-                  contentStyle={{
-                    backgroundColor: 'rgba(0, 0, 0, 0.8)',
-                    border: '1px solid #666',
-                  }}
-                />
-                <Line
-                  type="monotone"
-                  dataKey="value"
-                  name="Your Performance"
-                  stroke="#646cff"
-                  strokeWidth={2}
-                />
-                <Line
-                  type="monotone"
-                  dataKey="benchmark"
-                  name="Benchmark"
-                  stroke="#888"
-                  strokeDasharray="5 5"
-                />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
+          {forecasts.length > 0 ? (
+            <div className="space-y-4">
+              {forecasts.map((forecast) => {
+                const projected = forecast.points[forecast.points.length - 1];
+                return (
+                  <div key={forecast.test} className="flex items-center justify-between bg-white/5 p-4 rounded-lg">
+                    <div>
+                      <p className="font-medium">{PERFORMANCE_TESTS[forecast.test].label}</p>
+                      <p className="text-sm text-gray-400">
+                        Now {formatTestValue(forecast.test, forecast.latest.value, system)}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-bold">{formatTestValue(forecast.test, projected.value, system)}</p>
+                      <p className="text-xs text-gray-400">
+                        In {projected.weeks} weeks, {formatTestValue(forecast.test, projected.low, system)} to{' '}
+                        {formatTestValue(forecast.test, projected.high, system)}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+              <ForecastNarrative sport={athleteData.sport} position={athleteData.position} forecasts={forecasts} />
+            </div>
+          ) : (
+            !forecastsLoading && (
+              <p className="text-gray-400">
+                Log sprint, jump and strength test results under Performance to see where your training is heading.
+              </p>
+            )
+          )}
         </motion.div>
 
         {/* Strength Analysis */}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { FaHome, FaClock, FaUtensils, FaDumbbell, FaChartLine, FaHeartbeat, FaHandshake, FaCog, FaRobot, FaBell, FaUsers, FaChartBar } from 'react-icons/fa';
+import { FaHome, FaClock, FaUtensils, FaDumbbell, FaChartLine, FaHeartbeat, FaHandshake, FaCog, FaRobot, FaBell, FaUsers, FaChartBar, FaComments } from 'react-icons/fa';
 import Sidebar from './Sidebar';
 import Overview from './Overview';
 import WearableSync from './WearableSync';
@@ -11,11 +11,13 @@ import InjuryPrevention from './InjuryPrevention';
 import Recruitment from './Recruitment';
 import Settings from './Settings';
 import AIInsights from './AIInsights';
+import Coach from './Coach';
 import Notifications from './Notifications';
 import Social from './Social';
 import LiveComparison from './LiveComparison';
 import { db, auth } from '../config/firebase';
 import { doc, getDoc } from 'firebase/firestore';
+import { loadUnitPreference } from '../services/units';
 
 export type AthleteData = {
   name: string;
@@ -34,6 +36,7 @@ const menuItems = [
   { icon: FaHeartbeat, label: 'Injury Prevention', id: 'injury' },
   { icon: FaHandshake, label: 'Recruitment', id: 'recruitment' },
   { icon: FaRobot, label: 'AI Insights', id: 'ai-insights' },
+  { icon: FaComments, label: 'Coach', id: 'coach' },
   { icon: FaBell, label: 'Notifications', id: 'notifications' },
   { icon: FaUsers, label: 'Community', id: 'social' },
   { icon: FaChartBar, label: 'Live Comparison', id: 'comparison' },
@@ -51,6 +54,7 @@ const AthleteDashboard = () => {
         const userId = auth.currentUser?.uid;
         if (!userId) return;
 
+        loadUnitPreference(userId).catch(error => console.error('Error loading unit preference:', error));
         const athleteDoc = await getDoc(doc(db, 'athletes', userId));
         if (athleteDoc.exists()) {
           setAthleteData(athleteDoc.data() as AthleteData);
@@ -99,6 +103,8 @@ const AthleteDashboard = () => {
         return <Recruitment athleteData={athleteData} />;
       case 'ai-insights':
         return <AIInsights athleteData={athleteData} />;
+      case 'coach':
+        return <Coach athleteData={athleteData} />;
       case 'notifications':
         return <Notifications athleteData={athleteData} />;
       case 'social':
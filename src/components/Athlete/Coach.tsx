@@ -0,0 +1,284 @@
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import { motion } from 'framer-motion';
+import { FaCheck, FaComments, FaExclamationTriangle, FaPaperPlane, FaPlus, FaSpinner, FaTimes, FaTrash } from 'react-icons/fa';
+import type { AthleteData } from './AthleteDashboard';
+import { auth } from '../config/firebase';
+import {
+  applyPlanChange,
+  askCoach,
+  CITATION,
+  deleteCoachThread,
+  newCoachThread,
+  resolveProposal,
+  useCoachThreads,
+} from '../services/coach';
+import type { CoachMessage, CoachThread, PlanChangeProposal } from '../types';
+
+interface CoachProps {
+  athleteData: AthleteData;
+}
+
+const SUGGESTED_QUESTIONS = [
+  'Am I ready for a hard session today?',
+  'How has my training load looked over the last two weeks?',
+  'Can you adjust my plan around my past injuries?',
+];
+
+// Citations like [readiness] are shown as labelled chips
+const renderText = (message: CoachMessage) =>
+  message.text.split(CITATION).map((part, index) => {
+    if (index % 2 === 0) return part;
+    const source = message.citations?.find((citation) => citation.id === part);
+    return source ? (
+      <span key={index} className="inline-block mx-1 px-2 py-0.5 rounded-full bg-primary/20 text-primary text-xs">
+        {source.label}
+      </span>
+    ) : (
+      `[${part}]`
+    );
+  });
+
+const Coach = ({ athleteData }: CoachProps) => {
+  const userId = auth.currentUser?.uid;
+  const [revision, setRevision] = useState(0);
+  const { threads, loading } = useCoachThreads(userId, revision);
+  const [activeThread, setActiveThread] = useState<CoachThread | null>(null);
+  const [question, setQuestion] = useState('');
+  const [asking, setAsking] = useState(false);
+  const [resolving, setResolving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [activeThread]);
+
+  const ask = async (text: string) => {
+    const trimmed = text.trim();
+    if (!userId || !trimmed || asking) return;
+
+    setQuestion('');
+    setAsking(true);
+    setError(null);
+    try {
+      await askCoach(userId, activeThread ?? newCoachThread(trimmed), trimmed, setActiveThread);
+      setRevision((prev) => prev + 1);
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    ask(question);
+  };
+
+  const handleProposal = async (proposal: PlanChangeProposal, accept: boolean) => {
+    if (!userId || !activeThread) return;
+
+    setResolving(proposal.id);
+    setError(null);
+    try {
+      if (accept) await applyPlanChange(userId, proposal);
+      setActiveThread(await resolveProposal(userId, activeThread, proposal.id, accept ? 'applied' : 'declined'));
+      setRevision((prev) => prev + 1);
+    } catch (error) {
+      console.error('Error updating training plan:', error);
+      setError('Unable to update your training plan. Please try again.');
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const handleDelete = async (threadId: string) => {
+    if (!userId) return;
+    try {
+      await deleteCoachThread(userId, threadId);
+      if (activeThread?.id === threadId) setActiveThread(null);
+      setRevision((prev) => prev + 1);
+    } catch (error) {
+      console.error('Error deleting coach thread:', error);
+      setError('Unable to delete this conversation.');
+    }
+  };
+
+  const renderProposal = (proposal: PlanChangeProposal) => (
+    <div key={proposal.id} className="mt-3 bg-white/5 p-4 rounded-lg border border-primary/30">
+      <p className="font-medium">{proposal.summary}</p>
+      <p className="text-sm text-gray-400 mt-1">{proposal.reason}</p>
+      {proposal.status === 'pending' ? (
+        <div className="flex gap-2 mt-3">
+          <button
+            onClick={() => handleProposal(proposal, true)}
+            disabled={resolving !== null}
+            className="flex items-center gap-2 px-3 py-1.5 bg-primary hover:bg-secondary rounded-lg text-sm disabled:opacity-50"
+          >
+            {resolving === proposal.id ? <FaSpinner className="animate-spin" /> : <FaCheck />}
+            Apply to my plan
+          </button>
+          <button
+            onClick={() => handleProposal(proposal, false)}
+            disabled={resolving !== null}
+            className="flex items-center gap-2 px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-sm disabled:opacity-50"
+          >
+            <FaTimes />
+            Decline
+          </button>
+        </div>
+      ) : (
+        <p className={`text-sm mt-2 ${proposal.status === 'applied' ? 'text-green-500' : 'text-gray-400'}`}>
+          {proposal.status === 'applied' ? 'Applied to your training plan' : 'Declined'}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderMessage = (message: CoachMessage) => {
+    if (message.role === 'athlete') {
+      return (
+        <div key={message.id} className="flex justify-end">
+          <div className="max-w-[80%] bg-primary/20 p-4 rounded-lg whitespace-pre-line">{message.text}</div>
+        </div>
+      );
+    }
+
+    return (
+      <div key={message.id} className="flex justify-start">
+        <div className="max-w-[80%] bg-white/5 p-4 rounded-lg">
+          {message.failed ? (
+            <p className="flex items-center gap-2 text-red-400">
+              <FaExclamationTriangle />
+              {message.text}
+            </p>
+          ) : message.text ? (
+            <p className="whitespace-pre-line">{renderText(message)}</p>
+          ) : (
+            <p className="flex items-center gap-2 text-gray-400">
+              <FaSpinner className="animate-spin" />
+              Looking at your data...
+            </p>
+          )}
+          {message.proposals?.map(renderProposal)}
+          {message.citations && message.citations.length > 0 && (
+            <details className="mt-3 text-sm text-gray-400">
+              <summary className="cursor-pointer">
+                Based on {message.citations.map((citation) => citation.label).join(', ')}
+              </summary>
+              {message.citations.map((citation) => (
+                <div key={citation.id} className="mt-2">
+                  <p className="font-medium text-gray-300">{citation.label}</p>
+                  <p className="whitespace-pre-line text-xs">{citation.text}</p>
+                </div>
+              ))}
+            </details>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <FaComments className="text-primary text-2xl" />
+        <h1 className="text-2xl font-bold">Coach</h1>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="bg-white/10 p-4 rounded-xl space-y-2 md:col-span-1">
+          <button
+            onClick={() => setActiveThread(null)}
+            disabled={asking}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-primary hover:bg-secondary rounded-lg disabled:opacity-50"
+          >
+            <FaPlus />
+            New conversation
+          </button>
+          {loading && threads.length === 0 && <p className="text-sm text-gray-400">Loading conversations...</p>}
+          {threads.map((thread) => (
+            <div
+              key={thread.id}
+              className={`group flex items-center gap-2 p-2 rounded-lg cursor-pointer ${
+                activeThread?.id === thread.id ? 'bg-white/20' : 'hover:bg-white/5'
+              }`}
+              onClick={() => !asking && setActiveThread(thread)}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm truncate">{thread.title}</p>
+                <p className="text-xs text-gray-400">{new Date(thread.updatedAt).toLocaleDateString()}</p>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(thread.id);
+                }}
+                className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-400"
+                title="Delete conversation"
+              >
+                <FaTrash />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white/10 p-6 rounded-xl md:col-span-3 flex flex-col min-h-[32rem]"
+        >
+          <div className="flex-1 space-y-4 overflow-y-auto max-h-[60vh]">
+            {activeThread ? (
+              activeThread.messages.map(renderMessage)
+            ) : (
+              <div className="text-center py-8 space-y-4">
+                <p className="text-gray-400">
+                  Hi {athleteData.name}, ask about your training, recovery or plan. Answers use your profile, injury
+                  history, training plan and the last two weeks of data.
+                </p>
+                <div className="flex flex-wrap justify-center gap-2">
+                  {SUGGESTED_QUESTIONS.map((suggestion) => (
+                    <button
+                      key={suggestion}
+                      onClick={() => ask(suggestion)}
+                      disabled={asking}
+                      className="px-3 py-2 bg-white/5 hover:bg-white/10 rounded-lg text-sm"
+                    >
+                      {suggestion}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div ref={endRef} />
+          </div>
+
+          {error && <div className="bg-red-500/20 text-red-300 p-3 rounded-lg mt-4 text-sm">{error}</div>}
+
+          <form onSubmit={handleSubmit} className="flex gap-2 mt-4">
+            <input
+              type="text"
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              placeholder="Ask your coach..."
+              className="flex-1 bg-white/5 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary"
+              disabled={asking}
+            />
+            <button
+              type="submit"
+              disabled={asking || !question.trim()}
+              className="p-3 bg-primary hover:bg-secondary rounded-lg disabled:opacity-50"
+              title="Send"
+            >
+              {asking ? <FaSpinner className="animate-spin" /> : <FaPaperPlane />}
+            </button>
+          </form>
+          <p className="text-xs text-gray-500 mt-2">
+            The coach can suggest plan changes, but nothing changes until you apply it. It can't diagnose injuries.
+          </p>
+        </motion.div>
+      </div>
+    </div>
+  );
+};
+
+export default Coach;
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { FaBrain, FaSpinner } from "react-icons/fa";
+import { describeLlmError, narratePerformanceForecast, type PerformanceNarrative } from "../services/gemini";
+import { useUnits } from "../services/units";
+import type { PerformanceForecast } from "../types";
+
+interface ForecastNarrativeProps {
+  sport: string;
+  position: string;
+  forecasts: PerformanceForecast[];
+}
+
+// The AI's explanation of the forecasts; the numbers themselves come from the forecasting module
+const ForecastNarrative = ({ sport, position, forecasts }: ForecastNarrativeProps) => {
+  const { system } = useUnits();
+  const [narrative, setNarrative] = useState<PerformanceNarrative | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (forecasts.length === 0) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    narratePerformanceForecast(sport, position, forecasts)
+      .then((result) => {
+        if (!cancelled) setNarrative(result);
+      })
+      .catch((error) => {
+        console.error("Error narrating performance forecast:", error);
+        if (!cancelled) setError(describeLlmError(error));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sport, position, forecasts, system]);
+
+  if (forecasts.length === 0) return null;
+
+  return (
+    <div className="bg-white/5 p-4 rounded-lg">
+      <div className="flex items-center gap-2 mb-3">
+        <FaBrain className="text-blue-500" />
+        <h3 className="font-semibold">What this means</h3>
+        {loading && <FaSpinner className="animate-spin text-gray-400" />}
+      </div>
+      {error ? (
+        <p className="text-sm text-gray-400">{error}</p>
+      ) : narrative ? (
+        <>
+          <p className="mb-3">{narrative.summary}</p>
+          <ul className="list-disc list-inside space-y-1 text-sm text-gray-300">
+            {narrative.highlights.map((highlight, index) => (
+              <li key={index}>{highlight}</li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-500 mt-3">Written by AI from the forecast numbers, which it cannot change.</p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-400">Explaining your forecast...</p>
+      )}
+    </div>
+  );
+};
+
+export default ForecastNarrative;
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { FaHeartbeat } from "react-icons/fa";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { auth } from "../config/firebase";
+import { ZONE_COLORS, ZONE_METHOD_LABELS, saveHeartRateSettings, useHeartRateZones } from "../services/heartRateZones";
+import type { HeartRateZoneMethod } from "../types";
+
+const MAX_SOURCE_LABELS = {
+  manual: "set manually",
+  detected: "detected from your sessions",
+  age: "estimated from age",
+};
+
+const RECENT_SESSIONS = 8;
+
+const HeartRateZonesPanel = () => {
+  const userId = auth.currentUser?.uid;
+  const [revision, setRevision] = useState(0);
+  const { heartRateZones, loading } = useHeartRateZones(userId, revision);
+  const [maxHeartRateInput, setMaxHeartRateInput] = useState("");
+  const [thresholdInput, setThresholdInput] = useState("");
+
+  const profile = heartRateZones?.profile;
+
+  useEffect(() => {
+    if (!profile) return;
+    setMaxHeartRateInput(profile.maxHeartRateSource === "manual" ? String(profile.maxHeartRate) : "");
+    setThresholdInput(profile.lactateThresholdSource === "manual" ? String(profile.lactateThresholdHeartRate) : "");
+  }, [profile]);
+
+  const updateSettings = async (settings: Parameters<typeof saveHeartRateSettings>[1]) => {
+    if (!userId) return;
+    try {
+      await saveHeartRateSettings(userId, settings);
+      setRevision((prev) => prev + 1);
+    } catch (error) {
+      console.error("Error saving heart rate settings:", error);
+    }
+  };
+
+  // An empty field goes back to the detected or estimated value
+  const parseBpm = (value: string) => (Number(value) > 0 ? Math.round(Number(value)) : null);
+
+  const sessionChartData = (heartRateZones?.sessions ?? [])
+    .slice(0, RECENT_SESSIONS)
+    .reverse()
+    .map((session) => ({
+      name: `${new Date(session.startTime).toLocaleDateString([], { month: "short", day: "numeric" })} ${session.sport}`,
+      ...Object.fromEntries(session.seconds.map((seconds, index) => [`zone${index + 1}`, Math.round(seconds / 60)])),
+    }));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/10 p-6 rounded-xl"
+    >
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <FaHeartbeat className="text-red-500 text-2xl" />
+          <h2 className="text-xl font-semibold">Heart Rate Zones</h2>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(ZONE_METHOD_LABELS) as HeartRateZoneMethod[]).map((method) => (
+            <button
+              key={method}
+              onClick={() => updateSettings({ heartRateZoneMethod: method })}
+              className={`px-3 py-1 rounded-lg text-sm ${
+                profile?.method === method ? "bg-white/20 text-white" : "bg-white/5 hover:bg-white/10"
+              }`}
+            >
+              {ZONE_METHOD_LABELS[method]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!profile ? (
+        <div className="h-40 flex items-center justify-center text-gray-400">
+          {loading ? "Calculating your zones..." : "Complete your profile to see personal zones"}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {profile.zones.map((zone) => (
+                <div key={zone.zone} className="flex items-center gap-3 bg-white/5 p-3 rounded-lg">
+                  <span className="w-3 h-8 rounded" style={{ backgroundColor: ZONE_COLORS[zone.zone - 1] }} />
+                  <div className="flex-1">
+                    <p className="font-medium">Zone {zone.zone} · {zone.name}</p>
+                  </div>
+                  <p className="font-semibold">
+                    {zone.min}–{zone.max} <span className="text-sm text-gray-400">bpm</span>
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-3 text-sm">
+              <div className="bg-white/5 p-3 rounded-lg">
+                <p className="text-gray-400">Resting</p>
+                <p className="text-lg font-semibold">{profile.restingHeartRate} bpm</p>
+                <p className="text-xs text-gray-400">from your profile</p>
+              </div>
+              <label className="bg-white/5 p-3 rounded-lg">
+                <p className="text-gray-400">Max</p>
+                <input
+                  type="number"
+                  value={maxHeartRateInput}
+                  placeholder={String(profile.maxHeartRate)}
+                  onChange={(e) => setMaxHeartRateInput(e.target.value)}
+                  onBlur={() => {
+                    const maxHeartRate = parseBpm(maxHeartRateInput);
+                    const current = profile.maxHeartRateSource === "manual" ? profile.maxHeartRate : null;
+                    if (maxHeartRate !== current) updateSettings({ maxHeartRate });
+                  }}
+                  className="w-full bg-transparent text-lg font-semibold placeholder-white"
+                />
+                <p className="text-xs text-gray-400">{MAX_SOURCE_LABELS[profile.maxHeartRateSource]}</p>
+              </label>
+              <label className="bg-white/5 p-3 rounded-lg">
+                <p className="text-gray-400">Lactate threshold</p>
+                <input
+                  type="number"
+                  value={thresholdInput}
+                  placeholder={profile.lactateThresholdHeartRate ? String(profile.lactateThresholdHeartRate) : "--"}
+                  onChange={(e) => setThresholdInput(e.target.value)}
+                  onBlur={() => {
+                    const lactateThresholdHeartRate = parseBpm(thresholdInput);
+                    const current = profile.lactateThresholdSource === "manual" ? profile.lactateThresholdHeartRate : null;
+                    if (lactateThresholdHeartRate !== current) updateSettings({ lactateThresholdHeartRate });
+                  }}
+                  className="w-full bg-transparent text-lg font-semibold placeholder-white"
+                />
+                <p className="text-xs text-gray-400">
+                  {profile.lactateThresholdSource === "manual"
+                    ? "set manually"
+                    : profile.lactateThresholdSource === "estimated"
+                      ? "best 20 min effort"
+                      : "needs a 20 min hard effort"}
+                </p>
+              </label>
+            </div>
+          </div>
+
+          <div className="h-80">
+            <h3 className="text-sm text-gray-400 mb-2">Time in zone, recent sessions (minutes)</h3>
+            {sessionChartData.length === 0 ? (
+              <div className="h-full flex items-center justify-center text-gray-400">
+                No sessions with heart rate yet
+              </div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={sessionChartData} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+                  <XAxis type="number" stroke="#888" />
+                  <YAxis type="category" dataKey="name" stroke="#888" width={110} tick={{ fontSize: 12 }} />
+                  <Tooltip contentStyle={{ backgroundColor: "rgba(0, 0, 0, 0.8)", border: "1px solid #666" }} />
+                  <Legend />
+                  {profile.zones.map((zone) => (
+                    <Bar
+                      key={zone.zone}
+                      dataKey={`zone${zone.zone}`}
+                      name={`Z${zone.zone}`}
+                      stackId="zones"
+                      fill={ZONE_COLORS[zone.zone - 1]}
+                    />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default HeartRateZonesPanel;
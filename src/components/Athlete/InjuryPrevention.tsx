@@ -10,121 +10,173 @@ import {
   FaHeart,
   FaFire,
   FaSmile,
+  FaBrain,
+  FaSpinner,
 } from 'react-icons/fa';
 import type { AthleteData } from './AthleteDashboard';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import SorenessCheckIn from './SorenessCheckIn';
+import {
+  describeLlmError,
+  explainInjuryRisk,
+  getInjuryPreventionTips,
+  type InjuryRiskExplanation,
+} from '../services/gemini';
+import { auth } from '../config/firebase';
+import { BODY_PARTS, fetchRecentSoreness, useInjuryRisk } from '../services/injuryRisk';
+import { queryMetricSeries } from '../services/metricHistory';
+import { useReadiness } from '../services/readiness';
+import { sleepQualityScore, useSleepAnalytics } from '../services/sleep';
+import type { BodyPartId, InjuryRuleId, SorenessReport, TimeSeriesPoint } from '../types';
 
 interface InjuryPreventionProps {
   athleteData: AthleteData;
 }
 
-interface BodyPart {
-  name: string;
-  risk: number;
-  status: 'high' | 'moderate' | 'low';
-  recommendation: string;
-}
-
 interface RecoveryMetric {
   name: string;
-  value: number;
+  value: number | null; // null until there is data for it
   icon: JSX.Element;
   status: 'optimal' | 'suboptimal' | 'critical';
+  lowerIsBetter?: boolean;
 }
 
+const RULE_LABELS: Record<InjuryRuleId, string> = {
+  exposure: 'Sport exposure',
+  acwrSpike: 'Load spike',
+  monotony: 'Monotony',
+  priorInjury: 'Past injury',
+  soreness: 'Soreness',
+  sleepDebt: 'Sleep debt',
+};
+
 const InjuryPrevention = ({ athleteData }: InjuryPreventionProps) => {
-  const [overallRisk, setOverallRisk] = useState(30);
-  const [recoveryStatus, setRecoveryStatus] = useState(85);
-  const [bodyParts, setBodyParts] = useState<BodyPart[]>([
-    { name: 'Knees', risk: 65, status: 'moderate', recommendation: 'Focus on knee stability exercises' },
-    { name: 'Lower Back', risk: 45, status: 'moderate', recommendation: 'Add core strengthening exercises' },
-    { name: 'Shoulders', risk: 25, status: 'low', recommendation: 'Maintain current routine' },
-    { name: 'Ankles', risk: 80, status: 'high', recommendation: 'Reduce high-impact activities' },
-    { name: 'Hamstrings', risk: 50, status: 'moderate', recommendation: 'Incorporate dynamic stretching' },
-    { name: 'Quadriceps', risk: 40, status: 'low', recommendation: 'Monitor for fatigue' },
-    { name: 'Calves', risk: 70, status: 'high', recommendation: 'Use compression sleeves' },
-  ]);
-  const [selectedBodyPart, setSelectedBodyPart] = useState<string | null>(null);
-  const [notifications, setNotifications] = useState<string[]>([]);
+  const userId = auth.currentUser?.uid;
+  const [riskRevision, setRiskRevision] = useState(0);
+  const { risk, loading: riskLoading } = useInjuryRisk(userId, athleteData, riskRevision);
+  const { readiness } = useReadiness(userId);
+  const [selectedBodyPart, setSelectedBodyPart] = useState<BodyPartId | null>(null);
   const [recoveryMetrics, setRecoveryMetrics] = useState<RecoveryMetric[]>([
-    { name: 'Hydration', value: 75, icon: <FaTint className="text-blue-400" />, status: 'suboptimal' },
-    { name: 'Sleep Quality', value: 90, icon: <FaBed className="text-purple-400" />, status: 'optimal' },
-    { name: 'Muscle Fatigue', value: 60, icon: <FaBatteryHalf className="text-yellow-400" />, status: 'suboptimal' },
-    { name: 'HRV', value: 85, icon: <FaHeart className="text-red-400" />, status: 'optimal' },
-    { name: 'Muscle Soreness', value: 40, icon: <FaFire className="text-orange-400" />, status: 'critical' },
-    { name: 'Stress Levels', value: 55, icon: <FaSmile className="text-green-400" />, status: 'suboptimal' },
+    { name: 'Hydration', value: null, icon: <FaTint className="text-blue-400" />, status: 'suboptimal' },
+    { name: 'Sleep Quality', value: null, icon: <FaBed className="text-purple-400" />, status: 'suboptimal' },
+    { name: 'Muscle Fatigue', value: null, icon: <FaBatteryHalf className="text-yellow-400" />, status: 'suboptimal', lowerIsBetter: true },
+    { name: 'HRV', value: null, icon: <FaHeart className="text-red-400" />, status: 'suboptimal' },
+    { name: 'Muscle Soreness', value: null, icon: <FaFire className="text-orange-400" />, status: 'suboptimal', lowerIsBetter: true },
+    { name: 'Stress Levels', value: null, icon: <FaSmile className="text-green-400" />, status: 'suboptimal', lowerIsBetter: true },
   ]);
 
-  const [geminiResponse, setGeminiResponse] = useState<string[] | null>(null);
+  const [recoveryHistory, setRecoveryHistory] = useState<Record<string, number | null>>({});
+  const [soreness, setSoreness] = useState<SorenessReport | null>(null);
+  const { analytics: sleepAnalytics } = useSleepAnalytics(userId);
 
-  // Initialize Gemini AI
-  const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY); // Replace with your Gemini API key
+  const [geminiResponse, setGeminiResponse] = useState<string[] | null>(null);
+  const [explanation, setExplanation] = useState<InjuryRiskExplanation | null>(null);
+  const [explaining, setExplaining] = useState(false);
+  const [explanationError, setExplanationError] = useState<string | null>(null);
 
-  // Fetch Gemini AI response
-  const fetchGeminiResponse = async (prompt: string) => {
+  // Fetch prevention tips for the selected body part
+  const fetchPreventionTips = async (partName: string) => {
     try {
-      const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-
-      // Clean the response (remove *, -, or other unwanted characters)
-      const cleanedText = text.replace(/[*\-]/g, ''); // Remove * and -
+      setGeminiResponse((await getInjuryPreventionTips(athleteData.sport, athleteData.position, partName)).tips);
+    } catch (error) {
+      console.error('Error fetching injury prevention tips:', error);
+      setGeminiResponse([describeLlmError(error)]);
+    }
+  };
 
-      // Split the response into individual points
-      const tips = cleanedText
-        .split('\n') // Split by newlines
-        .filter((point) => point.trim() !== '') // Remove empty lines
-        .slice(0, 5); // Limit to 5 points
+  // The AI explanation is optional and only requested on demand; the scores stand without it
+  const handleExplain = async () => {
+    if (!risk) return;
 
-      setGeminiResponse(tips);
+    setExplaining(true);
+    setExplanationError(null);
+    try {
+      setExplanation(await explainInjuryRisk(athleteData.sport, athleteData.position, risk));
     } catch (error) {
-      console.error('Error fetching Gemini AI response:', error);
-      setGeminiResponse(['Failed to fetch tips. Please try again later.']);
+      console.error('Error explaining injury risk:', error);
+      setExplanationError(describeLlmError(error));
+    } finally {
+      setExplaining(false);
     }
   };
 
-  // Handle body part click
-  const handleBodyPartClick = (partName: string) => {
-    setSelectedBodyPart(partName);
-    const prompt = `Provide 4-5 concise bullet points for injury prevention tips for ${partName} in ${athleteData.sport} for a ${athleteData.position}.`;
-    fetchGeminiResponse(prompt);
-  };
+  // Seed recovery metrics from the last week of recorded wearable history
+  useEffect(() => {
+    if (!userId) return;
+
+    const end = new Date();
+    const start = new Date(end.getTime() - 7 * 24 * 60 * 60 * 1000);
+    const average = (points: TimeSeriesPoint[]) =>
+      points.length ? points.reduce((sum, point) => sum + point.value, 0) / points.length : null;
 
-  // Simulate real-time updates (once per minute)
+    Promise.all(
+      (['hydration', 'sleep', 'stress'] as const).map((metric) =>
+        queryMetricSeries(userId, { metric, start, end, resolution: 'day' })
+      )
+    )
+      .then(([hydration, sleep, stress]) => {
+        const sleepHours = average(sleep);
+        setRecoveryHistory({
+          'Hydration': average(hydration),
+          // Eight hours of sleep counts as 100%
+          'Sleep Quality': sleepHours === null ? null : Math.min(100, (sleepHours / 8) * 100),
+          'Stress Levels': average(stress),
+        });
+      })
+      .catch((error) => console.error('Error loading recovery history:', error));
+  }, [userId]);
+
+  // The latest soreness check-in, reloaded after a new one is saved
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    fetchRecentSoreness(userId)
+      .then((report) => {
+        if (!cancelled) setSoreness(report);
+      })
+      .catch((error) => console.error('Error loading soreness reports:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, riskRevision]);
+
+  // Staged sleep sessions score sleep on efficiency, debt and regularity rather than hours alone.
+  // Fatigue and HRV come from the readiness score, soreness from the sorest part in the check-in.
   useEffect(() => {
-    const interval = setInterval(() => {
-      setOverallRisk((prev) => Math.max(0, Math.min(100, prev + (Math.random() * 10 - 5))));
-      setRecoveryStatus((prev) => Math.max(0, Math.min(100, prev + (Math.random() * 6 - 3))));
-
-      setBodyParts((prev) =>
-        prev.map((part) => ({
-          ...part,
-          risk: Math.max(0, Math.min(100, part.risk + (Math.random() * 8 - 4))),
-          status: part.risk > 70 ? 'high' : part.risk > 40 ? 'moderate' : 'low',
-        }))
-      );
-
-      setRecoveryMetrics((prev) =>
-        prev.map((metric) => ({
+    const sleepScore = sleepAnalytics ? sleepQualityScore(sleepAnalytics) : null;
+    const sorest = soreness ? Math.max(0, ...Object.values(soreness.parts).map((value) => value ?? 0)) : null;
+    const values: Record<string, number | null | undefined> = {
+      ...recoveryHistory,
+      ...(sleepScore !== null && { 'Sleep Quality': sleepScore }),
+      'Muscle Fatigue': readiness?.fatigueLevel,
+      'HRV': readiness?.components.find((component) => component.factor === 'hrv')?.score,
+      'Muscle Soreness': sorest === null ? null : sorest * 10,
+    };
+
+    setRecoveryMetrics((prev) =>
+      prev.map((metric) => {
+        const value = values[metric.name];
+        if (value === null || value === undefined) return metric;
+        const score = metric.lowerIsBetter ? 100 - value : value;
+        return {
           ...metric,
-          value: Math.max(0, Math.min(100, metric.value + (Math.random() * 6 - 3))),
-          status: metric.value > 80 ? 'optimal' : metric.value > 50 ? 'suboptimal' : 'critical',
-        }))
-      );
-
-      // Add notifications for high-risk body parts
-      const highRiskParts = bodyParts.filter((part) => part.risk > 70);
-      if (highRiskParts.length > 0) {
-        setNotifications((prev) => [
-          ...prev,
-          `High risk detected for ${highRiskParts.map((part) => part.name).join(', ')}`,
-        ]);
-      }
-    }, 60000); // Update every 60 seconds
-
-    return () => clearInterval(interval);
-  }, [bodyParts]);
+          value: Math.round(value),
+          status: score > 80 ? 'optimal' : score > 50 ? 'suboptimal' : 'critical',
+        };
+      })
+    );
+  }, [recoveryHistory, sleepAnalytics, readiness, soreness]);
+
+  // Handle body part click
+  const handleBodyPartClick = (part: BodyPartId) => {
+    setSelectedBodyPart(part);
+    fetchPreventionTips(BODY_PARTS[part].label);
+  };
+
+  const overallRisk = risk?.overallRisk ?? 0;
+  const highRiskParts = risk?.bodyParts.filter((part) => part.status === 'high') ?? [];
+  const selectedRisk = risk?.bodyParts.find((part) => part.part === selectedBodyPart);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -143,12 +195,15 @@ const InjuryPrevention = ({ athleteData }: InjuryPreventionProps) => {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold mb-2">Injury Prevention & Recovery</h1>
-          <p className="text-gray-400">AI-powered injury prevention for {athleteData.sport} ({athleteData.position})</p>
+          <p className="text-gray-400">
+            Injury risk for {athleteData.sport} ({athleteData.position}) from your training load, sleep, soreness and
+            injury history
+          </p>
         </div>
       </div>
 
       {/* Notifications */}
-      {notifications.length > 0 && (
+      {highRiskParts.length > 0 && (
         <motion.div
           initial={{ opacity: 0, y: -20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -159,8 +214,10 @@ const InjuryPrevention = ({ athleteData }: InjuryPreventionProps) => {
             <div>
               <h2 className="text-xl font-semibold">High Risk Alerts</h2>
               <ul className="text-gray-300">
-                {notifications.map((notification, index) => (
-                  <li key={index}>{notification}</li>
+                {highRiskParts.map((part) => (
+                  <li key={part.part}>
+                    {BODY_PARTS[part.part].label}: {part.factors.map((factor) => factor.detail).join(', ')}
+                  </li>
                 ))}
               </ul>
             </div>
@@ -169,33 +226,39 @@ const InjuryPrevention = ({ athleteData }: InjuryPreventionProps) => {
       )}
 
       {/* Risk Alert */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        className={`p-6 rounded-xl ${
-          overallRisk > 70 ? 'bg-red-500/20' : overallRisk > 40 ? 'bg-yellow-500/20' : 'bg-green-500/20'
-        }`}
-      >
-        <div className="flex items-center gap-4">
-          <FaExclamationTriangle
-            className={`text-3xl ${
-              overallRisk > 70 ? 'text-red-500' : overallRisk > 40 ? 'text-yellow-500' : 'text-green-500'
-            }`}
-          />
-          <div>
-            <h2 className="text-xl font-semibold mb-1">
-              {overallRisk > 70 ? 'High Risk Alert!' : overallRisk > 40 ? 'Moderate Risk Warning' : 'Low Risk Status'}
-            </h2>
-            <p className="text-gray-300">
-              {overallRisk > 70
-                ? 'Immediate action required to prevent injury'
-                : overallRisk > 40
-                ? 'Monitor and take precautionary measures'
-                : 'Safe to continue with current training plan'}
-            </p>
+      {risk ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className={`p-6 rounded-xl ${
+            overallRisk > 70 ? 'bg-red-500/20' : overallRisk > 40 ? 'bg-yellow-500/20' : 'bg-green-500/20'
+          }`}
+        >
+          <div className="flex items-center gap-4">
+            <FaExclamationTriangle
+              className={`text-3xl ${
+                overallRisk > 70 ? 'text-red-500' : overallRisk > 40 ? 'text-yellow-500' : 'text-green-500'
+              }`}
+            />
+            <div>
+              <h2 className="text-xl font-semibold mb-1">
+                {overallRisk > 70 ? 'High Risk Alert!' : overallRisk > 40 ? 'Moderate Risk Warning' : 'Low Risk Status'}
+              </h2>
+              <p className="text-gray-300">
+                {overallRisk > 70
+                  ? 'Immediate action required to prevent injury'
+                  : overallRisk > 40
+                  ? 'Monitor and take precautionary measures'
+                  : 'Safe to continue with current training plan'}
+              </p>
+            </div>
           </div>
+        </motion.div>
+      ) : (
+        <div className="bg-white/10 p-6 rounded-xl text-gray-400">
+          {riskLoading ? 'Calculating your injury risk...' : 'Injury risk is unavailable right now.'}
         </div>
-      </motion.div>
+      )}
 
       {/* Main Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -211,20 +274,22 @@ const InjuryPrevention = ({ athleteData }: InjuryPreventionProps) => {
           </div>
 
           <div className="grid grid-cols-2 gap-4">
-            {bodyParts.map((part, index) => (
+            {risk?.bodyParts.map((part, index) => (
               <motion.div
-                key={index}
+                key={part.part}
                 initial={{ opacity: 0, x: -20 }}
                 animate={{ opacity: 1, x: 0 }}
                 transition={{ delay: index * 0.1 }}
                 className={`bg-white/5 p-4 rounded-lg cursor-pointer ${
-                  selectedBodyPart === part.name ? 'ring-2 ring-primary' : ''
+                  selectedBodyPart === part.part ? 'ring-2 ring-primary' : ''
                 }`}
-                onClick={() => handleBodyPartClick(part.name)}
+                onClick={() => handleBodyPartClick(part.part)}
               >
                 <div className="flex justify-between items-center mb-2">
-                  <h3 className="font-semibold">{part.name}</h3>
-                  <span className={`text-sm ${getStatusColor(part.status)}`}>{part.status.toUpperCase()}</span>
+                  <h3 className="font-semibold">{BODY_PARTS[part.part].label}</h3>
+                  <span className={`text-sm ${getStatusColor(part.status)}`}>
+                    {part.risk} {part.status.toUpperCase()}
+                  </span>
                 </div>
                 <div className="w-full bg-gray-700 rounded-full h-2 mb-2">
                   <div
@@ -234,11 +299,28 @@ const InjuryPrevention = ({ athleteData }: InjuryPreventionProps) => {
                     style={{ width: `${part.risk}%` }}
                   />
                 </div>
-                <p className="text-sm text-gray-400">{part.recommendation}</p>
+                <p className="text-sm text-gray-400">{BODY_PARTS[part.part].recommendation}</p>
               </motion.div>
             ))}
           </div>
 
+          {/* Why the selected part scored what it did */}
+          {selectedRisk && (
+            <div className="mt-6 bg-white/5 p-4 rounded-lg">
+              <h3 className="font-semibold mb-2">Why {BODY_PARTS[selectedRisk.part].label} scored {selectedRisk.risk}</h3>
+              <ul className="space-y-1 text-sm text-gray-300">
+                {selectedRisk.factors.map((factor) => (
+                  <li key={factor.rule} className="flex justify-between gap-4">
+                    <span>
+                      <span className="text-gray-400">{RULE_LABELS[factor.rule]}:</span> {factor.detail}
+                    </span>
+                    <span className="font-medium">+{factor.points}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Gemini AI Response */}
           {selectedBodyPart && geminiResponse && (
             <motion.div
@@ -246,7 +328,7 @@ const InjuryPrevention = ({ athleteData }: InjuryPreventionProps) => {
               animate={{ opacity: 1, y: 0 }}
               className="mt-6 bg-white/5 p-4 rounded-lg"
             >
-              <h3 className="font-semibold mb-2">AI-Powered Tips for {selectedBodyPart}</h3>
+              <h3 className="font-semibold mb-2">AI-Powered Tips for {BODY_PARTS[selectedBodyPart].label}</h3>
               <ul className="space-y-2 text-sm text-gray-300">
                 {geminiResponse.map((tip, index) => (
                   <li key={index} className="flex items-start gap-2">
@@ -273,20 +355,23 @@ const InjuryPrevention = ({ athleteData }: InjuryPreventionProps) => {
           <div className="mb-8">
             <div className="flex justify-between mb-2">
               <span>Overall Recovery</span>
-              <span>{Math.round(recoveryStatus)}%</span>
+              <span>{readiness && readiness.score !== null ? `${readiness.score}%` : 'Not enough history yet'}</span>
             </div>
             <div className="w-full bg-gray-700 rounded-full h-4">
               <div
                 className="bg-primary rounded-full h-4 transition-all duration-300"
-                style={{ width: `${recoveryStatus}%` }}
+                style={{ width: `${readiness?.score ?? 0}%` }}
               />
             </div>
           </div>
 
           <div className="space-y-4">
-            {recoveryMetrics.map((metric, index) => (
+            {recoveryMetrics.every((metric) => metric.value === null) && (
+              <p className="text-gray-400">No recovery data yet. Connect a wearable or log a soreness check-in.</p>
+            )}
+            {recoveryMetrics.filter((metric) => metric.value !== null).map((metric, index) => (
               <motion.div
-                key={index}
+                key={metric.name}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: index * 0.1 }}
@@ -311,6 +396,69 @@ const InjuryPrevention = ({ athleteData }: InjuryPreventionProps) => {
           </div>
         </motion.div>
       </div>
+
+      {/* Soreness Check-in */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white/10 backdrop-blur-lg p-6 rounded-xl"
+      >
+        <div className="flex items-center gap-3 mb-2">
+          <FaFire className="text-orange-400 text-2xl" />
+          <h2 className="text-xl font-semibold">How sore are you today?</h2>
+        </div>
+        <p className="text-sm text-gray-400 mb-6">Soreness you report counts towards your risk for the next three days.</p>
+        <SorenessCheckIn onSaved={() => setRiskRevision((prev) => prev + 1)} />
+      </motion.div>
+
+      {/* AI Explanation */}
+      {risk && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white/10 backdrop-blur-lg p-6 rounded-xl"
+        >
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <FaBrain className="text-blue-500 text-2xl" />
+              <h2 className="text-xl font-semibold">What this means</h2>
+            </div>
+            <button
+              onClick={handleExplain}
+              disabled={explaining}
+              className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-secondary rounded-lg disabled:opacity-50"
+            >
+              {explaining && <FaSpinner className="animate-spin" />}
+              Explain with AI
+            </button>
+          </div>
+          {explanationError ? (
+            <p className="text-sm text-gray-400">{explanationError}</p>
+          ) : explanation ? (
+            <div className="space-y-4">
+              <p>{explanation.summary}</p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {explanation.bodyParts.map((part) => (
+                  <div key={part.name} className="bg-white/5 p-4 rounded-lg">
+                    <h3 className="font-semibold mb-1">{part.name}</h3>
+                    <p className="text-sm text-gray-300 mb-2">{part.explanation}</p>
+                    <ul className="list-disc list-inside text-sm text-gray-400">
+                      {part.exercises.map((exercise) => (
+                        <li key={exercise}>{exercise}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">Written by AI from the risk factors above, which it cannot change.</p>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">
+              The scores above come from fixed rules. Ask the AI to explain them in plain language.
+            </p>
+          )}
+        </motion.div>
+      )}
     </div>
   );
 };
@@ -11,6 +11,8 @@ import {
   Legend
 } from 'recharts';
 import athletesData from '../config/athlete.json';
+import { useUnits } from '../services/units';
+import type { UnitQuantity } from '../types';
 
 // In LiveComparison.tsx, update the Athlete interface to:
 interface Athlete {
@@ -24,6 +26,7 @@ interface Athlete {
 
 interface ComparisonMetric {
   category: string;
+  quantity?: UnitQuantity; // values are in its base unit and shown in the preferred units
   athlete: number;
   pastBest: number;
   average: number;
@@ -49,6 +52,7 @@ const LiveComparison = ({ athleteData }: { athleteData: Athlete }) => {
   const [comparisonType, setComparisonType] = useState<'self' | 'peers' | 'elite'>('peers');
   const [fitnessMetrics, setFitnessMetrics] = useState<ComparisonMetric[]>([]);
   const [skillMetrics, setSkillMetrics] = useState<ComparisonMetric[]>([]);
+  const units = useUnits();
   const [progressData, setProgressData] = useState<ProgressData[]>([]);
   const [insights, setInsights] = useState<string[]>([]);
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
@@ -139,6 +143,7 @@ const LiveComparison = ({ athleteData }: { athleteData: Athlete }) => {
       const fitness: ComparisonMetric[] = [
         {
           category: 'Bench Press',
+          quantity: 'weight',
           athlete: athleteData['Bench Press (kg)'] || getRandomValue(70, 120),
           pastBest: (athleteData['Bench Press (kg)'] || getRandomValue(80, 130)) * 1.1,
           average: calculateAverages(comparisonGroup, 'Bench Press (kg)'),
@@ -146,6 +151,7 @@ const LiveComparison = ({ athleteData }: { athleteData: Athlete }) => {
         },
         {
           category: 'Squat',
+          quantity: 'weight',
           athlete: athleteData['Squat (kg)'] || getRandomValue(90, 150),
           pastBest: (athleteData['Squat (kg)'] || getRandomValue(100, 160)) * 1.1,
           average: calculateAverages(comparisonGroup, 'Squat (kg)'),
@@ -153,6 +159,7 @@ const LiveComparison = ({ athleteData }: { athleteData: Athlete }) => {
         },
         {
           category: 'Vertical Jump',
+          quantity: 'length',
           athlete: athleteData['Vertical Jump (cm)'] || getRandomValue(50, 70),
           pastBest: (athleteData['Vertical Jump (cm)'] || getRandomValue(55, 75)) * 1.05,
           average: calculateAverages(comparisonGroup, 'Vertical Jump (cm)'),
@@ -181,10 +188,11 @@ const LiveComparison = ({ athleteData }: { athleteData: Athlete }) => {
           },
           {
             category: 'Run-up Speed',
-            athlete: athleteData['Run-up Speed (km/h)'] || getRandomValue(25, 30),
-            pastBest: getRandomValue(28, 32),
-            average: getRandomValue(24, 28),
-            top: getRandomValue(30, 35)
+            quantity: 'speed',
+            athlete: (athleteData['Run-up Speed (km/h)'] || getRandomValue(25, 30)) / 3.6,
+            pastBest: getRandomValue(28, 32) / 3.6,
+            average: getRandomValue(24, 28) / 3.6,
+            top: getRandomValue(30, 35) / 3.6
           },
           {
             category: 'Release Angle',
@@ -267,8 +275,23 @@ const LiveComparison = ({ athleteData }: { athleteData: Athlete }) => {
     );
   }
 
+  const toDisplayMetric = (metric: ComparisonMetric): ComparisonMetric => {
+    const { quantity } = metric;
+    if (!quantity) return metric;
+    return {
+      ...metric,
+      category: `${metric.category} (${units.label(quantity)})`,
+      athlete: units.toDisplay(quantity, metric.athlete, 1),
+      pastBest: units.toDisplay(quantity, metric.pastBest, 1),
+      average: units.toDisplay(quantity, metric.average, 1),
+      top: units.toDisplay(quantity, metric.top, 1)
+    };
+  };
+  const displayedFitnessMetrics = fitnessMetrics.map(toDisplayMetric);
+  const displayedSkillMetrics = skillMetrics.map(toDisplayMetric);
+
   // Radar chart data
-  const radarData = skillMetrics.map(metric => ({
+  const radarData = displayedSkillMetrics.map(metric => ({
     subject: metric.category,
     A: metric.athlete,
     B: metric.average,
@@ -402,7 +425,7 @@ const LiveComparison = ({ athleteData }: { athleteData: Athlete }) => {
               </tr>
             </thead>
             <tbody>
-              {fitnessMetrics.map((metric, index) => {
+              {displayedFitnessMetrics.map((metric, index) => {
                 const isAboveAverage = metric.athlete > metric.average;
                 const isBelowPast = metric.athlete < metric.pastBest;
                 
@@ -437,7 +460,7 @@ const LiveComparison = ({ athleteData }: { athleteData: Athlete }) => {
           <h3 className="text-lg font-medium mb-3">Performance Comparison</h3>
           <ResponsiveContainer width="100%" height="100%">
             <BarChart
-              data={fitnessMetrics}
+              data={displayedFitnessMetrics}
               margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
               layout="vertical"
             >
@@ -451,7 +474,7 @@ const LiveComparison = ({ athleteData }: { athleteData: Athlete }) => {
                 }}
               />
               <Bar dataKey="athlete" name="You" animationDuration={1500}>
-                {fitnessMetrics.map((_entry, index) => (
+                {displayedFitnessMetrics.map((_entry, index) => (
                   <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                 ))}
               </Bar>
@@ -487,7 +510,7 @@ const LiveComparison = ({ athleteData }: { athleteData: Athlete }) => {
               </tr>
             </thead>
             <tbody>
-              {skillMetrics.map((metric, index) => {
+              {displayedSkillMetrics.map((metric, index) => {
                 const isAboveAverage = metric.athlete > metric.average;
                 const isBelowPast = metric.athlete < metric.pastBest;
                 
@@ -5,7 +5,7 @@ import { collection, addDoc, query, where, getDocs, deleteDoc, doc } from 'fireb
 import { db, auth } from '../config/firebase';
 import { PieChart, Pie, Cell, Tooltip, Legend } from 'recharts';
 import type { AthleteData } from './AthleteDashboard';
-import { getNutritionSuggestions } from '../services/gemini';
+import { describeLlmError, getNutritionSuggestions } from '../services/gemini';
 
 interface NutritionProps {
   athleteData: AthleteData;
@@ -205,7 +205,7 @@ const Nutrition = ({ athleteData }: NutritionProps) => {
   const fetchAISuggestions = async () => {
     setIsLoadingSuggestions(true);
     try {
-      const suggestions = await getNutritionSuggestions(
+      const { text: suggestions } = await getNutritionSuggestions(
         athleteData.sport,
         athleteData.position,
         meals,
@@ -230,7 +230,7 @@ const Nutrition = ({ athleteData }: NutritionProps) => {
       ]);
     } catch (error) {
       console.error('Error fetching AI suggestions:', error);
-      setError('Failed to fetch AI suggestions');
+      setError(describeLlmError(error));
     } finally {
       setIsLoadingSuggestions(false);
     }
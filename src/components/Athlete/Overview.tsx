@@ -1,14 +1,30 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { FaHeartbeat, FaWalking, FaFire, FaBed, FaTint } from 'react-icons/fa';
+import { FaHeartbeat, FaWalking, FaFire, FaBed, FaTint, FaBatteryHalf, FaExclamationTriangle } from 'react-icons/fa';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
 import type { AthleteData } from './AthleteDashboard';
+import { auth } from '../config/firebase';
+import { useReadiness } from '../services/readiness';
+import { useUnits } from '../services/units';
+import type { ReadinessFactor } from '../types';
 
 interface OverviewProps {
   athleteData: AthleteData;
 }
 
+const READINESS_FACTORS: Record<ReadinessFactor, { label: string; unit: string }> = {
+  hrv: { label: 'HRV', unit: 'ms' },
+  restingHeartRate: { label: 'Resting HR', unit: 'bpm' },
+  sleep: { label: 'Sleep', unit: 'hrs' },
+  sleepDebt: { label: 'Sleep debt', unit: 'hrs' },
+  trainingLoad: { label: 'Load ratio', unit: '' }
+};
+
+const readinessColor = (score: number) =>
+  score >= 70 ? 'text-green-500' : score >= 50 ? 'text-yellow-500' : 'text-red-500';
+
 const Overview = ({ athleteData }: OverviewProps) => {
+  const units = useUnits();
   // Check if user is new
   const isNewUser = !athleteData.hasPreviousData;
 
@@ -50,7 +66,7 @@ const Overview = ({ athleteData }: OverviewProps) => {
     }
 
     const insights = [];
-    if (liveStats.hydration < 70) insights.push("Your hydration is below target. Aim for at least 3 liters of water daily.");
+    if (liveStats.hydration < 70) insights.push(`Your hydration is below target. Aim for at least ${units.format('volume', 3)} of water daily.`);
     if (liveStats.sleep < 7) insights.push("Increase sleep duration to 7-9 hours for optimal recovery.");
     if (liveStats.calories < 1300) insights.push("Increase calorie intake to fuel your workouts and recovery.");
     if (liveStats.steps < 5000) insights.push("Aim for at least 5,000 steps daily to stay active.");
@@ -74,6 +90,7 @@ const Overview = ({ athleteData }: OverviewProps) => {
   }, [isNewUser]);
 
   const aiInsights = generateInsights();
+  const { readiness, loading: readinessLoading } = useReadiness(auth.currentUser?.uid);
 
   return (
     <div className="space-y-8">
@@ -84,6 +101,52 @@ const Overview = ({ athleteData }: OverviewProps) => {
         </div>
       </motion.div>
 
+      {/* Daily Readiness */}
+      <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="bg-white/10 backdrop-blur-lg p-6 rounded-xl">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <FaBatteryHalf className="text-primary text-2xl" />
+            <h2 className="text-xl font-semibold">Today's Readiness</h2>
+          </div>
+          {readiness?.flagged && (
+            <span className="flex items-center gap-2 text-sm text-yellow-500">
+              <FaExclamationTriangle />
+              Outside your normal range
+            </span>
+          )}
+        </div>
+
+        {readinessLoading ? (
+          <p className="text-gray-400">Calculating readiness...</p>
+        ) : readiness?.score == null ? (
+          <p className="text-gray-400">
+            Readiness needs about a week of heart rate, HRV and sleep history to build your personal baseline.
+          </p>
+        ) : (
+          <div className="flex flex-col md:flex-row md:items-center gap-6">
+            <p className={`text-5xl font-bold ${readinessColor(readiness.score)}`}>{readiness.score}</p>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 flex-1">
+              {readiness.components.map((component) => (
+                <div key={component.factor} className="bg-white/5 p-3 rounded-lg">
+                  <p className="text-sm text-gray-400">
+                    {READINESS_FACTORS[component.factor].label}
+                    {component.measure === 'sdnn' && ' (SDNN)'}
+                  </p>
+                  <p className={`text-lg font-semibold ${component.outOfRange ? 'text-yellow-500' : ''}`}>
+                    {component.value} {READINESS_FACTORS[component.factor].unit}
+                  </p>
+                  {component.baseline && component.factor !== 'trainingLoad' && (
+                    <p className="text-xs text-gray-500">
+                      usual {component.baseline.mean} ± {component.baseline.standardDeviation}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </motion.div>
+
       {/* Live Stats */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
         {[
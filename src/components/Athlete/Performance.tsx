@@ -34,7 +34,16 @@ import {
   Bar,
 } from "recharts";
 import type { AthleteData } from "./AthleteDashboard";
-import { getPerformancePredictions } from "../services/gemini";
+import { useMetricSeries } from "../services/metricHistory";
+import { formatTestValue, PERFORMANCE_TESTS, usePerformanceForecasts } from "../services/performanceForecast";
+import { formatUnits, useUnitStore, useUnits } from "../services/units";
+import { auth } from "../config/firebase";
+import TrainingLoadPanel from "./TrainingLoadPanel";
+import HeartRateZonesPanel from "./HeartRateZonesPanel";
+import RouteMapPanel from "./RouteMapPanel";
+import SleepPanel from "./SleepPanel";
+import PerformanceForecastPanel from "./PerformanceForecastPanel";
+import type { HistoryMetric } from "../types";
 
 interface PerformanceProps {
   athleteData: AthleteData;
@@ -57,6 +66,26 @@ interface Achievement {
   type: "personal" | "competition" | "milestone";
 }
 
+const HISTORY_RANGES = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+const HISTORY_METRIC_OPTIONS: { id: HistoryMetric; label: string; color: string }[] = [
+  { id: "heartRate", label: "Heart Rate", color: "#ef4444" },
+  { id: "steps", label: "Steps", color: "#22c55e" },
+  { id: "calories", label: "Calories", color: "#ff7043" },
+  { id: "sleep", label: "Sleep", color: "#a855f7" },
+  { id: "stress", label: "Stress", color: "#eab308" },
+  { id: "hrv", label: "HRV", color: "#06b6d4" },
+  { id: "hrvSdnn", label: "HRV (SDNN)", color: "#0891b2" },
+  { id: "bodyMass", label: "Body Mass", color: "#94a3b8" },
+  { id: "power", label: "Power", color: "#f59e0b" },
+  { id: "cadence", label: "Cadence", color: "#14b8a6" },
+  { id: "speed", label: "Speed", color: "#3b82f6" },
+];
+
 interface PerformanceMetric {
   date: string;
   speed: number;
@@ -78,66 +107,20 @@ const Performance = ({ athleteData }: PerformanceProps) => {
   const [bodyMetricsHistory, setBodyMetricsHistory] = useState<any[]>([]);
   const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [performanceData, setPerformanceData] = useState<PerformanceMetric[]>([]);
-  const [recentImprovements, setRecentImprovements] = useState<
-    { metric: string; change: string; trend: string; period: string }[]
-  >([]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  // Fetch dynamic performance predictions every 30 seconds
-  useEffect(() => {
-    const fetchPerformanceData = async () => {
-      setIsLoading(true);
-      try {
-        const predictions = await getPerformancePredictions();
-        console.log("API Response:", predictions);
-
-        setRecentImprovements([
-          {
-            metric: "Sprint Speed",
-            change: predictions.sprintSpeed,
-            trend: "up",
-            period: "30 days",
-          },
-          {
-            metric: "Strength",
-            change: predictions.strength,
-            trend: "up",
-            period: "30 days",
-          },
-          {
-            metric: "Endurance",
-            change: predictions.endurance,
-            trend: "up",
-            period: "30 days",
-          },
-          {
-            metric: "Body Fat",
-            change: predictions.bodyFat,
-            trend: "down",
-            period: "30 days",
-          },
-        ]);
-      } catch (error) {
-        console.error("Failed to fetch performance predictions:", error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    // Fetch data immediately
-    fetchPerformanceData();
-
-    // Fetch data every 30 seconds
-    const interval = setInterval(fetchPerformanceData, 30000);
-
-    // Cleanup interval on unmount
-    return () => clearInterval(interval);
-  }, []);
-
-  // Log state changes
-  useEffect(() => {
-    console.log("Recent Improvements Updated:", recentImprovements);
-  }, [recentImprovements]);
+  const [forecastRevision, setForecastRevision] = useState(0);
+  const { results: testResults, forecasts, loading: forecastsLoading } = usePerformanceForecasts(
+    auth.currentUser?.uid,
+    forecastRevision
+  );
+  const [historyMetric, setHistoryMetric] = useState<HistoryMetric>("heartRate");
+  const [historyRange, setHistoryRange] = useState<keyof typeof HISTORY_RANGES>("week");
+  const { points: historyPoints, loading: historyLoading } = useMetricSeries(auth.currentUser?.uid, {
+    metric: historyMetric,
+    start: new Date(Date.now() - HISTORY_RANGES[historyRange]),
+    end: new Date(),
+  });
+  const units = useUnits();
+  const historyColor = HISTORY_METRIC_OPTIONS.find((option) => option.id === historyMetric)?.color;
 
   // Generate sample performance data
   useEffect(() => {
@@ -173,11 +156,12 @@ const Performance = ({ athleteData }: PerformanceProps) => {
       setBodyMetricsHistory(metricsHistory);
 
       // Sample achievements
+      const { system } = useUnitStore.getState();
       setAchievements([
         {
           id: "1",
           title: "Speed Milestone",
-          description: "Achieved top sprint speed of 32 km/h",
+          description: `Achieved top sprint speed of ${formatUnits("speed", 32 / 3.6, system, 0)}`,
           date: new Date(),
           icon: <FaBolt className="text-yellow-500" />,
           type: "personal",
@@ -185,7 +169,7 @@ const Performance = ({ athleteData }: PerformanceProps) => {
         {
           id: "2",
           title: "Strength Record",
-          description: "New personal best in bench press: 100kg",
+          description: `New personal best in bench press: ${formatUnits("weight", 100, system, 0)}`,
           date: new Date(Date.now() - 86400000),
           icon: <FaDumbbell className="text-blue-500" />,
           type: "personal",
@@ -204,15 +188,11 @@ const Performance = ({ athleteData }: PerformanceProps) => {
     generateData();
   }, []);
 
-  const getTrendIcon = (trend: string) => {
-    switch (trend) {
-      case "up":
-        return <FaArrowUp className="text-green-500" />;
-      case "down":
-        return <FaArrowDown className="text-red-500" />;
-      default:
-        return <FaMinus className="text-yellow-500" />;
-    }
+  // Arrows follow the value; green when that is an improvement, e.g. a falling sprint time
+  const getTrendIcon = (change: number, lowerIsBetter: boolean) => {
+    if (change === 0) return <FaMinus className="text-yellow-500" />;
+    const color = change < 0 === lowerIsBetter ? "text-green-500" : "text-red-500";
+    return change > 0 ? <FaArrowUp className={color} /> : <FaArrowDown className={color} />;
   };
 
   return (
@@ -227,9 +207,9 @@ const Performance = ({ athleteData }: PerformanceProps) => {
         </div>
       </div>
 
-      {/* Quick Stats & Recent Improvements */}
+      {/* Projected Test Results */}
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
-        {isLoading ? (
+        {forecastsLoading && forecasts.length === 0 ? (
           // Show loading skeleton or spinner
           Array.from({ length: 4 }).map((_, index) => (
             <motion.div
@@ -246,24 +226,35 @@ const Performance = ({ athleteData }: PerformanceProps) => {
               </div>
             </motion.div>
           ))
+        ) : forecasts.length === 0 ? (
+          <div className="bg-white/10 p-6 rounded-xl lg:col-span-4 text-gray-400">
+            Log sprint, jump and strength tests in the forecast below to see where your training is heading.
+          </div>
         ) : (
-          // Show actual data
-          recentImprovements.map((improvement, index) => (
-            <motion.div
-              key={index}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: index * 0.1 }}
-              className="bg-white/10 p-6 rounded-xl"
-            >
-              <div className="flex items-center justify-between mb-2">
-                <h3 className="font-semibold">{improvement.metric}</h3>
-                {getTrendIcon(improvement.trend)}
-              </div>
-              <div className="text-2xl font-bold mb-1">{improvement.change}</div>
-              <p className="text-sm text-gray-400">Last {improvement.period}</p>
-            </motion.div>
-          ))
+          forecasts.map((forecast, index) => {
+            const projected = forecast.points[forecast.points.length - 1];
+            const change = projected.value - forecast.latest.value;
+            return (
+              <motion.div
+                key={forecast.test}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.1 }}
+                className="bg-white/10 p-6 rounded-xl"
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-semibold">{PERFORMANCE_TESTS[forecast.test].label}</h3>
+                  {getTrendIcon(change, PERFORMANCE_TESTS[forecast.test].lowerIsBetter)}
+                </div>
+                <div className="text-2xl font-bold mb-1">
+                  {formatTestValue(forecast.test, projected.value, units.system)}
+                </div>
+                <p className="text-sm text-gray-400">
+                  Projected in {projected.weeks} weeks, from {formatTestValue(forecast.test, forecast.latest.value, units.system)}
+                </p>
+              </motion.div>
+            );
+          })
         )}
       </div>
 
@@ -316,6 +307,101 @@ const Performance = ({ athleteData }: PerformanceProps) => {
         </div>
       </motion.div>
 
+      {/* Forecast */}
+      <PerformanceForecastPanel
+        sport={athleteData.sport}
+        position={athleteData.position}
+        results={testResults}
+        forecasts={forecasts}
+        loading={forecastsLoading}
+        onChange={() => setForecastRevision((prev) => prev + 1)}
+      />
+
+      {/* Wearable History */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white/10 p-6 rounded-xl"
+      >
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <FaHeartbeat className="text-red-500 text-2xl" />
+            <h2 className="text-xl font-semibold">Health History</h2>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {HISTORY_METRIC_OPTIONS.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setHistoryMetric(option.id)}
+                className={`px-3 py-1 rounded-lg text-sm ${
+                  historyMetric === option.id ? "bg-primary text-white" : "bg-white/5 hover:bg-white/10"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+            {(Object.keys(HISTORY_RANGES) as (keyof typeof HISTORY_RANGES)[]).map((range) => (
+              <button
+                key={range}
+                onClick={() => setHistoryRange(range)}
+                className={`px-3 py-1 rounded-lg text-sm capitalize ${
+                  historyRange === range ? "bg-white/20 text-white" : "bg-white/5 hover:bg-white/10"
+                }`}
+              >
+                {range}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="h-72">
+          {historyPoints.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-gray-400">
+              {historyLoading ? "Loading history..." : "No wearable data recorded for this period yet"}
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={historyPoints}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+                <XAxis
+                  dataKey="timestamp"
+                  stroke="#888"
+                  tickFormatter={(timestamp: number) =>
+                    historyRange === "day"
+                      ? new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+                      : new Date(timestamp).toLocaleDateString()
+                  }
+                />
+                <YAxis stroke="#888" />
+                <Tooltip
+                  labelFormatter={(timestamp: number) => new Date(timestamp).toLocaleString()}
+                  contentStyle={{
+                    backgroundColor: "rgba(0, 0, 0, 0.8)",
+                    border: "1px solid #666",
+                  }}
+                />
+                <Line type="monotone" dataKey="value" stroke={historyColor} strokeWidth={2} dot={false} />
+                {historyMetric === "heartRate" && (
+                  <Line type="monotone" dataKey="max" stroke={historyColor} strokeOpacity={0.4} dot={false} />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+      </motion.div>
+
+      {/* Training Load */}
+      <TrainingLoadPanel sport={athleteData.sport} />
+
+      {/* Heart Rate Zones */}
+      <HeartRateZonesPanel />
+
+      {/* Sleep */}
+      <SleepPanel />
+
+      {/* Routes */}
+      <RouteMapPanel />
+
       {/* Body Metrics */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <motion.div
@@ -334,14 +420,14 @@ const Performance = ({ athleteData }: PerformanceProps) => {
                 <FaWeight className="text-blue-500" />
                 <span>Weight</span>
               </div>
-              <div className="text-2xl font-bold">{bodyMetrics.weight} kg</div>
+              <div className="text-2xl font-bold">{units.format("weight", bodyMetrics.weight)}</div>
             </div>
             <div className="bg-white/5 p-4 rounded-lg">
               <div className="flex items-center gap-2 mb-2">
                 <FaRulerVertical className="text-green-500" />
                 <span>Height</span>
               </div>
-              <div className="text-2xl font-bold">{bodyMetrics.height} cm</div>
+              <div className="text-2xl font-bold">{units.format("height", bodyMetrics.height)}</div>
             </div>
             <div className="bg-white/5 p-4 rounded-lg">
               <div className="flex items-center gap-2 mb-2">
@@ -361,7 +447,13 @@ const Performance = ({ athleteData }: PerformanceProps) => {
 
           <div className="h-60">
             <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={bodyMetricsHistory.slice(-6)}>
+              <BarChart
+                data={bodyMetricsHistory.slice(-6).map((entry) => ({
+                  ...entry,
+                  weight: units.toDisplay("weight", entry.weight),
+                  muscleMass: units.toDisplay("weight", entry.muscleMass),
+                }))}
+              >
                 <CartesianGrid strokeDasharray="3 3" stroke="#444" />
                 <XAxis dataKey="date" stroke="#888" />
                 <YAxis stroke="#888" />
@@ -371,9 +463,9 @@ const Performance = ({ athleteData }: PerformanceProps) => {
                     border: "1px solid #666",
                   }}
                 />
-                <Bar dataKey="weight" name="Weight" fill="#646cff" />
+                <Bar dataKey="weight" name={`Weight (${units.label("weight")})`} fill="#646cff" />
                 <Bar dataKey="bodyFat" name="Body Fat %" fill="#ff4081" />
-                <Bar dataKey="muscleMass" name="Muscle Mass" fill="#4caf50" />
+                <Bar dataKey="muscleMass" name={`Muscle Mass (${units.label("weight")})`} fill="#4caf50" />
               </BarChart>
             </ResponsiveContainer>
           </div>
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { FaChartLine, FaPlus, FaSpinner, FaTrash } from "react-icons/fa";
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { auth } from "../config/firebase";
+import { deleteTestResult, formatTestValue, logTestResult, PERFORMANCE_TESTS } from "../services/performanceForecast";
+import { localDayStart } from "../services/metricHistory";
+import { useUnits } from "../services/units";
+import type { PerformanceForecast, PerformanceTestId, PerformanceTestResult } from "../types";
+import ForecastNarrative from "./ForecastNarrative";
+
+interface PerformanceForecastPanelProps {
+  sport: string;
+  position: string;
+  results: PerformanceTestResult[];
+  forecasts: PerformanceForecast[];
+  loading: boolean;
+  onChange: () => void; // after a result is logged or deleted
+}
+
+const TEST_IDS = Object.keys(PERFORMANCE_TESTS) as PerformanceTestId[];
+
+const formatDay = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString([], { month: "short", day: "numeric" });
+
+const PerformanceForecastPanel = ({ sport, position, results, forecasts, loading, onChange }: PerformanceForecastPanelProps) => {
+  const userId = auth.currentUser?.uid;
+  const units = useUnits();
+  const [selectedTest, setSelectedTest] = useState<PerformanceTestId>("sprint30m");
+  const [entry, setEntry] = useState({
+    date: new Date().toLocaleDateString("en-CA"), // YYYY-MM-DD in local time
+    value: "",
+  });
+  const [saving, setSaving] = useState(false);
+
+  const test = PERFORMANCE_TESTS[selectedTest];
+  const forecast = forecasts.find((candidate) => candidate.test === selectedTest);
+  const testResults = results.filter((result) => result.test === selectedTest);
+  const unitLabel = test.quantity ? units.label(test.quantity) : test.unit;
+  const toDisplay = (value: number) => (test.quantity ? units.toDisplay(test.quantity, value) : value);
+
+  // Results and projections on one time axis; the projection starts at the latest result
+  const logged = testResults.map((result) => ({ date: result.date, result: toDisplay(result.value) }));
+  const latest = forecast && toDisplay(forecast.latest.value);
+  const chartData = forecast
+    ? [
+        ...logged.slice(0, -1),
+        { ...logged[logged.length - 1], projected: latest, range: [latest, latest] },
+        ...forecast.points.map((point) => ({
+          date: point.date,
+          projected: toDisplay(point.value),
+          range: [toDisplay(point.low), toDisplay(point.high)],
+        })),
+      ]
+    : logged;
+
+  const handleLog = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(entry.value);
+    if (!userId || !entry.value || !(value > 0)) return;
+
+    setSaving(true);
+    try {
+      await logTestResult(userId, {
+        test: selectedTest,
+        value: test.quantity ? units.fromDisplay(test.quantity, value) : value,
+        date: localDayStart(new Date(`${entry.date}T12:00:00`).getTime()),
+      });
+      setEntry((prev) => ({ ...prev, value: "" }));
+      onChange();
+    } catch (error) {
+      console.error("Error logging test result:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (resultId: string) => {
+    if (!userId) return;
+    try {
+      await deleteTestResult(userId, resultId);
+      onChange();
+    } catch (error) {
+      console.error("Error deleting test result:", error);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/10 p-6 rounded-xl"
+    >
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <FaChartLine className="text-primary text-2xl" />
+          <h2 className="text-xl font-semibold">Performance Forecast</h2>
+          {loading && <FaSpinner className="animate-spin text-gray-400" />}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {TEST_IDS.map((id) => (
+            <button
+              key={id}
+              onClick={() => setSelectedTest(id)}
+              className={`px-3 py-1 rounded-lg text-sm ${
+                selectedTest === id ? "bg-primary text-white" : "bg-white/5 hover:bg-white/10"
+              }`}
+            >
+              {PERFORMANCE_TESTS[id].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {forecast ? (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            {forecast.points.map((point) => {
+              const change = point.value - forecast.latest.value;
+              const improving = test.lowerIsBetter ? change < 0 : change > 0;
+              return (
+                <div key={point.weeks} className="bg-white/5 p-4 rounded-lg">
+                  <p className="text-sm text-gray-400">In {point.weeks} weeks</p>
+                  <p className="text-2xl font-bold">{formatTestValue(selectedTest, point.value, units.system)}</p>
+                  <p className={`text-sm ${change === 0 ? "text-gray-400" : improving ? "text-green-500" : "text-red-500"}`}>
+                    {change >= 0 ? "+" : "-"}
+                    {formatTestValue(selectedTest, Math.abs(change), units.system)} vs latest
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    80% range {formatTestValue(selectedTest, point.low, units.system)} to{" "}
+                    {formatTestValue(selectedTest, point.high, units.system)}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-sm text-gray-400 mb-4">
+            Fitted to {forecast.resultCount} results.{" "}
+            {forecast.loadEffect === null
+              ? "Trend over time only; training load is included once there are enough results with varied load history."
+              : `Includes training load: ${forecast.loadEffect >= 0 ? "+" : "-"}${formatTestValue(
+                  selectedTest,
+                  Math.abs(forecast.loadEffect),
+                  units.system
+                )} per 10 points of fitness, assuming today's fitness of ${forecast.fitness} holds.`}
+          </p>
+        </>
+      ) : (
+        <p className="text-gray-400 mb-4">
+          Log at least 3 {test.label.toLowerCase()} results over two weeks or more to see a forecast.
+        </p>
+      )}
+
+      {chartData.length > 0 && (
+        <div className="h-72 mb-6">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+              <XAxis
+                dataKey="date"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                stroke="#888"
+                tickFormatter={formatDay}
+              />
+              <YAxis stroke="#888" domain={["auto", "auto"]} unit={` ${unitLabel}`} width={80} />
+              <Tooltip
+                labelFormatter={(timestamp: number) => new Date(timestamp).toLocaleDateString()}
+                contentStyle={{ backgroundColor: "rgba(0, 0, 0, 0.8)", border: "1px solid #666" }}
+              />
+              <Legend />
+              <Area dataKey="range" name="80% range" stroke="none" fill="#646cff" fillOpacity={0.2} />
+              <Line dataKey="result" name="Result" stroke="#22c55e" strokeWidth={2} connectNulls />
+              <Line dataKey="projected" name="Projected" stroke="#646cff" strokeWidth={2} strokeDasharray="5 5" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h3 className="font-semibold mb-3">Recent Results</h3>
+          {testResults.length > 0 ? (
+            <ul className="space-y-2">
+              {testResults.slice(-5).reverse().map((result) => (
+                <li key={result.id} className="flex items-center justify-between bg-white/5 p-3 rounded-lg text-sm">
+                  <span>{formatDay(result.date)}</span>
+                  <span className="font-medium">{formatTestValue(result.test, result.value, units.system)}</span>
+                  <button
+                    onClick={() => handleDelete(result.id)}
+                    className="text-gray-400 hover:text-red-400"
+                    title="Delete result"
+                  >
+                    <FaTrash />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-400">No {test.label.toLowerCase()} results logged yet</p>
+          )}
+        </div>
+
+        <form onSubmit={handleLog} className="space-y-3">
+          <h3 className="font-semibold">Log a Result</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="date"
+              value={entry.date}
+              max={new Date().toLocaleDateString("en-CA")}
+              onChange={(e) => setEntry((prev) => ({ ...prev, date: e.target.value }))}
+              className="bg-white/5 rounded-lg p-2 text-sm"
+            />
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={entry.value}
+              onChange={(e) => setEntry((prev) => ({ ...prev, value: e.target.value }))}
+              className="bg-white/5 rounded-lg p-2 text-sm"
+              placeholder={unitLabel}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !entry.value}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary/20 text-primary hover:bg-primary/30 text-sm"
+          >
+            {saving ? <FaSpinner className="animate-spin" /> : <FaPlus />}
+            Log {test.label}
+          </button>
+        </form>
+      </div>
+
+      {forecasts.length > 0 && (
+        <div className="mt-6">
+          <ForecastNarrative sport={sport} position={position} forecasts={forecasts} />
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default PerformanceForecastPanel;
@@ -0,0 +1,259 @@
+import { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { FaRoute, FaSpinner } from "react-icons/fa";
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
+import { auth } from "../config/firebase";
+import { useRouteSessions } from "../services/gps";
+import { haversineDistance } from "../services/workoutFiles/summary";
+import { TILE_SIZE, fitZoom, getTileLayers, projectToPixels, type TileLayer } from "../services/mapTiles";
+import { useUnits } from "../services/units";
+import type { RoutePoint, WorkoutSession } from "../types";
+
+const MAP_WIDTH = 640;
+const MAP_HEIGHT = 360;
+const MAP_PADDING = 24;
+
+const formatDuration = (totalSeconds: number) => {
+  const seconds = Math.round(totalSeconds);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const clock = `${String(minutes).padStart(hours ? 2 : 1, "0")}:${String(seconds % 60).padStart(2, "0")}`;
+  return hours ? `${hours}:${clock}` : clock;
+};
+
+// The route drawn over map tiles, or over a plain grid when the layer has none
+const RouteMap = ({ route, layer }: { route: RoutePoint[]; layer: TileLayer }) => {
+  const zoom = fitZoom(route, MAP_WIDTH - 2 * MAP_PADDING, MAP_HEIGHT - 2 * MAP_PADDING, layer.maxZoom);
+  const projected = route.map((point) => projectToPixels(point.lat, point.lng, zoom));
+  const xs = projected.map((point) => point.x);
+  const ys = projected.map((point) => point.y);
+  // World pixel at the top left corner of the view, with the route centred
+  const originX = (Math.min(...xs) + Math.max(...xs)) / 2 - MAP_WIDTH / 2;
+  const originY = (Math.min(...ys) + Math.max(...ys)) / 2 - MAP_HEIGHT / 2;
+
+  const tiles = useMemo(() => {
+    const keys: { zoom: number; x: number; y: number }[] = [];
+    const tileCount = 2 ** zoom;
+    for (let x = Math.floor(originX / TILE_SIZE); x <= Math.floor((originX + MAP_WIDTH) / TILE_SIZE); x++) {
+      for (let y = Math.floor(originY / TILE_SIZE); y <= Math.floor((originY + MAP_HEIGHT) / TILE_SIZE); y++) {
+        if (y >= 0 && y < tileCount) keys.push({ zoom, x, y });
+      }
+    }
+    return keys;
+  }, [zoom, originX, originY]);
+
+  const [tileUrls, setTileUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    const created: string[] = [];
+    setTileUrls({});
+
+    tiles.forEach(({ zoom: z, x, y }) => {
+      const tileCount = 2 ** z;
+      // Wrap around the antimeridian
+      layer
+        .getTileUrl(z, ((x % tileCount) + tileCount) % tileCount, y)
+        .then((url) => {
+          if (!url) return;
+          if (cancelled) {
+            if (url.startsWith("blob:")) URL.revokeObjectURL(url);
+            return;
+          }
+          if (url.startsWith("blob:")) created.push(url);
+          setTileUrls((prev) => ({ ...prev, [`${z}/${x}/${y}`]: url }));
+        })
+        .catch((error) => console.error("Error loading map tile:", error));
+    });
+
+    return () => {
+      cancelled = true;
+      created.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [tiles, layer]);
+
+  const path = projected.map((point) => `${point.x - originX},${point.y - originY}`).join(" ");
+  const start = projected[0];
+  const end = projected[projected.length - 1];
+
+  return (
+    <svg viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`} className="w-full rounded-lg bg-[#111]">
+      {tiles.map(({ zoom: z, x, y }) => {
+        const url = tileUrls[`${z}/${x}/${y}`];
+        const left = x * TILE_SIZE - originX;
+        const top = y * TILE_SIZE - originY;
+        return url ? (
+          <image key={`${z}/${x}/${y}`} href={url} x={left} y={top} width={TILE_SIZE} height={TILE_SIZE} opacity={0.8} />
+        ) : (
+          <rect
+            key={`${z}/${x}/${y}`}
+            x={left}
+            y={top}
+            width={TILE_SIZE}
+            height={TILE_SIZE}
+            fill="none"
+            stroke="#333"
+          />
+        );
+      })}
+      <polyline points={path} fill="none" stroke="#646cff" strokeWidth={4} strokeLinejoin="round" strokeLinecap="round" />
+      <circle cx={start.x - originX} cy={start.y - originY} r={6} fill="#2ed573" />
+      <circle cx={end.x - originX} cy={end.y - originY} r={6} fill="#ff4757" />
+    </svg>
+  );
+};
+
+// Distance along the route (in meters) against altitude, for the elevation profile
+const elevationProfile = (route: RoutePoint[]) => {
+  let distance = 0;
+  return route.flatMap((point, index) => {
+    if (index > 0) {
+      const previous = route[index - 1];
+      distance += haversineDistance(
+        { latitude: previous.lat, longitude: previous.lng },
+        { latitude: point.lat, longitude: point.lng }
+      );
+    }
+    return point.alt === undefined ? [] : [{ distance, altitude: point.alt }];
+  });
+};
+
+const RouteMapPanel = () => {
+  const { routeSessions, loading } = useRouteSessions(auth.currentUser?.uid);
+  const tileLayers = getTileLayers();
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  // A real map when one is configured, the grid otherwise
+  const [layerId, setLayerId] = useState(tileLayers[tileLayers.length - 1].id);
+
+  const session: WorkoutSession | undefined =
+    routeSessions.find((candidate) => candidate.id === sessionId) ?? routeSessions[0];
+  const layer = tileLayers.find((candidate) => candidate.id === layerId) ?? tileLayers[0];
+  const units = useUnits();
+  const profile = useMemo(() => (session ? elevationProfile(session.route) : []), [session]);
+  const profileData = profile.map((point) => ({ ...point, distance: units.toDisplay("distance", point.distance) }));
+
+  const formatPace = (secondsPerKm?: number) => (secondsPerKm ? units.format("pace", secondsPerKm) : "--");
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/10 p-6 rounded-xl"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <FaRoute className="text-primary text-2xl" />
+          <h2 className="text-xl font-semibold">Routes</h2>
+        </div>
+        <div className="flex gap-2">
+          {routeSessions.length > 0 && (
+            <select
+              value={session?.id}
+              onChange={(e) => setSessionId(e.target.value)}
+              className="bg-white/5 rounded-lg p-2 text-sm"
+            >
+              {routeSessions.map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {new Date(candidate.startTime).toLocaleDateString()} {candidate.sport} •{" "}
+                  {units.format("distance", candidate.distance, 1)}
+                </option>
+              ))}
+            </select>
+          )}
+          {tileLayers.length > 1 && (
+            <select
+              value={layer.id}
+              onChange={(e) => setLayerId(e.target.value)}
+              className="bg-white/5 rounded-lg p-2 text-sm"
+            >
+              {tileLayers.map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {loading && !session && (
+        <div className="flex items-center justify-center gap-2 text-gray-400 py-8">
+          <FaSpinner className="animate-spin" />
+          Loading routes...
+        </div>
+      )}
+
+      {!loading && !session && (
+        <p className="text-gray-400 text-center py-8">
+          No routes yet. Record a workout with GPS tracking or import a GPX, TCX or FIT file.
+        </p>
+      )}
+
+      {session && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-2">
+            <RouteMap route={session.route} layer={layer} />
+            {layer.attribution && <p className="text-xs text-gray-500 text-right">{layer.attribution}</p>}
+            {profile.length > 1 && (
+              <div className="h-32">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={profileData}>
+                    <XAxis dataKey="distance" stroke="#888" unit={` ${units.label("distance")}`} type="number" domain={["dataMin", "dataMax"]} />
+                    <YAxis stroke="#888" unit=" m" domain={["dataMin - 10", "dataMax + 10"]} width={60} />
+                    <Tooltip contentStyle={{ backgroundColor: "rgba(0, 0, 0, 0.8)", border: "1px solid #666" }} />
+                    <Area type="monotone" dataKey="altitude" name="Altitude" stroke="#22c55e" fill="#22c55e33" />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {[
+                { label: "Distance", value: units.format("distance", session.distance) },
+                { label: "Moving Time", value: formatDuration(session.duration) },
+                { label: "Avg Pace", value: formatPace(session.averagePace) },
+                { label: "Avg HR", value: session.averageHeartRate ? `${session.averageHeartRate} bpm` : "--" },
+                { label: "Elevation Gain", value: session.elevationGain !== undefined ? `${session.elevationGain} m` : "--" },
+                { label: "Elevation Loss", value: session.elevationLoss !== undefined ? `${session.elevationLoss} m` : "--" },
+              ].map((stat) => (
+                <div key={stat.label} className="bg-white/5 p-3 rounded-lg">
+                  <p className="text-xs text-gray-400">{stat.label}</p>
+                  <p className="font-semibold">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {session.splits && session.splits.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-400 text-left">
+                    <th className="font-normal">Km</th>
+                    <th className="font-normal">Pace</th>
+                    <th className="font-normal">Elev</th>
+                    <th className="font-normal">HR</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {session.splits.map((split) => (
+                    <tr key={split.index} className="border-t border-white/5">
+                      <td className="py-1">
+                        {split.distance < 1000 ? (split.index - 1 + split.distance / 1000).toFixed(2) : split.index}
+                      </td>
+                      <td>{formatPace(split.pace)}</td>
+                      <td>{split.elevationGain !== undefined ? `+${split.elevationGain} m` : "--"}</td>
+                      <td>{split.averageHeartRate ?? "--"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default RouteMapPanel;
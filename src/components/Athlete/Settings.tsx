@@ -1,8 +1,12 @@
-import { JSX, useState } from 'react';
+import { JSX, useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { FaUser, FaBell, FaCog, FaLock, FaWifi, FaApple, FaGoogle, FaSignOutAlt } from 'react-icons/fa';
 import { FaMintbit } from "react-icons/fa6"; // Newer versions have Fa6
 import type { AthleteData } from './AthleteDashboard';
+import { auth } from '../config/firebase';
+import { getAppleHealthImportState, importAppleHealthExport } from '../services/appleHealth';
+import { saveUnitPreference, useUnits } from '../services/units';
+import type { UnitQuantity, UnitSystem } from '../types';
 
 interface SettingsProps {
   athleteData: AthleteData;
@@ -12,9 +16,12 @@ interface WearableDevice {
   name: string;
   icon: JSX.Element;
   connected: boolean;
+  // Devices without a web API are fed by uploading their export instead of connecting
+  importAccept?: string;
 }
 
 const Settings = ({ athleteData }: SettingsProps) => {
+  const units = useUnits();
   const [personalInfo, setPersonalInfo] = useState({
     name: athleteData.name || '',
     sport: athleteData.sport || '',
@@ -40,11 +47,63 @@ const Settings = ({ athleteData }: SettingsProps) => {
   });
 
   const [wearableDevices, setWearableDevices] = useState<WearableDevice[]>([
-    { name: 'Apple Health', icon: <FaApple />, connected: true },
+    { name: 'Apple Health', icon: <FaApple />, connected: false, importAccept: '.zip,.xml' },
     { name: 'Google Fit', icon: <FaGoogle />, connected: false },
     { name: 'Fitbit', icon: <FaMintbit />, connected: true }
   ]);
 
+  const [appleHealthImport, setAppleHealthImport] = useState<{
+    lastImportedAt?: number;
+    progress?: number;
+    message?: string;
+    error?: boolean;
+  }>({});
+
+  useEffect(() => {
+    const userId = auth.currentUser?.uid;
+    if (!userId) return;
+
+    getAppleHealthImportState(userId)
+      .then((state) => {
+        if (!state) return;
+        setAppleHealthImport(prev => ({ ...prev, lastImportedAt: state.lastImportedAt }));
+        setWearableDevices(prev =>
+          prev.map(device => device.name === 'Apple Health' ? { ...device, connected: true } : device)
+        );
+      })
+      .catch((error) => console.error('Error loading Apple Health import state:', error));
+  }, []);
+
+  const handleAppleHealthImport = async (file: File | undefined) => {
+    const userId = auth.currentUser?.uid;
+    if (!file || !userId) return;
+
+    setAppleHealthImport(prev => ({ ...prev, progress: 0, message: undefined, error: false }));
+    try {
+      const result = await importAppleHealthExport(userId, file, (progress) =>
+        setAppleHealthImport(prev => ({ ...prev, progress }))
+      );
+      setAppleHealthImport({
+        lastImportedAt: Date.now(),
+        message: `Imported ${result.records} records, ${result.workouts} workouts and ${result.sleepNights} nights of sleep` +
+          (result.skipped + result.duplicateWorkouts > 0
+            ? ` (${result.skipped + result.duplicateWorkouts} already imported)`
+            : ''),
+      });
+      setWearableDevices(prev =>
+        prev.map(device => device.name === 'Apple Health' ? { ...device, connected: true } : device)
+      );
+    } catch (error) {
+      console.error('Error importing Apple Health export:', error);
+      setAppleHealthImport(prev => ({
+        ...prev,
+        progress: undefined,
+        error: true,
+        message: error instanceof Error ? error.message : 'Import failed'
+      }));
+    }
+  };
+
   const handlePersonalInfoChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     setPersonalInfo(prev => ({
       ...prev,
@@ -52,6 +111,21 @@ const Settings = ({ athleteData }: SettingsProps) => {
     }));
   };
 
+  // Height and weight stay metric in personalInfo and are edited in the preferred units
+  const handleMeasurementChange = (quantity: UnitQuantity) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setPersonalInfo(prev => ({
+      ...prev,
+      [name]: value ? units.fromDisplay(quantity, Number(value)) : ''
+    }));
+  };
+
+  const handleUnitSystemChange = (system: UnitSystem) => {
+    const userId = auth.currentUser?.uid;
+    if (!userId) return;
+    saveUnitPreference(userId, system).catch(error => console.error('Error saving unit preference:', error));
+  };
+
   const handleAiPreferencesChange = (key: string, value: boolean | string) => {
     setAiPreferences(prev => ({
       ...prev,
@@ -140,6 +214,18 @@ const Settings = ({ athleteData }: SettingsProps) => {
                 <option value="Professional">Professional</option>
               </select>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1">Units</label>
+              <select
+                value={units.system}
+                onChange={(e) => handleUnitSystemChange(e.target.value as UnitSystem)}
+                className="w-full bg-white/5 rounded-lg p-3 focus:ring-2 focus:ring-primary"
+              >
+                <option value="metric">Metric (km, kg, cm, °C, L)</option>
+                <option value="imperial">Imperial (mi, lb, ft/in, °F, fl oz)</option>
+              </select>
+            </div>
           </div>
 
           <div className="space-y-4">
@@ -172,22 +258,22 @@ const Settings = ({ athleteData }: SettingsProps) => {
 
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <label className="block text-sm font-medium text-gray-400 mb-1">Height (cm)</label>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Height ({units.label('height')})</label>
                 <input
                   type="number"
                   name="height"
-                  value={personalInfo.height}
-                  onChange={handlePersonalInfoChange}
+                  value={personalInfo.height ? units.toDisplay('height', Number(personalInfo.height)) : ''}
+                  onChange={handleMeasurementChange('height')}
                   className="w-full bg-white/5 rounded-lg p-3 focus:ring-2 focus:ring-primary"
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-400 mb-1">Weight (kg)</label>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Weight ({units.label('weight')})</label>
                 <input
                   type="number"
                   name="weight"
-                  value={personalInfo.weight}
-                  onChange={handlePersonalInfoChange}
+                  value={personalInfo.weight ? units.toDisplay('weight', Number(personalInfo.weight)) : ''}
+                  onChange={handleMeasurementChange('weight')}
                   className="w-full bg-white/5 rounded-lg p-3 focus:ring-2 focus:ring-primary"
                 />
               </div>
@@ -285,17 +371,57 @@ const Settings = ({ athleteData }: SettingsProps) => {
                     </p>
                   </div>
                 </div>
-                <button
-                  onClick={() => toggleDeviceConnection(device.name)}
-                  className={`px-3 py-1 rounded-lg text-sm ${
-                    device.connected
-                      ? 'bg-red-500/20 text-red-500 hover:bg-red-500/30'
-                      : 'bg-green-500/20 text-green-500 hover:bg-green-500/30'
-                  }`}
-                >
-                  {device.connected ? 'Disconnect' : 'Connect'}
-                </button>
+                {device.importAccept ? (
+                  <label
+                    className={`px-3 py-1 rounded-lg text-sm bg-primary/20 text-primary hover:bg-primary/30 ${
+                      appleHealthImport.progress !== undefined ? 'opacity-50 pointer-events-none' : 'cursor-pointer'
+                    }`}
+                  >
+                    {appleHealthImport.progress !== undefined ? 'Importing...' : 'Import Export'}
+                    <input
+                      type="file"
+                      accept={device.importAccept}
+                      className="hidden"
+                      onChange={(e) => {
+                        handleAppleHealthImport(e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                ) : (
+                  <button
+                    onClick={() => toggleDeviceConnection(device.name)}
+                    className={`px-3 py-1 rounded-lg text-sm ${
+                      device.connected
+                        ? 'bg-red-500/20 text-red-500 hover:bg-red-500/30'
+                        : 'bg-green-500/20 text-green-500 hover:bg-green-500/30'
+                    }`}
+                  >
+                    {device.connected ? 'Disconnect' : 'Connect'}
+                  </button>
+                )}
               </div>
+
+              {device.importAccept && (
+                <div className="mt-3 text-sm text-gray-400">
+                  {appleHealthImport.progress !== undefined ? (
+                    <div className="w-full bg-white/10 rounded-full h-2">
+                      <div
+                        className="bg-primary h-2 rounded-full transition-all"
+                        style={{ width: `${Math.round(appleHealthImport.progress * 100)}%` }}
+                      />
+                    </div>
+                  ) : appleHealthImport.message ? (
+                    <p className={appleHealthImport.error ? 'text-red-500' : 'text-green-500'}>
+                      {appleHealthImport.message}
+                    </p>
+                  ) : appleHealthImport.lastImportedAt ? (
+                    <p>Last imported {new Date(appleHealthImport.lastImportedAt).toLocaleDateString()}</p>
+                  ) : (
+                    <p>Upload export.zip from Health &gt; Export All Health Data</p>
+                  )}
+                </div>
+              )}
             </motion.div>
           ))}
         </div>
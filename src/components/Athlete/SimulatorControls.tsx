@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { FaFlask, FaPlay, FaPause, FaRedo, FaFileUpload, FaExclamationTriangle } from 'react-icons/fa';
+import {
+  BUNDLED_FIXTURES,
+  DEFAULT_WORKOUT,
+  SIMULATOR_SPEEDS,
+  loadSimulatorFile,
+  pauseSimulator,
+  playSimulator,
+  restartSimulator,
+  setSimulatorLoop,
+  setSimulatorSource,
+  setSimulatorSpeed,
+  useSimulatorStore,
+} from '../services/simulator';
+import type { SyntheticWorkoutOptions } from '../types';
+
+const SYNTHETIC = 'synthetic';
+
+const formatClock = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const SimulatorControls = () => {
+  const { source, speed, loop, playing, position, duration, error } = useSimulatorStore();
+  const [workout, setWorkout] = useState<SyntheticWorkoutOptions>(
+    source.type === 'synthetic' ? source.options : DEFAULT_WORKOUT
+  );
+
+  const applyWorkout = (changes: Partial<SyntheticWorkoutOptions>) => {
+    const options = { ...workout, ...changes };
+    setWorkout(options);
+    setSimulatorSource({ type: 'synthetic', options });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/10 backdrop-blur-lg p-6 rounded-xl mb-8"
+    >
+      <div className="flex items-center gap-3 mb-4">
+        <FaFlask className="text-primary text-2xl" />
+        <div>
+          <h2 className="text-xl font-semibold">Device Simulator</h2>
+          <p className="text-sm text-gray-400">
+            Replays a recorded fixture or a seeded synthetic workout as if it came from a live sensor
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <label className="text-sm">
+          <span className="text-gray-400">Stream</span>
+          <select
+            value={source.type === 'synthetic' ? SYNTHETIC : source.name}
+            onChange={(e) =>
+              setSimulatorSource(
+                e.target.value === SYNTHETIC
+                  ? { type: 'synthetic', options: workout }
+                  : { type: 'fixture', name: e.target.value }
+              )
+            }
+            className="w-full bg-white/5 rounded-lg p-2 mt-1"
+          >
+            <option value={SYNTHETIC}>Synthetic interval workout</option>
+            {BUNDLED_FIXTURES.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+            {source.type === 'fixture' && !BUNDLED_FIXTURES.includes(source.name) && (
+              <option value={source.name}>{source.name}</option>
+            )}
+          </select>
+        </label>
+
+        <label className="text-sm">
+          <span className="text-gray-400">Speed</span>
+          <select
+            value={speed}
+            onChange={(e) => setSimulatorSpeed(Number(e.target.value))}
+            className="w-full bg-white/5 rounded-lg p-2 mt-1"
+          >
+            {SIMULATOR_SPEEDS.map((option) => (
+              <option key={option} value={option}>{option === 1 ? 'Real time' : `${option}×`}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="text-sm flex flex-col">
+          <span className="text-gray-400">Fixture file</span>
+          <span className="flex items-center gap-2 bg-white/5 rounded-lg p-2 mt-1 cursor-pointer hover:bg-white/10">
+            <FaFileUpload />
+            Load JSON or CSV
+            <input
+              type="file"
+              accept=".json,.csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) loadSimulatorFile(file);
+                e.target.value = '';
+              }}
+            />
+          </span>
+        </label>
+      </div>
+
+      {source.type === 'synthetic' && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4 text-sm">
+          <label>
+            <span className="text-gray-400">Seed</span>
+            <input
+              type="number"
+              value={workout.seed}
+              onChange={(e) => applyWorkout({ seed: Number(e.target.value) || 0 })}
+              className="w-full bg-white/5 rounded-lg p-2 mt-1"
+            />
+          </label>
+          <label>
+            <span className="text-gray-400">Sport</span>
+            <select
+              value={workout.sport}
+              onChange={(e) => applyWorkout({ sport: e.target.value as SyntheticWorkoutOptions['sport'] })}
+              className="w-full bg-white/5 rounded-lg p-2 mt-1"
+            >
+              <option value="Running">Running</option>
+              <option value="Cycling">Cycling</option>
+            </select>
+          </label>
+          <label>
+            <span className="text-gray-400">Intervals</span>
+            <input
+              type="number"
+              min={1}
+              value={workout.intervals.count}
+              onChange={(e) => applyWorkout({ intervals: { ...workout.intervals, count: Math.max(1, Number(e.target.value)) } })}
+              className="w-full bg-white/5 rounded-lg p-2 mt-1"
+            />
+          </label>
+          <label>
+            <span className="text-gray-400">Resting HR</span>
+            <input
+              type="number"
+              value={workout.restingHeartRate}
+              onChange={(e) => applyWorkout({ restingHeartRate: Number(e.target.value) || DEFAULT_WORKOUT.restingHeartRate })}
+              className="w-full bg-white/5 rounded-lg p-2 mt-1"
+            />
+          </label>
+          <label>
+            <span className="text-gray-400">Max HR</span>
+            <input
+              type="number"
+              value={workout.maxHeartRate}
+              onChange={(e) => applyWorkout({ maxHeartRate: Number(e.target.value) || DEFAULT_WORKOUT.maxHeartRate })}
+              className="w-full bg-white/5 rounded-lg p-2 mt-1"
+            />
+          </label>
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        <button
+          onClick={() => (playing ? pauseSimulator() : playSimulator())}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary/20 text-primary hover:bg-primary/30"
+        >
+          {playing ? <FaPause /> : <FaPlay />}
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <button
+          onClick={restartSimulator}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20"
+        >
+          <FaRedo />
+          Restart
+        </button>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          <input type="checkbox" checked={loop} onChange={(e) => setSimulatorLoop(e.target.checked)} />
+          Loop
+        </label>
+        <div className="flex-1">
+          <div className="w-full bg-white/10 rounded-full h-2">
+            <div
+              className="bg-primary h-2 rounded-full"
+              style={{ width: `${duration ? Math.min(100, (position / duration) * 100) : 0}%` }}
+            />
+          </div>
+        </div>
+        <span className="text-sm text-gray-400 tabular-nums">
+          {formatClock(position)} / {formatClock(duration)}
+        </span>
+      </div>
+
+      {error && (
+        <p className="text-sm text-[#ff4757] mt-4 flex items-center gap-2">
+          <FaExclamationTriangle />
+          {error}
+        </p>
+      )}
+    </motion.div>
+  );
+};
+
+export default SimulatorControls;
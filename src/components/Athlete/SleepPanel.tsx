@@ -0,0 +1,179 @@
+import { motion } from "framer-motion";
+import { FaBed, FaSpinner, FaArrowUp, FaArrowDown } from "react-icons/fa";
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { auth } from "../config/firebase";
+import { SLEEP_DEBT_LIMIT, SLEEP_STAGES, SLEEP_STAGE_LABELS, useSleepAnalytics } from "../services/sleep";
+import type { SleepStageSegment } from "../types";
+
+const STAGE_COLORS: Record<SleepStageSegment["stage"], string> = {
+  awake: "#ff4757",
+  light: "#60a5fa",
+  deep: "#4338ca",
+  rem: "#a855f7",
+  asleep: "#64748b",
+  inBed: "#333333",
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+const formatHours = (minutes: number) => `${Math.floor(minutes / 60)}h ${String(Math.round(minutes % 60)).padStart(2, "0")}m`;
+
+const SleepPanel = () => {
+  const { sessions, analytics, loading } = useSleepAnalytics(auth.currentUser?.uid);
+  const lastNight = sessions[sessions.length - 1];
+
+  const chartData = (analytics?.days ?? []).map((day) => ({
+    ...day,
+    label: new Date(day.date).toLocaleDateString([], { month: "short", day: "numeric" }),
+  }));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/10 p-6 rounded-xl"
+    >
+      <div className="flex items-center gap-3 mb-6">
+        <FaBed className="text-purple-400 text-2xl" />
+        <h2 className="text-xl font-semibold">Sleep</h2>
+      </div>
+
+      {loading && !analytics && (
+        <div className="flex items-center justify-center gap-2 text-gray-400 py-8">
+          <FaSpinner className="animate-spin" />
+          Loading sleep...
+        </div>
+      )}
+
+      {!loading && !analytics?.nights && (
+        <p className="text-gray-400 text-center py-8">
+          No sleep recorded yet. Connect Google Fit or import an Apple Health export to see sleep stages and trends.
+        </p>
+      )}
+
+      {analytics && analytics.nights > 0 && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div className="bg-white/5 p-4 rounded-lg">
+              <p className="text-sm text-gray-400">Avg Sleep (7 nights)</p>
+              <p className="text-2xl font-bold">{analytics.averageSleep ?? "--"} h</p>
+              <p className="text-xs text-gray-500">need {analytics.sleepNeed} h</p>
+            </div>
+            <div className="bg-white/5 p-4 rounded-lg">
+              <p className="text-sm text-gray-400">Sleep Debt</p>
+              <p className={`text-2xl font-bold ${analytics.sleepDebt > SLEEP_DEBT_LIMIT ? "text-yellow-500" : ""}`}>
+                {analytics.sleepDebt} h
+              </p>
+              <p className="text-xs text-gray-500">last 14 nights</p>
+            </div>
+            <div className="bg-white/5 p-4 rounded-lg">
+              <p className="text-sm text-gray-400">Consistency</p>
+              <p className="text-2xl font-bold">{analytics.consistency ?? "--"}</p>
+              <p className="text-xs text-gray-500">regular bed and wake times</p>
+            </div>
+            <div className="bg-white/5 p-4 rounded-lg">
+              <p className="text-sm text-gray-400">Efficiency</p>
+              <p className="text-2xl font-bold flex items-center gap-2">
+                {analytics.averageEfficiency ?? "--"}%
+                {analytics.efficiencyTrend !== null && analytics.efficiencyTrend !== 0 && (
+                  <span
+                    className={`text-sm flex items-center ${analytics.efficiencyTrend > 0 ? "text-green-500" : "text-red-500"}`}
+                  >
+                    {analytics.efficiencyTrend > 0 ? <FaArrowUp /> : <FaArrowDown />}
+                    {Math.abs(analytics.efficiencyTrend)}/wk
+                  </span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500">asleep while in bed</p>
+            </div>
+            <div className="bg-white/5 p-4 rounded-lg">
+              <p className="text-sm text-gray-400">Latency</p>
+              <p className="text-2xl font-bold">{analytics.averageLatency ?? "--"} min</p>
+              <p className="text-xs text-gray-500">time to fall asleep</p>
+            </div>
+          </div>
+
+          {lastNight && (
+            <div>
+              <div className="flex justify-between text-sm text-gray-400 mb-2">
+                <span>
+                  {new Date(lastNight.date).toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" })}:{" "}
+                  {formatHours(lastNight.totalSleep)} asleep, {formatTime(lastNight.sleepOnset)} –{" "}
+                  {formatTime(lastNight.wakeTime)}
+                </span>
+                <span>{lastNight.efficiency}% efficient</span>
+              </div>
+              <div className="flex h-6 rounded-lg overflow-hidden bg-white/5">
+                {lastNight.segments.map((segment) => (
+                  <div
+                    key={segment.start}
+                    style={{
+                      width: `${((segment.end - segment.start) / (lastNight.outOfBed - lastNight.bedTime)) * 100}%`,
+                      backgroundColor: STAGE_COLORS[segment.stage],
+                    }}
+                    title={`${segment.stage === "inBed" ? "In bed" : SLEEP_STAGE_LABELS[segment.stage]} ${formatTime(segment.start)}`}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-400">
+                {SLEEP_STAGES.filter((stage) => lastNight.stages[stage] > 0).map((stage) => (
+                  <span key={stage} className="flex items-center gap-1">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: STAGE_COLORS[stage] }} />
+                    {SLEEP_STAGE_LABELS[stage]} {formatHours(lastNight.stages[stage])}
+                    {analytics.stageShare && stage !== "asleep" && ` (7-night avg ${Math.round(analytics.stageShare[stage] * 100)}%)`}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+                <XAxis dataKey="label" stroke="#888" />
+                <YAxis yAxisId="hours" stroke="#888" unit=" h" />
+                <YAxis yAxisId="score" orientation="right" stroke="#888" domain={[0, 100]} />
+                <Tooltip contentStyle={{ backgroundColor: "rgba(0, 0, 0, 0.8)", border: "1px solid #666" }} />
+                <ReferenceLine yAxisId="hours" y={analytics.sleepNeed} stroke="#a855f7" strokeDasharray="4 4" />
+                <Bar yAxisId="hours" dataKey="totalSleep" name="Sleep (h)" fill="#a855f766" />
+                <Line yAxisId="hours" type="monotone" dataKey="sleepDebt" name="Debt (h)" stroke="#ff4757" dot={false} />
+                <Line
+                  yAxisId="score"
+                  type="monotone"
+                  dataKey="efficiency"
+                  name="Efficiency (%)"
+                  stroke="#22c55e"
+                  dot={false}
+                  connectNulls
+                />
+                <Line
+                  yAxisId="score"
+                  type="monotone"
+                  dataKey="consistency"
+                  name="Consistency"
+                  stroke="#60a5fa"
+                  dot={false}
+                  connectNulls
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default SleepPanel;
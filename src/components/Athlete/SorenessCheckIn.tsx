@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { FaCheck, FaSpinner } from 'react-icons/fa';
+import { auth } from '../config/firebase';
+import { BODY_PARTS, BODY_PART_IDS, saveSorenessReport } from '../services/injuryRisk';
+import type { SorenessReport } from '../types';
+
+interface SorenessCheckInProps {
+  onSaved: () => void;
+}
+
+// Today's soreness per body part, 0 to 10; feeds the soreness rule of the injury risk engine
+const SorenessCheckIn = ({ onSaved }: SorenessCheckInProps) => {
+  const [parts, setParts] = useState<SorenessReport['parts']>({});
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = async () => {
+    const userId = auth.currentUser?.uid;
+    if (!userId) return;
+
+    setSaving(true);
+    try {
+      // Only sore areas are stored
+      await saveSorenessReport(
+        userId,
+        Object.fromEntries(Object.entries(parts).filter(([, value]) => value > 0))
+      );
+      setSaved(true);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving soreness report:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {BODY_PART_IDS.map((part) => (
+          <label key={part} className="bg-white/5 p-3 rounded-lg text-sm">
+            <div className="flex justify-between mb-2">
+              <span>{BODY_PARTS[part].label}</span>
+              <span className="text-gray-400">{parts[part] ?? 0}/10</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={10}
+              value={parts[part] ?? 0}
+              onChange={(e) => {
+                setSaved(false);
+                setParts((prev) => ({ ...prev, [part]: Number(e.target.value) }));
+              }}
+              className="w-full accent-primary"
+            />
+          </label>
+        ))}
+      </div>
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-secondary rounded-lg disabled:opacity-50"
+      >
+        {saving ? <FaSpinner className="animate-spin" /> : <FaCheck />}
+        {saved ? 'Saved for today' : "Save today's soreness"}
+      </button>
+    </div>
+  );
+};
+
+export default SorenessCheckIn;
@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { FaWeightHanging, FaPlus, FaSpinner } from "react-icons/fa";
+import {
+  ComposedChart,
+  LineChart,
+  Line,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceArea,
+  Legend,
+} from "recharts";
+import { auth } from "../config/firebase";
+import { logManualSession, setSessionRpe, useTrainingLoad } from "../services/trainingLoad";
+
+interface TrainingLoadPanelProps {
+  sport: string;
+}
+
+const LOAD_RANGES = {
+  "6 weeks": 42,
+  "90 days": 90,
+};
+
+const RPE_OPTIONS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+// Commonly used ACWR bands: below 0.8 undertrained, 0.8-1.3 the "sweet spot", above 1.5 high risk
+const acwrStatus = (acwr: number | null) => {
+  if (acwr === null) return { label: "Building baseline", color: "text-gray-400" };
+  if (acwr < 0.8) return { label: "Undertraining", color: "text-blue-400" };
+  if (acwr <= 1.3) return { label: "Optimal", color: "text-green-500" };
+  if (acwr <= 1.5) return { label: "Caution", color: "text-yellow-500" };
+  return { label: "High risk", color: "text-red-500" };
+};
+
+const formatDay = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString([], { month: "short", day: "numeric" });
+
+const TrainingLoadPanel = ({ sport }: TrainingLoadPanelProps) => {
+  const userId = auth.currentUser?.uid;
+  const [range, setRange] = useState<keyof typeof LOAD_RANGES>("6 weeks");
+  const [revision, setRevision] = useState(0);
+  const { trainingLoad, loading } = useTrainingLoad(userId, LOAD_RANGES[range], revision);
+  const [manualSession, setManualSession] = useState({
+    date: new Date().toLocaleDateString("en-CA"), // YYYY-MM-DD in local time
+    durationMinutes: 60,
+    rpe: 5,
+  });
+  const [saving, setSaving] = useState(false);
+
+  const summary = trainingLoad?.summary;
+  const status = acwrStatus(summary?.acwr ?? null);
+
+  const handleRpeChange = async (sessionId: string, rpe: number) => {
+    if (!userId) return;
+    try {
+      await setSessionRpe(userId, sessionId, rpe);
+      setRevision((prev) => prev + 1);
+    } catch (error) {
+      console.error("Error saving session RPE:", error);
+    }
+  };
+
+  const handleLogSession = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId) return;
+
+    setSaving(true);
+    try {
+      // Logged at midday so the session lands on the chosen day in any time zone
+      await logManualSession(userId, {
+        sport,
+        startTime: new Date(`${manualSession.date}T12:00:00`).getTime(),
+        durationMinutes: manualSession.durationMinutes,
+        rpe: manualSession.rpe,
+      });
+      setRevision((prev) => prev + 1);
+    } catch (error) {
+      console.error("Error logging session:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/10 p-6 rounded-xl"
+    >
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <FaWeightHanging className="text-primary text-2xl" />
+          <h2 className="text-xl font-semibold">Training Load</h2>
+        </div>
+        <div className="flex gap-2">
+          {(Object.keys(LOAD_RANGES) as (keyof typeof LOAD_RANGES)[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setRange(option)}
+              className={`px-3 py-1 rounded-lg text-sm ${
+                range === option ? "bg-white/20 text-white" : "bg-white/5 hover:bg-white/10"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        <div className="bg-white/5 p-4 rounded-lg">
+          <p className="text-sm text-gray-400">ACWR</p>
+          <p className={`text-2xl font-bold ${status.color}`}>{summary?.acwr ?? "--"}</p>
+          <p className={`text-xs ${status.color}`}>{status.label}</p>
+        </div>
+        <div className="bg-white/5 p-4 rounded-lg">
+          <p className="text-sm text-gray-400">Fitness (CTL)</p>
+          <p className="text-2xl font-bold">{summary?.fitness ?? "--"}</p>
+        </div>
+        <div className="bg-white/5 p-4 rounded-lg">
+          <p className="text-sm text-gray-400">Fatigue (ATL)</p>
+          <p className="text-2xl font-bold">{summary?.fatigue ?? "--"}</p>
+        </div>
+        <div className="bg-white/5 p-4 rounded-lg">
+          <p className="text-sm text-gray-400">Form (TSB)</p>
+          <p className={`text-2xl font-bold ${summary && summary.form < -30 ? "text-red-500" : ""}`}>
+            {summary?.form ?? "--"}
+          </p>
+        </div>
+        <div className="bg-white/5 p-4 rounded-lg">
+          <p className="text-sm text-gray-400">Monotony / Strain</p>
+          <p className="text-2xl font-bold">
+            {summary?.monotony ?? "--"}
+            <span className="text-sm text-gray-400"> / {summary?.strain ?? "--"}</span>
+          </p>
+        </div>
+      </div>
+
+      {!trainingLoad || trainingLoad.days.every((day) => day.load === 0) ? (
+        <div className="h-40 flex items-center justify-center text-gray-400">
+          {loading ? "Calculating training load..." : "Import or log sessions to start tracking training load"}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <div className="h-72">
+            <h3 className="text-sm text-gray-400 mb-2">Daily load and acute:chronic ratio</h3>
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={trainingLoad.days}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+                <XAxis dataKey="date" stroke="#888" tickFormatter={formatDay} />
+                <YAxis yAxisId="load" stroke="#888" />
+                <YAxis yAxisId="ratio" orientation="right" stroke="#888" domain={[0, 2]} />
+                <ReferenceArea yAxisId="ratio" y1={0.8} y2={1.3} fill="#22c55e" fillOpacity={0.08} />
+                <ReferenceArea yAxisId="ratio" y1={1.5} y2={2} fill="#ef4444" fillOpacity={0.08} />
+                <Tooltip
+                  labelFormatter={(timestamp: number) => new Date(timestamp).toLocaleDateString()}
+                  contentStyle={{ backgroundColor: "rgba(0, 0, 0, 0.8)", border: "1px solid #666" }}
+                />
+                <Legend />
+                <Bar yAxisId="load" dataKey="load" name="Load" fill="#646cff" opacity={0.6} />
+                <Line yAxisId="ratio" type="monotone" dataKey="acwr" name="ACWR" stroke="#eab308" strokeWidth={2} dot={false} />
+                <Line yAxisId="ratio" type="monotone" dataKey="acwrEwma" name="ACWR (EWMA)" stroke="#f97316" strokeDasharray="4 4" dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="h-72">
+            <h3 className="text-sm text-gray-400 mb-2">Fitness, fatigue and form</h3>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={trainingLoad.days}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+                <XAxis dataKey="date" stroke="#888" tickFormatter={formatDay} />
+                <YAxis stroke="#888" />
+                <Tooltip
+                  labelFormatter={(timestamp: number) => new Date(timestamp).toLocaleDateString()}
+                  contentStyle={{ backgroundColor: "rgba(0, 0, 0, 0.8)", border: "1px solid #666" }}
+                />
+                <Legend />
+                <Line type="monotone" dataKey="fitness" name="Fitness" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="fatigue" name="Fatigue" stroke="#ef4444" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="form" name="Form" stroke="#22c55e" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-10">
+        {/* Recent sessions */}
+        <div>
+          <h3 className="font-semibold mb-3">Recent Sessions</h3>
+          {trainingLoad && trainingLoad.sessions.length > 0 ? (
+            <ul className="space-y-2">
+              {trainingLoad.sessions.slice(-6).reverse().map((session) => (
+                <li key={session.sessionId} className="flex items-center justify-between bg-white/5 p-3 rounded-lg text-sm">
+                  <div>
+                    <p className="font-medium">{session.sport}</p>
+                    <p className="text-gray-400">
+                      {formatDay(session.startTime)} · {Math.round(session.duration / 60)} min · {session.load}{" "}
+                      {session.method === "trimp" ? "TRIMP" : "AU (sRPE)"}
+                    </p>
+                  </div>
+                  <select
+                    value={session.rpe ?? ""}
+                    onChange={(e) => handleRpeChange(session.sessionId, Number(e.target.value))}
+                    className="bg-white/10 rounded-lg px-2 py-1"
+                  >
+                    <option value="" disabled>RPE</option>
+                    {RPE_OPTIONS.map((rpe) => (
+                      <option key={rpe} value={rpe}>RPE {rpe}</option>
+                    ))}
+                  </select>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-400">No sessions in this period</p>
+          )}
+        </div>
+
+        {/* Manual session */}
+        <form onSubmit={handleLogSession} className="space-y-3">
+          <h3 className="font-semibold">Log a Session</h3>
+          <p className="text-sm text-gray-400">
+            For sessions without a heart rate recording, load is session RPE × duration.
+          </p>
+          <div className="grid grid-cols-3 gap-3">
+            <input
+              type="date"
+              value={manualSession.date}
+              onChange={(e) => setManualSession((prev) => ({ ...prev, date: e.target.value }))}
+              className="bg-white/5 rounded-lg p-2 text-sm"
+            />
+            <input
+              type="number"
+              min={1}
+              value={manualSession.durationMinutes}
+              onChange={(e) => setManualSession((prev) => ({ ...prev, durationMinutes: Number(e.target.value) }))}
+              className="bg-white/5 rounded-lg p-2 text-sm"
+              placeholder="Minutes"
+            />
+            <select
+              value={manualSession.rpe}
+              onChange={(e) => setManualSession((prev) => ({ ...prev, rpe: Number(e.target.value) }))}
+              className="bg-white/5 rounded-lg p-2 text-sm"
+            >
+              {RPE_OPTIONS.map((rpe) => (
+                <option key={rpe} value={rpe}>RPE {rpe}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !manualSession.durationMinutes}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary/20 text-primary hover:bg-primary/30 text-sm"
+          >
+            {saving ? <FaSpinner className="animate-spin" /> : <FaPlus />}
+            Log {sport} Session
+          </button>
+        </form>
+      </div>
+    </motion.div>
+  );
+};
+
+export default TrainingLoadPanel;
@@ -1,12 +1,23 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import {
-  FaDumbbell, FaRunning, FaHeart, FaYinYang, FaBrain, FaTrophy, FaChartLine, FaWater, FaBed, FaMedal, FaExclamationTriangle, FaSpinner, FaCheckCircle, FaSync
+  FaDumbbell, FaRunning, FaHeart, FaYinYang, FaBrain, FaTrophy, FaChartLine, FaWater, FaBed, FaMedal, FaExclamationTriangle, FaSpinner, FaCheckCircle, FaSync,
+  FaStopwatch
 } from 'react-icons/fa';
 import { PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import type { AthleteData } from './AthleteDashboard';
 import { auth, db } from '../config/firebase';
 import { doc, onSnapshot } from 'firebase/firestore';
+import { useReadiness } from '../services/readiness';
+import { resolveTargetHeartRate, useHeartRateZones } from '../services/heartRateZones';
+import { parseTrainingPlan } from '../services/coach';
+import { getTrainingRecommendations, type TrainingPlanDay } from '../services/gemini';
+import { localDayStart } from '../services/metricHistory';
+import { fetchSessions } from '../services/trainingLoad';
+import { useWorkoutRecorderStore } from '../services/workoutRecorder';
+import { useUnits } from '../services/units';
+import type { PlannedWorkoutLink } from '../types';
+import WorkoutRecorder from './WorkoutRecorder';
 
 interface TrainingPlansProps {
   athleteData: AthleteData;
@@ -51,8 +62,8 @@ interface Achievement {
 
 interface HealthMetrics {
   heartRate: number;
-  fatigueLevel: number;
-  recoveryScore: number;
+  fatigueLevel: number | null;
+  recoveryScore: number | null;
   sleepQuality: number;
   hydrationLevel: number;
   stressLevel: number;
@@ -81,6 +92,53 @@ interface AchievementBadgeProps {
   target: number;
 }
 
+const DAY = 24 * 60 * 60 * 1000;
+const PLAN_DAY_OFFSETS: Record<string, number> = { today: 0, tomorrow: 1, day3: 2 };
+
+// Record the plan's endurance work under the sport it actually is
+const plannedSport = (sections: WorkoutSection[], goal: string, fallback: string) => {
+  const names = sections.flatMap((section) => section.exercises.map((exercise) => exercise.name)).join(' ');
+  if (/run|sprint/i.test(names)) return 'Running';
+  if (/cycl|bike/i.test(names)) return 'Cycling';
+  if (/swim/i.test(names)) return 'Swimming';
+  return goal === 'strength' || sections.some((section) => section.type === 'strength') ? 'Strength Training' : fallback;
+};
+
+// The saved plan names its days after the weekday
+const planDayFor = (plan: TrainingPlanDay[], date: number) => {
+  const weekday = new Date(date).toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
+  return plan.find((entry) => entry.day.trim().toLowerCase() === weekday);
+};
+
+const sectionType = (focus: string): WorkoutSection['type'] => {
+  if (/recover|rest|mobility|yoga|stretch/i.test(focus)) return 'recovery';
+  if (/strength|gym|weights|lift/i.test(focus)) return 'strength';
+  if (/endurance|cardio|run|cycl|swim|conditioning/i.test(focus)) return 'cardio';
+  return 'sport-specific';
+};
+
+const sectionIntensity = (intensity: string): WorkoutSection['intensity'] => {
+  if (/high/i.test(intensity)) return 'high';
+  if (/low/i.test(intensity)) return 'low';
+  return 'medium';
+};
+
+// Sessions of the saved plan in the shape the workout list renders
+const planSections = (day: TrainingPlanDay): WorkoutSection[] =>
+  day.sessions.map((session) => ({
+    title: `${session.focus} (${session.duration})`,
+    type: sectionType(session.focus),
+    intensity: sectionIntensity(session.intensity),
+    exercises: session.exercises.map((exercise) => ({
+      name: exercise.name,
+      sets: exercise.sets,
+      reps: String(exercise.reps),
+      intensity: session.intensity,
+      notes: exercise.notes,
+    })),
+  }));
+
+// Sample sessions, shown for days the athlete has no saved plan for
 const workoutData: WorkoutData = {
   today: {
     strength: [
@@ -100,7 +158,7 @@ const workoutData: WorkoutData = {
         type: 'cardio',
         intensity: 'medium',
         exercises: [
-          { name: 'Long Run', sets: 1, reps: '30 mins', intensity: 'Medium' },
+          { name: 'Long Run', sets: 1, reps: '30 mins', intensity: 'Medium', targetHeartRate: 'Zone 2' },
         ],
       },
     ],
@@ -110,7 +168,7 @@ const workoutData: WorkoutData = {
         type: 'sport-specific',
         intensity: 'high',
         exercises: [
-          { name: 'Sprint Intervals', sets: 6, reps: '30s', intensity: 'High' },
+          { name: 'Sprint Intervals', sets: 6, reps: '30s', intensity: 'High', targetHeartRate: 'Zone 5' },
         ],
       },
     ],
@@ -142,7 +200,7 @@ const workoutData: WorkoutData = {
         type: 'cardio',
         intensity: 'high',
         exercises: [
-          { name: 'Cycling', sets: 1, reps: '45 mins', intensity: 'High' },
+          { name: 'Cycling', sets: 1, reps: '45 mins', intensity: 'High', targetHeartRate: 'Zone 3-4' },
         ],
       },
     ],
@@ -152,7 +210,7 @@ const workoutData: WorkoutData = {
         type: 'sport-specific',
         intensity: 'high',
         exercises: [
-          { name: 'Agility Drills', sets: 5, reps: '1 min', intensity: 'High' },
+          { name: 'Agility Drills', sets: 5, reps: '1 min', intensity: 'High', targetHeartRate: 'Zone 4' },
         ],
       },
     ],
@@ -184,7 +242,7 @@ const workoutData: WorkoutData = {
         type: 'cardio',
         intensity: 'medium',
         exercises: [
-          { name: 'Swimming', sets: 1, reps: '30 mins', intensity: 'Medium' },
+          { name: 'Swimming', sets: 1, reps: '30 mins', intensity: 'Medium', targetHeartRate: 'Zone 2-3' },
         ],
       },
     ],
@@ -194,7 +252,7 @@ const workoutData: WorkoutData = {
         type: 'sport-specific',
         intensity: 'high',
         exercises: [
-          { name: 'Plyometrics', sets: 6, reps: '30s', intensity: 'High' },
+          { name: 'Plyometrics', sets: 6, reps: '30s', intensity: 'High', targetHeartRate: 'Zone 4-5' },
         ],
       },
     ],
@@ -216,21 +274,35 @@ const TrainingPlans = ({ athleteData }: TrainingPlansProps) => {
   const [selectedGoal, setSelectedGoal] = useState('strength');
   const [healthMetrics, setHealthMetrics] = useState<HealthMetrics>({
     heartRate: 75,
-    fatigueLevel: 30,
-    recoveryScore: 85,
+    fatigueLevel: null,
+    recoveryScore: null,
     sleepQuality: 90,
     hydrationLevel: 75,
     stressLevel: 25,
   });
   const [achievements, setAchievements] = useState<Achievement[]>([]);
-  const [isLoadingAI] = useState(false);
+  const [isLoadingAI, setIsLoadingAI] = useState(false);
+  const { readiness } = useReadiness(auth.currentUser?.uid);
+  const { heartRateZones } = useHeartRateZones(auth.currentUser?.uid);
+  const units = useUnits();
+  const recorderStatus = useWorkoutRecorderStore((state) => state.status);
+  const savedSession = useWorkoutRecorderStore((state) => state.savedSession);
+  const [showRecorder, setShowRecorder] = useState(false);
+  const [completedWorkouts, setCompletedWorkouts] = useState<string[]>([]);
+  const [trainingPlan, setTrainingPlan] = useState<TrainingPlanDay[]>([]);
+
+  // Plan targets are written as zones; show them as the athlete's own BPM range
+  const formatTargetHeartRate = (target: string) => {
+    const range = heartRateZones && resolveTargetHeartRate(target, heartRateZones.profile);
+    return range ? `${target} • ${range.min}–${range.max} bpm` : target;
+  };
   
   // Static data for Health Status, Training Recommendations, and Training Focus
   const [staticHealthStatus, setStaticHealthStatus] = useState({
     overall: 'Your health status is good, but there are areas for improvement.',
     concerns: [
       'Slight fatigue detected. Consider reducing training intensity for 1-2 days.',
-      'Hydration levels could be better. Aim to drink at least 3 liters of water daily.',
+      `Hydration levels could be better. Aim to drink at least ${units.format('volume', 3)} of water daily.`,
     ],
     positives: [
       'Recovery score is excellent. Keep up the good work!',
@@ -258,69 +330,80 @@ const TrainingPlans = ({ athleteData }: TrainingPlansProps) => {
     skillWork: 10,
   });
 
-  // Randomize static data on component mount
+  // Fatigue and recovery come from the readiness score, not from the live snapshot
   useEffect(() => {
-    const randomizeData = () => {
-      const randomHealthStatus = {
-        overall: 'Your health status is good, but there are areas for improvement.',
-        concerns: [
-          'Slight fatigue detected. Consider reducing training intensity for 1-2 days.',
-          'Hydration levels could be better. Aim to drink at least 3 liters of water daily.',
-        ],
-        positives: [
-          'Recovery score is excellent. Keep up the good work!',
-          'Sleep quality is optimal. Maintain a consistent sleep schedule.',
-        ],
-      };
+    if (!readiness) return;
+    setHealthMetrics((prev) => ({
+      ...prev,
+      fatigueLevel: readiness.fatigueLevel,
+      recoveryScore: readiness.score,
+    }));
+  }, [readiness]);
+
+  // Ask for recommendations once readiness is known, and again when the goal changes
+  useEffect(() => {
+    if (!readiness) return;
+
+    let cancelled = false;
+    setIsLoadingAI(true);
+
+    getTrainingRecommendations(
+      athleteData.sport,
+      athleteData.position,
+      { ...healthMetrics, fatigueLevel: readiness.fatigueLevel, recoveryScore: readiness.score },
+      selectedGoal,
+      readiness
+    )
+      .then((recommendations) => {
+        if (cancelled) return;
+        setStaticHealthStatus(recommendations.healthStatus);
+        setStaticTrainingRecommendations(recommendations.trainingRecommendations);
+        setStaticTrainingDistribution(recommendations.trainingDistribution);
+      })
+      .catch((error) => console.error('Error fetching training recommendations:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoadingAI(false);
+      });
 
-      const randomTrainingRecommendations = {
-        intensity: ['Low', 'Moderate', 'High'][Math.floor(Math.random() * 3)],
-        focusAreas: [
-          'Strength training: Focus on compound lifts like squats and deadlifts.',
-          'Endurance: Incorporate long-distance runs or cycling sessions.',
-        ],
-        modifications: [
-          'Increase protein intake to support muscle recovery.',
-          'Add more recovery days to prevent overtraining.',
-        ],
-      };
-
-      const randomTrainingDistribution = {
-        strength: Math.floor(Math.random() * 40) + 10,
-        cardio: Math.floor(Math.random() * 40) + 10,
-        flexibility: Math.floor(Math.random() * 20) + 10,
-        recovery: Math.floor(Math.random() * 20) + 10,
-        skillWork: Math.floor(Math.random() * 20) + 10,
-      };
-
-      setStaticHealthStatus(randomHealthStatus);
-      setStaticTrainingRecommendations(randomTrainingRecommendations);
-      setStaticTrainingDistribution(randomTrainingDistribution);
+    return () => {
+      cancelled = true;
     };
+    // healthMetrics is read once per request; its simulated drift should not refetch
+  }, [readiness, selectedGoal, athleteData.sport, athleteData.position]);
 
-    randomizeData();
-  }, []);
+  // Planned workouts already fulfilled by a recorded session
+  useEffect(() => {
+    const userId = auth.currentUser?.uid;
+    if (!userId) return;
 
-  // Calculate Fatigue Level
-  const calculateFatigueLevel = (metrics: HealthMetrics): number => {
-    const { heartRate, sleepQuality, stressLevel, hydrationLevel } = metrics;
-    const fatigueScore =
-      heartRate * 0.3 +
-      (100 - sleepQuality) * 0.2 +
-      stressLevel * 0.3 +
-      (100 - hydrationLevel) * 0.2;
-    return Math.min(100, Math.max(0, Math.round(fatigueScore)));
-  };
+    let cancelled = false;
+    fetchSessions(userId, localDayStart(Date.now()))
+      .then((sessions) => {
+        if (cancelled) return;
+        setCompletedWorkouts(
+          sessions.flatMap((session) => (session.plannedWorkout ? [session.plannedWorkout.id] : []))
+        );
+      })
+      .catch((error) => console.error('Error fetching completed workouts:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [savedSession]);
 
-  // Calculate Recovery Score
-  const calculateRecoveryScore = (metrics: HealthMetrics): number => {
-    const { sleepQuality, stressLevel, hydrationLevel } = metrics;
-    const recoveryScore =
-      sleepQuality * 0.4 +
-      (100 - stressLevel) * 0.3 +
-      hydrationLevel * 0.3;
-    return Math.min(100, Math.max(0, Math.round(recoveryScore)));
-  };
+  // The saved plan, kept live so changes confirmed in the coach chat show up here
+  useEffect(() => {
+    const userId = auth.currentUser?.uid;
+    if (!userId) return;
+
+    const unsubscribe = onSnapshot(
+      doc(db, 'athletes', userId),
+      (snapshot) => setTrainingPlan(snapshot.exists() ? parseTrainingPlan(snapshot.data()) : []),
+      (error) => console.error('Error loading training plan:', error)
+    );
+
+    return () => unsubscribe();
+  }, []);
 
   // Fetch real-time health metrics from Firebase
   useEffect(() => {
@@ -352,29 +435,12 @@ const TrainingPlans = ({ athleteData }: TrainingPlansProps) => {
   // Simulate Health Metrics Updates
   useEffect(() => {
     const interval = setInterval(() => {
-      setHealthMetrics((prev) => {
-        const newHydrationLevel = Math.max(0, Math.min(100, prev.hydrationLevel + Math.floor(Math.random() * 3) - 1));
-        const newStressLevel = Math.max(0, Math.min(100, prev.stressLevel + Math.floor(Math.random() * 4) - 2));
-
-        return {
-          ...prev,
-          heartRate: prev.heartRate + Math.floor(Math.random() * 3) - 1,
-          fatigueLevel: calculateFatigueLevel({
-            ...prev,
-            hydrationLevel: newHydrationLevel,
-            stressLevel: newStressLevel,
-          }),
-          recoveryScore: calculateRecoveryScore({
-            ...prev,
-            hydrationLevel: newHydrationLevel,
-            stressLevel: newStressLevel,
-          }),
-          sleepQuality: prev.sleepQuality,
-          hydrationLevel: newHydrationLevel,
-          stressLevel: newStressLevel,
-        };
-      });
-      console.log("Updated Health Metrics:", healthMetrics);
+      setHealthMetrics((prev) => ({
+        ...prev,
+        heartRate: prev.heartRate + Math.floor(Math.random() * 3) - 1,
+        hydrationLevel: Math.max(0, Math.min(100, prev.hydrationLevel + Math.floor(Math.random() * 3) - 1)),
+        stressLevel: Math.max(0, Math.min(100, prev.stressLevel + Math.floor(Math.random() * 4) - 2)),
+      }));
     }, 30000);
 
     return () => clearInterval(interval);
@@ -413,9 +479,15 @@ const TrainingPlans = ({ athleteData }: TrainingPlansProps) => {
     ]);
   }, []);
 
+  const plannedDate = localDayStart(Date.now()) + (PLAN_DAY_OFFSETS[selectedDay] ?? 0) * DAY;
+  const planDay = planDayFor(trainingPlan, plannedDate);
+  const focusSections = planDay
+    ? planSections(planDay)
+    : workoutData[selectedDay][selectedGoal as keyof WorkoutData[string]];
+
   const generateWorkout = (): WorkoutSection[] => {
-    const dayWorkouts = workoutData[selectedDay as keyof typeof workoutData];
-    const focusWorkouts = dayWorkouts[selectedGoal as keyof typeof dayWorkouts];
+    // Nothing to warm up for on a rest day
+    if (focusSections.length === 0) return [];
 
     const workout: WorkoutSection[] = [
       {
@@ -429,11 +501,12 @@ const TrainingPlans = ({ athleteData }: TrainingPlansProps) => {
             reps: '10 each',
             duration: '10 mins',
             intensity: 'Low',
+            targetHeartRate: 'Zone 1',
             notes: 'Focus on major muscle groups',
           },
         ],
       },
-      ...focusWorkouts,
+      ...focusSections,
       {
         title: 'Cool-down',
         type: 'recovery',
@@ -455,6 +528,17 @@ const TrainingPlans = ({ athleteData }: TrainingPlansProps) => {
 
   const workout = generateWorkout();
 
+  const plannedFocus = planDay ? planDay.sessions.map((session) => session.focus).join(' + ') || 'rest' : selectedGoal;
+  const plannedWorkout: PlannedWorkoutLink = {
+    id: `${plannedDate}:${plannedFocus}`,
+    date: plannedDate,
+    focus: plannedFocus,
+    title: focusSections
+      .map((section) => `${section.title}: ${section.exercises.map((exercise) => exercise.name).join(', ')}`)
+      .join(' • '),
+  };
+  const plannedWorkoutDone = completedWorkouts.includes(plannedWorkout.id);
+
   const getIntensityColor = (intensity: string) => {
     switch (intensity.toLowerCase()) {
       case 'high':
@@ -725,7 +809,7 @@ const TrainingPlans = ({ athleteData }: TrainingPlansProps) => {
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <AchievementBadge
             title="Hydration Hero"
-            description="Drink 3 liters of water for 7 consecutive days."
+            description={`Drink ${units.format('volume', 3)} of water for 7 consecutive days.`}
             progress={5}
             target={7}
           />
@@ -789,7 +873,7 @@ const TrainingPlans = ({ athleteData }: TrainingPlansProps) => {
             <FaRunning className="text-blue-500 text-xl" />
             <h3 className="font-semibold">Fatigue</h3>
           </div>
-          <p className="text-2xl font-bold">{healthMetrics.fatigueLevel}%</p>
+          <p className="text-2xl font-bold">{healthMetrics.fatigueLevel ?? '--'}%</p>
         </div>
 
         <div className="bg-white/10 backdrop-blur-lg p-4 rounded-xl">
@@ -797,7 +881,7 @@ const TrainingPlans = ({ athleteData }: TrainingPlansProps) => {
             <FaYinYang className="text-green-500 text-xl" />
             <h3 className="font-semibold">Recovery</h3>
           </div>
-          <p className="text-2xl font-bold">{healthMetrics.recoveryScore}%</p>
+          <p className="text-2xl font-bold">{healthMetrics.recoveryScore ?? '--'}%</p>
         </div>
 
         <div className="bg-white/10 backdrop-blur-lg p-4 rounded-xl">
@@ -861,12 +945,46 @@ const TrainingPlans = ({ athleteData }: TrainingPlansProps) => {
         animate={{ opacity: 1, y: 0 }}
         className="bg-white/10 backdrop-blur-lg p-6 rounded-xl"
       >
-        <div className="flex items-center gap-3 mb-6">
-          <FaDumbbell className="text-primary text-2xl" />
-          <h2 className="text-xl font-semibold">{selectedDay.charAt(0).toUpperCase() + selectedDay.slice(1)}'s Workout Plan</h2>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <FaDumbbell className="text-primary text-2xl" />
+            <h2 className="text-xl font-semibold">{selectedDay.charAt(0).toUpperCase() + selectedDay.slice(1)}'s Workout Plan</h2>
+            {plannedWorkoutDone && (
+              <span className="flex items-center gap-1 text-sm text-[#2ed573]">
+                <FaCheckCircle />
+                Completed
+              </span>
+            )}
+          </div>
+          {!showRecorder && recorderStatus === 'idle' && (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => setShowRecorder(true)}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary/20 text-primary hover:bg-primary/30"
+            >
+              <FaStopwatch />
+              Start Workout
+            </motion.button>
+          )}
         </div>
 
+        <p className="text-sm text-gray-400 mb-4">
+          {planDay
+            ? `${planDay.day} from your training plan`
+            : `Sample ${selectedGoal} session; you have no saved plan for this day`}
+        </p>
+
+        {(showRecorder || recorderStatus !== 'idle') && (
+          <WorkoutRecorder
+            key={plannedWorkout.id}
+            sport={plannedSport(focusSections, selectedGoal, athleteData.sport)}
+            plannedWorkout={plannedWorkout}
+          />
+        )}
+
         <div className="space-y-6">
+          {workout.length === 0 && <p className="text-gray-300">Rest day. No sessions are planned.</p>}
           {workout.map((section, sectionIndex) => (
             <motion.div
               key={section.title}
@@ -892,6 +1010,13 @@ const TrainingPlans = ({ athleteData }: TrainingPlansProps) => {
                           {exercise.sets} {exercise.sets > 1 ? 'sets' : 'set'} × {exercise.reps}
                           {exercise.duration && ` • ${exercise.duration}`}
                         </p>
+                        {exercise.targetHeartRate && (
+                          <p className="text-sm text-red-400 flex items-center gap-1 mt-1">
+                            <FaHeart />
+                            {formatTargetHeartRate(exercise.targetHeartRate)}
+                          </p>
+                        )}
+                        {exercise.notes && <p className="text-sm text-gray-500 mt-1">{exercise.notes}</p>}
                       </div>
                       <span className={`text-sm ${getIntensityColor(exercise.intensity)}`}>
                         {exercise.intensity}
@@ -1,16 +1,25 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   FaGoogle, FaHeart, FaBed, FaTint, FaRunning, FaBrain, FaPlus,
   FaSync, FaBolt, FaTimes, FaHeartbeat, FaWalking, FaFire,
-  FaExclamationTriangle, FaSpinner
+  FaExclamationTriangle, FaSpinner, FaFileUpload, FaCheckCircle, FaCloudUploadAlt, FaFlask,
+  FaTachometerAlt, FaSyncAlt
 } from 'react-icons/fa';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { useWearableStore, syncHealthMetricsToFirebase, subscribeToHealthMetrics, generateRandomMetrics } from '../services/wearableStore';
-import { fetchGoogleFitData } from '../services/googleFit';
+import { useWearableStore, syncHealthMetricsToFirebase, subscribeToHealthMetrics } from '../services/wearableStore';
+import { useSyncQueueStore, flushHealthMetricQueue } from '../services/syncQueue';
+import { wearableProviders, getWearableProvider } from '../services/wearables/registry';
+import { pairBluetoothSensor, removeBluetoothSensor, useBluetoothSensorStore } from '../services/wearables/bluetooth';
+import { SENSOR_PROFILE_LABELS } from '../services/wearables/bluetoothSensors';
+import { importWorkoutFile, syncProviderSessions, WORKOUT_FILE_EXTENSIONS } from '../services/workoutFiles';
+import { syncProviderSleep } from '../services/sleep';
+import { useUnits } from '../services/units';
 import { auth, db } from '../config/firebase';
 import { doc, setDoc } from 'firebase/firestore';
-import type { HealthMetrics } from '../types';
+import type { HealthMetrics, WearableConnectOptions, WearableProvider } from '../types';
+import SimulatorControls from './SimulatorControls';
+import WorkoutRecorder from './WorkoutRecorder';
 
 interface Device {
   id: string;
@@ -19,41 +28,42 @@ interface Device {
   connected: boolean;
   lastSync?: Date;
   batteryLevel?: number;
-  type: 'google_fit' | 'strava' | 'bluetooth';
+  type: string;
+  statusMessage?: string;
 }
 
+interface ImportResult {
+  fileName: string;
+  success: boolean;
+  message: string;
+}
+
+const providerIcons: Record<string, JSX.Element> = {
+  google_fit: <FaGoogle />,
+  strava: <FaBolt />,
+  bluetooth: <FaHeart />,
+  simulator: <FaFlask />
+};
+
 const WearableSync = () => {
-  const [devices, setDevices] = useState<Device[]>([
-    {
-      id: 'google_fit',
-      name: 'Google Fit',
-      icon: <FaGoogle />,
-      connected: false,
-      type: 'google_fit'
-    },
-    {
-      id: 'strava',
-      name: 'Strava',
-      icon: <FaBolt />,
+  const [devices, setDevices] = useState<Device[]>(() =>
+    wearableProviders.map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      icon: providerIcons[provider.id] ?? <FaHeart />,
       connected: false,
-      type: 'strava'
-    },
-    {
-      id: 'bluetooth',
-      name: 'Bluetooth Device',
-      icon: <FaHeart />,
-      connected: false,
-      type: 'bluetooth'
-    }
-  ]);
+      type: provider.id
+    }))
+  );
 
   const [healthData, setHealthData] = useState<HealthMetrics[]>([]);
   const [selectedMetric, setSelectedMetric] = useState('heartRate');
   const [syncing, setSyncing] = useState(false);
   const [isBluetoothConnecting, setIsBluetoothConnecting] = useState(false);
   const [connectionError, setConnectionError] = useState('');
-  const [authWindow, setAuthWindow] = useState<Window | null>(null);
-  const [dataFetchInterval, setDataFetchInterval] = useState<NodeJS.Timeout | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importResults, setImportResults] = useState<ImportResult[]>([]);
+  const units = useUnits();
 
   const {
     connectedDevice,
@@ -62,6 +72,9 @@ const WearableSync = () => {
     clearHealthMetrics
   } = useWearableStore();
 
+  const { online, pending: pendingUploads, flushing, nextRetryAt, lastError: uploadError } = useSyncQueueStore();
+  const bluetoothSensors = useBluetoothSensorStore((state) => state.sensors);
+
   // Store health metrics in Firebase
   const storeHealthMetricsInFirebase = async (metrics: HealthMetrics) => {
     const userId = auth.currentUser?.uid;
@@ -107,8 +120,7 @@ const WearableSync = () => {
     if (!userId) return;
   
     const unsubscribe = subscribeToHealthMetrics(userId, (metrics) => {
-      updateHealthMetrics(metrics);
-      setHealthData(prev => [...prev, metrics].slice(-30));
+      updateHealthMetrics(metrics, 'realtime');
       
       // Add this call:
       storeHealthMetricsInFirebase(metrics);
@@ -117,195 +129,186 @@ const WearableSync = () => {
     return () => unsubscribe();
   }, [updateHealthMetrics]);
 
-  // Fetch and update Google Fit data
-  const fetchAndUpdateGoogleFitData = useCallback(async () => {
-    try {
-      const data = await fetchGoogleFitData();
-      const userId = auth.currentUser?.uid;
-      if (!userId) return;
-  
-      const newMetrics: HealthMetrics = {
-        ...data,
-        timestamp: new Date().toISOString(),
-        lastUpdated: Date.now()
-      };
-  
-      updateHealthMetrics(newMetrics);
-      setHealthData(prev => [...prev, newMetrics].slice(-30));
-      
-      // Add this call:
-      await storeHealthMetricsInFirebase(newMetrics);
-  
-    } catch (error) {
-      console.error('Error fetching Google Fit data:', error);
-    }
-  }, [updateHealthMetrics]);
-
-  // Set up data fetching intervals based on device type
+  // Poll the connected provider and persist every snapshot
   useEffect(() => {
-    let interval: NodeJS.Timeout;
+    const provider = connectedDevice ? getWearableProvider(connectedDevice) : undefined;
+    if (!provider) return;
 
-    if (connectedDevice) {
-      const fetchData = async () => {
-        const userId = auth.currentUser?.uid;
-        if (!userId) return;
-
-        if (connectedDevice === 'google_fit') {
-          await fetchAndUpdateGoogleFitData();
-        } else {
-          // For Strava and Bluetooth, generate random data
-          const metrics = generateRandomMetrics();
-          updateHealthMetrics(metrics);
-          await syncHealthMetricsToFirebase(userId, metrics);
-
-          setHealthData(prev => [
-            ...prev,
-            metrics
-          ].slice(-30));
-        }
-      };
-
-      // Initial fetch
-      fetchData();
-      
-      // Set up interval
-      interval = setInterval(fetchData, 5000); // Update every 5 seconds
-    }
+    const fetchData = async () => {
+      const userId = auth.currentUser?.uid;
+      if (!userId) return;
 
-    return () => {
-      if (interval) {
-        clearInterval(interval);
+      try {
+        updateHealthMetrics(await provider.refresh(), provider.id);
+        const newMetrics = useWearableStore.getState().healthMetrics;
+        setHealthData(prev => [...prev, newMetrics].slice(-30));
+        setDevices(prev =>
+          prev.map(device => (device.type === provider.id ? { ...device, lastSync: new Date() } : device))
+        );
+
+        // Mirrored into users/{uid}/healthMetrics/latest by the realtime subscription above
+        await syncHealthMetricsToFirebase(userId, newMetrics);
+      } catch (error) {
+        console.error(`Error fetching ${provider.name} data:`, error);
       }
     };
-  }, [connectedDevice, fetchAndUpdateGoogleFitData, updateHealthMetrics]);
 
-  // Listen for OAuth callback messages
+    // Initial fetch
+    fetchData();
+
+    const interval = setInterval(fetchData, provider.pollInterval);
+    return () => clearInterval(interval);
+  }, [connectedDevice, updateHealthMetrics]);
+
+  // Pull recent staged sleep once per connection from providers that track it
   useEffect(() => {
-    const handleMessage = (event: MessageEvent) => {
-      if (event.origin !== window.location.origin) return;
-      
-      if (event.data.type === 'oauth_callback') {
-        if (event.data.success) {
-          // Handle successful authorization
-          const deviceType = event.data.provider;
-          setDevices(prev =>
-            prev.map(device =>
-              device.type === deviceType
-                ? { ...device, connected: true, lastSync: new Date() }
-                : device
-            )
-          );
-          setConnectedDevice(deviceType);
-          
-          // Close the auth window if it exists
-          if (authWindow) {
-            authWindow.close();
-            setAuthWindow(null);
-          }
-        } else {
-          // Handle authorization failure
-          setConnectionError(`Authorization failed: ${event.data.error}`);
-        }
-      }
-    };
+    const provider = connectedDevice ? getWearableProvider(connectedDevice) : undefined;
+    const userId = auth.currentUser?.uid;
+    if (!provider?.fetchSleep || !userId) return;
 
-    window.addEventListener('message', handleMessage);
-    return () => window.removeEventListener('message', handleMessage);
-  }, [authWindow, setConnectedDevice]);
+    syncProviderSleep(userId, provider).catch((error) =>
+      console.error(`Error syncing ${provider.name} sleep:`, error)
+    );
+  }, [connectedDevice]);
+
+  // Pull recent workouts with their heart rate, route and pace streams from providers that keep them
+  useEffect(() => {
+    const provider = connectedDevice ? getWearableProvider(connectedDevice) : undefined;
+    const userId = auth.currentUser?.uid;
+    if (!provider?.fetchSessions || !userId) return;
+
+    syncProviderSessions(userId, provider).catch((error) =>
+      console.error(`Error syncing ${provider.name} workouts:`, error)
+    );
+  }, [connectedDevice]);
+
+  const setDeviceStatus = (deviceType: string, statusMessage?: string) => {
+    setDevices(prev =>
+      prev.map(device => (device.type === deviceType ? { ...device, statusMessage } : device))
+    );
+  };
+
+  const setDeviceName = (provider: WearableProvider) => {
+    setDevices(prev =>
+      prev.map(device =>
+        device.type === provider.id ? { ...device, name: provider.getDeviceName?.() || provider.name } : device
+      )
+    );
+  };
+
+  const connectOptions = (provider: WearableProvider): WearableConnectOptions => ({
+    onStatusChange: (status) => setDeviceStatus(provider.id, status),
+    onConnectionLost: () => {
+      setConnectionError(`Lost connection to ${provider.name}.`);
+      handleDeviceDisconnect(provider.id);
+    }
+  });
 
   const handleDeviceConnect = async (deviceType: string) => {
+    const provider = getWearableProvider(deviceType);
+    if (!provider) return;
+
     // Disconnect any previously connected device
     if (connectedDevice) {
       await handleDeviceDisconnect(connectedDevice);
     }
 
-    switch (deviceType) {
-      case 'google_fit':
-        handleGoogleFitConnect();
-        break;
-      case 'strava':
-        handleStravaConnect();
-        break;
-      case 'bluetooth':
-        handleBluetoothConnect();
-        break;
+    const isBluetooth = provider.connectionType === 'bluetooth';
+    try {
+      setIsBluetoothConnecting(isBluetooth);
+      setConnectionError('');
+
+      await provider.connect(connectOptions(provider));
+
+      setDevices(prev =>
+        prev.map(device =>
+          device.type === provider.id ? { ...device, connected: true, lastSync: new Date() } : device
+        )
+      );
+      setDeviceName(provider);
+      setConnectedDevice(provider.id);
+    } catch (error) {
+      console.error(`${provider.name} connection error:`, error);
+      setConnectionError(
+        isBluetooth
+          ? 'Failed to connect. Ensure your device is in pairing mode.'
+          : error instanceof Error ? error.message : `Failed to connect to ${provider.name}.`
+      );
+    } finally {
+      setIsBluetoothConnecting(false);
+    }
+  };
+
+  // Pair another Bluetooth sensor alongside the ones already streaming
+  const handleAddSensor = async (deviceType: string) => {
+    const provider = getWearableProvider(deviceType);
+    if (!provider) return;
+
+    try {
+      setIsBluetoothConnecting(true);
+      setConnectionError('');
+      await pairBluetoothSensor(connectOptions(provider));
+      setDeviceName(provider);
+    } catch (error) {
+      console.error('Bluetooth sensor pairing error:', error);
+      setConnectionError('Failed to add sensor. Ensure it is awake and in pairing mode.');
+    } finally {
+      setIsBluetoothConnecting(false);
     }
   };
 
+  const handleRemoveSensor = (deviceType: string, sensorId: string) => {
+    removeBluetoothSensor(sensorId);
+    if (useBluetoothSensorStore.getState().sensors.length === 0) {
+      handleDeviceDisconnect(deviceType);
+      return;
+    }
+    const provider = getWearableProvider(deviceType);
+    if (provider) setDeviceName(provider);
+  };
+
   const handleDeviceDisconnect = async (deviceType: string) => {
     setConnectedDevice(null);
     clearHealthMetrics();
-
-    if (deviceType === 'google_fit' && dataFetchInterval) {
-      clearInterval(dataFetchInterval);
-      setDataFetchInterval(null);
-    }
+    getWearableProvider(deviceType)?.disconnect();
 
     setDevices(prev =>
       prev.map(device =>
         device.type === deviceType
-          ? { ...device, connected: false }
+          ? { ...device, connected: false, statusMessage: undefined, name: getWearableProvider(deviceType)?.name ?? device.name }
           : device
       )
     );
   };
 
-  const handleGoogleFitConnect = () => {
-    const clientId = import.meta.env.VITE_GOOGLE_FIT_CLIENT_ID;
-    const redirectUri = `${window.location.origin}/google-fit-callback`;
-    const scope = [
-      'https://www.googleapis.com/auth/fitness.activity.read',
-      'https://www.googleapis.com/auth/fitness.heart_rate.read',
-      'https://www.googleapis.com/auth/fitness.body.read',
-      'https://www.googleapis.com/auth/fitness.location.read'
-    ].join(' ');
-  
-    const authUrl = `https://accounts.google.com/o/oauth2/v2/auth?` +
-      `client_id=${clientId}&` +
-      `redirect_uri=${redirectUri}&` +
-      `response_type=code&` +
-      `scope=${scope}&` +
-      `access_type=offline&` +
-      `prompt=consent`;
-      
-    const authPopup = window.open(authUrl, 'google_fit_auth', 'width=600,height=600');
-    setAuthWindow(authPopup);
-  };
-
-  const handleStravaConnect = () => {
-    const clientId = import.meta.env.VITE_STRAVA_CLIENT_ID;
-    const redirectUri = `${window.location.origin}/strava-callback`;
-    const scope = 'read,activity:read';
-    const authUrl = `https://www.strava.com/oauth/authorize?client_id=${clientId}&redirect_uri=${redirectUri}&response_type=code&scope=${scope}`;
-    
-    const authPopup = window.open(authUrl, 'strava_auth', 'width=600,height=600');
-    setAuthWindow(authPopup);
-  };
-
-  const handleBluetoothConnect = async () => {
-    try {
-      setIsBluetoothConnecting(true);
-      setConnectionError("");
-
-      const device = await navigator.bluetooth.requestDevice({
-        filters: [{ services: ['heart_rate'] }]
-      });
-
-      console.log('Connected to device:', device.name);
-
-      setDevices(prev =>
-        prev.map(d =>
-          d.type === 'bluetooth'
-            ? { ...d, connected: true, lastSync: new Date(), name: device.name || 'Bluetooth Device' }
-            : d
-        )
-      );
-    } catch (error) {
-      console.error('Bluetooth connection error:', error);
-      setConnectionError("Failed to connect. Ensure your device is in pairing mode.");
-    } finally {
-      setIsBluetoothConnecting(false);
+  const handleWorkoutFiles = async (files: FileList | null) => {
+    const userId = auth.currentUser?.uid;
+    if (!files || files.length === 0 || !userId) return;
+
+    setImporting(true);
+    setImportResults([]);
+
+    // Sequential so large files don't compete for the same history buckets
+    for (const file of Array.from(files)) {
+      try {
+        const { session, status } = await importWorkoutFile(userId, file);
+        const summary = `${session.sport}, ${units.format('distance', session.distance)}, ${Math.round(session.duration / 60)} min`;
+        setImportResults(prev => [...prev, {
+          fileName: file.name,
+          success: true,
+          message: status === 'duplicate' ? `Already imported (${summary})` : `Imported ${summary}`
+        }]);
+      } catch (error) {
+        console.error(`Error importing ${file.name}:`, error);
+        setImportResults(prev => [...prev, {
+          fileName: file.name,
+          success: false,
+          message: error instanceof Error ? error.message : 'Import failed'
+        }]);
+      }
     }
+
+    setImporting(false);
   };
 
   const getMetricIcon = (metric: string) => {
@@ -320,6 +323,12 @@ const WearableSync = () => {
         return <FaRunning className="text-green-500" />;
       case 'stress':
         return <FaBrain className="text-yellow-500" />;
+      case 'power':
+        return <FaBolt className="text-amber-500" />;
+      case 'cadence':
+        return <FaSyncAlt className="text-teal-500" />;
+      case 'speed':
+        return <FaTachometerAlt className="text-blue-400" />;
       default:
         return <FaBolt className="text-primary" />;
     }
@@ -337,6 +346,12 @@ const WearableSync = () => {
         return '#22c55e';
       case 'stress':
         return '#eab308';
+      case 'power':
+        return '#f59e0b';
+      case 'cadence':
+        return '#14b8a6';
+      case 'speed':
+        return '#60a5fa';
       default:
         return '#646cff';
     }
@@ -354,6 +369,12 @@ const WearableSync = () => {
         return data.steps;
       case 'stress':
         return data.stress;
+      case 'power':
+        return data.power ?? 0;
+      case 'cadence':
+        return data.cadence ?? 0;
+      case 'speed':
+        return data.speed ?? 0;
       default:
         return 0;
     }
@@ -408,6 +429,7 @@ const WearableSync = () => {
   );
 
   const isAnyDeviceConnected = devices.some(device => device.connected);
+  const latestMetrics = healthData.length > 0 ? healthData[healthData.length - 1] : undefined;
 
   return (
     <div className="min-h-screen bg-[#1a1a1a] p-8">
@@ -419,8 +441,36 @@ const WearableSync = () => {
             Connect your devices to track real-time performance metrics
           </p>
         </div>
+
+        {pendingUploads > 0 && (
+          <motion.button
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => flushHealthMetricQueue()}
+            disabled={flushing}
+            title={uploadError ?? undefined}
+            className="flex items-center gap-2 bg-yellow-500/20 text-yellow-500 px-4 py-2 rounded-lg text-sm"
+          >
+            {flushing ? <FaSpinner className="animate-spin" /> : <FaCloudUploadAlt />}
+            <span>
+              {pendingUploads} pending upload{pendingUploads === 1 ? '' : 's'}
+              {!flushing && (online
+                ? nextRetryAt && ` · retrying at ${new Date(nextRetryAt).toLocaleTimeString()}`
+                : ' · offline')}
+            </span>
+          </motion.button>
+        )}
       </div>
 
+      {connectionError && !isBluetoothConnecting && (
+        <div className="bg-[#ff4757]/20 text-[#ff4757] p-4 rounded-xl mb-8 flex items-center gap-3">
+          <FaExclamationTriangle />
+          <span>{connectionError}</span>
+        </div>
+      )}
+
       {/* Device Grid */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -450,12 +500,46 @@ const WearableSync = () => {
               )}
             </div>
 
+            {device.statusMessage && (
+              <p className="text-sm text-yellow-500 mb-4">{device.statusMessage}</p>
+            )}
+
             {device.connected && device.lastSync && (
               <p className="text-sm text-gray-400 mb-4">
                 Last synced: {device.lastSync.toLocaleTimeString()}
               </p>
             )}
 
+            {device.connected && device.type === 'bluetooth' && (
+              <div className="mb-4 space-y-2">
+                {bluetoothSensors.map(sensor => (
+                  <div key={sensor.id} className="flex items-center justify-between bg-white/5 rounded-lg px-3 py-2 text-sm">
+                    <div>
+                      <p className="font-medium">{sensor.name}</p>
+                      <p className={`text-xs ${sensor.status ? 'text-yellow-500' : 'text-gray-400'}`}>
+                        {sensor.status ?? sensor.profiles.map(profile => SENSOR_PROFILE_LABELS[profile]).join(', ')}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRemoveSensor(device.type, sensor.id)}
+                      className="text-gray-400 hover:text-[#ff4757]"
+                      title="Remove sensor"
+                    >
+                      <FaTimes />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => handleAddSensor(device.type)}
+                  disabled={isBluetoothConnecting}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm bg-white/10 hover:bg-white/20"
+                >
+                  <FaPlus />
+                  Add Sensor
+                </button>
+              </div>
+            )}
+
             <motion.button
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -489,6 +573,61 @@ const WearableSync = () => {
         ))}
       </motion.div>
 
+      {connectedDevice === 'simulator' && <SimulatorControls />}
+
+      {isAnyDeviceConnected && <WorkoutRecorder />}
+
+      {/* Workout File Import */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white/10 backdrop-blur-lg p-6 rounded-xl mb-8"
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <FaFileUpload className="text-primary text-2xl" />
+            <div>
+              <h2 className="text-xl font-semibold">Import Workout Files</h2>
+              <p className="text-sm text-gray-400">
+                Upload FIT, GPX or TCX files exported from your watch or bike computer
+              </p>
+            </div>
+          </div>
+          <label
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg bg-primary/20 text-primary
+              hover:bg-primary/30 transition-colors ${importing ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+          >
+            {importing ? <FaSpinner className="animate-spin" /> : <FaPlus />}
+            {importing ? 'Importing...' : 'Choose Files'}
+            <input
+              type="file"
+              accept={WORKOUT_FILE_EXTENSIONS.join(',')}
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                handleWorkoutFiles(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+
+        {importResults.length > 0 && (
+          <ul className="mt-4 space-y-2">
+            {importResults.map(result => (
+              <li
+                key={result.fileName}
+                className={`flex items-center gap-2 text-sm ${result.success ? 'text-[#2ed573]' : 'text-[#ff4757]'}`}
+              >
+                {result.success ? <FaCheckCircle /> : <FaExclamationTriangle />}
+                <span className="font-medium">{result.fileName}:</span>
+                <span>{result.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </motion.div>
+
       {isAnyDeviceConnected ? (
         <>
           {/* Real-time Metrics */}
@@ -502,7 +641,7 @@ const WearableSync = () => {
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-xl font-semibold">Real-time Data</h2>
                 <div className="flex gap-2">
-                  {['heartRate', 'sleep', 'hydration', 'steps', 'stress'].map(metric => (
+                  {['heartRate', 'power', 'cadence', 'speed', 'sleep', 'hydration', 'steps', 'stress'].map(metric => (
                     <motion.button
                       key={metric}
                       whileHover={{ scale: 1.1 }}
@@ -564,6 +703,12 @@ const WearableSync = () => {
                   <p className="text-2xl font-bold">
                     {healthData.length > 0 ? healthData[healthData.length - 1].heartRate : 0} BPM
                   </p>
+                  {healthData.length > 0 && healthData[healthData.length - 1].lowConfidence && (
+                    <p className="text-xs text-yellow-500 mt-1 flex items-center gap-1">
+                      <FaExclamationTriangle />
+                      Low signal quality - check sensor contact
+                    </p>
+                  )}
                 </div>
 
                 <div className="bg-white/5 p-4 rounded-lg">
@@ -595,6 +740,39 @@ const WearableSync = () => {
                     {healthData.length > 0 ? healthData[healthData.length - 1].sleep : 0} hrs
                   </p>
                 </div>
+
+                {latestMetrics?.power !== undefined && (
+                  <div className="bg-white/5 p-4 rounded-lg">
+                    <div className="flex items-center gap-2 mb-2">
+                      <FaBolt className="text-amber-500" />
+                      <span>Power</span>
+                    </div>
+                    <p className="text-2xl font-bold">{latestMetrics.power} W</p>
+                  </div>
+                )}
+
+                {latestMetrics?.cadence !== undefined && (
+                  <div className="bg-white/5 p-4 rounded-lg">
+                    <div className="flex items-center gap-2 mb-2">
+                      <FaSyncAlt className="text-teal-500" />
+                      <span>Cadence</span>
+                    </div>
+                    <p className="text-2xl font-bold">{latestMetrics.cadence} /min</p>
+                  </div>
+                )}
+
+                {latestMetrics?.speed !== undefined && (
+                  <div className="bg-white/5 p-4 rounded-lg">
+                    <div className="flex items-center gap-2 mb-2">
+                      <FaTachometerAlt className="text-blue-400" />
+                      <span>Speed</span>
+                    </div>
+                    <p className="text-2xl font-bold">{units.format('speed', latestMetrics.speed)}</p>
+                    {latestMetrics.strideLength !== undefined && (
+                      <p className="text-xs text-gray-400 mt-1">Stride {units.format('length', latestMetrics.strideLength * 100)}</p>
+                    )}
+                  </div>
+                )}
               </div>
             </motion.div>
           </div>
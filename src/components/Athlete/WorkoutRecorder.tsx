@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  FaStopwatch, FaPlay, FaPause, FaFlag, FaStop, FaCheckCircle, FaExclamationTriangle, FaSpinner, FaTrash,
+  FaMapMarkerAlt
+} from 'react-icons/fa';
+import { auth } from '../config/firebase';
+import { ZONE_COLORS, ZONE_NAMES, useHeartRateZones } from '../services/heartRateZones';
+import { useGpsStore } from '../services/gps';
+import { useUnits } from '../services/units';
+import {
+  discardWorkout,
+  finishWorkout,
+  markLap,
+  pauseWorkout,
+  resumeWorkout,
+  retrySaveWorkout,
+  setAutoPause,
+  startWorkout,
+  useWorkoutRecorderStore,
+} from '../services/workoutRecorder';
+import type { PlannedWorkoutLink } from '../types';
+
+interface WorkoutRecorderProps {
+  sport?: string;
+  plannedWorkout?: PlannedWorkoutLink;
+}
+
+const SPORTS = ['Running', 'Cycling', 'Swimming', 'Strength Training', 'Other'];
+
+const STATUS_LABELS = {
+  recording: { label: 'Recording', className: 'text-[#2ed573]' },
+  paused: { label: 'Paused', className: 'text-yellow-500' },
+  autoPaused: { label: 'Auto-paused', className: 'text-yellow-500' },
+};
+
+const GPS_STATUS_LABELS = {
+  off: 'GPS off',
+  acquiring: 'Acquiring GPS...',
+  tracking: 'GPS',
+  denied: 'Location permission denied',
+  unavailable: 'GPS unavailable',
+};
+
+const formatClock = (totalSeconds: number) => {
+  const seconds = Math.floor(totalSeconds);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = String(Math.floor((seconds % 3600) / 60)).padStart(hours ? 2 : 1, '0');
+  const clock = `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+  return hours ? `${hours}:${clock}` : clock;
+};
+
+const WorkoutRecorder = ({ sport: defaultSport = 'Running', plannedWorkout }: WorkoutRecorderProps) => {
+  const userId = auth.currentUser?.uid;
+  const { heartRateZones } = useHeartRateZones(userId);
+  const recorder = useWorkoutRecorderStore();
+  const [sport, setSport] = useState(defaultSport);
+  const [useGps, setUseGps] = useState(false);
+  const gps = useGpsStore();
+  const { status, summary } = recorder;
+  const active = status === 'recording' || status === 'paused' || status === 'autoPaused';
+  // A recording already in progress keeps the plan it was started for
+  const linkedWorkout = status === 'idle' ? plannedWorkout : recorder.plannedWorkout;
+  const zonedSeconds = summary.timeInZones.reduce((total, seconds) => total + seconds, 0);
+  const units = useUnits();
+
+  const formatPace = (seconds: number | undefined, meters: number) =>
+    seconds && meters >= 10 ? units.format('pace', seconds / (meters / 1000)) : '--';
+
+  const tiles = [
+    { label: 'Distance', value: units.format('distance', summary.distance) },
+    { label: 'Avg Pace', value: formatPace(summary.duration, summary.distance) },
+    { label: 'Heart Rate', value: summary.heartRate ? `${summary.heartRate} bpm` : '--' },
+    { label: 'Avg HR', value: summary.averageHeartRate ? `${summary.averageHeartRate} bpm` : '--' },
+    { label: 'Max HR', value: summary.maxHeartRate ? `${summary.maxHeartRate} bpm` : '--' },
+    summary.elevationGain !== undefined
+      ? { label: 'Elevation Gain', value: `${summary.elevationGain} m` }
+      : { label: 'Elapsed', value: formatClock(summary.elapsed) },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/10 backdrop-blur-lg p-6 rounded-xl mb-8"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <FaStopwatch className="text-primary text-2xl" />
+          <div>
+            <h2 className="text-xl font-semibold">Workout Recorder</h2>
+            <p className="text-sm text-gray-400">
+              {linkedWorkout ? `Planned: ${linkedWorkout.title}` : 'Free session, not linked to a plan'}
+            </p>
+          </div>
+        </div>
+        {active && (
+          <div className="flex items-center gap-4 text-sm">
+            {recorder.gps && (
+              <span
+                className={`flex items-center gap-1 ${gps.status === 'tracking' ? 'text-gray-400' : 'text-yellow-500'}`}
+              >
+                <FaMapMarkerAlt />
+                {GPS_STATUS_LABELS[gps.status]}
+                {gps.status === 'tracking' && gps.accuracy !== null && ` ±${gps.accuracy} m`}
+              </span>
+            )}
+            <span className={`font-semibold ${STATUS_LABELS[status].className}`}>
+              {STATUS_LABELS[status].label}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {status === 'idle' && (
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="text-sm">
+            <span className="text-gray-400">Sport</span>
+            <select
+              value={sport}
+              onChange={(e) => setSport(e.target.value)}
+              className="w-full bg-white/5 rounded-lg p-2 mt-1"
+            >
+              {[...new Set([defaultSport, ...SPORTS])].map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-400 pb-2">
+            <input type="checkbox" checked={recorder.autoPause} onChange={(e) => setAutoPause(e.target.checked)} />
+            Auto-pause
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-400 pb-2">
+            <input type="checkbox" checked={useGps} onChange={(e) => setUseGps(e.target.checked)} />
+            Track route with GPS
+          </label>
+          <button
+            onClick={() =>
+              startWorkout({ sport, plannedWorkout, zones: heartRateZones?.profile.zones, gps: useGps })
+            }
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#2ed573]/20 text-[#2ed573] hover:bg-[#2ed573]/30"
+          >
+            <FaPlay />
+            Start Workout
+          </button>
+        </div>
+      )}
+
+      {status !== 'idle' && (
+        <>
+          <div className="flex items-baseline gap-4 mb-4">
+            <span className="text-5xl font-bold tabular-nums">{formatClock(summary.duration)}</span>
+            <span className="text-gray-400">{recorder.sport}</span>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-4">
+            {tiles.map((tile) => (
+              <div key={tile.label} className="bg-white/5 p-3 rounded-lg">
+                <p className="text-xs text-gray-400">{tile.label}</p>
+                <p className="text-lg font-semibold tabular-nums">{tile.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {zonedSeconds > 0 && (
+            <div className="mb-4">
+              <div className="flex h-3 rounded-full overflow-hidden bg-white/10">
+                {summary.timeInZones.map((seconds, index) => (
+                  <div
+                    key={index}
+                    style={{ width: `${(seconds / zonedSeconds) * 100}%`, backgroundColor: ZONE_COLORS[index] }}
+                    title={`Zone ${index + 1} ${ZONE_NAMES[index]}: ${formatClock(seconds)}`}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-400">
+                {summary.timeInZones.map((seconds, index) => (
+                  <span key={index} className="flex items-center gap-1">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ZONE_COLORS[index] }} />
+                    Z{index + 1} {formatClock(seconds)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {summary.splits.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-4 text-xs">
+              {summary.splits.map((split) => (
+                <span key={split.index} className="bg-white/5 rounded-lg px-2 py-1 tabular-nums">
+                  km {split.index}: {units.format('pace', split.pace)}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {(summary.laps.length > 0 || active) && (
+            <div className="space-y-1 mb-4 text-sm">
+              {summary.laps.map((lap, index) => (
+                <div key={lap.startTime} className="flex justify-between bg-white/5 rounded-lg px-3 py-2 tabular-nums">
+                  <span>Lap {index + 1}</span>
+                  <span>{formatClock(lap.duration)}</span>
+                  <span>{units.format('distance', lap.distance)}</span>
+                  <span>{formatPace(lap.duration, lap.distance)}</span>
+                  <span>{lap.averageHeartRate ? `${lap.averageHeartRate} bpm` : '--'}</span>
+                </div>
+              ))}
+              {active && (
+                <div className="flex justify-between px-3 py-2 text-gray-400 tabular-nums">
+                  <span>Lap {summary.laps.length + 1}</span>
+                  <span>{formatClock(summary.lapDuration)}</span>
+                  <span>{units.format('distance', summary.lapDistance)}</span>
+                  <span>{formatPace(summary.lapDuration, summary.lapDistance)}</span>
+                  <span />
+                </div>
+              )}
+            </div>
+          )}
+
+          {active && (
+            <div className="flex flex-wrap items-center gap-4">
+              <button
+                onClick={() => (status === 'recording' ? pauseWorkout() : resumeWorkout())}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary/20 text-primary hover:bg-primary/30"
+              >
+                {status === 'recording' ? <FaPause /> : <FaPlay />}
+                {status === 'recording' ? 'Pause' : 'Resume'}
+              </button>
+              <button
+                onClick={markLap}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20"
+              >
+                <FaFlag />
+                Lap
+              </button>
+              <button
+                onClick={() => userId && finishWorkout(userId)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#ff4757]/20 text-[#ff4757] hover:bg-[#ff4757]/30"
+              >
+                <FaStop />
+                Finish
+              </button>
+              <label className="flex items-center gap-2 text-sm text-gray-400">
+                <input type="checkbox" checked={recorder.autoPause} onChange={(e) => setAutoPause(e.target.checked)} />
+                Auto-pause
+              </label>
+            </div>
+          )}
+
+          {status === 'finished' && (
+            <div className="flex flex-wrap items-center gap-4">
+              {recorder.saving && (
+                <span className="flex items-center gap-2 text-sm text-gray-400">
+                  <FaSpinner className="animate-spin" />
+                  Saving workout...
+                </span>
+              )}
+              {recorder.savedSession && (
+                <span className="flex items-center gap-2 text-sm text-[#2ed573]">
+                  <FaCheckCircle />
+                  Saved{recorder.savedSession.plannedWorkout && ` and marked "${recorder.savedSession.plannedWorkout.title}" as done`}
+                </span>
+              )}
+              {!recorder.saving && !recorder.savedSession && (
+                <button
+                  onClick={() => userId && retrySaveWorkout(userId)}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary/20 text-primary hover:bg-primary/30"
+                >
+                  Retry Save
+                </button>
+              )}
+              {!recorder.saving && (
+                <button
+                  onClick={discardWorkout}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20"
+                >
+                  {recorder.savedSession ? <FaPlay /> : <FaTrash />}
+                  {recorder.savedSession ? 'New Workout' : 'Discard'}
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      {recorder.error && (
+        <p className="text-sm text-[#ff4757] mt-4 flex items-center gap-2">
+          <FaExclamationTriangle />
+          {recorder.error}
+        </p>
+      )}
+    </motion.div>
+  );
+};
+
+export default WorkoutRecorder;
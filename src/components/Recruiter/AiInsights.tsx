@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { FaChartLine, FaHeartbeat, FaRunning, FaBrain, FaExclamationTriangle, FaAppleAlt, FaChartBar, FaSearch, FaRobot } from 'react-icons/fa';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import athleteData from '../config/athlete.json'; // Import the JSON data
+import { useUnits } from '../services/units';
 
 interface AthleteInsight {
   id: string;
@@ -44,6 +45,7 @@ interface AthleteComparison {
 const AIInsights = () => {
   const [selectedAthlete, setSelectedAthlete] = useState<AthleteInsight | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const units = useUnits();
   const [activeTab, setActiveTab] = useState<'performance' | 'nutrition' | 'injury' | 'comparison'>('performance');
   const [comparisonData, setComparisonData] = useState<AthleteComparison[]>([]);
 
@@ -299,7 +301,7 @@ const AIInsights = () => {
             <div>
               <div className="flex justify-between mb-2">
                 <span>Daily Water Intake</span>
-                <span className="text-primary">2.8L / 3.5L</span>
+                <span className="text-primary">{units.format('volume', 2.8)} / {units.format('volume', 3.5)}</span>
               </div>
               <div className="w-full bg-gray-700 rounded-full h-2">
                 <div
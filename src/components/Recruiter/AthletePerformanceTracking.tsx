@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { FaSearch, FaRobot, FaRunning, FaHeartbeat, FaBrain, FaDumbbell, FaStopwatch } from 'react-icons/fa';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, RadarChart, PolarGrid, PolarAngleAxis, Radar } from 'recharts';
 import athletesData from '../config/athlete.json';
+import { useUnits } from '../services/units';
 
 interface RawPlayer {
   Name: string;
@@ -50,6 +51,7 @@ const AthletePerformanceTracking = () => {
   const [selectedAthlete, setSelectedAthlete] = useState<Athlete | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedMetric] = useState('speed');
+  const units = useUnits();
   const [performanceData, setPerformanceData] = useState<{date: string, speed: number, strength: number, endurance: number, agility: number}[]>([]);
   const [activeTab, setActiveTab] = useState<'overview' | 'analysis'>('overview');
 
@@ -136,7 +138,8 @@ const AthletePerformanceTracking = () => {
     return value % 1 === 0 ? value.toString() : value.toFixed(2);
   };
 
-  const renderMetricCard = (title: string, value: number, icon: JSX.Element, unit?: string) => (
+  // Colour follows the metric value; displayValue is the same value in the preferred units
+  const renderMetricCard = (title: string, value: number, icon: JSX.Element, unit?: string, displayValue = value) => (
     <motion.div
       initial={{ opacity: 0, y: 10 }}
       animate={{ opacity: 1, y: 0 }}
@@ -147,7 +150,7 @@ const AthletePerformanceTracking = () => {
         <div>
           <h3 className="font-medium text-sm text-gray-300">{title}</h3>
           <p className={`text-xl font-bold ${getMetricColor(value)}`}>
-            {formatNumber(value)}
+            {formatNumber(displayValue)}
             {unit && <span className="text-sm ml-1 text-gray-400">{unit}</span>}
           </p>
         </div>
@@ -259,11 +262,11 @@ const AthletePerformanceTracking = () => {
                             </div>
                             <div>
                               <p className="text-sm text-gray-400">Height</p>
-                              <p className="text-white">{selectedAthlete.height} cm</p>
+                              <p className="text-white">{units.format('height', selectedAthlete.height)}</p>
                             </div>
                             <div>
                               <p className="text-sm text-gray-400">Weight</p>
-                              <p className="text-white">{selectedAthlete.weight} kg</p>
+                              <p className="text-white">{units.format('weight', selectedAthlete.weight)}</p>
                             </div>
                           </div>
                         </div>
@@ -291,10 +294,10 @@ const AthletePerformanceTracking = () => {
                     <div className="bg-gray-800 rounded-xl p-6">
                       <h3 className="text-lg font-semibold mb-4 text-white">Physical Stats</h3>
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                        {renderMetricCard('Bench', selectedAthlete.metrics.benchPress, <FaDumbbell />, 'kg')}
-                        {renderMetricCard('Squat', selectedAthlete.metrics.squat, <FaDumbbell />, 'kg')}
+                        {renderMetricCard('Bench', selectedAthlete.metrics.benchPress, <FaDumbbell />, units.label('weight'), units.toDisplay('weight', selectedAthlete.metrics.benchPress))}
+                        {renderMetricCard('Squat', selectedAthlete.metrics.squat, <FaDumbbell />, units.label('weight'), units.toDisplay('weight', selectedAthlete.metrics.squat))}
                         {renderMetricCard('Sprint', selectedAthlete.metrics.sprintTime, <FaRunning />, 's')}
-                        {renderMetricCard('Jump', selectedAthlete.metrics.verticalJump, <FaRunning />, 'cm')}
+                        {renderMetricCard('Jump', selectedAthlete.metrics.verticalJump, <FaRunning />, units.label('length'), units.toDisplay('length', selectedAthlete.metrics.verticalJump))}
                       </div>
                     </div>
 
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { FaSearch, FaFilter, FaRobot, FaStar, FaChartLine, FaGlobe, FaUserPlus, FaVideo, FaBrain, FaTimes, FaExclamationTriangle } from 'react-icons/fa';
 import { Tooltip, ResponsiveContainer, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar } from 'recharts';
+import { useUnits } from '../services/units';
 
 interface Athlete {
   id: string;
@@ -32,7 +33,7 @@ interface Athlete {
   }[];
   wearableData?: {
     heartRate: number;
-    distance: number;
+    distance: number; // km
     intensity: number;
     recovery: number;
   };
@@ -51,6 +52,7 @@ const GlobalScouting = () => {
   const [athletes, setAthletes] = useState<Athlete[]>([]);
   const [filteredAthletes, setFilteredAthletes] = useState<Athlete[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const units = useUnits();
   const [filters, setFilters] = useState<Filter>({
     sport: '',
     country: '',
@@ -437,7 +439,7 @@ const GlobalScouting = () => {
                       </div>
                       <div>
                         <span className="text-gray-400">Distance:</span>
-                        <span className="ml-1">{athlete.wearableData.distance} km</span>
+                        <span className="ml-1">{units.format('distance', athlete.wearableData.distance * 1000, 1)}</span>
                       </div>
                     </div>
                   </div>
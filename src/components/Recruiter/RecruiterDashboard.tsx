@@ -6,6 +6,7 @@ import AthletePerformanceTracking from './AthletePerformanceTracking';
 import ContractManagement from './ContractManagement';
 import NotificationsCenter from './NotificationsCenter';
 import { doc, getDoc } from 'firebase/firestore';
+import { loadUnitPreference } from '../services/units';
 import { db, auth } from '../config/firebase';
 import Settings from '../Settings/Settings';
 import CommunityPage from '../Community/CommunityPage';
@@ -79,6 +80,7 @@ const RecruiterDashboard = () => {
         const userId = auth.currentUser?.uid;
         if (!userId) return;
 
+        loadUnitPreference(userId).catch(error => console.error('Error loading unit preference:', error));
         const recruiterDoc = await getDoc(doc(db, 'recruiters', userId));
         if (recruiterDoc.exists()) {
           setRecruiterData(recruiterDoc.data() as RecruiterData);
@@ -7,7 +7,15 @@ import { db, auth } from '../config/firebase';
 import Particles from 'react-particles';
 import { loadSlim } from "tsparticles-slim";
 import type { Engine } from "tsparticles-engine";
-import { generateNutritionPlan, generateTrainingPlan } from '../services/gemini';
+import {
+  describeLlmError,
+  generateNutritionPlan,
+  isLlmError,
+  generateTrainingPlan,
+  type NutritionPlanDay,
+  type PromptVersion,
+  type TrainingPlanDay,
+} from '../services/gemini';
 
 interface AthleteData {
   sport: string;
@@ -15,49 +23,16 @@ interface AthleteData {
   trainingGoal: string;
 }
 
-interface Meal {
-  mealType: string;
-  foodItems: string;
-  calories: number;
-  macronutrients: {
-    protein: number;
-    carbs: number;
-    fats: number;
-  };
-}
-
-interface NutritionDay {
-  day: string;
-  meals: Meal[];
-}
-
-interface Exercise {
-  name: string;
-  sets: number;
-  reps: number;
-  notes?: string;
-}
-
-interface TrainingSession {
-  focus: string;
-  exercises: Exercise[];
-  duration: string;
-  intensity: string;
-}
-
-interface TrainingDay {
-  day: string;
-  sessions: TrainingSession[];
-}
-
 const AthleteOnboarding = () => {
   const navigate = useNavigate();
   const [currentSection, setCurrentSection] = useState(0);
   const [showOath, setShowOath] = useState(false);
   const [loading, setLoading] = useState(false);
   const [athleteData, setAthleteData] = useState<AthleteData | null>(null);
-  const [nutritionPlan, setNutritionPlan] = useState<NutritionDay[]>([]);
-  const [trainingPlan, setTrainingPlan] = useState<TrainingDay[]>([]);
+  const [nutritionPlan, setNutritionPlan] = useState<NutritionPlanDay[]>([]);
+  const [trainingPlan, setTrainingPlan] = useState<TrainingPlanDay[]>([]);
+  // Saved with the plans so each one can be traced back to the prompt that generated it
+  const [planPromptVersions, setPlanPromptVersions] = useState<{ nutritionPlan?: PromptVersion; trainingPlan?: PromptVersion }>({});
   const [generatingPlans, setGeneratingPlans] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -65,38 +40,6 @@ const AthleteOnboarding = () => {
     await loadSlim(engine);
   };
 
-  const cleanAndParseJSON = (jsonString: string): any => {
-    try {
-      // First try to parse directly
-      return JSON.parse(jsonString);
-    } catch (originalError) {
-      try {
-        // Clean common issues
-        let cleaned = jsonString
-          .replace(/```json/g, '')
-          .replace(/```/g, '')
-          .trim();
-
-        // Fix trailing commas
-        cleaned = cleaned.replace(/,\s*([}\]])/g, '$1');
-
-        // Remove any comments
-        cleaned = cleaned.replace(/\/\/.*$/gm, '');
-
-        // Try parsing again
-        const result = JSON.parse(cleaned);
-        return result;
-      } catch (cleanedError) {
-        console.error('Failed to parse JSON after cleaning:', {
-          originalError,
-          cleanedError,
-          originalString: jsonString
-        });
-        throw new Error('The AI service returned invalid data. Please try again.');
-      }
-    }
-  };
-
   const fetchAthleteData = async () => {
     try {
       const userId = auth.currentUser?.uid;
@@ -119,23 +62,17 @@ const AthleteOnboarding = () => {
       setGeneratingPlans(true);
       setError(null);
 
-      const [nutritionPlanResult, trainingPlanResult] = await Promise.all([
+      const [nutritionData, trainingData] = await Promise.all([
         generateNutritionPlan(data.sport, data.position, data.trainingGoal),
         generateTrainingPlan(data.sport, data.position, data.trainingGoal),
       ]);
 
-      const nutritionData = cleanAndParseJSON(nutritionPlanResult);
-      const trainingData = cleanAndParseJSON(trainingPlanResult);
-
-      if (!nutritionData.days || !trainingData.days) {
-        throw new Error('Invalid plan structure received from AI');
-      }
-
       setNutritionPlan(nutritionData.days);
       setTrainingPlan(trainingData.days);
+      setPlanPromptVersions({ nutritionPlan: nutritionData.promptVersion, trainingPlan: trainingData.promptVersion });
     } catch (error) {
       console.error('Error in fetchAthleteData:', error);
-      setError(error instanceof Error ? error.message : 'Failed to generate plans');
+      setError(isLlmError(error) ? describeLlmError(error) : error instanceof Error ? error.message : 'Failed to generate plans');
       setNutritionPlan([]);
       setTrainingPlan([]);
     } finally {
@@ -147,7 +84,7 @@ const AthleteOnboarding = () => {
     fetchAthleteData();
   }, []);
 
-  const NutritionTable = ({ days }: { days: NutritionDay[] }) => {
+  const NutritionTable = ({ days }: { days: NutritionPlanDay[] }) => {
     if (days.length === 0) {
       return (
         <div className="text-center py-8">
@@ -196,7 +133,7 @@ const AthleteOnboarding = () => {
     );
   };
 
-  const TrainingTable = ({ days }: { days: TrainingDay[] }) => {
+  const TrainingTable = ({ days }: { days: TrainingPlanDay[] }) => {
     if (days.length === 0) {
       return (
         <div className="text-center py-8">
@@ -344,6 +281,7 @@ const AthleteOnboarding = () => {
         oathTaken: true,
         nutritionPlan: JSON.stringify(nutritionPlan),
         trainingPlan: JSON.stringify(trainingPlan),
+        planPromptVersions,
         updatedAt: new Date().toISOString(),
       });
 
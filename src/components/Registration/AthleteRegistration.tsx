@@ -3,6 +3,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import { db, auth } from '../config/firebase';
 import { doc, setDoc } from 'firebase/firestore';
+import { saveUnitPreference, useUnitStore, useUnits } from '../services/units';
+import type { UnitQuantity, UnitSystem } from '../types';
 import { FaUser, FaWeight, FaHeartbeat, FaUtensils, FaCheck, FaTimes, FaInfoCircle } from 'react-icons/fa';
 import Particles from 'react-particles';
 import { loadSlim } from "tsparticles-slim";
@@ -56,6 +58,7 @@ const sportPositions: { [key: string]: string[] } = {
 
 const AthleteRegistration = () => {
   const navigate = useNavigate();
+  const units = useUnits();
   const [currentStep, setCurrentStep] = useState(1);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
@@ -97,6 +100,12 @@ const AthleteRegistration = () => {
     }
   }, [formData.sport]);
 
+  // Measurements are typed in the preferred units and kept in metric in formData
+  const handleMeasurementChange = (quantity: UnitQuantity) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value ? units.fromDisplay(quantity, Number(value)) : 0 }));
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
     setFormData(prev => ({
@@ -154,6 +163,7 @@ const AthleteRegistration = () => {
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       });
+      saveUnitPreference(userId, units.system).catch(err => console.error('Error saving unit preference:', err));
 
       navigate('/journey-confirmation');
     } catch (err) {
@@ -277,20 +287,30 @@ const AthleteRegistration = () => {
             exit={{ opacity: 0, x: -20 }}
             className="space-y-6"
           >
-            <h3 className="text-xl font-semibold mb-6 flex items-center gap-2">
-              <FaWeight className="text-primary" />
-              Body Measurements & Health
-            </h3>
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-semibold flex items-center gap-2">
+                <FaWeight className="text-primary" />
+                Body Measurements & Health
+              </h3>
+              <select
+                value={units.system}
+                onChange={(e) => useUnitStore.setState({ system: e.target.value as UnitSystem })}
+                className="bg-gray-800/50 rounded-lg p-2 text-sm focus:ring-2 focus:ring-purple-400 text-white"
+              >
+                <option value="metric">Metric (cm, kg)</option>
+                <option value="imperial">Imperial (in, lb)</option>
+              </select>
+            </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div className="space-y-4">
                 <div>
-                  <label className="block text-sm font-medium text-gray-400 mb-1">Height (cm) *</label>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Height ({units.label('height')}) *</label>
                   <input
                     type="number"
                     name="height"
-                    value={formData.height || ''}
-                    onChange={handleInputChange}
+                    value={formData.height ? units.toDisplay('height', formData.height) : ''}
+                    onChange={handleMeasurementChange('height')}
                     min="0"
                     className="w-full bg-gray-800/50 rounded-lg p-3 focus:ring-2 focus:ring-purple-400 text-white"
                     placeholder="Enter your height"
@@ -298,12 +318,12 @@ const AthleteRegistration = () => {
                 </div>
 
                 <div>
-                  <label className="block text-sm font-medium text-gray-400 mb-1">Weight (kg) *</label>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Weight ({units.label('weight')}) *</label>
                   <input
                     type="number"
                     name="weight"
-                    value={formData.weight || ''}
-                    onChange={handleInputChange}
+                    value={formData.weight ? units.toDisplay('weight', formData.weight) : ''}
+                    onChange={handleMeasurementChange('weight')}
                     min="0"
                     className="w-full bg-gray-800/50 rounded-lg p-3 focus:ring-2 focus:ring-purple-400 text-white"
                     placeholder="Enter your weight"
@@ -505,15 +525,15 @@ const AthleteRegistration = () => {
 
                 <div>
                   <label className="block text-sm font-medium text-gray-400 mb-1">
-                    Daily Water Intake (Liters) *
+                    Daily Water Intake ({units.label('volume')}) *
                   </label>
                   <input
                     type="number"
                     name="waterIntake"
-                    value={formData.waterIntake || ''}
-                    onChange={handleInputChange}
+                    value={formData.waterIntake ? units.toDisplay('volume', formData.waterIntake) : ''}
+                    onChange={handleMeasurementChange('volume')}
                     min="0"
-                    step="0.1"
+                    step={units.system === 'metric' ? '0.1' : '1'}
                     className="w-full bg-gray-800/50 rounded-lg p-3 focus:ring-2 focus:ring-purple-400 text-white"
                     placeholder="Enter daily water intake"
                   />
@@ -2,6 +2,8 @@ import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { FaUser, FaBell, FaLock, FaWifi, FaApple, FaGoogle, FaSignOutAlt, FaMoon, FaSun, FaRobot, FaHeadset } from 'react-icons/fa';
 import { auth } from '../config/firebase';
+import { saveUnitPreference, useUnitStore } from '../services/units';
+import type { UnitSystem } from '../types';
 
 interface WearableDevice {
   name: string;
@@ -13,6 +15,7 @@ interface WearableDevice {
 
 const Settings = () => {
   const [darkMode, setDarkMode] = useState(true);
+  const unitSystem = useUnitStore((state) => state.system);
   const [personalInfo, setPersonalInfo] = useState({
     name: '',
     email: auth.currentUser?.email ?? '',
@@ -49,6 +52,12 @@ const Settings = () => {
     }));
   };
 
+  const handleUnitSystemChange = (system: UnitSystem) => {
+    const userId = auth.currentUser?.uid;
+    if (!userId) return;
+    saveUnitPreference(userId, system).catch(error => console.error('Error saving unit preference:', error));
+  };
+
   const handleAiPreferenceChange = (key: string, value: boolean | string) => {
     setAiPreferences(prev => ({
       ...prev,
@@ -152,6 +161,18 @@ const Settings = () => {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Units</label>
+                <select
+                  value={unitSystem}
+                  onChange={(e) => handleUnitSystemChange(e.target.value as UnitSystem)}
+                  className="w-full bg-white/5 rounded-lg p-3 focus:ring-2 focus:ring-primary"
+                >
+                  <option value="metric">Metric (km, kg, cm, °C, L)</option>
+                  <option value="imperial">Imperial (mi, lb, ft/in, °F, fl oz)</option>
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-400 mb-1">Bio</label>
                 <textarea
@@ -1,5 +1,4 @@
 import { useEffect } from 'react';
-import { exchangeCodeForToken } from '../services/googleFit'; // Correct import path
 
 const GoogleFitCallback = () => {
   useEffect(() => {
@@ -7,57 +6,24 @@ const GoogleFitCallback = () => {
     const code = params.get('code');
     const error = params.get('error');
 
-    const handleAuthorization = async () => {
-      try {
-        if (code) {
-          const accessToken = await exchangeCodeForToken(code);
-          localStorage.setItem('googleFitToken', accessToken);
-          
-          // Enhanced window.opener check
-          if (window.opener && !window.opener.closed) {
-            window.opener.postMessage({
-              type: 'oauth_callback',
-              provider: 'google_fit',
-              success: true,
-              token: accessToken,
-            }, window.location.origin);
-          } else {
-            // Fallback for production
-            window.location.href = `${window.location.origin}?googleFitAuth=success`;
-          }
-        } else if (error) {
-          if (window.opener && !window.opener.closed) {
-            window.opener.postMessage({
-              type: 'oauth_callback',
-              provider: 'google_fit',
-              success: false,
-              error: error || 'Authorization failed',
-            }, window.location.origin);
-          } else {
-            window.location.href = `${window.location.origin}?googleFitAuth=failed&error=${error}`;
-          }
-        }
-      } catch (err) {
-        console.error('Auth error:', err);
-        if (window.opener && !window.opener.closed) {
-          window.opener.postMessage({
-            type: 'oauth_callback',
-            provider: 'google_fit',
-            success: false,
-            error: 'Token exchange failed',
-          }, window.location.origin);
-        } else {
-          window.location.href = `${window.location.origin}?googleFitAuth=failed&error=token_exchange`;
-        }
-      } finally {
-        // Close only if we're a popup
-        if (window.opener) {
-          window.close();
-        }
-      }
-    };
-
-    handleAuthorization();
+    // The opener exchanges the code through the token broker
+    if (window.opener && !window.opener.closed) {
+      window.opener.postMessage(code ? {
+        type: 'oauth_callback',
+        provider: 'google_fit',
+        success: true,
+        code,
+      } : {
+        type: 'oauth_callback',
+        provider: 'google_fit',
+        success: false,
+        error: error || 'Authorization failed',
+      }, window.location.origin);
+      window.close();
+    } else {
+      // Opened outside the popup flow, there is nobody to hand the code to
+      window.location.href = `${window.location.origin}?googleFitAuth=failed&error=${error || 'no_opener'}`;
+    }
   }, []);
 
   return (
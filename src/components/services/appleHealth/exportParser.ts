@@ -0,0 +1,77 @@
+// Streaming scanner for Apple Health export.xml. The file is far too large for DOMParser,
+// but every element we care about is a flat tag with attributes, so the text is scanned
+// chunk by chunk and only Record, Workout and WorkoutStatistics tags are reported.
+
+export type ExportElementName = 'Record' | 'Workout' | 'WorkoutStatistics';
+
+export interface ExportElementHandlers {
+  onOpen: (name: ExportElementName, attributes: Record<string, string>) => void;
+  onClose?: (name: ExportElementName) => void;
+}
+
+const TAG_PATTERN = /<(\/?)(Record|WorkoutStatistics|Workout)\b([^>]*?)(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([\w:]+)="([^"]*)"/g;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+const decodeEntities = (value: string) =>
+  value.includes('&') ? value.replace(/&(amp|lt|gt|quot|apos);/g, (_, entity: string) => ENTITIES[entity]) : value;
+
+const parseAttributes = (source: string) => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]] = decodeEntities(match[2]);
+  }
+  return attributes;
+};
+
+// Scan complete tags in text; returns how much of it was consumed
+const scanTags = (text: string, handlers: ExportElementHandlers) => {
+  let consumed = 0;
+  TAG_PATTERN.lastIndex = 0;
+
+  for (let match = TAG_PATTERN.exec(text); match; match = TAG_PATTERN.exec(text)) {
+    const [, closing, name, attributes, selfClosing] = match;
+    const element = name as ExportElementName;
+
+    if (closing) {
+      handlers.onClose?.(element);
+    } else {
+      handlers.onOpen(element, parseAttributes(attributes));
+      if (selfClosing) handlers.onClose?.(element);
+    }
+    consumed = TAG_PATTERN.lastIndex;
+  }
+
+  return consumed;
+};
+
+export const scanHealthExport = async (stream: ReadableStream<Uint8Array>, handlers: ExportElementHandlers) => {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    const consumed = scanTags(buffer, handlers);
+    // Keep a tag that may have been cut off at the chunk boundary
+    buffer = buffer.slice(Math.max(consumed, buffer.lastIndexOf('<')));
+
+    if (done) break;
+  }
+};
+
+// Export dates look like "2023-05-01 07:30:00 -0700"
+export const parseExportDate = (value: string | undefined) => {
+  if (!value) return NaN;
+  const match = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/.exec(value);
+  return match ? Date.parse(`${match[1]}T${match[2]}${match[3]}:${match[4]}`) : Date.parse(value);
+};
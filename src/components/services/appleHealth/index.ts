@@ -0,0 +1,288 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import type { HistoryMetric, MetricSummary, SleepSession, SleepStageSegment, WorkoutSession } from '../../types';
+import {
+  bucketStartFor,
+  combineSummaries,
+  finestRetainedResolution,
+  mergeSummary,
+  recordMetricSummaries,
+  type SummarySample,
+} from '../metricHistory';
+import { buildSleepSessions, saveSleepSessions } from '../sleep';
+import { saveWorkoutSession } from '../workoutFiles';
+import { parseExportDate, scanHealthExport } from './exportParser';
+import { countBytes, openZipEntry } from './zip';
+
+// Import of the export.zip / export.xml produced by Health > Export All Health Data on iOS.
+// Records are aggregated in memory per history bucket while the file streams past, then
+// written in one pass. The newest creationDate imported per metric is stored so exporting
+// again later only adds what is new.
+
+type ImportedMetric = Extract<HistoryMetric, 'heartRate' | 'hrvSdnn' | 'bodyMass' | 'steps' | 'sleep'>;
+
+const RECORD_TYPES: Record<string, ImportedMetric> = {
+  HKQuantityTypeIdentifierHeartRate: 'heartRate',
+  // Kept apart from the live RMSSD 'hrv' so it doesn't skew the readiness baseline
+  HKQuantityTypeIdentifierHeartRateVariabilitySDNN: 'hrvSdnn',
+  HKQuantityTypeIdentifierBodyMass: 'bodyMass',
+  HKQuantityTypeIdentifierStepCount: 'steps',
+  HKCategoryTypeIdentifierSleepAnalysis: 'sleep',
+};
+
+const POUNDS_TO_KG = 0.45359237;
+const KILOJOULES_PER_KCAL = 4.184;
+const METERS_PER_UNIT: Record<string, number> = { m: 1, km: 1000, mi: 1609.344, yd: 0.9144, ft: 0.3048 };
+const SECONDS_PER_UNIT: Record<string, number> = { s: 1, min: 60, hr: 3600 };
+
+// HKCategoryValueSleepAnalysis suffixes; Core is what Apple calls light sleep
+const SLEEP_STAGES: Record<string, SleepStageSegment['stage']> = {
+  InBed: 'inBed',
+  Awake: 'awake',
+  AsleepCore: 'light',
+  AsleepDeep: 'deep',
+  AsleepREM: 'rem',
+  AsleepUnspecified: 'asleep',
+  Asleep: 'asleep',
+};
+
+const IMPORT_STATE_DOC = 'apple_health';
+
+export interface AppleHealthImportState {
+  lastImportedAt: number;
+  watermarks: Partial<Record<ImportedMetric, number>>;
+}
+
+export interface AppleHealthImportResult {
+  records: number;
+  skipped: number;
+  workouts: number;
+  duplicateWorkouts: number;
+  sleepNights: number;
+}
+
+interface PendingWorkout {
+  attributes: Record<string, string>;
+  statistics: Record<string, string>[];
+}
+
+const importStateRef = (userId: string) => doc(db, 'users', userId, 'imports', IMPORT_STATE_DOC);
+
+export const getAppleHealthImportState = async (userId: string): Promise<AppleHealthImportState | null> => {
+  const snapshot = await getDoc(importStateRef(userId));
+  return snapshot.exists() ? (snapshot.data() as AppleHealthImportState) : null;
+};
+
+const openExport = async (file: File, onProgress?: (fraction: number) => void) => {
+  if (file.name.toLowerCase().endsWith('.zip')) {
+    // The archive also contains export_cda.xml, which is a different format
+    return openZipEntry(file, (name) => /(^|\/)export\.xml$/.test(name), onProgress);
+  }
+  return countBytes(file.stream(), (bytesRead) => onProgress?.(bytesRead / file.size));
+};
+
+// "HKWorkoutActivityTypeTraditionalStrengthTraining" -> "Traditional Strength Training"
+const sportName = (activityType = '') =>
+  activityType.replace('HKWorkoutActivityType', '').replace(/([a-z])([A-Z])/g, '$1 $2') || 'Workout';
+
+const toMeters = (value: string | undefined, unit = 'm') =>
+  value && METERS_PER_UNIT[unit] ? Number(value) * METERS_PER_UNIT[unit] : undefined;
+
+const toKcal = (value: string | undefined, unit = 'kcal') =>
+  value ? Math.round(unit === 'kJ' ? Number(value) / KILOJOULES_PER_KCAL : Number(value)) : undefined;
+
+const buildAppleWorkout = ({ attributes, statistics }: PendingWorkout): WorkoutSession | null => {
+  const startTime = parseExportDate(attributes.startDate);
+  const endTime = parseExportDate(attributes.endDate);
+  if (!Number.isFinite(startTime)) return null;
+
+  const statistic = (pattern: RegExp) => statistics.find((entry) => pattern.test(entry.type));
+  const heartRate = statistic(/HeartRate$/);
+  const distanceStatistic = statistic(/Distance/);
+  const energyStatistic = statistic(/ActiveEnergyBurned$/);
+
+  const duration = attributes.duration
+    ? Number(attributes.duration) * (SECONDS_PER_UNIT[attributes.durationUnit] ?? 60)
+    : (endTime - startTime) / 1000;
+  // Older exports put totals on the workout, newer ones in WorkoutStatistics
+  const distance = toMeters(attributes.totalDistance, attributes.totalDistanceUnit)
+    ?? toMeters(distanceStatistic?.sum, distanceStatistic?.unit)
+    ?? 0;
+  const averageHeartRate = heartRate?.average ? Math.round(Number(heartRate.average)) : undefined;
+  const maxHeartRate = heartRate?.maximum ? Math.round(Number(heartRate.maximum)) : undefined;
+  const averagePace = distance >= 10 ? Math.round(duration / (distance / 1000)) : undefined;
+
+  return {
+    // Same id scheme as file imports so a workout also uploaded as FIT is not stored twice
+    id: `workout-${Math.floor(startTime / 1000)}`,
+    source: 'apple_health',
+    sport: sportName(attributes.workoutActivityType),
+    startTime,
+    duration,
+    distance,
+    calories: toKcal(attributes.totalEnergyBurned, attributes.totalEnergyBurnedUnit)
+      ?? toKcal(energyStatistic?.sum, energyStatistic?.unit),
+    averageHeartRate,
+    maxHeartRate,
+    averagePace,
+    laps: [{ startTime, duration, distance, averageHeartRate, maxHeartRate, averagePace }],
+    minutes: [],
+    route: [],
+  };
+};
+
+// Hours asleep per night for metric history, recorded at the time of waking
+const sleepSamples = (sessions: SleepSession[]): SummarySample[] =>
+  sessions.map((session) => ({
+    timestamp: session.wakeTime,
+    metrics: { sleep: mergeSummary(undefined, Math.round((session.totalSleep / 60) * 10) / 10) },
+  }));
+
+// Steps are stored as daily running totals. The phone and the watch both record steps for
+// the same walk, so per day only the source that counted the most is used. Only days with
+// new records are written, but their totals are rebuilt from every record of the day.
+const stepSamples = (
+  stepsByDay: Map<number, Map<string, Map<number, number>>>,
+  changedDays: Set<number>
+): SummarySample[] => {
+  const samples: SummarySample[] = [];
+
+  stepsByDay.forEach((sources, day) => {
+    if (!changedDays.has(day)) return;
+
+    let best: Map<number, number> | undefined;
+    let bestTotal = 0;
+    sources.forEach((buckets) => {
+      const total = [...buckets.values()].reduce((sum, steps) => sum + steps, 0);
+      if (total > bestTotal) {
+        best = buckets;
+        bestTotal = total;
+      }
+    });
+    if (!best) return;
+
+    let runningTotal = 0;
+    [...best.entries()].sort((a, b) => a[0] - b[0]).forEach(([timestamp, steps]) => {
+      runningTotal += steps;
+      samples.push({ timestamp, metrics: { steps: mergeSummary(undefined, Math.round(runningTotal)) } });
+    });
+  });
+
+  return samples;
+};
+
+export const importAppleHealthExport = async (
+  userId: string,
+  file: File,
+  onProgress?: (fraction: number) => void
+): Promise<AppleHealthImportResult> => {
+  const previous = await getAppleHealthImportState(userId);
+  const watermarks: Partial<Record<ImportedMetric, number>> = { ...previous?.watermarks };
+  const result: AppleHealthImportResult = { records: 0, skipped: 0, workouts: 0, duplicateWorkouts: 0, sleepNights: 0 };
+
+  const valueBuckets = new Map<number, Partial<Record<HistoryMetric, MetricSummary>>>();
+  const stepsByDay = new Map<number, Map<string, Map<number, number>>>();
+  const changedStepDays = new Set<number>();
+  const sleepSegments: SleepStageSegment[] = [];
+  const workouts: WorkoutSession[] = [];
+  let pendingWorkout: PendingWorkout | null = null;
+
+  const addValue = (metric: ImportedMetric, timestamp: number, value: number) => {
+    const bucketStart = bucketStartFor(timestamp, finestRetainedResolution(timestamp));
+    const bucket = valueBuckets.get(bucketStart) ?? {};
+    bucket[metric] = combineSummaries(bucket[metric], mergeSummary(undefined, value));
+    valueBuckets.set(bucketStart, bucket);
+  };
+
+  const addSteps = (source: string, timestamp: number, steps: number) => {
+    const day = bucketStartFor(timestamp, 'day');
+    const bucketStart = bucketStartFor(timestamp, finestRetainedResolution(timestamp));
+    if (!stepsByDay.has(day)) stepsByDay.set(day, new Map());
+    const sources = stepsByDay.get(day)!;
+    if (!sources.has(source)) sources.set(source, new Map());
+    const buckets = sources.get(source)!;
+    buckets.set(bucketStart, (buckets.get(bucketStart) ?? 0) + steps);
+  };
+
+  const newWatermarks = { ...watermarks };
+
+  const handleRecord = (attributes: Record<string, string>) => {
+    const metric = RECORD_TYPES[attributes.type];
+    if (!metric) return;
+
+    const start = parseExportDate(attributes.startDate);
+    const end = parseExportDate(attributes.endDate);
+    const created = parseExportDate(attributes.creationDate) || end;
+    if (!Number.isFinite(start) || !Number.isFinite(end)) return;
+
+    if (created <= (watermarks[metric] ?? 0)) {
+      result.skipped++;
+      // The day's total is rewritten if it gets new steps, so it needs the old ones too
+      if (metric === 'steps') addSteps(attributes.sourceName ?? '', start, Number(attributes.value));
+      return;
+    }
+    newWatermarks[metric] = Math.max(newWatermarks[metric] ?? 0, created);
+    result.records++;
+
+    const value = Number(attributes.value);
+    switch (metric) {
+      case 'sleep': {
+        const stage = SLEEP_STAGES[attributes.value?.replace('HKCategoryValueSleepAnalysis', '') ?? ''];
+        if (stage) sleepSegments.push({ stage, start, end });
+        break;
+      }
+      case 'steps':
+        addSteps(attributes.sourceName ?? '', start, value);
+        changedStepDays.add(bucketStartFor(start, 'day'));
+        break;
+      case 'bodyMass':
+        addValue(metric, start, attributes.unit === 'lb' ? value * POUNDS_TO_KG : value);
+        break;
+      default:
+        addValue(metric, start, value);
+    }
+  };
+
+  await scanHealthExport(await openExport(file, onProgress), {
+    onOpen: (name, attributes) => {
+      if (name === 'Record') {
+        handleRecord(attributes);
+      } else if (name === 'Workout') {
+        pendingWorkout = { attributes, statistics: [] };
+      } else if (pendingWorkout) {
+        pendingWorkout.statistics.push(attributes);
+      }
+    },
+    onClose: (name) => {
+      if (name !== 'Workout' || !pendingWorkout) return;
+      const workout = buildAppleWorkout(pendingWorkout);
+      if (workout) workouts.push(workout);
+      pendingWorkout = null;
+    },
+  });
+
+  // Watch and phone segments for the same night are merged into one session
+  const sleepSessions = buildSleepSessions(sleepSegments, 'apple_health');
+
+  await recordMetricSummaries(userId, [
+    ...[...valueBuckets.entries()].map(([timestamp, metrics]) => ({ timestamp, metrics })),
+    ...stepSamples(stepsByDay, changedStepDays),
+    ...sleepSamples(sleepSessions),
+  ]);
+
+  result.sleepNights = await saveSleepSessions(userId, sleepSessions);
+
+  for (const workout of workouts) {
+    const status = await saveWorkoutSession(userId, workout);
+    if (status === 'duplicate') {
+      result.duplicateWorkouts++;
+    } else {
+      result.workouts++;
+    }
+  }
+
+  // Only advanced once everything above has been written
+  await setDoc(importStateRef(userId), { lastImportedAt: Date.now(), watermarks: newWatermarks });
+
+  return result;
+};
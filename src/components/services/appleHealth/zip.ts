@@ -0,0 +1,118 @@
+// Just enough of the ZIP format to stream a single entry out of an Apple Health export.zip
+// without loading the archive into memory. Entries are located through the central directory
+// and inflated with the browser's DecompressionStream.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// Fixed record size plus the largest possible archive comment
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const readBytes = async (file: Blob, start: number, end: number) =>
+  new DataView(await file.slice(start, end).arrayBuffer());
+
+const findEndRecord = async (file: Blob) => {
+  const searchStart = Math.max(0, file.size - MAX_END_RECORD_SEARCH);
+  const tail = await readBytes(file, searchStart, file.size);
+
+  for (let offset = tail.byteLength - 22; offset >= 0; offset--) {
+    if (tail.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return {
+        entryCount: tail.getUint16(offset + 10, true),
+        directorySize: tail.getUint32(offset + 12, true),
+        directoryOffset: tail.getUint32(offset + 16, true),
+      };
+    }
+  }
+
+  throw new Error('Not a ZIP archive');
+};
+
+const readCentralDirectory = async (file: Blob): Promise<ZipEntry[]> => {
+  const { entryCount, directorySize, directoryOffset } = await findEndRecord(file);
+  if (directoryOffset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('This archive is too large to read in the browser; unzip it and upload export.xml instead');
+  }
+
+  const directory = await readBytes(file, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+
+    entries.push({
+      method: directory.getUint16(offset + 10, true),
+      compressedSize: directory.getUint32(offset + 20, true),
+      localHeaderOffset: directory.getUint32(offset + 42, true),
+      name: decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength)),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+// Calls onBytes with the running byte count as the stream is consumed
+export const countBytes = (stream: ReadableStream<Uint8Array>, onBytes: (bytesRead: number) => void) => {
+  let bytesRead = 0;
+  return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytesRead += chunk.byteLength;
+      onBytes(bytesRead);
+      controller.enqueue(chunk);
+    },
+  }));
+};
+
+// Open the first entry whose name matches as a stream of uncompressed bytes.
+// onProgress receives the fraction of the compressed entry read so far.
+export const openZipEntry = async (
+  file: Blob,
+  matches: (name: string) => boolean,
+  onProgress?: (fraction: number) => void
+): Promise<ReadableStream<Uint8Array>> => {
+  const entry = (await readCentralDirectory(file)).find((candidate) => matches(candidate.name));
+  if (!entry) {
+    throw new Error('The archive does not contain the expected file');
+  }
+
+  // The local header repeats the name and may carry a different extra field length
+  const header = await readBytes(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  if (header.getUint32(0, true) !== LOCAL_FILE_HEADER) {
+    throw new Error('Corrupt ZIP entry header');
+  }
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+
+  const compressed = countBytes(
+    file.slice(dataStart, dataStart + entry.compressedSize).stream(),
+    (bytesRead) => onProgress?.(entry.compressedSize ? bytesRead / entry.compressedSize : 1)
+  );
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      return compressed;
+    case METHOD_DEFLATE:
+      return compressed.pipeThrough(new DecompressionStream('deflate-raw'));
+    default:
+      throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+  }
+};
@@ -0,0 +1,355 @@
+import { useEffect, useState } from 'react';
+import { collection, deleteDoc, doc, getDoc, getDocs, limit, orderBy, query, setDoc, updateDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type {
+  CoachMessage,
+  CoachSource,
+  CoachThread,
+  HistoryMetric,
+  PlanChangeProposal,
+  ReadinessScore,
+  TimeSeriesPoint,
+} from '../types';
+import { describeLlmError, streamCoachReply, type PlanChange, type TrainingPlanDay } from './gemini';
+import { localDayStart, queryMetricSeriesBatch } from './metricHistory';
+import { getReadiness } from './readiness';
+import { getTrainingLoad, type TrainingLoad } from './trainingLoad';
+
+// The AI coach: a conversation grounded in the athlete's own data. Every question is answered
+// from a fresh snapshot of the profile, injury history, training plan and the last 14 days of
+// readiness, load and health metrics, and the reply cites the parts it used. Plan changes the
+// coach asks for are only applied once the athlete confirms them.
+// Threads are saved at users/{uid}/coachThreads/{id}.
+
+const DAY = 24 * 60 * 60 * 1000;
+const CONTEXT_DAYS = 14;
+const HISTORY_MESSAGES = 10; // earlier turns sent back with each question
+const MAX_THREADS = 20;
+
+const CONTEXT_METRICS: { metric: HistoryMetric; label: string; unit: string }[] = [
+  { metric: 'heartRate', label: 'Heart rate', unit: 'bpm' },
+  { metric: 'hrv', label: 'HRV', unit: 'ms' },
+  { metric: 'sleep', label: 'Sleep', unit: 'h' },
+  { metric: 'steps', label: 'Steps', unit: '' },
+  { metric: 'stress', label: 'Stress', unit: '%' },
+];
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// The plan is saved on the athlete document as JSON by onboarding
+export const parseTrainingPlan = (athlete: Record<string, unknown>): TrainingPlanDay[] => {
+  if (typeof athlete.trainingPlan !== 'string') return [];
+  try {
+    const plan = JSON.parse(athlete.trainingPlan);
+    return Array.isArray(plan) ? plan : [];
+  } catch (error) {
+    console.error('Error parsing training plan:', error);
+    return [];
+  }
+};
+
+const describeSessions = (day: TrainingPlanDay) =>
+  day.sessions.length
+    ? day.sessions
+        .map(
+          (session) =>
+            `${session.focus} (${session.duration}, ${session.intensity} intensity): ` +
+            session.exercises.map((exercise) => `${exercise.name} ${exercise.sets}x${exercise.reps}`).join(', ')
+        )
+        .join('; ')
+    : 'Rest';
+
+const profileSource = (athlete: Record<string, unknown>): CoachSource => {
+  const fields: [string, unknown][] = [
+    ['Age', athlete.age],
+    ['Gender', athlete.gender],
+    ['Sport', athlete.sport],
+    ['Position', athlete.position],
+    ['Fitness level', athlete.fitnessLevel],
+    ['Height (cm)', athlete.height],
+    ['Weight (kg)', athlete.weight],
+    ['Resting heart rate (bpm)', athlete.restingHeartRate],
+    ['Training goal', athlete.trainingGoal],
+    ['Preferred intensity', athlete.trainingIntensity],
+  ];
+  return {
+    id: 'profile',
+    label: 'Profile',
+    text: fields
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([label, value]) => `${label}: ${value}`)
+      .join('\n'),
+  };
+};
+
+const injurySource = (athlete: Record<string, unknown>): CoachSource => {
+  const injuries = String(athlete.pastInjuries ?? '').trim();
+  const conditions = String(athlete.medicalConditions ?? '').trim();
+  return {
+    id: 'injuries',
+    label: 'Injury history',
+    text: `Past injuries: ${injuries || 'none recorded'}\nMedical conditions: ${conditions || 'none recorded'}`,
+  };
+};
+
+const planSource = (plan: TrainingPlanDay[]): CoachSource => ({
+  id: 'plan',
+  label: 'Training plan',
+  text: plan.length ? plan.map((day) => `${day.day}: ${describeSessions(day)}`).join('\n') : 'No training plan saved.',
+});
+
+const readinessSource = (readiness: ReadinessScore): CoachSource => ({
+  id: 'readiness',
+  label: "Today's readiness",
+  text: [
+    `Score: ${readiness.score ?? 'not enough history yet'}/100`,
+    ...readiness.components.map(
+      (component) =>
+        `${component.factor}: ${component.value}` +
+        (component.baseline ? ` (baseline ${component.baseline.mean} ± ${component.baseline.standardDeviation})` : '') +
+        (component.outOfRange ? ' OUTSIDE NORMAL RANGE' : '')
+    ),
+  ].join('\n'),
+});
+
+const loadSource = ({ sessions, days, summary }: TrainingLoad): CoachSource => ({
+  id: 'load',
+  label: 'Training load',
+  text: [
+    `${sessions.length} sessions in the last ${CONTEXT_DAYS} days: ` +
+      (sessions.map((session) => `${formatDate(session.startTime)} ${session.sport} load ${session.load}`).join(', ') || 'none'),
+    `Daily load: ${days.map((day) => `${formatDate(day.date)} ${day.load}`).join(', ')}`,
+    ...(summary
+      ? [
+          `Weekly load ${summary.weeklyLoad}, acute:chronic ratio ${summary.acwr ?? 'unknown'}, ` +
+            `form ${summary.form}, monotony ${summary.monotony ?? 'unknown'}, strain ${summary.strain ?? 'unknown'}`,
+        ]
+      : []),
+  ].join('\n'),
+});
+
+const metricsSource = (series: Record<HistoryMetric, TimeSeriesPoint[]>): CoachSource => ({
+  id: 'metrics',
+  label: `Health metrics, last ${CONTEXT_DAYS} days`,
+  text:
+    CONTEXT_METRICS.filter(({ metric }) => series[metric]?.length)
+      .map(({ metric, label, unit }) => {
+        const points = series[metric];
+        const values = points.map((point) => point.value);
+        const latest = points[points.length - 1];
+        return (
+          `${label}: daily average ${Math.round(average(values) * 10) / 10}${unit}, ` +
+          `range ${Math.min(...values)}-${Math.max(...values)}${unit}, ${formatDate(latest.timestamp)} ${latest.value}${unit}`
+        );
+      })
+      .join('\n') || 'No health metrics recorded.',
+});
+
+// A source that fails to load is left out, so the coach can still answer from the rest
+const optional = <T>(label: string, promise: Promise<T>) =>
+  promise.catch((error) => {
+    console.error(`Error loading ${label} for the coach:`, error);
+    return null;
+  });
+
+export const buildCoachContext = async (userId: string, now: number = Date.now()) => {
+  const athleteSnapshot = await getDoc(doc(db, 'athletes', userId));
+  if (!athleteSnapshot.exists()) throw new Error('No athlete profile found');
+  const athlete = athleteSnapshot.data();
+
+  const [readiness, load, series] = await Promise.all([
+    optional('readiness', getReadiness(userId, now)),
+    optional('training load', getTrainingLoad(userId, CONTEXT_DAYS, now)),
+    optional(
+      'health metrics',
+      queryMetricSeriesBatch(
+        userId,
+        CONTEXT_METRICS.map(({ metric }) => metric),
+        { start: new Date(localDayStart(now - (CONTEXT_DAYS - 1) * DAY)), end: new Date(now), resolution: 'day' }
+      )
+    ),
+  ]);
+
+  const sources: CoachSource[] = [
+    profileSource(athlete),
+    injurySource(athlete),
+    planSource(parseTrainingPlan(athlete)),
+    ...(readiness ? [readinessSource(readiness)] : []),
+    ...(load ? [loadSource(load)] : []),
+    ...(series ? [metricsSource(series)] : []),
+  ];
+  return { athlete, sources };
+};
+
+// Replies cite sources as [id]; ids that aren't sources are left as plain text
+export const CITATION = /\[([a-z]+)\]/g;
+
+export const citedSources = (text: string, sources: CoachSource[]) => {
+  const cited = new Set(Array.from(text.matchAll(CITATION), (match) => match[1]));
+  return sources.filter((source) => cited.has(source.id));
+};
+
+const toProposal = (change: PlanChange): PlanChangeProposal => ({
+  id: crypto.randomUUID(),
+  tool: change.tool,
+  args: change.args,
+  summary:
+    change.tool === 'updatePlanDay'
+      ? `Change ${change.args.day} to: ${change.args.sessions.map((session) => session.focus).join(', ') || 'Rest'}`
+      : `Swap ${change.args.firstDay} and ${change.args.secondDay}`,
+  reason: change.args.reason,
+  status: 'pending',
+});
+
+const message = (role: CoachMessage['role'], text: string, details: Partial<CoachMessage> = {}): CoachMessage => ({
+  id: crypto.randomUUID(),
+  role,
+  text,
+  createdAt: Date.now(),
+  ...details,
+});
+
+export const newCoachThread = (question: string): CoachThread => {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), title: question.slice(0, 80), createdAt: now, updatedAt: now, messages: [] };
+};
+
+// Asks the coach and returns the thread with the question and its reply. onUpdate receives the
+// thread as the reply streams in. A failed reply is kept in the thread, marked as failed.
+export const askCoach = async (
+  userId: string,
+  thread: CoachThread,
+  question: string,
+  onUpdate: (thread: CoachThread) => void
+): Promise<CoachThread> => {
+  const history = thread.messages.filter((entry) => !entry.failed).slice(-HISTORY_MESSAGES);
+  const asked = { ...thread, messages: [...thread.messages, message('athlete', question)] };
+  const pending = message('coach', '');
+  const withReply = (reply: CoachMessage) => ({ ...asked, updatedAt: Date.now(), messages: [...asked.messages, reply] });
+  onUpdate(withReply(pending));
+
+  let reply: CoachMessage;
+  try {
+    const { athlete, sources } = await buildCoachContext(userId);
+    const { text, planChanges, promptVersion } = await streamCoachReply(
+      {
+        name: athlete.name || athlete.fullName || 'the athlete',
+        sport: athlete.sport,
+        position: athlete.position,
+        today: new Date().toDateString(),
+        sources,
+        history: history.map(({ role, text }) => ({ role, text })),
+        question,
+      },
+      (textSoFar) => onUpdate(withReply({ ...pending, text: textSoFar }))
+    );
+    reply = {
+      ...pending,
+      text,
+      citations: citedSources(text, sources),
+      proposals: planChanges.map(toProposal),
+      promptVersion,
+    };
+  } catch (error) {
+    console.error('Error asking the coach:', error);
+    reply = { ...pending, text: describeLlmError(error), failed: true };
+  }
+
+  const answered = withReply(reply);
+  onUpdate(answered);
+  await saveCoachThread(userId, answered).catch((error) => console.error('Error saving coach thread:', error));
+  return answered;
+};
+
+const threadsRef = (userId: string) => collection(db, 'users', userId, 'coachThreads');
+
+// Firestore rejects undefined fields, which optional message fields leave behind
+export const saveCoachThread = (userId: string, thread: CoachThread) =>
+  setDoc(doc(threadsRef(userId), thread.id), JSON.parse(JSON.stringify(thread)));
+
+export const deleteCoachThread = (userId: string, threadId: string) => deleteDoc(doc(threadsRef(userId), threadId));
+
+export const fetchCoachThreads = async (userId: string) => {
+  const snapshot = await getDocs(query(threadsRef(userId), orderBy('updatedAt', 'desc'), limit(MAX_THREADS)));
+  return snapshot.docs.map((threadDoc) => threadDoc.data() as CoachThread);
+};
+
+const findDay = (plan: TrainingPlanDay[], day: string) => {
+  const index = plan.findIndex((entry) => entry.day.trim().toLowerCase() === day.trim().toLowerCase());
+  if (index === -1) throw new Error(`The training plan has no ${day}`);
+  return index;
+};
+
+// Applies a confirmed change to the plan saved on the athlete document
+export const applyPlanChange = async (userId: string, proposal: PlanChangeProposal) => {
+  const athleteRef = doc(db, 'athletes', userId);
+  const snapshot = await getDoc(athleteRef);
+  const plan = snapshot.exists() ? parseTrainingPlan(snapshot.data()) : [];
+  if (plan.length === 0) throw new Error('No training plan to change');
+
+  // Arguments were validated when the coach proposed the change
+  const change = { tool: proposal.tool, args: proposal.args } as PlanChange;
+  if (change.tool === 'updatePlanDay') {
+    const index = findDay(plan, change.args.day);
+    plan[index] = { ...plan[index], sessions: change.args.sessions };
+  } else {
+    const first = findDay(plan, change.args.firstDay);
+    const second = findDay(plan, change.args.secondDay);
+    [plan[first], plan[second]] = [
+      { ...plan[first], sessions: plan[second].sessions },
+      { ...plan[second], sessions: plan[first].sessions },
+    ];
+  }
+
+  await updateDoc(athleteRef, { trainingPlan: JSON.stringify(plan), updatedAt: new Date().toISOString() });
+};
+
+// Marks a proposal applied or declined and saves the thread
+export const resolveProposal = async (
+  userId: string,
+  thread: CoachThread,
+  proposalId: string,
+  status: PlanChangeProposal['status']
+) => {
+  const resolved: CoachThread = {
+    ...thread,
+    updatedAt: Date.now(),
+    messages: thread.messages.map((entry) => ({
+      ...entry,
+      proposals: entry.proposals?.map((proposal) => (proposal.id === proposalId ? { ...proposal, status } : proposal)),
+    })),
+  };
+  await saveCoachThread(userId, resolved);
+  return resolved;
+};
+
+// React hook for the athlete's saved threads, most recent first
+export const useCoachThreads = (userId: string | undefined, revision = 0) => {
+  const [threads, setThreads] = useState<CoachThread[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    fetchCoachThreads(userId)
+      .then((result) => {
+        if (!cancelled) setThreads(result);
+      })
+      .catch((error) => console.error('Error loading coach threads:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, revision]);
+
+  return { threads, loading };
+};
@@ -0,0 +1,234 @@
+import { auth } from '../../config/firebase';
+import type { LlmProvider, LlmRequest, LlmTool } from '../../types';
+import { cacheAnswer, cacheKey, readCachedAnswer } from '../llm/cache';
+import { isLlmError, llmError, type LlmError, type LlmErrorKind } from '../llm/errors';
+import { mockProvider } from '../llm/mock';
+import { getLlmProvider } from '../llm/registry';
+import { estimateTokens, recordCacheHit, recordModelUsage, reserveModelRequest } from '../llm/usage';
+import { validate, type Schema } from './schema';
+
+// Every AI request in the app goes through here: the cache, the user's daily quota, the
+// configured provider, structured output for JSON, runtime validation, and retries with
+// backoff. Callers get typed values or an LlmError.
+
+const MAX_ATTEMPTS = 3;
+const BASE_RETRY_DELAY = 1000; // ms, doubled on every retry
+const MAX_RETRY_DELAY = 10000;
+// Validation problems quoted back to the model when asking it to fix an answer
+const MAX_REPAIR_ISSUES = 8;
+
+const RETRYABLE: LlmErrorKind[] = ['network', 'rateLimited', 'invalidResponse'];
+
+// Providers throw LlmErrors; anything else escaping one is treated as a network failure
+const classifyError = (error: unknown, provider: string): LlmError => {
+  if (isLlmError(error)) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return llmError('network', provider, `${provider} request failed: ${message}`, { cause: error });
+};
+
+// Structured output is normally clean JSON, but fences, prose around the object and trailing
+// commas still turn up, so those are repaired before giving up on an answer
+export const extractJson = (text: string): unknown => {
+  const unfenced = text.replace(/```(?:json)?/gi, '').trim();
+  const start = unfenced.search(/[[{]/);
+  const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+  if (start === -1 || end < start) throw new SyntaxError('No JSON value in response');
+  return JSON.parse(unfenced.slice(start, end + 1).replace(/,\s*([}\]])/g, '$1'));
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Exponential backoff with full jitter so parallel callers don't retry in lockstep
+const retryDelay = (attempt: number) => Math.random() * Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** (attempt - 1));
+
+const withRetries = async <T>(
+  provider: LlmProvider,
+  request: (previousError: LlmError | null) => Promise<T>,
+  maxAttempts: number
+): Promise<T> => {
+  let previousError: LlmError | null = null;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request(previousError);
+    } catch (error) {
+      const failure = classifyError(error, provider.name);
+      failure.attempts = attempt;
+      if (attempt >= maxAttempts || !RETRYABLE.includes(failure.kind)) throw failure;
+      previousError = failure;
+      await sleep(retryDelay(attempt));
+    }
+  }
+};
+
+export interface GenerateOptions {
+  feature: string; // names the request for fixtures, cache policies and usage accounting
+  // What the answer depends on, normalized into the cache key; the request isn't cached without it
+  cacheInputs?: unknown;
+  temperature?: number;
+  maxAttempts?: number;
+}
+
+// Identical requests already waiting on the model share its answer
+const inFlight = new Map<string, Promise<unknown>>();
+
+// The mock provider runs offline and in CI, so its requests are neither reserved nor recorded
+const isMetered = (provider: LlmProvider) => provider.id !== mockProvider.id;
+
+// One generation's reservations: the cache key goes with each one, and the ticket returned for
+// the last is what lets a shared answer be cached
+interface Reservation {
+  cacheKey: string | null;
+  ticket: string | null;
+}
+
+// Serves the answer from the cache when possible, otherwise generates it and caches it. Cached answers are checked again so a stale shape is never returned.
+const cachedGeneration = async <T>(
+  { feature, cacheInputs, maxAttempts = MAX_ATTEMPTS }: GenerateOptions,
+  checkCached: (value: unknown) => T | null,
+  request: (provider: LlmProvider, previousError: LlmError | null, reservation: Reservation) => Promise<T>
+): Promise<T> => {
+  const provider = getLlmProvider();
+  const user = auth.currentUser;
+  const key = cacheInputs === undefined ? null : await cacheKey(feature, provider, cacheInputs, user?.uid);
+
+  if (key) {
+    const cached = await readCachedAnswer(feature, key);
+    const value = cached === null ? null : checkCached(cached);
+    if (value !== null) {
+      if (user && isMetered(provider)) {
+        recordCacheHit(feature).catch((error) => console.error('Error recording AI cache hit:', error));
+      }
+      return value;
+    }
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+  }
+
+  const generation = (async () => {
+    const reservation: Reservation = { cacheKey: key, ticket: null };
+    const value = await withRetries(
+      provider,
+      (previousError) => request(provider, previousError, reservation),
+      maxAttempts
+    );
+    if (key) {
+      cacheAnswer(feature, key, value, reservation.ticket).catch((error) => console.error('Error caching AI answer:', error));
+    }
+    return value;
+  })();
+
+  if (!key) return generation;
+  inFlight.set(key, generation);
+  return generation.finally(() => inFlight.delete(key));
+};
+
+// Every model request is counted against the signed-in user's quota before it is made, and its
+// answer accounted to them, including ones rejected by validation. Without a signed-in user or a
+// reachable api/ai the request fails without being retried. Answers are streamed when the caller
+// wants partial text and the provider supports it.
+const requestModel = async (
+  provider: LlmProvider,
+  request: LlmRequest,
+  reservation: Reservation,
+  onText?: (textSoFar: string) => void
+) => {
+  const metered = isMetered(provider);
+  if (metered) reservation.ticket = (await reserveModelRequest(request.feature, reservation.cacheKey)).ticket;
+
+  const response =
+    onText && provider.stream ? await provider.stream(request, onText) : await provider.generate(request);
+  const text = response.text.trim();
+
+  if (metered) {
+    const usage = response.usage ?? { inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(text) };
+    recordModelUsage(request.feature, provider, usage).catch((error) =>
+      console.error('Error recording AI usage:', error)
+    );
+  }
+
+  if (!text && !response.toolCalls?.length) {
+    throw llmError('invalidResponse', provider.name, `${provider.name} returned an empty response`);
+  }
+  return { ...response, text };
+};
+
+const requestText = async (provider: LlmProvider, request: LlmRequest, reservation: Reservation) =>
+  (await requestModel(provider, request, reservation)).text;
+
+// Free-form text, e.g. advice rendered as prose
+export const generateText = (prompt: string, options: GenerateOptions) =>
+  cachedGeneration(
+    options,
+    (cached) => (typeof cached === 'string' && cached ? cached : null),
+    (provider, _previousError, reservation) =>
+      requestText(provider, { feature: options.feature, prompt, temperature: options.temperature }, reservation)
+  );
+
+export interface StreamOptions extends Omit<GenerateOptions, 'cacheInputs'> {
+  tools?: LlmTool[];
+  onText: (textSoFar: string) => void; // starts again from the beginning if the request is retried
+}
+
+// Conversational text shown as it arrives, optionally with tool calls. Never cached, since every
+// turn of a conversation differs, but quotas and usage still apply.
+export const streamText = (prompt: string, { tools, onText, ...options }: StreamOptions) =>
+  cachedGeneration(
+    options,
+    () => null,
+    async (provider, _previousError, reservation) => {
+      onText('');
+      const { text, toolCalls = [] } = await requestModel(
+        provider,
+        { feature: options.feature, prompt, temperature: options.temperature, tools },
+        reservation,
+        onText
+      );
+      if (!provider.stream) onText(text);
+      return { text, toolCalls };
+    }
+  );
+
+// A JSON answer constrained to the schema and validated against it. An answer that fails
+// validation is retried with the problems quoted back, so the model can correct itself.
+export const generateJson = <T>(prompt: string, schema: Schema<T>, options: GenerateOptions): Promise<T> =>
+  cachedGeneration(
+    options,
+    (cached) => {
+      const { value, issues } = validate(schema, cached);
+      return issues.length === 0 ? value : null;
+    },
+    async (provider, previousError, reservation) => {
+      const repairNote = previousError?.issues?.length
+        ? `\n\nYour previous answer was rejected because ${previousError.issues.slice(0, MAX_REPAIR_ISSUES).join('; ')}. ` +
+          'Answer again with JSON that matches the schema exactly.'
+        : '';
+      const text = await requestText(
+        provider,
+        {
+          feature: options.feature,
+          prompt: `${prompt}${repairNote}`,
+          temperature: options.temperature,
+          responseSchema: schema.json,
+        },
+        reservation
+      );
+
+      let parsed: unknown;
+      try {
+        parsed = extractJson(text);
+      } catch (error) {
+        throw llmError('invalidResponse', provider.name, `${provider.name} returned malformed JSON`, {
+          issues: ['the response was not valid JSON'],
+          cause: error,
+        });
+      }
+
+      const { value, issues } = validate(schema, parsed);
+      if (issues.length > 0) {
+        throw llmError('invalidResponse', provider.name, `${provider.name} response did not match the schema: ${issues[0]}`, {
+          issues,
+        });
+      }
+      return value;
+    }
+  );
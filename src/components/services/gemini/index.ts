@@ -0,0 +1,339 @@
+import type { InjuryRisk, LlmTool, LlmToolCall, PerformanceForecast, ReadinessScore } from "../../types";
+import { describeInjuryRisk } from "../injuryRisk";
+import { describeForecast } from "../performanceForecast";
+import { useUnitStore, withUnitInstruction } from "../units";
+import { generateJson, generateText, streamText } from "./client";
+import { prompts, renderPrompt, type PromptVariables } from "./prompts";
+import { validate, type Schema } from "./schema";
+import {
+  athleteInsightsSchema,
+  growthTrendSchema,
+  injuryPreventionTipsSchema,
+  injuryRiskExplanationSchema,
+  mealOutlineSchema,
+  motivationalQuoteSchema,
+  nutritionPlanSchema,
+  performanceNarrativeSchema,
+  recoveryTargetsSchema,
+  swapPlanDaysSchema,
+  trainingPlanSchema,
+  trainingRecommendationsSchema,
+  updatePlanDaySchema,
+  type AthleteInsight,
+  type GrowthTrendPoint,
+  type InjuryRiskExplanation,
+  type MealOutline,
+  type MotivationalQuote,
+  type NutritionPlan,
+  type PerformanceNarrative,
+  type PlanChange,
+  type RecoveryTarget,
+  type TrainingPlan,
+  type TrainingRecommendations,
+  type Versioned,
+  type VersionedText,
+} from "./responses";
+
+export { describeLlmError, isLlmError, type LlmError, type LlmErrorKind } from "../llm/errors";
+export type * from "./responses";
+export type { PromptVersion } from "../../types";
+
+// Every function resolves to a validated value or rejects with an LlmError; none of them
+// fall back to made-up defaults, so callers decide what to show when the AI is unavailable.
+
+// Cache inputs for prompts that follow the unit preference, whose answers change with it
+const unitScoped = (inputs: object) => ({ ...inputs, units: useUnitStore.getState().system });
+
+/**
+ * Explain forecasts calculated from the athlete's test results. The model only narrates the
+ * numbers; the forecasts themselves come from services/performanceForecast.
+ * @param sport - The sport the athlete plays.
+ * @param position - The position the athlete plays.
+ * @param forecasts - The forecasts to explain.
+ */
+export async function narratePerformanceForecast(
+  sport: string,
+  position: string,
+  forecasts: PerformanceForecast[]
+): Promise<Versioned<PerformanceNarrative>> {
+  const { system } = useUnitStore.getState();
+  const lines = forecasts.map((forecast) => describeForecast(forecast, system));
+  const prompt = renderPrompt(prompts.performanceForecast, { sport, position, forecasts: lines });
+  const narrative = await generateJson(withUnitInstruction(prompt.text), performanceNarrativeSchema, {
+    feature: prompt.version.name,
+    cacheInputs: unitScoped({ prompt: prompt.version, sport, position, forecasts: lines }),
+  });
+  return { ...narrative, promptVersion: prompt.version };
+}
+
+/**
+ * Generate a 7-day nutrition plan.
+ * @param sport - The sport the athlete plays.
+ * @param position - The position the athlete plays.
+ * @param goals - The athlete's training goals.
+ */
+export async function generateNutritionPlan(sport: string, position: string, goals: string): Promise<Versioned<NutritionPlan>> {
+  const prompt = renderPrompt(prompts.nutritionPlan, { sport, position, goals });
+  const plan = await generateJson(withUnitInstruction(prompt.text), nutritionPlanSchema, {
+    feature: prompt.version.name,
+    cacheInputs: unitScoped({ prompt: prompt.version, sport, position, goals }),
+  });
+  return { ...plan, promptVersion: prompt.version };
+}
+
+/**
+ * Generate a 7-day training plan.
+ * @param sport - The sport the athlete plays.
+ * @param position - The position the athlete plays.
+ * @param goals - The athlete's training goals.
+ */
+export async function generateTrainingPlan(sport: string, position: string, goals: string): Promise<Versioned<TrainingPlan>> {
+  const prompt = renderPrompt(prompts.trainingPlan, { sport, position, goals });
+  const plan = await generateJson(withUnitInstruction(prompt.text), trainingPlanSchema, {
+    feature: prompt.version.name,
+    cacheInputs: unitScoped({ prompt: prompt.version, sport, position, goals }),
+  });
+  return { ...plan, promptVersion: prompt.version };
+}
+
+/**
+ * Generate personalized nutrition suggestions based on athlete data and meal history.
+ * @param sport - The sport the athlete plays.
+ * @param position - The position the athlete plays.
+ * @param meals - The athlete's meal history.
+ * @param trainingGoal - The athlete's training goals.
+ * @returns Advice formatted as sections with bullet points.
+ */
+export async function getNutritionSuggestions(
+  sport: string,
+  position: string,
+  meals: PromptVariables<typeof prompts.nutritionSuggestions>["meals"],
+  trainingGoal: string
+): Promise<VersionedText> {
+  const prompt = renderPrompt(prompts.nutritionSuggestions, { sport, position, goals: trainingGoal, meals });
+  const text = await generateText(withUnitInstruction(prompt.text), {
+    feature: prompt.version.name,
+    cacheInputs: unitScoped({ prompt: prompt.version, sport, position, trainingGoal, meals }),
+  });
+  return { text, promptVersion: prompt.version };
+}
+
+/**
+ * Explain an injury risk assessment from the rule engine. The model only explains the scores;
+ * they come from services/injuryRisk.
+ * @param sport - The sport the athlete plays.
+ * @param position - The position the athlete plays.
+ * @param risk - The assessment to explain.
+ */
+export async function explainInjuryRisk(
+  sport: string,
+  position: string,
+  risk: InjuryRisk
+): Promise<Versioned<InjuryRiskExplanation>> {
+  const bodyParts = describeInjuryRisk(risk);
+  const prompt = renderPrompt(prompts.injuryRisk, { sport, position, bodyParts });
+  const explanation = await generateJson(withUnitInstruction(prompt.text), injuryRiskExplanationSchema, {
+    feature: prompt.version.name,
+    cacheInputs: unitScoped({ prompt: prompt.version, sport, position, bodyParts }),
+  });
+  return { ...explanation, promptVersion: prompt.version };
+}
+
+/**
+ * Get personalized recovery plan from Gemini AI.
+ * @param sport - The sport the athlete plays.
+ * @param position - The position the athlete plays.
+ * @param bodyParts - The body parts needing recovery.
+ * @returns The plan formatted as sections with bullet points.
+ */
+export async function getRecoveryPlan(
+  sport: string,
+  position: string,
+  bodyParts: PromptVariables<typeof prompts.recoveryPlan>["bodyParts"]
+): Promise<VersionedText> {
+  const prompt = renderPrompt(prompts.recoveryPlan, { sport, position, bodyParts });
+  const text = await generateText(withUnitInstruction(prompt.text), {
+    feature: prompt.version.name,
+    cacheInputs: unitScoped({ prompt: prompt.version, sport, position, bodyParts }),
+  });
+  return { text, promptVersion: prompt.version };
+}
+
+/**
+ * Generate training recommendations based on athlete's health metrics.
+ * @param sport - The sport the athlete plays.
+ * @param position - The position the athlete plays.
+ * @param healthMetrics - The athlete's health metrics.
+ * @param trainingGoal - The athlete's training goals.
+ * @param readiness - Today's readiness score and how each factor compares to the athlete's baseline.
+ */
+export async function getTrainingRecommendations(
+  sport: string,
+  position: string,
+  healthMetrics: PromptVariables<typeof prompts.trainingRecommendations>["healthMetrics"],
+  trainingGoal: string,
+  readiness?: ReadinessScore
+): Promise<Versioned<TrainingRecommendations>> {
+  const prompt = renderPrompt(prompts.trainingRecommendations, {
+    sport,
+    position,
+    goals: trainingGoal,
+    healthMetrics,
+    readiness,
+  });
+  const recommendations = await generateJson(withUnitInstruction(prompt.text), trainingRecommendationsSchema, {
+    feature: prompt.version.name,
+    // Live metrics drift every few seconds, so once readiness is known the day's score stands in for them
+    cacheInputs: unitScoped({
+      prompt: prompt.version,
+      sport,
+      position,
+      trainingGoal,
+      condition: readiness ? { date: readiness.date, score: readiness.score, flagged: readiness.flagged } : healthMetrics,
+    }),
+  });
+  return { ...recommendations, promptVersion: prompt.version };
+}
+
+// Plan changes the coach may propose; the athlete confirms each one before it is applied
+const coachTools: LlmTool[] = [
+  {
+    name: "updatePlanDay",
+    description: "Replace every session on one day of the athlete's training plan",
+    parameters: updatePlanDaySchema.json,
+  },
+  {
+    name: "swapPlanDays",
+    description: "Swap the sessions of two days of the athlete's training plan",
+    parameters: swapPlanDaysSchema.json,
+  },
+];
+
+const planToolSchemas: Record<string, Schema<PlanChange["args"]>> = {
+  updatePlanDay: updatePlanDaySchema,
+  swapPlanDays: swapPlanDaysSchema,
+};
+
+// Tool calls are model output like any other, so ones that don't match their schema are dropped
+const toPlanChange = ({ name, args }: LlmToolCall): PlanChange | null => {
+  const schema = planToolSchemas[name];
+  if (!schema) {
+    console.error(`Coach called unknown tool ${name}`);
+    return null;
+  }
+  const { value, issues } = validate(schema, args);
+  if (issues.length > 0) {
+    console.error(`Coach called ${name} with invalid arguments:`, issues);
+    return null;
+  }
+  return { tool: name, args: value } as PlanChange;
+};
+
+/**
+ * Answer an athlete's question in a coaching conversation, streaming the reply as it is written.
+ * @param variables - The athlete, the data sources the answer may cite and the conversation so far.
+ * @param onText - Called with the reply received so far.
+ * @returns The reply, which cites sources as [id], and any plan changes the coach proposed.
+ */
+export async function streamCoachReply(
+  variables: PromptVariables<typeof prompts.coach>,
+  onText: (textSoFar: string) => void
+): Promise<Versioned<{ text: string; planChanges: PlanChange[] }>> {
+  const prompt = renderPrompt(prompts.coach, variables);
+  const { text, toolCalls } = await streamText(withUnitInstruction(prompt.text), {
+    feature: prompt.version.name,
+    tools: coachTools,
+    onText,
+  });
+  const planChanges = toolCalls.map(toPlanChange).filter((change): change is PlanChange => change !== null);
+  return { text, planChanges, promptVersion: prompt.version };
+}
+
+/**
+ * Generate general insights for the athlete's sport and position.
+ * @param sport - The sport the athlete plays.
+ * @param position - The position the athlete plays.
+ */
+export async function getAthleteInsights(
+  sport: string,
+  position: string
+): Promise<Versioned<{ insights: AthleteInsight[] }>> {
+  const prompt = renderPrompt(prompts.athleteInsights, { sport, position });
+  const { insights } = await generateJson(withUnitInstruction(prompt.text), athleteInsightsSchema, {
+    feature: prompt.version.name,
+    cacheInputs: unitScoped({ prompt: prompt.version, sport, position }),
+  });
+  return { insights, promptVersion: prompt.version };
+}
+
+/**
+ * Generate a motivational quote. Answers vary on purpose, so it runs at a high temperature.
+ * @param sport - The sport the athlete plays.
+ */
+export async function getMotivationalQuote(sport: string): Promise<Versioned<MotivationalQuote>> {
+  const prompt = renderPrompt(prompts.motivationalQuote, { sport });
+  const quote = await generateJson(prompt.text, motivationalQuoteSchema, {
+    feature: prompt.version.name,
+    cacheInputs: { prompt: prompt.version, sport },
+    temperature: 1,
+  });
+  return { ...quote, promptVersion: prompt.version };
+}
+
+/**
+ * Generate an outline of a week of meals with calorie counts.
+ * @param sport - The sport the athlete plays.
+ */
+export async function getWeeklyMealOutline(sport: string): Promise<Versioned<{ plans: MealOutline[] }>> {
+  const prompt = renderPrompt(prompts.mealOutline, { sport });
+  const { plans } = await generateJson(withUnitInstruction(prompt.text), mealOutlineSchema, {
+    feature: prompt.version.name,
+    cacheInputs: unitScoped({ prompt: prompt.version, sport }),
+  });
+  return { plans, promptVersion: prompt.version };
+}
+
+/**
+ * Generate typical recovery metrics for the sport, each with a target.
+ * @param sport - The sport the athlete plays.
+ */
+export async function getRecoveryTargets(sport: string): Promise<Versioned<{ metrics: RecoveryTarget[] }>> {
+  const prompt = renderPrompt(prompts.recoveryTargets, { sport });
+  const { metrics } = await generateJson(withUnitInstruction(prompt.text), recoveryTargetsSchema, {
+    feature: prompt.version.name,
+    cacheInputs: unitScoped({ prompt: prompt.version, sport }),
+  });
+  return { metrics, promptVersion: prompt.version };
+}
+
+/**
+ * Generate weekly performance, recovery and nutrition scores for the last month.
+ * @param sport - The sport the athlete plays.
+ */
+export async function getGrowthTrend(sport: string): Promise<Versioned<{ growthData: GrowthTrendPoint[] }>> {
+  const prompt = renderPrompt(prompts.growthTrend, { sport });
+  const { growthData } = await generateJson(prompt.text, growthTrendSchema, {
+    feature: prompt.version.name,
+    cacheInputs: { prompt: prompt.version, sport },
+  });
+  return { growthData, promptVersion: prompt.version };
+}
+
+/**
+ * Get injury prevention tips for one body part.
+ * @param sport - The sport the athlete plays.
+ * @param position - The position the athlete plays.
+ * @param bodyPart - The body part the tips are for.
+ */
+export async function getInjuryPreventionTips(
+  sport: string,
+  position: string,
+  bodyPart: string
+): Promise<Versioned<{ tips: string[] }>> {
+  const prompt = renderPrompt(prompts.injuryPreventionTips, { sport, position, bodyPart });
+  const { tips } = await generateJson(withUnitInstruction(prompt.text), injuryPreventionTipsSchema, {
+    feature: prompt.version.name,
+    cacheInputs: unitScoped({ prompt: prompt.version, sport, position, bodyPart }),
+  });
+  return { tips, promptVersion: prompt.version };
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { mockProvider } from '../llm/mock';
+import { prompts, renderPrompt, type PromptVariables } from './prompts';
+import { validate, type Schema } from './schema';
+import {
+  athleteInsightsSchema,
+  growthTrendSchema,
+  injuryPreventionTipsSchema,
+  injuryRiskExplanationSchema,
+  mealOutlineSchema,
+  motivationalQuoteSchema,
+  nutritionPlanSchema,
+  performanceNarrativeSchema,
+  recoveryTargetsSchema,
+  trainingPlanSchema,
+  trainingRecommendationsSchema,
+} from './responses';
+
+// Golden renders of every version of every registered prompt. A changed snapshot means a
+// prompt was edited in place; add a version instead unless the change is deliberate.
+
+type PromptName = keyof typeof prompts;
+
+const athlete = { sport: 'Football', position: 'Midfielder', goals: 'Improve endurance' };
+
+// Typed per prompt, so registering a prompt without sample variables fails the type-check
+const variables: { [K in PromptName]: PromptVariables<(typeof prompts)[K]> } = {
+  performanceForecast: {
+    ...athlete,
+    forecasts: ['Sprint 30m: 4.1 s now, 4.0 s (3.9 to 4.1) expected in 4 weeks'],
+  },
+  injuryRisk: {
+    ...athlete,
+    bodyParts: ['Hamstring: 55 (high) from training load spike +25, soreness 6/10 +30'],
+  },
+  nutritionPlan: athlete,
+  trainingPlan: athlete,
+  nutritionSuggestions: {
+    ...athlete,
+    meals: [{ foodName: 'Oatmeal with banana', calories: 420, protein: 14, carbs: 72, fats: 9 }],
+  },
+  recoveryPlan: {
+    ...athlete,
+    bodyParts: [{ name: 'Hamstring', risk: 55, status: 'high' }],
+  },
+  trainingRecommendations: {
+    ...athlete,
+    healthMetrics: {
+      heartRate: 62,
+      fatigueLevel: 35,
+      recoveryScore: 70,
+      sleepQuality: 80,
+      hydrationLevel: 75,
+      stressLevel: 40,
+    },
+    readiness: {
+      date: 0,
+      score: 70,
+      fatigueLevel: 35,
+      flagged: true,
+      components: [
+        {
+          factor: 'hrv',
+          value: 48,
+          baseline: { mean: 62, standardDeviation: 6, days: 28 },
+          zScore: -2.3,
+          score: 20,
+          outOfRange: true,
+        },
+      ],
+    },
+  },
+  athleteInsights: athlete,
+  motivationalQuote: athlete,
+  mealOutline: athlete,
+  recoveryTargets: athlete,
+  growthTrend: athlete,
+  injuryPreventionTips: { ...athlete, bodyPart: 'Knee' },
+  coach: {
+    ...athlete,
+    name: 'Alex',
+    today: 'Monday 19 October 2026',
+    sources: [{ id: 'readiness', label: 'Readiness today', text: 'Score 70, HRV below baseline' }],
+    history: [{ role: 'athlete', text: 'How was my sleep?' }, { role: 'coach', text: 'Seven hours [readiness].' }],
+    question: 'Should I train hard today?',
+  },
+};
+
+// The schema each prompt's answer is validated with; null for prose answers
+const responseSchemas: Record<PromptName, Schema<unknown> | null> = {
+  performanceForecast: performanceNarrativeSchema,
+  injuryRisk: injuryRiskExplanationSchema,
+  nutritionPlan: nutritionPlanSchema,
+  trainingPlan: trainingPlanSchema,
+  nutritionSuggestions: null,
+  recoveryPlan: null,
+  trainingRecommendations: trainingRecommendationsSchema,
+  athleteInsights: athleteInsightsSchema,
+  motivationalQuote: motivationalQuoteSchema,
+  mealOutline: mealOutlineSchema,
+  recoveryTargets: recoveryTargetsSchema,
+  growthTrend: growthTrendSchema,
+  injuryPreventionTips: injuryPreventionTipsSchema,
+  coach: null,
+};
+
+describe.each(Object.keys(prompts) as PromptName[])('%s prompt', (name) => {
+  // Loosened so the templates can be iterated over; variables above are checked per prompt
+  const template = prompts[name] as unknown as {
+    name: string;
+    active: number;
+    versions: Record<number, (variables: unknown) => string>;
+  };
+
+  it('is registered under its own name with an existing active version', () => {
+    expect(template.name).toBe(name);
+    expect(template.versions[template.active]).toBeDefined();
+  });
+
+  it.each(Object.keys(template.versions).map(Number))('renders version %i', (version) => {
+    expect(template.versions[version](variables[name])).toMatchSnapshot();
+  });
+
+  // The mock provider ignores the prompt, so this checks the fixture or placeholder that stands in
+  // for the feature's answer offline, not the prompt; the renders above are the golden coverage
+  it('has a mock provider answer that matches its response schema', async () => {
+    const prompt = renderPrompt(template, variables[name]);
+    const schema = responseSchemas[name];
+    const response = await mockProvider.generate({
+      feature: prompt.version.name,
+      prompt: prompt.text,
+      responseSchema: schema?.json,
+    });
+
+    if (schema) {
+      expect(validate(schema, JSON.parse(response.text)).issues).toEqual([]);
+    } else {
+      expect(response.text.trim()).not.toBe('');
+    }
+  });
+});
@@ -0,0 +1,251 @@
+import type { CoachMessage, CoachSource, PromptVersion, ReadinessScore } from '../../types';
+
+// Named, versioned prompt templates. Change a prompt by adding a version rather than editing one,
+// then point `active` at it; every artifact records the version that produced it, so a change can
+// be compared against the previous one and rolled back.
+
+export interface PromptTemplate<V> {
+  name: string;
+  active: number;
+  versions: Record<number, (variables: V) => string>;
+}
+
+export type PromptVariables<T> = T extends PromptTemplate<infer V> ? V : never;
+
+const definePrompt = <V>(
+  name: string,
+  active: number,
+  versions: Record<number, (variables: V) => string>
+): PromptTemplate<V> => ({ name, active, versions });
+
+// VITE_PROMPT_VERSIONS pins versions per environment, e.g. "trainingPlan=2,nutritionPlan=1",
+// so a new version can be trialled in one deployment or rolled back without a code change
+const pinnedVersions: Record<string, number> = Object.fromEntries(
+  String(import.meta.env.VITE_PROMPT_VERSIONS ?? '')
+    .split(',')
+    .map((entry) => entry.split('=').map((part) => part.trim()))
+    .filter(([name, version]) => name && Number.isInteger(Number(version)))
+    .map(([name, version]) => [name, Number(version)])
+);
+
+export const renderPrompt = <V>(template: PromptTemplate<V>, variables: V): { text: string; version: PromptVersion } => {
+  const pinned = pinnedVersions[template.name];
+  if (pinned !== undefined && !template.versions[pinned]) {
+    console.error(`Prompt ${template.name} has no version ${pinned}, using ${template.active}`);
+  }
+  const version = pinned !== undefined && template.versions[pinned] ? pinned : template.active;
+  return { text: template.versions[version](variables), version: { name: template.name, version } };
+};
+
+interface AthleteProfile {
+  sport: string;
+  position: string;
+  goals: string;
+}
+
+export const prompts = {
+  performanceForecast: definePrompt<Omit<AthleteProfile, 'goals'> & { forecasts: string[] }>('performanceForecast', 1, {
+    1: ({ sport, position, forecasts }) => `
+    As a sports performance analyst, explain these forecasts to a ${sport} athlete who plays ${position}.
+    They were calculated from the athlete's logged test results and training load:
+
+    ${forecasts.join('\n    ')}
+
+    Use only these numbers; do not add predictions, percentages or tests of your own.
+    Mention the uncertainty where a range is wide, and keep the tone encouraging but honest.
+  `,
+  }),
+
+  injuryRisk: definePrompt<Omit<AthleteProfile, 'goals'> & { bodyParts: string[] }>('injuryRisk', 1, {
+    1: ({ sport, position, bodyParts }) => `
+    As a sports physiotherapist, explain this injury risk assessment to a ${sport} athlete who plays ${position}.
+    Each body part's risk is the sum of the listed factors, calculated from their training load, sleep,
+    soreness reports and injury history:
+
+    ${bodyParts.join('\n    ')}
+
+    Explain the highest-risk areas from their factors only; do not change the scores or add factors of your own.
+    Suggest up to three exercises for each of those areas. Never diagnose an injury.
+  `,
+  }),
+
+  nutritionPlan: definePrompt<AthleteProfile>('nutritionPlan', 1, {
+    1: ({ sport, position, goals }) => `
+    Create a detailed 7-day nutrition plan for a ${sport} athlete who plays ${position}.
+    Their primary training goal is: ${goals}
+    For every day list each meal with its food items, calories and macronutrients in grams.
+  `,
+  }),
+
+  trainingPlan: definePrompt<AthleteProfile>('trainingPlan', 1, {
+    1: ({ sport, position, goals }) => `
+    Create a detailed 7-day training plan for a ${sport} athlete who plays ${position}.
+    Their primary training goal is: ${goals}
+    For every day list the sessions with their focus, duration, intensity and exercises with sets and reps.
+  `,
+  }),
+
+  nutritionSuggestions: definePrompt<
+    AthleteProfile & { meals: { foodName: string; calories: number; protein: number; carbs: number; fats: number }[] }
+  >('nutritionSuggestions', 1, {
+    1: ({ sport, position, goals, meals }) => {
+      // Calculate total macros for the day
+      const totalCalories = meals.reduce((sum, meal) => sum + meal.calories, 0);
+      const totalProtein = meals.reduce((sum, meal) => sum + meal.protein, 0);
+      const totalCarbs = meals.reduce((sum, meal) => sum + meal.carbs, 0);
+      const totalFats = meals.reduce((sum, meal) => sum + meal.fats, 0);
+
+      return `
+    As a sports nutrition expert, provide personalized nutrition advice for a ${sport} athlete playing ${position} position.
+    Their training goal is: ${goals}
+
+    Today's nutrition summary:
+    - Total Calories: ${totalCalories} kcal
+    - Protein: ${totalProtein}g
+    - Carbs: ${totalCarbs}g
+    - Fats: ${totalFats}g
+
+    Recent meals:
+    ${meals.map(meal => `- ${meal.foodName} (${meal.calories} kcal, P:${meal.protein}g, C:${meal.carbs}g, F:${meal.fats}g)`).join('\n')}
+
+    Please provide:
+    1. Analysis of current nutrition intake
+    2. Specific recommendations for improvement
+    3. Meal timing suggestions for optimal performance
+    4. Pre/post training nutrition tips
+    5. Hydration recommendations
+
+    Format the response in clear sections with bullet points.
+  `;
+    },
+  }),
+
+  recoveryPlan: definePrompt<Omit<AthleteProfile, 'goals'> & { bodyParts: { name: string; risk: number; status: string }[] }>(
+    'recoveryPlan',
+    1,
+    {
+      1: ({ sport, position, bodyParts }) => `
+    Create a personalized recovery plan for a ${sport} athlete playing ${position} position.
+
+    Current Body Part Status:
+    ${JSON.stringify(bodyParts, null, 2)}
+
+    Include:
+    1. Specific recovery exercises and stretches
+    2. Rest and activity recommendations
+    3. Nutrition tips for recovery
+    4. Timeline for returning to full activity
+    5. Warning signs to watch for
+
+    Format the response as a clear, structured plan with bullet points and sections.
+  `,
+    }
+  ),
+
+  trainingRecommendations: definePrompt<
+    AthleteProfile & {
+      healthMetrics: {
+        heartRate: number;
+        fatigueLevel: number | null;
+        recoveryScore: number | null;
+        sleepQuality: number;
+        hydrationLevel: number;
+        stressLevel: number;
+      };
+      readiness?: ReadinessScore;
+    }
+  >('trainingRecommendations', 1, {
+    1: ({ sport, position, goals, healthMetrics, readiness }) => {
+      const readinessFactors = readiness?.components
+        .map((component) =>
+          `- ${component.factor}: ${component.value}` +
+          (component.baseline ? ` (personal baseline ${component.baseline.mean} ± ${component.baseline.standardDeviation})` : '') +
+          (component.outOfRange ? ' OUTSIDE NORMAL RANGE' : '')
+        )
+        .join('\n');
+
+      return `
+    As an AI sports performance expert, analyze the following health metrics for a ${sport} athlete playing ${position} position
+    with a training goal of ${goals}.
+
+    Current Health Metrics:
+    - Heart Rate: ${healthMetrics.heartRate} BPM
+    - Fatigue Level: ${healthMetrics.fatigueLevel ?? 'unknown'}%
+    - Recovery Score: ${healthMetrics.recoveryScore ?? 'unknown'}%
+    - Sleep Quality: ${healthMetrics.sleepQuality}%
+    - Hydration Level: ${healthMetrics.hydrationLevel}%
+    - Stress Level: ${healthMetrics.stressLevel}%
+    ${readinessFactors ? `
+    Readiness factors compared to the athlete's own 28-day baseline:
+    ${readinessFactors}
+    ` : ''}
+    Ensure all numbers in trainingDistribution add up to 100 and represent percentages.
+    Base the recommendations on the current health metrics and training goals.
+  `;
+    },
+  }),
+
+  athleteInsights: definePrompt<Omit<AthleteProfile, 'goals'>>('athleteInsights', 1, {
+    1: ({ sport, position }) => `
+    Generate personalized insights for a ${sport} athlete playing ${position} position.
+    Include performance analysis, training recommendations, recovery suggestions and nutrition tips.
+  `,
+  }),
+
+  motivationalQuote: definePrompt<Pick<AthleteProfile, 'sport'>>('motivationalQuote', 1, {
+    1: ({ sport }) => `Generate an inspiring sports quote relevant for a ${sport} athlete.`,
+  }),
+
+  mealOutline: definePrompt<Pick<AthleteProfile, 'sport'>>('mealOutline', 1, {
+    1: ({ sport }) => `Generate a 7-day nutrition plan for a ${sport} athlete. Include meals and calorie counts.`,
+  }),
+
+  recoveryTargets: definePrompt<Pick<AthleteProfile, 'sport'>>('recoveryTargets', 1, {
+    1: ({ sport }) => `
+    Generate recovery metrics for a ${sport} athlete. Include sleep quality, heart rate variability, and recovery scores,
+    each with a typical current value and a target.
+  `,
+  }),
+
+  growthTrend: definePrompt<Pick<AthleteProfile, 'sport'>>('growthTrend', 1, {
+    1: ({ sport }) => `
+    Generate overall growth data for a ${sport} athlete over the last month.
+    Include performance, recovery, and nutrition scores from 0 to 100 for each week.
+  `,
+  }),
+
+  injuryPreventionTips: definePrompt<Omit<AthleteProfile, 'goals'> & { bodyPart: string }>('injuryPreventionTips', 1, {
+    1: ({ sport, position, bodyPart }) =>
+      `Provide 4-5 concise injury prevention tips for the ${bodyPart} in ${sport} for a ${position}.`,
+  }),
+
+  coach: definePrompt<
+    Omit<AthleteProfile, 'goals'> & {
+      name: string;
+      today: string;
+      sources: CoachSource[];
+      history: Pick<CoachMessage, 'role' | 'text'>[];
+      question: string;
+    }
+  >('coach', 1, {
+    1: ({ name, sport, position, today, sources, history, question }) => `
+    You are the personal coach of ${name}, a ${sport} athlete who plays ${position}. Today is ${today}.
+    Answer their question using only the athlete data below. Each source starts with its id in square brackets.
+
+    ${sources.map((source) => `[${source.id}] ${source.label}\n${source.text}`).join('\n\n    ')}
+
+    Rules:
+    - After every statement that relies on a source, cite it with its id in square brackets, e.g. [readiness].
+    - If the data doesn't cover the question, say so rather than guessing.
+    - Never diagnose injuries or medical conditions; suggest seeing a physiotherapist or doctor for pain that persists.
+    - To change the training plan, call updatePlanDay or swapPlanDays and explain the change in your answer.
+      The athlete confirms each change before it is applied, so describe it as a suggestion.
+    - Keep answers under 200 words.
+    ${history.length ? `
+    Conversation so far:
+    ${history.map((message) => `${message.role === 'athlete' ? 'Athlete' : 'Coach'}: ${message.text}`).join('\n    ')}
+    ` : ''}
+    Athlete: ${question}
+  `,
+  }),
+};
@@ -0,0 +1,199 @@
+import type { PromptVersion } from '../../types';
+import { s, type Infer, type Schema } from './schema';
+
+// Response shapes for each Gemini feature. The TypeScript types are inferred from the
+// schemas, so what the model is asked for is exactly what callers receive.
+
+const priority = s.oneOf(['high', 'medium', 'low'] as const);
+const percentage = (description?: string) => s.number(description, { min: 0, max: 100 });
+
+export const performanceNarrativeSchema = s.object({
+  summary: s.string('Two or three sentences on where the athlete is heading'),
+  highlights: s.array(s.string(), { min: 1, max: 4 }),
+});
+
+export const nutritionPlanSchema = s.object({
+  days: s.array(
+    s.object({
+      day: s.string('Day of the week'),
+      meals: s.array(
+        s.object({
+          mealType: s.string('Breakfast, lunch, dinner or snack'),
+          foodItems: s.string(),
+          calories: s.number('kcal', { min: 0 }),
+          macronutrients: s.object({
+            protein: s.number('grams', { min: 0 }),
+            carbs: s.number('grams', { min: 0 }),
+            fats: s.number('grams', { min: 0 }),
+          }),
+        }),
+        { min: 1 }
+      ),
+    }),
+    { min: 1, max: 7 }
+  ),
+});
+
+const trainingSession = s.object({
+  focus: s.string(),
+  exercises: s.array(
+    s.object({
+      name: s.string(),
+      sets: s.number(undefined, { integer: true, min: 0 }),
+      reps: s.number(undefined, { integer: true, min: 0 }),
+      notes: s.optional(s.string()),
+    })
+  ),
+  duration: s.string('e.g. "60 minutes"'),
+  intensity: s.string('Low, moderate or high'),
+});
+
+export const trainingPlanSchema = s.object({
+  days: s.array(
+    s.object({
+      day: s.string('Day of the week'),
+      sessions: s.array(trainingSession),
+    }),
+    { min: 1, max: 7 }
+  ),
+});
+
+export const injuryRiskExplanationSchema = s.object({
+  summary: s.string('Two or three sentences on what is driving the risk'),
+  bodyParts: s.array(
+    s.object({
+      name: s.string('Body part, as named in the assessment'),
+      explanation: s.string('Why this area is at risk, from its listed factors'),
+      exercises: s.array(s.string(), { max: 3 }),
+    }),
+    { max: 3 }
+  ),
+});
+
+export const trainingRecommendationsSchema = s.object({
+  healthStatus: s.object({
+    overall: s.string('Brief overall assessment'),
+    concerns: s.array(s.string()),
+    positives: s.array(s.string()),
+  }),
+  trainingRecommendations: s.object({
+    intensity: s.string('Recommended training intensity'),
+    focusAreas: s.array(s.string()),
+    modifications: s.array(s.string()),
+  }),
+  recoveryStrategies: s.array(s.string()),
+  warningSignals: s.array(s.string()),
+  improvementTips: s.array(s.string()),
+  trainingDistribution: s.object(
+    {
+      strength: percentage(),
+      cardio: percentage(),
+      flexibility: percentage(),
+      recovery: percentage(),
+      skillWork: percentage(),
+    },
+    'Percentages adding up to 100'
+  ),
+});
+
+export const athleteInsightsSchema = s.object({
+  insights: s.array(
+    s.object({
+      type: s.oneOf(['performance', 'training', 'nutrition', 'recovery'] as const),
+      title: s.string(),
+      description: s.string(),
+      recommendation: s.string(),
+      priority,
+    }),
+    { min: 1 }
+  ),
+});
+
+export const motivationalQuoteSchema = s.object({
+  text: s.string(),
+  author: s.string('Who said it, or "Anonymous"'),
+});
+
+export const mealOutlineSchema = s.object({
+  plans: s.array(
+    s.object({
+      day: s.string(),
+      meals: s.array(s.string()),
+      calories: s.number('kcal', { min: 0 }),
+    }),
+    { min: 1, max: 7 }
+  ),
+});
+
+export const recoveryTargetsSchema = s.object({
+  metrics: s.array(
+    s.object({
+      type: s.string(),
+      value: s.number(),
+      target: s.number(),
+    }),
+    { min: 1 }
+  ),
+});
+
+export const growthTrendSchema = s.object({
+  growthData: s.array(
+    s.object({
+      date: s.string(),
+      performance: percentage(),
+      recovery: percentage(),
+      nutrition: percentage(),
+    }),
+    { min: 1 }
+  ),
+});
+
+export const injuryPreventionTipsSchema = s.object({
+  tips: s.array(s.string('One concise tip, without bullet characters'), { min: 1, max: 5 }),
+});
+
+// Arguments of the coach's plan tools
+export const updatePlanDaySchema = s.object({
+  day: s.string('Day of the week to replace, as named in the plan'),
+  sessions: s.array(trainingSession),
+  reason: s.string('One sentence the athlete sees when confirming the change'),
+});
+
+export const swapPlanDaysSchema = s.object({
+  firstDay: s.string('Day of the week, as named in the plan'),
+  secondDay: s.string('Day of the week, as named in the plan'),
+  reason: s.string('One sentence the athlete sees when confirming the change'),
+});
+
+// Features whose answers are shared between athletes. api/ai/cache checks every shared answer
+// against its schema before storing it, so teammates are never served a malformed one.
+export const sharedResponseSchemas: Record<string, Schema<unknown>> = {
+  nutritionPlan: nutritionPlanSchema,
+  trainingPlan: trainingPlanSchema,
+  athleteInsights: athleteInsightsSchema,
+  motivationalQuote: motivationalQuoteSchema,
+  mealOutline: mealOutlineSchema,
+  recoveryTargets: recoveryTargetsSchema,
+  growthTrend: growthTrendSchema,
+  injuryPreventionTips: injuryPreventionTipsSchema,
+};
+
+export type PerformanceNarrative = Infer<typeof performanceNarrativeSchema>;
+export type NutritionPlan = Infer<typeof nutritionPlanSchema>;
+export type NutritionPlanDay = NutritionPlan['days'][number];
+export type TrainingPlan = Infer<typeof trainingPlanSchema>;
+export type TrainingPlanDay = TrainingPlan['days'][number];
+export type UpdatePlanDay = Infer<typeof updatePlanDaySchema>;
+export type SwapPlanDays = Infer<typeof swapPlanDaysSchema>;
+export type PlanChange = { tool: 'updatePlanDay'; args: UpdatePlanDay } | { tool: 'swapPlanDays'; args: SwapPlanDays };
+export type InjuryRiskExplanation = Infer<typeof injuryRiskExplanationSchema>;
+export type TrainingRecommendations = Infer<typeof trainingRecommendationsSchema>;
+export type AthleteInsight = Infer<typeof athleteInsightsSchema>['insights'][number];
+export type MotivationalQuote = Infer<typeof motivationalQuoteSchema>;
+export type MealOutline = Infer<typeof mealOutlineSchema>['plans'][number];
+export type RecoveryTarget = Infer<typeof recoveryTargetsSchema>['metrics'][number];
+export type GrowthTrendPoint = Infer<typeof growthTrendSchema>['growthData'][number];
+
+// Generated artifacts carry the prompt version that produced them
+export type Versioned<T> = T & { promptVersion: PromptVersion };
+export type VersionedText = Versioned<{ text: string }>;
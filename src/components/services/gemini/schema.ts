@@ -0,0 +1,130 @@
+import type { LlmResponseSchema } from '../../types';
+
+// Response schemas double as the structured output schema sent to the model and the runtime
+// validator for what comes back, so the two can't drift apart.
+
+export interface Schema<T> {
+  json: LlmResponseSchema;
+  // Returns the value with small repairs applied, recording anything it can't fix in issues
+  check: (value: unknown, path: string, issues: string[]) => T;
+  optional?: boolean;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const describe = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+const string = (description?: string): Schema<string> => ({
+  json: { type: 'string', description },
+  check: (value, path, issues) => {
+    if (typeof value === 'string') return value;
+    // Models sometimes answer a text field with a bare number
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    issues.push(`${path} should be a string, got ${describe(value)}`);
+    return '';
+  },
+});
+
+const number = (
+  description?: string,
+  { integer = false, min, max }: { integer?: boolean; min?: number; max?: number } = {}
+): Schema<number> => ({
+  json: integer ? { type: 'integer', description } : { type: 'number', description },
+  check: (value, path, issues) => {
+    // "85", "85%" and "+8" are all read as numbers
+    const parsed = typeof value === 'string' ? Number.parseFloat(value.replace(/[+%\s,]/g, '')) : value;
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      issues.push(`${path} should be a number, got ${describe(value)}`);
+      return 0;
+    }
+    if (min !== undefined && parsed < min) issues.push(`${path} should be at least ${min}, got ${parsed}`);
+    if (max !== undefined && parsed > max) issues.push(`${path} should be at most ${max}, got ${parsed}`);
+    return integer ? Math.round(parsed) : parsed;
+  },
+});
+
+const boolean = (description?: string): Schema<boolean> => ({
+  json: { type: 'boolean', description },
+  check: (value, path, issues) => {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    issues.push(`${path} should be a boolean, got ${describe(value)}`);
+    return false;
+  },
+});
+
+const oneOf = <T extends string>(values: readonly T[], description?: string): Schema<T> => ({
+  json: { type: 'string', enum: [...values], description },
+  check: (value, path, issues) => {
+    // Matched case-insensitively, so "High" is accepted for "high"
+    const match = typeof value === 'string' && values.find((candidate) => candidate.toLowerCase() === value.trim().toLowerCase());
+    if (match) return match;
+    issues.push(`${path} should be one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+    return values[0];
+  },
+});
+
+const array = <T>(items: Schema<T>, { min, max }: { min?: number; max?: number } = {}): Schema<T[]> => ({
+  json: { type: 'array', items: items.json, minItems: min, maxItems: max },
+  check: (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path} should be an array, got ${describe(value)}`);
+      return [];
+    }
+    if (min !== undefined && value.length < min) issues.push(`${path} should have at least ${min} items, got ${value.length}`);
+    // Extra items are dropped rather than rejected
+    return value.slice(0, max).map((item, index) => items.check(item, `${path}[${index}]`, issues));
+  },
+});
+
+type ObjectShape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends ObjectShape> = {
+  [K in keyof S]: S[K] extends { optional: true } ? K : never;
+}[keyof S];
+
+type ObjectType<S extends ObjectShape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+const object = <S extends ObjectShape>(shape: S, description?: string): Schema<ObjectType<S>> => ({
+  json: {
+    type: 'object',
+    description,
+    properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.json])),
+    required: Object.keys(shape).filter((key) => !shape[key].optional),
+  },
+  check: (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push(`${path} should be an object, got ${describe(value)}`);
+      return {} as ObjectType<S>;
+    }
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    Object.entries(shape).forEach(([key, schema]) => {
+      if (record[key] === undefined || record[key] === null) {
+        if (!schema.optional) issues.push(`${path}.${key} is missing`);
+        return;
+      }
+      result[key] = schema.check(record[key], `${path}.${key}`, issues);
+    });
+    return result as ObjectType<S>;
+  },
+});
+
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> & { optional: true } => ({
+  ...schema,
+  json: { ...schema.json, nullable: true },
+  optional: true,
+});
+
+export const s = { string, number, boolean, oneOf, array, object, optional };
+
+// Validates a parsed response, returning the repaired value or every problem found
+export const validate = <T>(schema: Schema<T>, value: unknown): { value: T; issues: string[] } => {
+  const issues: string[] = [];
+  const checked = schema.check(value, '$', issues);
+  return { value: checked, issues };
+};
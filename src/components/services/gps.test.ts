@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createGpsFilter } from './gps';
+import type { GeoFix } from '../types';
+
+const start = new Date(2026, 0, 1, 8).getTime();
+// Roughly 11 meters of latitude
+const STEP = 0.0001;
+
+const fix = (seconds: number, north: number, accuracy = 5, extra: Partial<GeoFix> = {}): GeoFix => ({
+  timestamp: start + seconds * 1000,
+  latitude: 51.5 + north * STEP,
+  longitude: -0.12,
+  accuracy,
+  ...extra,
+});
+
+describe('createGpsFilter', () => {
+  it('drops fixes less accurate than 25 meters', () => {
+    const filter = createGpsFilter();
+    expect(filter(fix(0, 0, 40))).toBeNull();
+    expect(filter(fix(1, 0, 10))).not.toBeNull();
+  });
+
+  it('starts from the first usable fix unchanged', () => {
+    const filter = createGpsFilter();
+    expect(filter(fix(0, 0))).toEqual(fix(0, 0));
+  });
+
+  it('ignores fixes that are not newer than the last one', () => {
+    const filter = createGpsFilter();
+    filter(fix(10, 0));
+    expect(filter(fix(10, 1))).toBeNull();
+    expect(filter(fix(5, 1))).toBeNull();
+  });
+
+  it('smooths a fix towards the previous position, trusting accurate fixes more', () => {
+    const loose = createGpsFilter();
+    const tight = createGpsFilter();
+    loose(fix(0, 0, 5));
+    tight(fix(0, 0, 5));
+
+    const target = fix(5, 1).latitude;
+    const looseFix = loose(fix(5, 1, 20))!;
+    const tightFix = tight(fix(5, 1, 2))!;
+
+    expect(looseFix.latitude).toBeGreaterThan(51.5);
+    expect(looseFix.latitude).toBeLessThan(target);
+    expect(target - tightFix.latitude).toBeLessThan(target - looseFix.latitude);
+  });
+
+  it('rejects jumps faster than 25 m/s', () => {
+    const filter = createGpsFilter();
+    filter(fix(0, 0));
+    // About 110 meters in one second
+    expect(filter(fix(1, 10))).toBeNull();
+    expect(filter(fix(2, 0.1))).not.toBeNull();
+  });
+
+  it('starts again from the new position after five rejected jumps in a row', () => {
+    const filter = createGpsFilter();
+    filter(fix(0, 0));
+    for (let second = 1; second < 5; second++) {
+      expect(filter(fix(second, 100))).toBeNull();
+    }
+    expect(filter(fix(5, 100))).toEqual(fix(5, 100));
+  });
+
+  it('derives speed from the smoothed track when the fix has none', () => {
+    const filter = createGpsFilter();
+    filter(fix(0, 0));
+    const moving = filter(fix(5, 1))!;
+    expect(moving.speed).toBeGreaterThan(0);
+    expect(moving.speed).toBeLessThan(25);
+
+    expect(filter(fix(10, 2, 5, { speed: 2.5 }))!.speed).toBe(2.5);
+  });
+
+  it('smooths altitude more heavily than position', () => {
+    const filter = createGpsFilter();
+    filter(fix(0, 0, 5, { altitude: 100 }));
+    expect(filter(fix(5, 0, 5, { altitude: 110 }))!.altitude).toBe(102);
+    expect(filter(fix(10, 0))!.altitude).toBe(102);
+  });
+});
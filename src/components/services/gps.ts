@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { create } from 'zustand';
+import { haversineDistance } from './workoutFiles/summary';
+import { fetchSessions } from './trainingLoad';
+import type { GeoFix, WorkoutSession } from '../types';
+
+// Route capture from the browser's Geolocation API for athletes training without a watch.
+// Raw fixes are noisy: poor-accuracy fixes are dropped, impossible jumps rejected, and the
+// rest smoothed with a simple Kalman filter whose measurement noise is each fix's own
+// reported accuracy.
+
+export type GpsStatus = 'off' | 'acquiring' | 'tracking' | 'denied' | 'unavailable';
+
+// Fixes less accurate than this are worse than no fix at all
+const MAX_ACCURACY = 25; // meters
+// Nobody on foot or on a bike moves faster; anything quicker is a multipath jump
+const MAX_SPEED = 25; // m/s
+// How fast the true position is expected to wander between fixes
+const PROCESS_NOISE = 3; // m/s
+// After this many rejected jumps in a row the filter was wrong, not the fixes
+const MAX_REJECTED = 5;
+// Smoothing factor for altitude, which is far noisier than the horizontal position
+const ALTITUDE_SMOOTHING = 0.2;
+// Distance only grows once the position has moved this far, so standing still adds nothing
+const MIN_MOVEMENT = 3; // meters
+const DAY = 24 * 60 * 60 * 1000;
+
+export const useGpsStore = create<{ status: GpsStatus; accuracy: number | null }>()(() => ({
+  status: 'off',
+  accuracy: null,
+}));
+
+export const createGpsFilter = () => {
+  let state: GeoFix | null = null;
+  let variance = 0; // m²
+  let rejected = 0;
+
+  const reset = (fix: GeoFix) => {
+    state = { ...fix };
+    variance = fix.accuracy ** 2;
+    rejected = 0;
+    return state;
+  };
+
+  return (fix: GeoFix): GeoFix | null => {
+    if (fix.accuracy > MAX_ACCURACY) return null;
+    if (!state) return reset(fix);
+
+    const seconds = (fix.timestamp - state.timestamp) / 1000;
+    if (seconds <= 0) return null;
+
+    const jump = haversineDistance(state, fix);
+    if (jump / seconds > MAX_SPEED) {
+      return ++rejected >= MAX_REJECTED ? reset(fix) : null;
+    }
+    rejected = 0;
+
+    variance += seconds * PROCESS_NOISE ** 2;
+    const gain = variance / (variance + fix.accuracy ** 2);
+    variance *= 1 - gain;
+
+    const previous = state;
+    const altitude = fix.altitude === undefined
+      ? previous.altitude
+      : previous.altitude === undefined
+        ? fix.altitude
+        : previous.altitude + ALTITUDE_SMOOTHING * (fix.altitude - previous.altitude);
+
+    state = {
+      timestamp: fix.timestamp,
+      latitude: previous.latitude + gain * (fix.latitude - previous.latitude),
+      longitude: previous.longitude + gain * (fix.longitude - previous.longitude),
+      altitude,
+      accuracy: Math.sqrt(variance),
+      speed: fix.speed,
+    };
+    // Without a reported speed, derive it from the smoothed track
+    state.speed ??= haversineDistance(previous, state) / seconds;
+    return state;
+  };
+};
+
+// Module level so tracking survives navigating between dashboard sections
+let watchId: number | null = null;
+let filter = createGpsFilter();
+let latestFix: GeoFix | null = null;
+let anchor: GeoFix | null = null;
+let trackDistance = 0;
+
+const toFix = (position: GeolocationPosition): GeoFix => ({
+  timestamp: position.timestamp,
+  latitude: position.coords.latitude,
+  longitude: position.coords.longitude,
+  altitude: position.coords.altitude ?? undefined,
+  accuracy: position.coords.accuracy,
+  speed: position.coords.speed ?? undefined,
+});
+
+const handlePosition = (position: GeolocationPosition) => {
+  const fix = filter(toFix(position));
+  if (!fix) return;
+
+  latestFix = fix;
+  if (!anchor) {
+    anchor = fix;
+  } else {
+    const moved = haversineDistance(anchor, fix);
+    if (moved >= MIN_MOVEMENT) {
+      trackDistance += moved;
+      anchor = fix;
+    }
+  }
+  useGpsStore.setState({ status: 'tracking', accuracy: Math.round(fix.accuracy) });
+};
+
+const handleError = (error: GeolocationPositionError) => {
+  console.error('Geolocation error:', error.message);
+  if (error.code === error.PERMISSION_DENIED) {
+    stopGpsTracking();
+    useGpsStore.setState({ status: 'denied' });
+  } else if (useGpsStore.getState().status !== 'tracking') {
+    useGpsStore.setState({ status: 'unavailable' });
+  }
+};
+
+export const startGpsTracking = () => {
+  if (watchId !== null) return;
+  if (!('geolocation' in navigator)) {
+    useGpsStore.setState({ status: 'unavailable' });
+    return;
+  }
+
+  filter = createGpsFilter();
+  latestFix = null;
+  anchor = null;
+  trackDistance = 0;
+  useGpsStore.setState({ status: 'acquiring', accuracy: null });
+  watchId = navigator.geolocation.watchPosition(handlePosition, handleError, {
+    enableHighAccuracy: true,
+    maximumAge: 0,
+    timeout: 15000,
+  });
+};
+
+export const stopGpsTracking = () => {
+  if (watchId !== null) {
+    navigator.geolocation.clearWatch(watchId);
+    watchId = null;
+  }
+  useGpsStore.setState({ status: 'off', accuracy: null });
+};
+
+// The newest smoothed fix and the distance covered since tracking started
+export const getGpsTrack = () => ({ fix: latestFix, distance: trackDistance });
+
+// Sessions with a route to draw, newest first
+export const fetchRouteSessions = async (userId: string, days = 90, now: number = Date.now()) => {
+  const sessions = await fetchSessions(userId, now - days * DAY);
+  return sessions
+    .filter((session) => session.route?.length > 1)
+    .sort((a, b) => b.startTime - a.startTime);
+};
+
+// React hook for the route map
+export const useRouteSessions = (userId: string | undefined, days = 90) => {
+  const [routeSessions, setRouteSessions] = useState<WorkoutSession[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    fetchRouteSessions(userId, days)
+      .then((sessions) => {
+        if (!cancelled) setRouteSessions(sessions);
+      })
+      .catch((error) => console.error('Error fetching route sessions:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, days]);
+
+  return { routeSessions, loading };
+};
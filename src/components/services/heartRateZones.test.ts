@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildHeartRateProfile,
+  estimateLactateThreshold,
+  karvonenZones,
+  lactateThresholdZones,
+  percentMaxZones,
+  resolveTargetHeartRate,
+  sessionPeakHeartRate,
+  sessionTimeInZones,
+  zoneForHeartRate,
+} from './heartRateZones';
+import type { WorkoutSession } from '../types';
+
+const MINUTE = 60 * 1000;
+const start = Date.UTC(2026, 9, 19, 7, 0, 0);
+
+const bounds = (zones: { min: number; max: number }[]) => [...zones.map((zone) => zone.min), zones[zones.length - 1].max];
+
+// One session with per-minute heart rate; null leaves a gap in the recording
+const session = (minutes: ({ average: number; max?: number } | null)[]): WorkoutSession =>
+  ({
+    id: `workout-${start / 1000}`,
+    sport: 'running',
+    startTime: start,
+    duration: minutes.length * 60,
+    minutes: minutes.flatMap((minute, index) =>
+      minute
+        ? [
+            {
+              bucketStart: start + index * MINUTE,
+              metrics: {
+                heartRate: {
+                  min: minute.average,
+                  max: minute.max ?? minute.average,
+                  sum: minute.average * 60,
+                  count: 60,
+                  last: minute.average,
+                },
+              },
+            },
+          ]
+        : []
+    ),
+  }) as unknown as WorkoutSession;
+
+describe('zone models', () => {
+  it('spreads Karvonen zones over the heart rate reserve', () => {
+    // Resting 60, max 190: 50-100% of the 130 bpm reserve in steps of 10%
+    expect(bounds(karvonenZones(60, 190))).toEqual([125, 138, 151, 164, 177, 190]);
+  });
+
+  it('takes %HRmax zones as fractions of the maximum', () => {
+    expect(bounds(percentMaxZones(200))).toEqual([100, 120, 140, 160, 180, 200]);
+  });
+
+  it('places lactate threshold zones around LTHR, topped by the maximum', () => {
+    expect(bounds(lactateThresholdZones(170, 190))).toEqual([119, 145, 153, 162, 170, 190]);
+  });
+
+  it('names each zone', () => {
+    expect(karvonenZones(60, 190).map((zone) => zone.name)).toEqual([
+      'Recovery',
+      'Endurance',
+      'Tempo',
+      'Threshold',
+      'VO2 Max',
+    ]);
+  });
+});
+
+describe('zoneForHeartRate', () => {
+  const zones = karvonenZones(60, 190);
+
+  it('finds the zone whose range holds the heart rate', () => {
+    expect(zoneForHeartRate(125, zones)).toBe(1);
+    expect(zoneForHeartRate(150, zones)).toBe(2);
+    expect(zoneForHeartRate(164, zones)).toBe(4);
+  });
+
+  it('is null below zone 1 and zone 5 above the maximum', () => {
+    expect(zoneForHeartRate(100, zones)).toBeNull();
+    expect(zoneForHeartRate(200, zones)).toBe(5);
+  });
+
+  it('counts a minute in the zone of its average', () => {
+    const seconds = sessionTimeInZones(session([{ average: 130 }, { average: 130 }, { average: 170 }]), zones);
+    expect(seconds).toEqual([120, 0, 0, 60, 0]);
+  });
+});
+
+describe('buildHeartRateProfile', () => {
+  it("caps a minute's peak near its average so strap spikes can't set the maximum", () => {
+    expect(sessionPeakHeartRate(session([{ average: 150, max: 230 }]))).toBe(165);
+  });
+
+  it('uses a detected maximum close to the age estimate', () => {
+    const profile = buildHeartRateProfile({ age: 30 }, [session([{ average: 180, max: 185 }])]);
+    expect(profile).toMatchObject({ maxHeartRate: 185, maxHeartRateSource: 'detected', method: 'karvonen' });
+  });
+
+  it('keeps the age estimate when no hard effort was recorded', () => {
+    const profile = buildHeartRateProfile({ age: 30 }, [session([{ average: 140 }])]);
+    expect(profile).toMatchObject({ maxHeartRate: 190, maxHeartRateSource: 'age' });
+  });
+
+  it('prefers values the athlete entered', () => {
+    const profile = buildHeartRateProfile(
+      { age: 30, maxHeartRate: 200, lactateThresholdHeartRate: 175, heartRateZoneMethod: 'lactateThreshold' },
+      []
+    );
+    expect(profile).toMatchObject({ maxHeartRateSource: 'manual', lactateThresholdSource: 'manual' });
+    expect(profile.zones).toEqual(lactateThresholdZones(175, 200));
+  });
+
+  it('falls back to Karvonen without a threshold heart rate', () => {
+    const profile = buildHeartRateProfile({ age: 30, heartRateZoneMethod: 'lactateThreshold' }, []);
+    expect(profile.method).toBe('karvonen');
+    expect(profile.zones).toEqual(karvonenZones(60, 190));
+  });
+});
+
+describe('estimateLactateThreshold', () => {
+  it('takes the best 20 minute average', () => {
+    const minutes = [...Array(5).fill({ average: 140 }), ...Array(20).fill({ average: 165 })];
+    expect(estimateLactateThreshold([session(minutes)])).toBe(165);
+  });
+
+  it('ignores efforts with gaps in the recording', () => {
+    const minutes = [...Array(10).fill({ average: 165 }), null, ...Array(10).fill({ average: 165 })];
+    expect(estimateLactateThreshold([session(minutes)])).toBeUndefined();
+  });
+});
+
+describe('resolveTargetHeartRate', () => {
+  const profile = buildHeartRateProfile({ age: 30 }, []);
+
+  it('resolves zones and zone ranges to BPM', () => {
+    expect(resolveTargetHeartRate('Zone 2', profile)).toEqual({ min: 138, max: 151 });
+    expect(resolveTargetHeartRate('Z3-4', profile)).toEqual({ min: 151, max: 177 });
+  });
+
+  it('reads percentages as heart rate reserve under Karvonen', () => {
+    expect(resolveTargetHeartRate('70-80%', profile)).toEqual({ min: 151, max: 164 });
+  });
+
+  it('is null for targets it does not understand', () => {
+    expect(resolveTargetHeartRate('easy', profile)).toBeNull();
+  });
+});
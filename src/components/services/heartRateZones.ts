@@ -0,0 +1,279 @@
+import { useEffect, useState } from 'react';
+import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { isPlausibleHeartRate } from './signalQuality';
+import { fetchSessions } from './trainingLoad';
+import type {
+  HeartRateProfile,
+  HeartRateZone,
+  HeartRateZoneMethod,
+  MetricSummary,
+  WorkoutSession,
+} from '../types';
+
+// Personal heart rate zones. Zone boundaries come from the athlete's own resting heart rate,
+// a maximum heart rate detected from their recorded sessions (falling back to the age
+// formula) and, for the lactate threshold model, a threshold heart rate they entered or one
+// estimated from their best sustained effort.
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+// Sessions searched for a maximum heart rate and threshold effort
+const DETECTION_DAYS = 180;
+const DEFAULT_RESTING_HEART_RATE = 60;
+const DEFAULT_AGE = 30;
+// A detected maximum well below the age estimate usually means no all-out effort was recorded yet
+const MIN_DETECTED_FRACTION = 0.9;
+// A minute's peak this far above its own average is a spike, not a real maximum
+const PEAK_SPIKE_TOLERANCE = 15; // bpm
+// Friel's field test: the average heart rate over a hard 20 minute effort approximates LTHR
+const THRESHOLD_EFFORT_MINUTES = 20;
+
+export const ZONE_NAMES = ['Recovery', 'Endurance', 'Tempo', 'Threshold', 'VO2 Max'];
+
+export const ZONE_COLORS = ['#9ca3af', '#3b82f6', '#22c55e', '#eab308', '#ef4444'];
+
+export const ZONE_METHOD_LABELS: Record<HeartRateZoneMethod, string> = {
+  karvonen: 'Karvonen (heart rate reserve)',
+  percentMax: '% of max heart rate',
+  lactateThreshold: 'Lactate threshold',
+};
+
+// Lower bound of each zone, plus the top of zone 5
+const RESERVE_FRACTIONS = [0.5, 0.6, 0.7, 0.8, 0.9, 1];
+// Friel's zone 1 is open ended below 85% of LTHR; 70% keeps easy walking out of it
+const THRESHOLD_FRACTIONS = [0.7, 0.85, 0.9, 0.95, 1];
+
+interface AthleteHeartRateSettings {
+  age?: number;
+  restingHeartRate?: number;
+  heartRateZoneMethod?: HeartRateZoneMethod;
+  maxHeartRate?: number | null;
+  lactateThresholdHeartRate?: number | null;
+}
+
+export interface SessionZones {
+  sessionId: string;
+  sport: string;
+  startTime: number;
+  seconds: number[]; // time in each zone, index 0 is zone 1
+}
+
+export interface HeartRateZoneData {
+  profile: HeartRateProfile;
+  sessions: SessionZones[];
+}
+
+export const agePredictedMaxHeartRate = (age?: number) => 220 - (Number(age) || DEFAULT_AGE);
+
+const toZones = (bounds: number[]): HeartRateZone[] =>
+  ZONE_NAMES.map((name, index) => ({
+    zone: index + 1,
+    name,
+    min: Math.round(bounds[index]),
+    max: Math.round(bounds[index + 1]),
+  }));
+
+export const karvonenZones = (restingHeartRate: number, maxHeartRate: number) =>
+  toZones(RESERVE_FRACTIONS.map((fraction) => restingHeartRate + fraction * (maxHeartRate - restingHeartRate)));
+
+export const percentMaxZones = (maxHeartRate: number) =>
+  toZones(RESERVE_FRACTIONS.map((fraction) => fraction * maxHeartRate));
+
+export const lactateThresholdZones = (thresholdHeartRate: number, maxHeartRate: number) =>
+  toZones([...THRESHOLD_FRACTIONS.map((fraction) => fraction * thresholdHeartRate), Math.max(maxHeartRate, thresholdHeartRate + 1)]);
+
+// Highest believable heart rate in a session. Per-minute peaks are checked against that
+// minute's average so a single strap spike cannot set the athlete's maximum.
+export const sessionPeakHeartRate = (session: WorkoutSession) => {
+  const peaks = session.minutes
+    .map((bucket) => bucket.metrics.heartRate)
+    .filter((heartRate): heartRate is MetricSummary => heartRate !== undefined)
+    .map((heartRate) => Math.min(heartRate.max, heartRate.sum / heartRate.count + PEAK_SPIKE_TOLERANCE));
+
+  const peak = peaks.length ? Math.max(...peaks) : session.maxHeartRate;
+  return peak !== undefined && isPlausibleHeartRate(peak) ? Math.round(peak) : undefined;
+};
+
+export const detectMaxHeartRate = (sessions: WorkoutSession[]) => {
+  const peaks = sessions
+    .map(sessionPeakHeartRate)
+    .filter((peak): peak is number => peak !== undefined);
+  return peaks.length ? Math.max(...peaks) : undefined;
+};
+
+// Best rolling 20 minute average across sessions with per-minute heart rate
+export const estimateLactateThreshold = (sessions: WorkoutSession[]) => {
+  let best: number | undefined;
+
+  sessions.forEach((session) => {
+    const minutes = session.minutes;
+    for (let i = 0; i + THRESHOLD_EFFORT_MINUTES <= minutes.length; i++) {
+      const window = minutes.slice(i, i + THRESHOLD_EFFORT_MINUTES);
+      // Pauses or gaps in the recording would overstate a sustained effort
+      const span = window[window.length - 1].bucketStart - window[0].bucketStart;
+      if (span !== (THRESHOLD_EFFORT_MINUTES - 1) * MINUTE || window.some((bucket) => !bucket.metrics.heartRate)) continue;
+      const average = window.reduce((sum, bucket) => {
+        const heartRate = bucket.metrics.heartRate!;
+        return sum + heartRate.sum / heartRate.count;
+      }, 0) / window.length;
+      if (best === undefined || average > best) best = average;
+    }
+  });
+
+  return best === undefined ? undefined : Math.round(best);
+};
+
+export const buildHeartRateProfile = (
+  settings: AthleteHeartRateSettings,
+  sessions: WorkoutSession[]
+): HeartRateProfile => {
+  const restingHeartRate = Number(settings.restingHeartRate) || DEFAULT_RESTING_HEART_RATE;
+  const predicted = agePredictedMaxHeartRate(settings.age);
+  const detected = detectMaxHeartRate(sessions);
+
+  let maxHeartRate = predicted;
+  let maxHeartRateSource: HeartRateProfile['maxHeartRateSource'] = 'age';
+  if (settings.maxHeartRate) {
+    maxHeartRate = Number(settings.maxHeartRate);
+    maxHeartRateSource = 'manual';
+  } else if (detected !== undefined && detected >= predicted * MIN_DETECTED_FRACTION) {
+    maxHeartRate = detected;
+    maxHeartRateSource = 'detected';
+  }
+
+  let lactateThresholdHeartRate: number | null = null;
+  let lactateThresholdSource: HeartRateProfile['lactateThresholdSource'] = null;
+  if (settings.lactateThresholdHeartRate) {
+    lactateThresholdHeartRate = Number(settings.lactateThresholdHeartRate);
+    lactateThresholdSource = 'manual';
+  } else {
+    const estimated = estimateLactateThreshold(sessions);
+    if (estimated !== undefined) {
+      lactateThresholdHeartRate = estimated;
+      lactateThresholdSource = 'estimated';
+    }
+  }
+
+  // Without a threshold heart rate the lactate model falls back to Karvonen
+  const requested = settings.heartRateZoneMethod ?? 'karvonen';
+  const method = requested === 'lactateThreshold' && lactateThresholdHeartRate === null ? 'karvonen' : requested;
+  const zones = method === 'lactateThreshold'
+    ? lactateThresholdZones(lactateThresholdHeartRate!, maxHeartRate)
+    : method === 'percentMax'
+      ? percentMaxZones(maxHeartRate)
+      : karvonenZones(restingHeartRate, maxHeartRate);
+
+  return {
+    method,
+    restingHeartRate,
+    maxHeartRate,
+    maxHeartRateSource,
+    lactateThresholdHeartRate,
+    lactateThresholdSource,
+    zones,
+  };
+};
+
+// Zone number for a heart rate, or null when it is below zone 1
+export const zoneForHeartRate = (heartRate: number, zones: HeartRateZone[]) => {
+  if (!zones.length || heartRate < zones[0].min) return null;
+  const zone = zones.find((entry) => heartRate < entry.max) ?? zones[zones.length - 1];
+  return zone.zone;
+};
+
+// Seconds spent in each zone, from per-minute averages or else the session average
+export const sessionTimeInZones = (session: WorkoutSession, zones: HeartRateZone[]) => {
+  const seconds = zones.map(() => 0);
+  const minutes = session.minutes.filter((bucket) => bucket.metrics.heartRate);
+
+  if (minutes.length > 0) {
+    minutes.forEach((bucket) => {
+      const heartRate = bucket.metrics.heartRate!;
+      const zone = zoneForHeartRate(heartRate.sum / heartRate.count, zones);
+      if (zone !== null) seconds[zone - 1] += 60;
+    });
+  } else if (session.averageHeartRate) {
+    const zone = zoneForHeartRate(session.averageHeartRate, zones);
+    if (zone !== null) seconds[zone - 1] += session.duration;
+  }
+
+  return seconds;
+};
+
+// Resolve a plan target such as "Zone 2", "Z3-4" or "70-80%" to the athlete's own BPM range.
+// Percentages are of heart rate reserve under Karvonen and of maximum heart rate otherwise.
+export const resolveTargetHeartRate = (target: string, profile: HeartRateProfile) => {
+  const zoneMatch = target.match(/^\s*(?:zone|z)\s*([1-5])(?:\s*[-–]\s*(?:zone|z)?\s*([1-5]))?\s*$/i);
+  if (zoneMatch) {
+    const from = profile.zones[Number(zoneMatch[1]) - 1];
+    const to = profile.zones[Number(zoneMatch[2] ?? zoneMatch[1]) - 1];
+    return { min: Math.min(from.min, to.min), max: Math.max(from.max, to.max) };
+  }
+
+  const percentMatch = target.match(/^\s*(\d{2,3})\s*(?:%\s*)?[-–]\s*(\d{2,3})\s*%\s*$/);
+  if (percentMatch) {
+    const [low, high] = [Number(percentMatch[1]) / 100, Number(percentMatch[2]) / 100];
+    const toBpm = profile.method === 'karvonen'
+      ? (fraction: number) => profile.restingHeartRate + fraction * (profile.maxHeartRate - profile.restingHeartRate)
+      : (fraction: number) => fraction * profile.maxHeartRate;
+    return { min: Math.round(toBpm(low)), max: Math.round(toBpm(high)) };
+  }
+
+  return null;
+};
+
+export const getHeartRateZones = async (userId: string, now: number = Date.now()): Promise<HeartRateZoneData> => {
+  const [athlete, sessions] = await Promise.all([
+    getDoc(doc(db, 'athletes', userId)),
+    fetchSessions(userId, now - DETECTION_DAYS * DAY),
+  ]);
+
+  const profile = buildHeartRateProfile(athlete.exists() ? athlete.data() : {}, sessions);
+  return {
+    profile,
+    sessions: sessions
+      .sort((a, b) => b.startTime - a.startTime)
+      .map((session) => ({
+        sessionId: session.id,
+        sport: session.sport,
+        startTime: session.startTime,
+        seconds: sessionTimeInZones(session, profile.zones),
+      }))
+      .filter((session) => session.seconds.some((seconds) => seconds > 0)),
+  };
+};
+
+// null clears a manual value so the detected or estimated one is used again
+export const saveHeartRateSettings = (
+  userId: string,
+  settings: Pick<AthleteHeartRateSettings, 'heartRateZoneMethod' | 'maxHeartRate' | 'lactateThresholdHeartRate'>
+) => updateDoc(doc(db, 'athletes', userId), settings);
+
+// React hook for the athlete's zones; `revision` lets callers refetch after changing settings
+export const useHeartRateZones = (userId: string | undefined, revision = 0) => {
+  const [heartRateZones, setHeartRateZones] = useState<HeartRateZoneData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    getHeartRateZones(userId)
+      .then((result) => {
+        if (!cancelled) setHeartRateZones(result);
+      })
+      .catch((error) => console.error('Error computing heart rate zones:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, revision]);
+
+  return { heartRateZones, loading };
+};
@@ -0,0 +1,29 @@
+// Small promise wrappers around IndexedDB for client-side stores that outgrow localStorage
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Open (and create or upgrade) a database; the connection is cached per name
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+export const openDatabase = (name: string, version: number, upgrade: (db: IDBDatabase) => void) => {
+  if (!connections.has(name)) {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade(request.result);
+    const connection = requestToPromise(request);
+    // Allow a later call to retry if opening failed, e.g. in a private window
+    connection.catch(() => connections.delete(name));
+    connections.set(name, connection);
+  }
+  return connections.get(name)!;
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { computeInjuryRisk, parsePastInjuries, rulesForSport, type InjuryRiskInputs } from './injuryRisk';
+import type { BodyPartId, InjuryRisk, TrainingLoadSummary } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date(2026, 9, 19, 12).getTime();
+
+const inputs = (overrides: Partial<InjuryRiskInputs> = {}): InjuryRiskInputs => ({
+  sport: 'Football',
+  position: 'Midfielder',
+  pastInjuries: '',
+  load: null,
+  sleepDebt: null,
+  soreness: null,
+  now,
+  ...overrides,
+});
+
+const load = (acwr: number | null, monotony: number | null = null): TrainingLoadSummary => ({
+  date: now,
+  weeklyLoad: 700,
+  acwr,
+  acwrEwma: acwr,
+  fitness: 60,
+  fatigue: 80,
+  form: -20,
+  monotony,
+  strain: null,
+});
+
+const partOf = (risk: InjuryRisk, part: BodyPartId) => risk.bodyParts.find((entry) => entry.part === part)!;
+const pointsFor = (risk: InjuryRisk, part: BodyPartId) =>
+  Object.fromEntries(partOf(risk, part).factors.map((factor) => [factor.rule, factor.points]));
+
+describe('parsePastInjuries', () => {
+  it('finds body parts by whole words, plurals included', () => {
+    expect(parsePastInjuries('Sprained both ankles last season')).toEqual(['ankles']);
+    expect(parsePastInjuries('Torn ACL, then a meniscus tear')).toEqual(['knees']);
+  });
+
+  it('matches stems marked with a trailing *', () => {
+    expect(parsePastInjuries('Patellar tendinitis')).toEqual(['knees']);
+    expect(parsePastInjuries('Recurring back injuries')).toEqual(['lowerBack']);
+    expect(parsePastInjuries('Quadriceps strain')).toEqual(['quadriceps']);
+  });
+
+  it('does not match keywords inside other words', () => {
+    expect(parsePastInjuries('Some discomfort after the championship')).toEqual([]);
+    expect(parsePastInjuries('Slipped disc')).toEqual(['lowerBack']);
+  });
+
+  it('is case-insensitive and finds several parts', () => {
+    expect(parsePastInjuries('HAMSTRING pull and a Shoulder dislocation')).toEqual(['shoulders', 'hamstrings']);
+  });
+});
+
+describe('computeInjuryRisk', () => {
+  it('starts from how hard the sport and position work each area', () => {
+    const risk = computeInjuryRisk(inputs());
+
+    expect(risk.profile).toBe('Football');
+    expect(partOf(risk, 'hamstrings')).toMatchObject({ risk: 30, status: 'low' });
+    expect(partOf(risk, 'elbows')).toMatchObject({ risk: 0, factors: [] });
+    expect(risk.overallRisk).toBe(30);
+    expect(risk.bodyParts[0].part).toBe('hamstrings');
+
+    // Goalkeepers work their hamstrings less
+    expect(partOf(computeInjuryRisk(inputs({ position: 'Goalkeeper' })), 'hamstrings').risk).toBe(20);
+  });
+
+  it('falls back to even exposure for sports without rules', () => {
+    const risk = computeInjuryRisk(inputs({ sport: 'Curling' }));
+    expect(risk.profile).toBe('default');
+    expect(risk.bodyParts.every((part) => part.risk === 15)).toBe(true);
+  });
+
+  it('adds load spike points by the 0.1 above the limit, scaled by exposure and capped', () => {
+    // 1.6 is three steps above 1.3 at 4 points each; knees get 25/30 of that
+    const risk = computeInjuryRisk(inputs({ load: load(1.6) }));
+    expect(pointsFor(risk, 'hamstrings').acwrSpike).toBe(12);
+    expect(pointsFor(risk, 'knees').acwrSpike).toBe(10);
+
+    expect(pointsFor(computeInjuryRisk(inputs({ load: load(3) })), 'hamstrings').acwrSpike).toBe(25);
+    expect(pointsFor(computeInjuryRisk(inputs({ load: load(null) })), 'hamstrings').acwrSpike).toBeUndefined();
+  });
+
+  it('adds monotony points above the limit', () => {
+    const risk = computeInjuryRisk(inputs({ load: load(1, 2.5) }));
+    expect(pointsFor(risk, 'hamstrings')).toEqual({ exposure: 30, monotony: 5 });
+  });
+
+  it('adds past injuries, recent soreness and sleep debt', () => {
+    const risk = computeInjuryRisk(
+      inputs({
+        pastInjuries: 'Hamstring tear in 2024',
+        soreness: { date: now - DAY, parts: { hamstrings: 6 }, createdAt: now - DAY },
+        sleepDebt: 10,
+      })
+    );
+
+    expect(pointsFor(risk, 'hamstrings')).toEqual({ exposure: 30, priorInjury: 20, soreness: 18, sleepDebt: 10 });
+    expect(partOf(risk, 'hamstrings')).toMatchObject({ risk: 78, status: 'high' });
+  });
+
+  it('ignores soreness reported more than three days ago', () => {
+    const soreness = { date: now - 4 * DAY, parts: { hamstrings: 8 }, createdAt: now - 4 * DAY };
+    expect(pointsFor(computeInjuryRisk(inputs({ soreness })), 'hamstrings').soreness).toBeUndefined();
+  });
+
+  it('caps the risk at 100', () => {
+    const risk = computeInjuryRisk(
+      inputs({
+        pastInjuries: 'hamstring',
+        load: load(3, 5),
+        sleepDebt: 30,
+        soreness: { date: now, parts: { hamstrings: 10 }, createdAt: now },
+      })
+    );
+    expect(partOf(risk, 'hamstrings').risk).toBe(100);
+  });
+
+  it('takes custom rules', () => {
+    const { rules } = rulesForSport('Football');
+    const risk = computeInjuryRisk(inputs({ load: load(1.6) }), {
+      profile: 'Football',
+      rules: { ...rules, acwrLimit: 1.5 },
+    });
+    expect(pointsFor(risk, 'hamstrings').acwrSpike).toBe(4);
+  });
+});
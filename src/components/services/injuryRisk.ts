@@ -0,0 +1,375 @@
+import { useEffect, useState } from 'react';
+import { collection, doc, getDocs, orderBy, query, setDoc, where } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type {
+  BodyPartId,
+  BodyPartRisk,
+  InjuryRisk,
+  InjuryRiskFactor,
+  SorenessReport,
+  TrainingLoadSummary,
+} from '../types';
+import { localDayStart } from './metricHistory';
+import { SLEEP_DEBT_LIMIT, getSleepAnalytics } from './sleep';
+import { getTrainingLoad } from './trainingLoad';
+
+// Per-body-part injury risk from a fixed set of rules, so every point of risk can be traced to
+// a reason: how much the sport and position load each area, acute:chronic load spikes, training
+// monotony, past injuries from registration, recent soreness reports and sleep debt. Each
+// factor's points are added up to a 0-100 risk. The rules are configurable per sport; the AI
+// only explains the result.
+// Soreness reports are stored at users/{uid}/soreness/{date}.
+
+const DAY = 24 * 60 * 60 * 1000;
+// Soreness older than this no longer counts
+const SORENESS_DAYS = 3;
+
+interface BodyPart {
+  label: string;
+  keywords: string[]; // whole words or phrases in the past injuries text, plurals included; a trailing * matches any ending
+  recommendation: string;
+}
+
+export const BODY_PARTS: Record<BodyPartId, BodyPart> = {
+  knees: {
+    label: 'Knees',
+    keywords: ['knee', 'kneecap', 'acl', 'mcl', 'pcl', 'menisc*', 'patell*'],
+    recommendation: 'Focus on knee stability exercises',
+  },
+  lowerBack: {
+    label: 'Lower Back',
+    keywords: ['lower back', 'back pain', 'back injur*', 'back strain', 'lumbar', 'spine', 'spinal', 'disc'],
+    recommendation: 'Add core strengthening exercises',
+  },
+  shoulders: {
+    label: 'Shoulders',
+    keywords: ['shoulder', 'rotator', 'labrum', 'clavicle', 'collarbone'],
+    recommendation: 'Add rotator cuff strengthening',
+  },
+  elbows: {
+    label: 'Elbows',
+    keywords: ['elbow', 'forearm', 'ucl'],
+    recommendation: 'Build forearm and grip strength gradually',
+  },
+  groin: {
+    label: 'Groin & Hips',
+    keywords: ['groin', 'adductor', 'hip'],
+    recommendation: 'Include adductor strengthening such as Copenhagen planks',
+  },
+  ankles: {
+    label: 'Ankles',
+    keywords: ['ankle'],
+    recommendation: 'Work on balance and ankle mobility',
+  },
+  hamstrings: {
+    label: 'Hamstrings',
+    keywords: ['hamstring'],
+    recommendation: 'Incorporate Nordic curls and dynamic stretching',
+  },
+  quadriceps: {
+    label: 'Quadriceps',
+    keywords: ['quad*', 'thigh'],
+    recommendation: 'Monitor for fatigue',
+  },
+  calves: {
+    label: 'Calves & Achilles',
+    keywords: ['calf', 'calves', 'achilles', 'shin'],
+    recommendation: 'Add eccentric calf raises',
+  },
+};
+
+export const BODY_PART_IDS = Object.keys(BODY_PARTS) as BodyPartId[];
+
+export interface InjuryRules {
+  exposure: Record<BodyPartId, number>; // baseline points from how hard the sport works each area
+  positions: Record<string, Partial<Record<BodyPartId, number>>>; // points added per position
+  acwrLimit: number; // acute:chronic load ratio above which a spike adds risk
+  acwrPoints: number; // per 0.1 above the limit, for the most exposed area
+  monotonyLimit: number;
+  monotonyPoints: number; // per 1.0 above the limit, for the most exposed area
+  maxLoadPoints: number; // cap for each load rule
+  priorInjuryPoints: number;
+  sorenessPoints: number; // per point of soreness out of 10
+  sleepDebtPoints: number; // per hour of debt above the limit
+  maxSleepDebtPoints: number;
+}
+
+const evenExposure = (points: number) =>
+  Object.fromEntries(BODY_PART_IDS.map((part) => [part, points])) as Record<BodyPartId, number>;
+
+export const DEFAULT_INJURY_RULES: InjuryRules = {
+  exposure: evenExposure(15),
+  positions: {},
+  acwrLimit: 1.3,
+  acwrPoints: 4,
+  monotonyLimit: 2,
+  monotonyPoints: 10,
+  maxLoadPoints: 25,
+  priorInjuryPoints: 20,
+  sorenessPoints: 3,
+  sleepDebtPoints: 2,
+  maxSleepDebtPoints: 15,
+};
+
+// Per-sport overrides, keyed by the sport names offered at registration
+export const SPORT_INJURY_RULES: Record<string, Partial<InjuryRules>> = {
+  Football: {
+    exposure: {
+      knees: 25, lowerBack: 10, shoulders: 5, elbows: 0, groin: 25, ankles: 25, hamstrings: 30, quadriceps: 20, calves: 20,
+    },
+    positions: {
+      Goalkeeper: { shoulders: 15, elbows: 10, hamstrings: -10 },
+      Forward: { hamstrings: 5 },
+    },
+  },
+  Basketball: {
+    exposure: {
+      knees: 30, lowerBack: 15, shoulders: 10, elbows: 5, groin: 10, ankles: 30, hamstrings: 15, quadriceps: 15, calves: 20,
+    },
+    positions: {
+      Center: { lowerBack: 5, knees: 5 },
+    },
+  },
+  Tennis: {
+    exposure: {
+      knees: 15, lowerBack: 20, shoulders: 30, elbows: 30, groin: 10, ankles: 15, hamstrings: 10, quadriceps: 10, calves: 15,
+    },
+  },
+  Boxing: {
+    exposure: {
+      knees: 5, lowerBack: 15, shoulders: 30, elbows: 20, groin: 5, ankles: 10, hamstrings: 5, quadriceps: 5, calves: 10,
+    },
+  },
+  Badminton: {
+    exposure: {
+      knees: 20, lowerBack: 15, shoulders: 25, elbows: 15, groin: 10, ankles: 25, hamstrings: 10, quadriceps: 10, calves: 25,
+    },
+  },
+  Cricket: {
+    exposure: {
+      knees: 10, lowerBack: 20, shoulders: 20, elbows: 10, groin: 10, ankles: 10, hamstrings: 15, quadriceps: 5, calves: 10,
+    },
+    positions: {
+      Bowler: { lowerBack: 15, shoulders: 5, ankles: 5 },
+      'Wicket Keeper': { knees: 10, lowerBack: 5 },
+    },
+  },
+  Rugby: {
+    exposure: {
+      knees: 25, lowerBack: 15, shoulders: 30, elbows: 5, groin: 15, ankles: 20, hamstrings: 25, quadriceps: 15, calves: 15,
+    },
+    positions: {
+      Forward: { shoulders: 5, lowerBack: 10, hamstrings: -5 },
+      Back: { hamstrings: 10 },
+    },
+  },
+  Athletics: {
+    exposure: {
+      knees: 15, lowerBack: 10, shoulders: 5, elbows: 0, groin: 10, ankles: 15, hamstrings: 20, quadriceps: 10, calves: 20,
+    },
+    positions: {
+      Sprinter: { hamstrings: 15, groin: 5 },
+      'Long Distance': { knees: 10, calves: 10, ankles: 5 },
+      'High Jump': { knees: 10, ankles: 10, lowerBack: 5 },
+      'Long Jump': { knees: 10, ankles: 10, hamstrings: 5 },
+      'Shot Put': { shoulders: 20, elbows: 15, lowerBack: 10, hamstrings: -10, calves: -10 },
+    },
+  },
+  Hockey: {
+    exposure: {
+      knees: 20, lowerBack: 25, shoulders: 5, elbows: 5, groin: 25, ankles: 20, hamstrings: 20, quadriceps: 10, calves: 10,
+    },
+    positions: {
+      Goalkeeper: { knees: 10, groin: 5, hamstrings: -10 },
+    },
+  },
+  Swimming: {
+    exposure: {
+      knees: 5, lowerBack: 10, shoulders: 35, elbows: 5, groin: 5, ankles: 0, hamstrings: 0, quadriceps: 0, calves: 5,
+    },
+    positions: {
+      Breaststroke: { knees: 20, groin: 10 },
+      Butterfly: { lowerBack: 10, shoulders: 5 },
+    },
+  },
+};
+
+export const rulesForSport = (sport: string) => ({
+  profile: SPORT_INJURY_RULES[sport] ? sport : 'default',
+  rules: { ...DEFAULT_INJURY_RULES, ...SPORT_INJURY_RULES[sport] },
+});
+
+const clamp = (value: number) => Math.min(100, Math.max(0, Math.round(value)));
+
+const statusOf = (risk: number): BodyPartRisk['status'] => (risk > 70 ? 'high' : risk > 40 ? 'moderate' : 'low');
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const keywordPattern = (keyword: string) =>
+  keyword.endsWith('*') ? `${keyword.slice(0, -1)}\\w*` : `${keyword}(?:s|es)?`;
+
+// Body parts named in the free-text injury history. Keywords match whole words, so "disc"
+// finds a disc injury but not "discomfort".
+export const parsePastInjuries = (text: string): BodyPartId[] =>
+  BODY_PART_IDS.filter((part) =>
+    new RegExp(`\\b(?:${BODY_PARTS[part].keywords.map(keywordPattern).join('|')})\\b`, 'i').test(text)
+  );
+
+export interface InjuryRiskInputs {
+  sport: string;
+  position: string;
+  pastInjuries: string;
+  load: TrainingLoadSummary | null;
+  sleepDebt: number | null; // hours over the last two weeks
+  soreness: SorenessReport | null; // the latest report, if recent
+  now?: number;
+}
+
+export const computeInjuryRisk = (
+  { sport, position, pastInjuries, load, sleepDebt, soreness, now = Date.now() }: InjuryRiskInputs,
+  { profile, rules }: { profile: string; rules: InjuryRules } = rulesForSport(sport)
+): InjuryRisk => {
+  const exposure = Object.fromEntries(
+    BODY_PART_IDS.map((part) => [part, Math.max(0, rules.exposure[part] + (rules.positions[position]?.[part] ?? 0))])
+  ) as Record<BodyPartId, number>;
+  const maxExposure = Math.max(...Object.values(exposure), 1);
+  const injured = parsePastInjuries(pastInjuries);
+  const recentSoreness = soreness && now - soreness.date <= SORENESS_DAYS * DAY ? soreness : null;
+
+  // Load spikes and monotony land hardest on the areas the sport works most
+  const acwrPoints = load && load.acwr !== null && load.acwr > rules.acwrLimit
+    ? Math.min(rules.maxLoadPoints, ((load.acwr - rules.acwrLimit) / 0.1) * rules.acwrPoints)
+    : 0;
+  const monotonyPoints = load && load.monotony !== null && load.monotony > rules.monotonyLimit
+    ? Math.min(rules.maxLoadPoints, (load.monotony - rules.monotonyLimit) * rules.monotonyPoints)
+    : 0;
+  const sleepDebtPoints = sleepDebt !== null && sleepDebt > SLEEP_DEBT_LIMIT
+    ? Math.min(rules.maxSleepDebtPoints, (sleepDebt - SLEEP_DEBT_LIMIT) * rules.sleepDebtPoints)
+    : 0;
+
+  const bodyParts = BODY_PART_IDS.map((part): BodyPartRisk => {
+    const share = exposure[part] / maxExposure;
+    const sore = recentSoreness?.parts[part] ?? 0;
+    const candidates: InjuryRiskFactor[] = [
+      {
+        rule: 'exposure',
+        points: exposure[part],
+        detail: `Demands of ${profile === 'default' ? 'training' : sport}${position ? ` as a ${position}` : ''}`,
+      },
+      {
+        rule: 'acwrSpike',
+        points: acwrPoints * share,
+        detail: `Acute:chronic load ratio of ${load?.acwr}, above ${rules.acwrLimit}`,
+      },
+      {
+        rule: 'monotony',
+        points: monotonyPoints * share,
+        detail: `Training monotony of ${load?.monotony}, above ${rules.monotonyLimit}`,
+      },
+      {
+        rule: 'priorInjury',
+        points: injured.includes(part) ? rules.priorInjuryPoints : 0,
+        detail: 'Past injury recorded at registration',
+      },
+      {
+        rule: 'soreness',
+        points: sore * rules.sorenessPoints,
+        detail: `Soreness of ${sore}/10 reported on ${recentSoreness ? formatDate(recentSoreness.date) : ''}`,
+      },
+      {
+        rule: 'sleepDebt',
+        points: sleepDebtPoints,
+        detail: `${sleepDebt} hours of sleep debt over the last two weeks`,
+      },
+    ];
+    const factors = candidates
+      .map((factor) => ({ ...factor, points: Math.round(factor.points) }))
+      .filter((factor) => factor.points > 0);
+
+    const risk = clamp(factors.reduce((sum, factor) => sum + factor.points, 0));
+    return { part, risk, status: statusOf(risk), factors };
+  }).sort((a, b) => b.risk - a.risk);
+
+  return { date: localDayStart(now), overallRisk: bodyParts[0].risk, bodyParts, profile };
+};
+
+// One line per body part, as handed to the model to explain
+export const describeInjuryRisk = ({ bodyParts }: InjuryRisk) =>
+  bodyParts.map(
+    ({ part, risk, status, factors }) =>
+      `${BODY_PARTS[part].label}: ${risk}/100 (${status}). ` +
+      (factors.map((factor) => `${factor.detail} +${factor.points}`).join('; ') || 'No risk factors')
+  );
+
+const sorenessRef = (userId: string) => collection(db, 'users', userId, 'soreness');
+
+export const fetchSorenessReports = async (userId: string, start: number) => {
+  const snapshot = await getDocs(query(sorenessRef(userId), where('date', '>=', start), orderBy('date', 'asc')));
+  return snapshot.docs.map((reportDoc) => reportDoc.data() as SorenessReport);
+};
+
+// One report per day; reporting again the same day replaces it
+export const saveSorenessReport = (userId: string, parts: SorenessReport['parts'], now: number = Date.now()) => {
+  const report: SorenessReport = { date: localDayStart(now), parts, createdAt: now };
+  return setDoc(doc(sorenessRef(userId), String(report.date)), report);
+};
+
+// The latest soreness report still recent enough to count
+export const fetchRecentSoreness = async (userId: string, now: number = Date.now()) => {
+  const reports = await fetchSorenessReports(userId, localDayStart(now - SORENESS_DAYS * DAY));
+  return reports[reports.length - 1] ?? null;
+};
+
+export const getInjuryRisk = async (
+  userId: string,
+  athlete: { sport: string; position: string; pastInjuries?: string },
+  now: number = Date.now()
+) => {
+  const [trainingLoad, sleep, soreness] = await Promise.all([
+    getTrainingLoad(userId, 28, now),
+    getSleepAnalytics(userId, now),
+    fetchRecentSoreness(userId, now),
+  ]);
+
+  return computeInjuryRisk({
+    sport: athlete.sport,
+    position: athlete.position,
+    pastInjuries: String(athlete.pastInjuries ?? ''),
+    load: trainingLoad.summary,
+    sleepDebt: sleep.analytics.nights ? sleep.analytics.sleepDebt : null,
+    soreness,
+    now,
+  });
+};
+
+// React hook for today's injury risk; `revision` lets callers recompute after a soreness report
+export const useInjuryRisk = (
+  userId: string | undefined,
+  { sport, position, pastInjuries }: { sport: string; position: string; pastInjuries?: string },
+  revision = 0
+) => {
+  const [risk, setRisk] = useState<InjuryRisk | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    getInjuryRisk(userId, { sport, position, pastInjuries })
+      .then((result) => {
+        if (!cancelled) setRisk(result);
+      })
+      .catch((error) => console.error('Error computing injury risk:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, sport, position, pastInjuries, revision]);
+
+  return { risk, loading };
+};
@@ -0,0 +1,136 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import type { LlmProvider } from '../../types';
+import { openDatabase, requestToPromise, transactionDone } from '../indexedDb';
+import { aiServerRequest } from './server';
+
+// Cache of AI answers, keyed on the feature, the model and the request's normalized inputs.
+// Answers are kept in IndexedDB on this device. Answers that depend only on profile fields
+// such as sport and position are also shared through Firestore (aiCache/{key}), so a whole
+// team opening the dashboard at once costs one model call instead of thirty. Clients only read
+// that collection; shared answers are written through api/ai/cache, with the ticket reserving
+// their model request returned.
+
+const DB_NAME = 'ai-cache';
+const DB_VERSION = 1;
+const RESPONSES = 'responses';
+const SHARED_COLLECTION = 'aiCache';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Shared features and their TTLs are mirrored in api/ai/cache.ts
+interface CachePolicy {
+  ttl: number; // ms
+  shared: boolean; // false for answers built from personal data, which never leave the device
+}
+
+export const CACHE_POLICIES: Record<string, CachePolicy> = {
+  nutritionPlan: { ttl: 7 * DAY, shared: true },
+  trainingPlan: { ttl: 7 * DAY, shared: true },
+  athleteInsights: { ttl: DAY, shared: true },
+  motivationalQuote: { ttl: DAY, shared: true },
+  mealOutline: { ttl: 7 * DAY, shared: true },
+  recoveryTargets: { ttl: DAY, shared: true },
+  growthTrend: { ttl: DAY, shared: true },
+  injuryPreventionTips: { ttl: 7 * DAY, shared: true },
+  trainingRecommendations: { ttl: 6 * HOUR, shared: false },
+  nutritionSuggestions: { ttl: 6 * HOUR, shared: false },
+  injuryRisk: { ttl: 6 * HOUR, shared: false },
+  recoveryPlan: { ttl: DAY, shared: false },
+  performanceForecast: { ttl: DAY, shared: false },
+};
+
+interface CachedAnswer {
+  key: string;
+  feature: string;
+  value: string; // JSON, since Firestore rejects undefined fields
+  createdAt: number;
+  expiresAt: number;
+}
+
+const openCache = () =>
+  openDatabase(DB_NAME, DB_VERSION, (database) => {
+    database.createObjectStore(RESPONSES, { keyPath: 'key' });
+  });
+
+// Equivalent inputs produce the same key: object keys are sorted, text is trimmed and
+// lower-cased, and numbers are rounded to two decimals
+const normalize = (value: unknown): unknown => {
+  if (typeof value === 'string') return value.trim().replace(/\s+/g, ' ').toLowerCase();
+  if (typeof value === 'number') return Math.round(value * 100) / 100;
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, entry]) => [key, normalize(entry)])
+    );
+  }
+  return value;
+};
+
+// SHA-256 of the normalized request. Personal answers include the user, so another account
+// on the same browser never sees them.
+export const cacheKey = async (feature: string, provider: LlmProvider, inputs: unknown, userId: string | undefined) => {
+  const scope = CACHE_POLICIES[feature]?.shared ? null : userId ?? null;
+  const payload = JSON.stringify(normalize({ feature, provider: provider.id, model: provider.model, scope, inputs }));
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const readLocal = async (key: string) => {
+  const database = await openCache();
+  return requestToPromise<CachedAnswer | undefined>(database.transaction(RESPONSES).objectStore(RESPONSES).get(key));
+};
+
+const writeLocal = async (answer: CachedAnswer) => {
+  const database = await openCache();
+  const transaction = database.transaction(RESPONSES, 'readwrite');
+  transaction.objectStore(RESPONSES).put(answer);
+  await transactionDone(transaction);
+};
+
+const removeLocal = async (key: string) => {
+  const database = await openCache();
+  const transaction = database.transaction(RESPONSES, 'readwrite');
+  transaction.objectStore(RESPONSES).delete(key);
+  await transactionDone(transaction);
+};
+
+// The cached answer, or null when there is none or it expired. Cache failures are logged and
+// treated as a miss so they never block a request.
+export const readCachedAnswer = async (feature: string, key: string): Promise<unknown> => {
+  const policy = CACHE_POLICIES[feature];
+  if (!policy) return null;
+
+  try {
+    const local = await readLocal(key);
+    if (local && local.expiresAt > Date.now()) return JSON.parse(local.value);
+    if (local) await removeLocal(key);
+
+    if (policy.shared) {
+      const snapshot = await getDoc(doc(db, SHARED_COLLECTION, key));
+      const shared = snapshot.exists() ? (snapshot.data() as CachedAnswer) : null;
+      if (shared && shared.expiresAt > Date.now()) {
+        await writeLocal(shared);
+        return JSON.parse(shared.value);
+      }
+    }
+  } catch (error) {
+    console.error('Error reading AI cache:', error);
+  }
+  return null;
+};
+
+// Without a ticket, e.g. from the mock provider, the answer is only kept on this device
+export const cacheAnswer = async (feature: string, key: string, value: unknown, ticket: string | null) => {
+  const policy = CACHE_POLICIES[feature];
+  if (!policy) return;
+
+  const createdAt = Date.now();
+  const answer: CachedAnswer = { key, feature, value: JSON.stringify(value), createdAt, expiresAt: createdAt + policy.ttl };
+  await writeLocal(answer);
+  if (policy.shared && ticket) await aiServerRequest('cache', { feature, key, value: answer.value, ticket });
+};
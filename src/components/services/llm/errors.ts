@@ -0,0 +1,56 @@
+// Failures from any LLM provider, classified so callers can decide whether to retry and
+// what to tell the user
+
+export type LlmErrorKind =
+  | 'configuration' // provider missing an API key or endpoint
+  | 'network' // offline, timed out or a 5xx
+  | 'rateLimited' // 429, quota exhausted
+  | 'quotaExceeded' // the user's daily AI allowance is used up
+  | 'rejected' // any other 4xx, retrying won't help
+  | 'blocked' // the answer was withheld by safety filters
+  | 'invalidResponse'; // empty, malformed or not matching the schema
+
+export type LlmError = Error & {
+  kind: LlmErrorKind;
+  provider: string;
+  attempts: number;
+  status?: number;
+  issues?: string[]; // schema violations, for invalidResponse
+};
+
+export const llmError = (
+  kind: LlmErrorKind,
+  provider: string,
+  message: string,
+  details: { status?: number; issues?: string[]; cause?: unknown } = {}
+): LlmError => Object.assign(new Error(message), { name: 'LlmError', kind, provider, attempts: 1, ...details });
+
+export const isLlmError = (error: unknown): error is LlmError => error instanceof Error && error.name === 'LlmError';
+
+// HTTP failures map the same way for every provider
+export const llmErrorForStatus = (provider: string, status: number | undefined, message: string, cause?: unknown) => {
+  if (status === 429) return llmError('rateLimited', provider, `${provider} rate limit reached`, { status, cause });
+  if (status && status >= 400 && status < 500) {
+    return llmError('rejected', provider, `${provider} rejected the request: ${message}`, { status, cause });
+  }
+  return llmError('network', provider, `${provider} request failed: ${message}`, { status, cause });
+};
+
+// A short message for the UI, by error kind
+export const describeLlmError = (error: unknown) => {
+  if (!isLlmError(error)) return 'Something went wrong. Please try again.';
+  switch (error.kind) {
+    case 'configuration':
+      return 'AI features are not configured.';
+    case 'rateLimited':
+      return 'The AI service is busy. Please try again in a minute.';
+    case 'quotaExceeded':
+      return "You've reached today's limit for AI requests. It resets at midnight UTC.";
+    case 'blocked':
+      return 'The AI could not answer this request.';
+    case 'invalidResponse':
+      return 'The AI returned an unusable answer. Please try again.';
+    default:
+      return 'Unable to reach the AI service. Please try again later.';
+  }
+};
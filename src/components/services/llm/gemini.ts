@@ -0,0 +1,112 @@
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+  SchemaType,
+  type EnhancedGenerateContentResponse,
+  type FunctionDeclarationSchema,
+  type ResponseSchema,
+} from '@google/generative-ai';
+import type { LlmProvider, LlmRequest, LlmResponse, LlmResponseSchema } from '../../types';
+import { isLlmError, llmError, llmErrorForStatus } from './errors';
+
+const MODEL = 'gemini-2.0-flash';
+const PROVIDER_NAME = 'Gemini';
+
+// Gemini's responseSchema is the same subset, except enums must be flagged with format: 'enum'
+const toGeminiSchema = (schema: LlmResponseSchema): ResponseSchema => {
+  const { type, enum: values, items, properties, ...rest } = schema;
+  return {
+    ...rest,
+    type: type as SchemaType,
+    ...(values ? { format: 'enum', enum: values } : {}),
+    ...(items ? { items: toGeminiSchema(items) } : {}),
+    ...(properties
+      ? { properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toGeminiSchema(value)])) }
+      : {}),
+  } as ResponseSchema;
+};
+
+let genAI: GoogleGenerativeAI | null = null;
+
+const getClient = () => {
+  const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
+  if (!apiKey) throw llmError('configuration', PROVIDER_NAME, 'VITE_GEMINI_API_KEY is not set');
+  genAI ??= new GoogleGenerativeAI(apiKey);
+  return genAI;
+};
+
+const getModel = ({ temperature, responseSchema, tools }: LlmRequest) =>
+  getClient().getGenerativeModel({
+    model: MODEL,
+    // Structured output mode constrains decoding to the schema
+    generationConfig: responseSchema
+      ? { temperature, responseMimeType: 'application/json', responseSchema: toGeminiSchema(responseSchema) }
+      : { temperature },
+    ...(tools?.length
+      ? {
+          tools: [
+            {
+              functionDeclarations: tools.map(({ name, description, parameters }) => ({
+                name,
+                description,
+                parameters: toGeminiSchema(parameters) as FunctionDeclarationSchema,
+              })),
+            },
+          ],
+        }
+      : {}),
+  });
+
+const toResponse = (response: EnhancedGenerateContentResponse, text: string): LlmResponse => {
+  const usage = response.usageMetadata;
+  const toolCalls = response.functionCalls()?.map(({ name, args }) => ({ name, args: args as Record<string, unknown> }));
+  return {
+    text: text.trim(),
+    ...(toolCalls?.length ? { toolCalls } : {}),
+    usage: usage && { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount },
+  };
+};
+
+const classifyError = (error: unknown) => {
+  if (isLlmError(error)) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof GoogleGenerativeAIResponseError) {
+    return llmError('blocked', PROVIDER_NAME, `Gemini withheld the response: ${message}`, { cause: error });
+  }
+  return llmErrorForStatus(
+    PROVIDER_NAME,
+    error instanceof GoogleGenerativeAIFetchError ? error.status : undefined,
+    message,
+    error
+  );
+};
+
+export const geminiProvider: LlmProvider = {
+  id: 'gemini',
+  name: PROVIDER_NAME,
+  model: MODEL,
+  pricing: { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  generate: async (request) => {
+    try {
+      const { response } = await getModel(request).generateContent(request.prompt);
+      return toResponse(response, response.text());
+    } catch (error) {
+      throw classifyError(error);
+    }
+  },
+  stream: async (request, onText) => {
+    try {
+      const result = await getModel(request).generateContentStream(request.prompt);
+      // Chunks only carry text; tool calls are read from the aggregated response
+      let text = '';
+      for await (const chunk of result.stream) {
+        text += chunk.text();
+        onText(text);
+      }
+      return toResponse(await result.response, text);
+    } catch (error) {
+      throw classifyError(error);
+    }
+  },
+};
@@ -0,0 +1,60 @@
+import type { LlmProvider, LlmResponseSchema } from '../../types';
+
+// Answers from files instead of a model, so AI features run offline and in CI with the same
+// output every time. fixtures/<feature>.json (or .txt for prose) is returned as is; features
+// without a fixture get a placeholder built from the response schema.
+
+const PROVIDER_NAME = 'Mock';
+
+// Bundled fixtures, loaded on demand
+const fixtures = import.meta.glob('./fixtures/*.{json,txt}', { query: '?raw', import: 'default' });
+
+const loadFixture = async (feature: string, extension: 'json' | 'txt') => {
+  const load = fixtures[`./fixtures/${feature}.${extension}`];
+  return load ? ((await load()) as string) : null;
+};
+
+// The smallest value that satisfies the schema, labelled with where it sits in the response
+const placeholder = (schema: LlmResponseSchema, path: string): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [key, placeholder(property, key)])
+      );
+    case 'array':
+      return Array.from({ length: Math.max(schema.minItems ?? 1, 1) }, () => placeholder(schema.items ?? { type: 'string' }, path));
+    case 'string':
+      return schema.enum?.[0] ?? `Sample ${path}`;
+    case 'number':
+    case 'integer':
+      return 50;
+    case 'boolean':
+      return false;
+  }
+};
+
+const STREAM_DELAY = 20; // ms between words, so streaming UIs can be exercised
+
+const generate: LlmProvider['generate'] = async ({ feature, responseSchema }) => {
+  if (responseSchema) {
+    return { text: (await loadFixture(feature, 'json')) ?? JSON.stringify(placeholder(responseSchema, feature)) };
+  }
+  return { text: (await loadFixture(feature, 'txt')) ?? `Sample ${feature} response from the mock provider.` };
+};
+
+// Fixtures never ask for tool calls
+export const mockProvider: LlmProvider = {
+  id: 'mock',
+  name: PROVIDER_NAME,
+  model: 'fixtures',
+  generate,
+  stream: async (request, onText) => {
+    const response = await generate(request);
+    const words = response.text.split(/(?<=\s)/);
+    for (let count = 1; count <= words.length; count++) {
+      await new Promise((resolve) => setTimeout(resolve, STREAM_DELAY));
+      onText(words.slice(0, count).join(''));
+    }
+    return response;
+  },
+};
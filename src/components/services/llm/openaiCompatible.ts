@@ -0,0 +1,165 @@
+import type { LlmProvider, LlmRequest, LlmResponse, LlmResponseSchema, LlmToolCall } from '../../types';
+import { llmError, llmErrorForStatus } from './errors';
+
+// Any server speaking the OpenAI chat completions API: Ollama, llama.cpp, vLLM, LM Studio or a
+// hosted gateway. Set VITE_LOCAL_LLM_URL to its base URL, e.g. http://localhost:11434/v1
+
+const BASE_URL = import.meta.env.VITE_LOCAL_LLM_URL?.replace(/\/+$/, '');
+const MODEL = import.meta.env.VITE_LOCAL_LLM_MODEL || 'llama3.1';
+const PROVIDER_NAME = 'Local model';
+
+interface ChatToolCall {
+  index?: number; // only set on streamed deltas
+  function?: { name?: string; arguments?: string };
+}
+
+interface ChatMessage {
+  content?: string | null;
+  tool_calls?: ChatToolCall[];
+}
+
+interface ChatCompletion {
+  choices?: { message?: ChatMessage; delta?: ChatMessage; finish_reason?: string | null }[];
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
+// Plain JSON Schema has no nullable flag; optional fields are already left out of required
+const toJsonSchema = (schema: LlmResponseSchema): Record<string, unknown> => {
+  const { nullable: _nullable, items, properties, ...rest } = schema;
+  return {
+    ...rest,
+    ...(items ? { items: toJsonSchema(items) } : {}),
+    ...(properties
+      ? { properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toJsonSchema(value)])) }
+      : {}),
+  };
+};
+
+// Arguments arrive as a JSON string; ones that don't parse are passed on empty and fail validation
+const toToolCall = ({ function: call }: ChatToolCall): LlmToolCall => {
+  let args: Record<string, unknown> = {};
+  try {
+    args = JSON.parse(call?.arguments || '{}');
+  } catch {
+    console.error('Malformed tool call arguments:', call?.arguments);
+  }
+  return { name: call?.name ?? '', args };
+};
+
+const toResponse = (text: string, toolCalls: ChatToolCall[], completion: ChatCompletion): LlmResponse => ({
+  text: text.trim(),
+  ...(toolCalls.length ? { toolCalls: toolCalls.map(toToolCall) } : {}),
+  usage: completion.usage
+    ? { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens }
+    : undefined,
+});
+
+const checkFinish = (finishReason: string | null | undefined) => {
+  if (finishReason === 'content_filter') {
+    throw llmError('blocked', PROVIDER_NAME, 'The local model withheld the response');
+  }
+};
+
+const postCompletion = async ({ feature, prompt, temperature, responseSchema, tools }: LlmRequest, stream: boolean) => {
+  if (!BASE_URL) throw llmError('configuration', PROVIDER_NAME, 'VITE_LOCAL_LLM_URL is not set');
+  const apiKey = import.meta.env.VITE_LOCAL_LLM_API_KEY;
+
+  let response: Response;
+  try {
+    response = await fetch(`${BASE_URL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: MODEL,
+        messages: [{ role: 'user', content: prompt }],
+        temperature,
+        ...(responseSchema
+          ? { response_format: { type: 'json_schema', json_schema: { name: feature, schema: toJsonSchema(responseSchema) } } }
+          : {}),
+        ...(tools?.length
+          ? {
+              tools: tools.map(({ name, description, parameters }) => ({
+                type: 'function',
+                function: { name, description, parameters: toJsonSchema(parameters) },
+              })),
+            }
+          : {}),
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+    });
+  } catch (error) {
+    // fetch only rejects when the server can't be reached
+    throw llmErrorForStatus(PROVIDER_NAME, undefined, error instanceof Error ? error.message : String(error), error);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw llmErrorForStatus(PROVIDER_NAME, response.status, detail || response.statusText);
+  }
+  return response;
+};
+
+// Server-sent events: one "data: {json}" line per chunk, ending with "data: [DONE]"
+async function* readEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffered += value;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data) continue;
+      if (data === '[DONE]') return;
+      try {
+        yield JSON.parse(data) as ChatCompletion;
+      } catch (error) {
+        throw llmError('invalidResponse', PROVIDER_NAME, 'The local model sent a malformed stream chunk', { cause: error });
+      }
+    }
+  }
+}
+
+export const openAiCompatibleProvider: LlmProvider = {
+  id: 'local',
+  name: PROVIDER_NAME,
+  model: MODEL,
+  generate: async (request) => {
+    const response = await postCompletion(request, false);
+    const completion = (await response.json().catch(() => ({}))) as ChatCompletion;
+    const [choice] = completion.choices ?? [];
+    checkFinish(choice?.finish_reason);
+    return toResponse(choice?.message?.content ?? '', choice?.message?.tool_calls ?? [], completion);
+  },
+  stream: async (request, onText) => {
+    const response = await postCompletion(request, true);
+    if (!response.body) throw llmError('invalidResponse', PROVIDER_NAME, 'The local model returned no stream');
+
+    let text = '';
+    // Tool calls are streamed as fragments of their arguments, keyed by index
+    const toolCalls: ChatToolCall[] = [];
+    let usage: ChatCompletion['usage'] = null; // sent in a final chunk without choices
+    for await (const chunk of readEvents(response.body)) {
+      usage = chunk.usage ?? usage;
+      const [choice] = chunk.choices ?? [];
+      checkFinish(choice?.finish_reason);
+      choice?.delta?.tool_calls?.forEach(({ index = 0, function: call }) => {
+        const current = (toolCalls[index] ??= { function: { name: '', arguments: '' } });
+        current.function = {
+          name: (current.function?.name ?? '') + (call?.name ?? ''),
+          arguments: (current.function?.arguments ?? '') + (call?.arguments ?? ''),
+        };
+      });
+      if (choice?.delta?.content) {
+        text += choice.delta.content;
+        onText(text);
+      }
+    }
+    return toResponse(text, toolCalls.filter(Boolean), { usage });
+  },
+};
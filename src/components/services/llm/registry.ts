@@ -0,0 +1,22 @@
+import type { LlmProvider } from '../../types';
+import { llmError } from './errors';
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { openAiCompatibleProvider } from './openaiCompatible';
+
+// Every backend the AI features can run on. Add new providers here.
+export const llmProviders: LlmProvider[] = [geminiProvider, mockProvider, openAiCompatibleProvider];
+
+// Chosen per environment with VITE_LLM_PROVIDER (gemini, mock or local). Test builds default
+// to the mock so nothing reaches a real model.
+const DEFAULT_PROVIDER = import.meta.env.MODE === 'test' ? mockProvider.id : geminiProvider.id;
+
+export const getLlmProvider = (): LlmProvider => {
+  const id = import.meta.env.VITE_LLM_PROVIDER || DEFAULT_PROVIDER;
+  const provider = llmProviders.find((candidate) => candidate.id === id);
+  if (!provider) {
+    const known = llmProviders.map((candidate) => candidate.id).join(', ');
+    throw llmError('configuration', id, `Unknown VITE_LLM_PROVIDER "${id}", expected one of ${known}`);
+  }
+  return provider;
+};
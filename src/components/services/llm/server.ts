@@ -0,0 +1,49 @@
+import { auth } from '../../config/firebase';
+import { llmError } from './errors';
+
+// Client for the AI endpoints in api/ai. What other users and the quota rely on, the shared
+// answer cache and usage accounting, is written there with the Admin SDK rather than straight
+// from the browser. Failures are LlmErrors that are never retried: retrying a model request
+// would only reserve quota again.
+
+const SERVER = 'AI server';
+
+export const aiServerRequest = async <T>(
+  action: 'cache' | 'reserve' | 'usage',
+  body: Record<string, unknown>
+): Promise<T> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw llmError('rejected', SERVER, 'Sign in before using the AI endpoints');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`/api/ai/${action}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${await user.getIdToken()}`,
+      },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    throw llmError('rejected', SERVER, `AI ${action} request failed: ${error instanceof Error ? error.message : error}`, {
+      cause: error,
+    });
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (response.status === 429) {
+    throw llmError('quotaExceeded', SERVER, data.error ?? 'Daily AI quota reached', { status: 429 });
+  }
+  if (!response.ok) {
+    throw llmError(
+      'rejected',
+      SERVER,
+      `AI ${action} request failed with status ${response.status}: ${data.error ?? 'unknown error'}`,
+      { status: response.status }
+    );
+  }
+  return data;
+};
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { FirebaseError } from 'firebase/app';
+import { collectionGroup, getDocs, query, where } from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import type { AiUsageDay, LlmProvider, LlmTokenUsage } from '../../types';
+import { aiServerRequest } from './server';
+
+// Per-user AI accounting, one document per UTC day at users/{uid}/aiUsage/{YYYY-MM-DD}. Every
+// model request is counted against the daily quota before it is made, so one user can't exhaust
+// the shared API rate limit; its answer then adds tokens and cost, and cache hits are counted
+// separately. Counting and the quota check happen in api/ai, since clients can't write there.
+
+// Enforced by api/ai/reserve, which reads the same variable; shown in the admin view
+export const DAILY_AI_QUOTA = Number(import.meta.env.VITE_AI_DAILY_QUOTA) || 50;
+
+export const usageDay = (timestamp = Date.now()) => new Date(timestamp).toISOString().slice(0, 10);
+
+// About four characters per token, for providers that don't report usage
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const usageCost = (provider: LlmProvider, usage: LlmTokenUsage) =>
+  provider.pricing
+    ? (usage.inputTokens * provider.pricing.inputPerMillion + usage.outputTokens * provider.pricing.outputPerMillion) / 1e6
+    : 0;
+
+// Rejects with a quotaExceeded LlmError once the day's quota is used up. With the cache key of
+// a shared feature, resolves with the ticket api/ai/cache needs to share the answer.
+export const reserveModelRequest = (feature: string, cacheKey: string | null) =>
+  aiServerRequest<{ remaining: number; ticket: string | null }>('reserve', { feature, cacheKey });
+
+export const recordModelUsage = (feature: string, provider: LlmProvider, usage: LlmTokenUsage) =>
+  aiServerRequest('usage', {
+    feature,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    costUsd: usageCost(provider, usage),
+  });
+
+export const recordCacheHit = (feature: string) => aiServerRequest('usage', { feature, cacheHit: true });
+
+// Every user's usage for one day; Firestore rules only allow this for accounts listed in admins
+export const fetchAiUsage = async (day: string): Promise<AiUsageDay[]> => {
+  const snapshot = await getDocs(query(collectionGroup(db, 'aiUsage'), where('date', '==', day)));
+  return snapshot.docs.map((usageDoc) => usageDoc.data() as AiUsageDay);
+};
+
+export const useAiUsage = (day: string, revision = 0) => {
+  const [usage, setUsage] = useState<AiUsageDay[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetchAiUsage(day)
+      .then((result) => {
+        if (!cancelled) setUsage(result);
+      })
+      .catch((error) => {
+        console.error('Error loading AI usage:', error);
+        if (cancelled) return;
+        setUsage([]);
+        setError(
+          error instanceof FirebaseError && error.code === 'permission-denied'
+            ? 'Only admins can view AI usage.'
+            : 'Unable to load AI usage.'
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [day, revision]);
+
+  return { usage, loading, error };
+};
@@ -0,0 +1,115 @@
+// Map tile layers for the route view. A layer only has to turn tile coordinates into an
+// image URL, so any slippy-map source plugs in: an online provider, tiles bundled under
+// public/, or a custom layer registered at startup. Every URL layer is read through the
+// browser's Cache Storage, so routes viewed once still have a map offline.
+
+export interface TileLayer {
+  id: string;
+  name: string;
+  attribution?: string;
+  maxZoom: number;
+  // null draws the route on a plain grid, which always works offline
+  getTileUrl: (zoom: number, x: number, y: number) => Promise<string | null>;
+}
+
+export const TILE_SIZE = 256;
+
+const TILE_CACHE = 'map-tiles-v1';
+
+export const blankTileLayer: TileLayer = {
+  id: 'none',
+  name: 'No map',
+  maxZoom: 18,
+  getTileUrl: async () => null,
+};
+
+// A layer from a URL template such as https://tile.openstreetmap.org/{z}/{x}/{y}.png
+export const urlTileLayer = ({
+  id,
+  name,
+  urlTemplate,
+  attribution,
+  maxZoom = 18,
+}: Omit<TileLayer, 'getTileUrl' | 'maxZoom'> & { urlTemplate: string; maxZoom?: number }): TileLayer => ({
+  id,
+  name,
+  attribution,
+  maxZoom,
+  getTileUrl: async (zoom, x, y) =>
+    urlTemplate.replace('{z}', String(zoom)).replace('{x}', String(x)).replace('{y}', String(y)),
+});
+
+// Serve tiles from Cache Storage when present, caching every tile fetched online.
+// Returns object URLs; callers revoke them once the tile is off screen.
+export const withOfflineCache = (layer: TileLayer): TileLayer => ({
+  ...layer,
+  getTileUrl: async (zoom, x, y) => {
+    const url = await layer.getTileUrl(zoom, x, y);
+    if (!url || typeof caches === 'undefined') return url;
+
+    try {
+      const cache = await caches.open(TILE_CACHE);
+      let response = await cache.match(url);
+      if (!response) {
+        response = await fetch(url);
+        if (!response.ok) return null;
+        await cache.put(url, response.clone());
+      }
+      return URL.createObjectURL(await response.blob());
+    } catch (error) {
+      // Offline and not cached: the route still draws on the grid
+      console.error(`Map tile ${zoom}/${x}/${y} unavailable:`, error);
+      return null;
+    }
+  },
+});
+
+const tileLayers: TileLayer[] = [
+  blankTileLayer,
+  // e.g. VITE_MAP_TILE_URL=https://tile.openstreetmap.org/{z}/{x}/{y}.png, or /tiles/{z}/{x}/{y}.png
+  // for tiles shipped with the app
+  ...(import.meta.env.VITE_MAP_TILE_URL
+    ? [
+        withOfflineCache(
+          urlTileLayer({
+            id: 'map',
+            name: 'Map',
+            urlTemplate: import.meta.env.VITE_MAP_TILE_URL,
+            attribution: import.meta.env.VITE_MAP_TILE_ATTRIBUTION,
+          })
+        ),
+      ]
+    : []),
+];
+
+export const getTileLayers = () => tileLayers;
+
+// Add a layer at startup, replacing any with the same id
+export const registerTileLayer = (layer: TileLayer) => {
+  const index = tileLayers.findIndex((existing) => existing.id === layer.id);
+  if (index >= 0) tileLayers[index] = layer;
+  else tileLayers.push(layer);
+};
+
+// Web Mercator world pixel coordinates at a zoom level
+export const projectToPixels = (lat: number, lng: number, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((Math.max(-85, Math.min(85, lat)) * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+// The closest zoom at which every point fits in a width x height viewport
+export const fitZoom = (points: { lat: number; lng: number }[], width: number, height: number, maxZoom: number) => {
+  for (let zoom = maxZoom; zoom > 0; zoom--) {
+    const projected = points.map((point) => projectToPixels(point.lat, point.lng, zoom));
+    const xs = projected.map((point) => point.x);
+    const ys = projected.map((point) => point.y);
+    if (Math.max(...xs) - Math.min(...xs) <= width && Math.max(...ys) - Math.min(...ys) <= height) {
+      return zoom;
+    }
+  }
+  return 0;
+};
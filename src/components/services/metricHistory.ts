@@ -0,0 +1,334 @@
+import { useEffect, useState } from 'react';
+import {
+  collection,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  runTransaction,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { HealthMetrics, HistoryMetric, MetricResolution, MetricSummary, TimeSeriesPoint } from '../types';
+
+// Health metric history stored in Firestore as per-minute samples plus hourly and daily rollups:
+//   users/{uid}/metrics_minute/{bucketStart}
+//   users/{uid}/metrics_hour/{bucketStart}
+//   users/{uid}/metrics_day/{bucketStart}
+// Every bucket keeps min/max/sum/count/last per metric so rollups stay exact when
+// several samples land in the same bucket.
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const RESOLUTION_MS: Record<MetricResolution, number> = {
+  minute: MINUTE,
+  hour: HOUR,
+  day: DAY,
+};
+
+// How long each resolution is kept; null keeps it forever
+const RETENTION_MS: Record<MetricResolution, number | null> = {
+  minute: 7 * DAY,
+  hour: 180 * DAY,
+  day: null,
+};
+
+export const HISTORY_METRICS: HistoryMetric[] = [
+  'heartRate', 'steps', 'calories', 'sleep', 'hydration', 'stress', 'distance', 'activeMinutes', 'hrv', 'hrvSdnn',
+  'bodyMass', 'signalQuality', 'power', 'cadence', 'speed', 'strideLength'
+];
+
+// Daily running totals reported by providers; their bucket value is the latest total,
+// everything else is averaged over the bucket
+const CUMULATIVE_METRICS: HistoryMetric[] = ['steps', 'calories', 'distance', 'activeMinutes'];
+
+const PRUNE_INTERVAL = DAY;
+const LAST_PRUNE_KEY = 'metricHistoryLastPrune';
+
+interface MetricBucket {
+  bucketStart: number;
+  resolution: MetricResolution;
+  metrics: Partial<Record<HistoryMetric, MetricSummary>>;
+}
+
+export interface MetricSeriesQuery {
+  metric: HistoryMetric;
+  start: Date;
+  end: Date;
+  resolution?: MetricResolution | 'auto';
+}
+
+const collectionName = (resolution: MetricResolution) => `metrics_${resolution}`;
+
+// Midnight in the browser's time zone; day-level analytics group by the athlete's local day
+export const localDayStart = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Day buckets start at local midnight so they line up with the day-level analytics
+export const bucketStartFor = (timestamp: number, resolution: MetricResolution) =>
+  resolution === 'day'
+    ? localDayStart(timestamp)
+    : Math.floor(timestamp / RESOLUTION_MS[resolution]) * RESOLUTION_MS[resolution];
+
+// Pick the finest resolution that still keeps a chart to a few hundred points
+export const resolveResolution = (start: Date, end: Date): MetricResolution => {
+  const span = end.getTime() - start.getTime();
+  if (span <= 6 * HOUR) return 'minute';
+  if (span <= 14 * DAY) return 'hour';
+  return 'day';
+};
+
+export const mergeSummary = (summary: MetricSummary | undefined, value: number): MetricSummary => {
+  if (!summary) {
+    return { min: value, max: value, sum: value, count: 1, last: value };
+  }
+
+  return {
+    min: Math.min(summary.min, value),
+    max: Math.max(summary.max, value),
+    sum: summary.sum + value,
+    count: summary.count + 1,
+    last: value,
+  };
+};
+
+// Combine two summaries of the same metric; `later` supplies the last value
+export const combineSummaries = (earlier: MetricSummary | undefined, later: MetricSummary): MetricSummary => {
+  if (!earlier) return later;
+
+  return {
+    min: Math.min(earlier.min, later.min),
+    max: Math.max(earlier.max, later.max),
+    sum: earlier.sum + later.sum,
+    count: earlier.count + later.count,
+    last: later.last,
+  };
+};
+
+// Zero is what every provider reports for "no reading", so only positive values are kept
+const extractSampleValues = (metrics: Partial<HealthMetrics>) =>
+  HISTORY_METRICS.reduce<Partial<Record<HistoryMetric, number>>>((values, metric) => {
+    const value = metrics[metric];
+    if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+      values[metric] = value;
+    }
+    return values;
+  }, {});
+
+export interface HealthSample {
+  timestamp: number;
+  metrics: Partial<HealthMetrics>;
+}
+
+// Pre-aggregated values for one point in time, used by bulk importers
+export interface SummarySample {
+  timestamp: number;
+  metrics: Partial<Record<HistoryMetric, MetricSummary>>;
+}
+
+// Transactions are limited to 500 writes
+const MAX_BUCKETS_PER_TRANSACTION = 400;
+
+// Buckets that would be pruned straight away are not worth writing
+const isRetained = (resolution: MetricResolution, bucketStart: number, now: number) => {
+  const retention = RETENTION_MS[resolution];
+  return retention === null || bucketStart + RESOLUTION_MS[resolution] >= now - retention;
+};
+
+// Finest resolution that is still kept for a sample taken at `timestamp`
+export const finestRetainedResolution = (timestamp: number, now: number = Date.now()): MetricResolution =>
+  (['minute', 'hour'] as MetricResolution[]).find((resolution) =>
+    isRetained(resolution, bucketStartFor(timestamp, resolution), now)
+  ) ?? 'day';
+
+// Merge summaries into their minute buckets and roll them up into the hour and day buckets.
+// Everything is merged locally first so a long import costs one write per bucket.
+export const recordMetricSummaries = async (userId: string, samples: SummarySample[]) => {
+  const now = Date.now();
+  const pending = new Map<string, { resolution: MetricResolution; bucketStart: number; metrics: MetricBucket['metrics'] }>();
+
+  [...samples]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(({ timestamp, metrics }) => {
+      const entries = Object.entries(metrics) as [HistoryMetric, MetricSummary][];
+      if (entries.length === 0) return;
+
+      (['minute', 'hour', 'day'] as MetricResolution[]).forEach((resolution) => {
+        const bucketStart = bucketStartFor(timestamp, resolution);
+        if (!isRetained(resolution, bucketStart, now)) return;
+
+        const key = `${resolution}/${bucketStart}`;
+        if (!pending.has(key)) {
+          pending.set(key, { resolution, bucketStart, metrics: {} });
+        }
+        const bucketMetrics = pending.get(key)!.metrics;
+        entries.forEach(([metric, summary]) => {
+          bucketMetrics[metric] = combineSummaries(bucketMetrics[metric], summary);
+        });
+      });
+    });
+
+  const buckets = [...pending.values()].sort((a, b) => a.bucketStart - b.bucketStart);
+  for (let i = 0; i < buckets.length; i += MAX_BUCKETS_PER_TRANSACTION) {
+    const chunk = buckets.slice(i, i + MAX_BUCKETS_PER_TRANSACTION);
+    const refs = chunk.map(({ resolution, bucketStart }) =>
+      doc(db, 'users', userId, collectionName(resolution), String(bucketStart))
+    );
+
+    await runTransaction(db, async (transaction) => {
+      const snapshots = await Promise.all(refs.map((ref) => transaction.get(ref)));
+
+      snapshots.forEach((snapshot, index) => {
+        const { resolution, bucketStart, metrics } = chunk[index];
+        const bucket: MetricBucket = snapshot.exists()
+          ? (snapshot.data() as MetricBucket)
+          : { bucketStart, resolution, metrics: {} };
+
+        (Object.entries(metrics) as [HistoryMetric, MetricSummary][]).forEach(([metric, summary]) => {
+          bucket.metrics[metric] = combineSummaries(bucket.metrics[metric], summary);
+        });
+
+        transaction.set(refs[index], bucket);
+      });
+    });
+  }
+
+  if (buckets.length > 0) {
+    await pruneMetricHistoryIfDue(userId);
+  }
+};
+
+// Append raw samples, e.g. from a live provider or an imported workout
+export const recordHealthSamples = (userId: string, samples: HealthSample[]) =>
+  recordMetricSummaries(
+    userId,
+    samples.map(({ timestamp, metrics }) => ({
+      timestamp,
+      metrics: Object.fromEntries(
+        Object.entries(extractSampleValues(metrics)).map(([metric, value]) => [metric, mergeSummary(undefined, value!)])
+      ),
+    }))
+  );
+
+// Append a single live sample
+export const recordHealthSample = (
+  userId: string,
+  metrics: Partial<HealthMetrics>,
+  timestamp: number = Date.now()
+) => recordHealthSamples(userId, [{ timestamp, metrics }]);
+
+const summaryValue = (metric: HistoryMetric, summary: MetricSummary) =>
+  CUMULATIVE_METRICS.includes(metric) ? summary.last : summary.sum / summary.count;
+
+// Query several metrics over a time range in one read of the bucket documents
+export const queryMetricSeriesBatch = async <M extends HistoryMetric>(
+  userId: string,
+  metrics: M[],
+  { start, end, resolution = 'auto' }: Omit<MetricSeriesQuery, 'metric'>
+): Promise<Record<M, TimeSeriesPoint[]>> => {
+  const resolved = resolution === 'auto' ? resolveResolution(start, end) : resolution;
+
+  const snapshot = await getDocs(
+    query(
+      collection(db, 'users', userId, collectionName(resolved)),
+      where('bucketStart', '>=', bucketStartFor(start.getTime(), resolved)),
+      where('bucketStart', '<=', end.getTime()),
+      orderBy('bucketStart', 'asc')
+    )
+  );
+
+  const series = Object.fromEntries(metrics.map((metric) => [metric, []])) as unknown as Record<M, TimeSeriesPoint[]>;
+  snapshot.docs.forEach((bucketDoc) => {
+    const bucket = bucketDoc.data() as MetricBucket;
+    metrics.forEach((metric) => {
+      const summary = bucket.metrics[metric];
+      if (summary) {
+        series[metric].push({
+          timestamp: bucket.bucketStart,
+          value: Math.round(summaryValue(metric, summary) * 10) / 10,
+          min: summary.min,
+          max: summary.max,
+          count: summary.count,
+        });
+      }
+    });
+  });
+
+  return series;
+};
+
+// Query a single metric over a time range at the requested (or automatically chosen) resolution
+export const queryMetricSeries = async (userId: string, { metric, ...range }: MetricSeriesQuery) =>
+  (await queryMetricSeriesBatch(userId, [metric], range))[metric];
+
+// Delete buckets that fall outside their resolution's retention window
+export const pruneMetricHistory = async (userId: string, now: number = Date.now()) => {
+  for (const resolution of Object.keys(RETENTION_MS) as MetricResolution[]) {
+    const retention = RETENTION_MS[resolution];
+    if (retention === null) continue;
+
+    const expired = await getDocs(
+      query(
+        collection(db, 'users', userId, collectionName(resolution)),
+        where('bucketStart', '<', now - retention)
+      )
+    );
+
+    // Firestore batches are limited to 500 writes
+    for (let i = 0; i < expired.docs.length; i += 500) {
+      const batch = writeBatch(db);
+      expired.docs.slice(i, i + 500).forEach((expiredDoc) => batch.delete(expiredDoc.ref));
+      await batch.commit();
+    }
+  }
+};
+
+const pruneMetricHistoryIfDue = async (userId: string) => {
+  const lastPrune = Number(localStorage.getItem(LAST_PRUNE_KEY) || 0);
+  if (Date.now() - lastPrune < PRUNE_INTERVAL) return;
+
+  localStorage.setItem(LAST_PRUNE_KEY, String(Date.now()));
+  try {
+    await pruneMetricHistory(userId);
+  } catch (error) {
+    console.error('Error pruning metric history:', error);
+  }
+};
+
+// React hook for charting a metric series; refetches whenever the query changes
+export const useMetricSeries = (userId: string | undefined, seriesQuery: MetricSeriesQuery) => {
+  const [points, setPoints] = useState<TimeSeriesPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { metric, resolution } = seriesQuery;
+  // Rounded to the minute so callers can pass `new Date()` without refetching on every render
+  const start = bucketStartFor(seriesQuery.start.getTime(), 'minute');
+  const end = bucketStartFor(seriesQuery.end.getTime(), 'minute') + MINUTE;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    queryMetricSeries(userId, { metric, resolution, start: new Date(start), end: new Date(end) })
+      .then((result) => {
+        if (!cancelled) setPoints(result);
+      })
+      .catch((error) => console.error(`Error loading ${metric} history:`, error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, metric, resolution, start, end]);
+
+  return { points, loading };
+};
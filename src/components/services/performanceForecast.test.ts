@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { forecastTest } from './performanceForecast';
+import type { PerformanceTestId, PerformanceTestResult } from '../types';
+
+const WEEK = 7 * 24 * 60 * 60 * 1000;
+const now = new Date(2026, 9, 19).getTime();
+
+// Results at the given weeks relative to now, e.g. -3 for three weeks ago
+const results = (test: PerformanceTestId, values: [weeks: number, value: number][]): PerformanceTestResult[] =>
+  values.map(([weeks, value]) => ({ id: `${test}-${weeks}`, test, value, date: now + weeks * WEEK, createdAt: 0 }));
+
+const noLoad = () => undefined;
+
+describe('forecastTest', () => {
+  it('needs three results at least two weeks apart', () => {
+    expect(forecastTest(results('verticalJump', [[-2, 40], [0, 42]]), noLoad, null, now)).toBeNull();
+    expect(forecastTest(results('verticalJump', [[-1, 40], [-0.5, 41], [0, 42]]), noLoad, null, now)).toBeNull();
+  });
+
+  it('projects a perfectly linear trend with no spread', () => {
+    const forecast = forecastTest(results('verticalJump', [[-3, 40], [-2, 41], [-1, 42], [0, 43]]), noLoad, null, now);
+
+    expect(forecast?.weeklyChange).toBe(1);
+    expect(forecast?.points[0]).toMatchObject({ weeks: 4, value: 47, low: 47, high: 47 });
+  });
+
+  it('gives an 80% prediction interval from the residuals and leverage', () => {
+    // OLS: slope 0.8, intercept 42.7, residual variance 0.9 on 2 degrees of freedom. At 4 weeks
+    // leverage is 1/4 + 5.5² / 5 = 6.3, so the margin is t(0.9, 2) x √(0.9 x 7.3) = 4.83
+    const forecast = forecastTest(results('verticalJump', [[-3, 40], [-2, 42], [-1, 41], [0, 43]]), noLoad, null, now)!;
+    const [fourWeeks, eightWeeks, twelveWeeks] = forecast.points;
+
+    expect(forecast.weeklyChange).toBe(0.8);
+    expect(fourWeeks.value).toBe(45.9);
+    expect(fourWeeks.low).toBe(41.07);
+    expect(fourWeeks.high).toBe(50.73);
+    // Further from the data the interval widens
+    expect(eightWeeks.high - eightWeeks.low).toBeGreaterThan(fourWeeks.high - fourWeeks.low);
+    expect(twelveWeeks.high - twelveWeeks.low).toBeGreaterThan(eightWeeks.high - eightWeeks.low);
+  });
+
+  it('never projects past what the test allows', () => {
+    const forecast = forecastTest(results('sprint30m', [[-8, 4.4], [-4, 3.9], [0, 3.4]]), noLoad, null, now)!;
+    expect(forecast.points[2]).toMatchObject({ value: 3, low: 3 });
+  });
+
+  it('fits fitness alongside time once there are six results', () => {
+    // value = 50 + 0.5 per week + 0.2 per point of fitness
+    const fitnessByWeek = [40, 60, 45, 70, 50, 65]; // weeks -5 to 0
+    const history = results(
+      'backSquat1rm',
+      fitnessByWeek.map((fitness, index) => [index - 5, 50 + 0.5 * (index - 5) + 0.2 * fitness])
+    );
+    const fitnessOn = (date: number) => fitnessByWeek[Math.round((date - now) / WEEK) + 5];
+    const forecast = forecastTest(history, fitnessOn, 65, now)!;
+
+    expect(forecast.weeklyChange).toBe(0.5);
+    expect(forecast.loadEffect).toBe(2);
+    expect(forecast.fitness).toBe(65);
+    expect(forecast.points[0].value).toBe(65);
+  });
+
+  it('leaves fitness out when it rises in step with time', () => {
+    const history = results('backSquat1rm', [[-5, 100], [-4, 101], [-3, 102], [-2, 103], [-1, 104], [0, 105]]);
+    const forecast = forecastTest(history, (date) => 100 + (date - now) / WEEK, 100, now)!;
+
+    expect(forecast.loadEffect).toBeNull();
+    expect(forecast.weeklyChange).toBe(1);
+  });
+});
@@ -0,0 +1,274 @@
+import { useEffect, useState } from 'react';
+import { collection, deleteDoc, doc, getDocs, orderBy, query, setDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type {
+  ForecastPoint,
+  PerformanceForecast,
+  PerformanceTestId,
+  PerformanceTestResult,
+  UnitQuantity,
+  UnitSystem,
+} from '../types';
+import { getTrainingLoad } from './trainingLoad';
+import { formatUnits } from './units';
+
+// Forecasts of field test results (sprint time, vertical jump, 1RM) from the athlete's own
+// history. Each test gets a least-squares trend over time; with enough results, fitness (CTL)
+// on the test day is fitted alongside it so the projection reflects how the athlete responds
+// to training load. Projections come with 80% prediction intervals, which widen with distance
+// from the data and with how noisy the results are.
+// Results are stored at users/{uid}/testResults/{id}.
+
+const DAY = 24 * 60 * 60 * 1000;
+const WEEK = 7 * DAY;
+
+export const FORECAST_WEEKS = [4, 8, 12];
+
+const MIN_RESULTS = 3;
+const MIN_SPAN = 14 * DAY; // results closer together than this show noise, not a trend
+const MIN_RESULTS_WITH_LOAD = 6;
+// Above this correlation fitness and time can't be told apart, so load is left out
+const MAX_COLLINEARITY = 0.9;
+const MAX_HISTORY_DAYS = 365;
+
+interface PerformanceTest {
+  label: string;
+  quantity?: UnitQuantity; // converted for display; otherwise shown in `unit`
+  unit: string;
+  digits: number;
+  lowerIsBetter: boolean;
+  min: number; // projections never go below this
+}
+
+export const PERFORMANCE_TESTS: Record<PerformanceTestId, PerformanceTest> = {
+  sprint30m: { label: '30 m sprint', unit: 's', digits: 2, lowerIsBetter: true, min: 3 },
+  verticalJump: { label: 'Vertical jump', quantity: 'length', unit: 'cm', digits: 0, lowerIsBetter: false, min: 0 },
+  backSquat1rm: { label: 'Back squat 1RM', quantity: 'weight', unit: 'kg', digits: 1, lowerIsBetter: false, min: 0 },
+  benchPress1rm: { label: 'Bench press 1RM', quantity: 'weight', unit: 'kg', digits: 1, lowerIsBetter: false, min: 0 },
+};
+
+export const formatTestValue = (test: PerformanceTestId, value: number, system: UnitSystem) => {
+  const { quantity, unit, digits } = PERFORMANCE_TESTS[test];
+  return quantity ? formatUnits(quantity, value, system) : `${value.toFixed(digits)} ${unit}`;
+};
+
+const signed = (test: PerformanceTestId, change: number, system: UnitSystem) =>
+  `${change >= 0 ? '+' : '-'}${formatTestValue(test, Math.abs(change), system)}`;
+
+// One line per forecast, as handed to the model to narrate
+export const describeForecast = (
+  { test, latest, resultCount, weeklyChange, loadEffect, points }: PerformanceForecast,
+  system: UnitSystem
+) =>
+  `${PERFORMANCE_TESTS[test].label} (${PERFORMANCE_TESTS[test].lowerIsBetter ? 'lower is better' : 'higher is better'}): ` +
+  `latest ${formatTestValue(test, latest.value, system)} on ${new Date(latest.date).toDateString()}, ${resultCount} results. ` +
+  `Trend ${signed(test, weeklyChange, system)} per week` +
+  (loadEffect === null ? '. ' : `, ${signed(test, loadEffect, system)} per 10 points of fitness (CTL). `) +
+  'Projected: ' +
+  points
+    .map(
+      (point) =>
+        `${point.weeks} weeks ${formatTestValue(test, point.value, system)} ` +
+        `(80% range ${formatTestValue(test, point.low, system)} to ${formatTestValue(test, point.high, system)})`
+    )
+    .join(', ');
+
+// Two-sided 80% quantiles of Student's t by degrees of freedom
+const T_QUANTILES: [number, number][] = [
+  [1, 3.078], [2, 1.886], [3, 1.638], [4, 1.533], [5, 1.476], [6, 1.44], [7, 1.415], [8, 1.397],
+  [9, 1.383], [10, 1.372], [12, 1.356], [15, 1.341], [20, 1.325], [30, 1.31], [Infinity, 1.282],
+];
+
+const tQuantile = (degrees: number) => T_QUANTILES.find(([maxDegrees]) => degrees <= maxDegrees)![1];
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+// Gauss-Jordan elimination with partial pivoting; null when the matrix is singular
+const invert = (matrix: number[][]): number[][] | null => {
+  const size = matrix.length;
+  const rows = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let column = 0; column < size; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][column]) < 1e-10) return null;
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    const scale = rows[column][column];
+    rows[column] = rows[column].map((value) => value / scale);
+    rows.forEach((row, index) => {
+      if (index === column) return;
+      const factor = row[column];
+      rows[index] = row.map((value, j) => value - factor * rows[column][j]);
+    });
+  }
+  return rows.map((row) => row.slice(size));
+};
+
+interface LeastSquaresFit {
+  coefficients: number[];
+  inverse: number[][]; // (XᵀX)⁻¹
+  variance: number; // residual variance
+  degrees: number;
+}
+
+const fitLeastSquares = (rows: number[][], values: number[]): LeastSquaresFit | null => {
+  const size = rows[0].length;
+  const degrees = rows.length - size;
+  if (degrees < 1) return null;
+
+  const normal = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+  const inverse = invert(normal);
+  if (!inverse) return null;
+
+  const moments = Array.from({ length: size }, (_, i) => rows.reduce((sum, row, k) => sum + row[i] * values[k], 0));
+  const coefficients = inverse.map((row) => dot(row, moments));
+  const squaredError = rows.reduce((sum, row, k) => sum + (values[k] - dot(row, coefficients)) ** 2, 0);
+  return { coefficients, inverse, variance: squaredError / degrees, degrees };
+};
+
+// Prediction interval for a new result, not just the trend line
+const predict = ({ coefficients, inverse, variance, degrees }: LeastSquaresFit, x: number[]) => {
+  const leverage = dot(x, inverse.map((row) => dot(row, x)));
+  return { value: dot(x, coefficients), margin: tQuantile(degrees) * Math.sqrt(variance * (1 + leverage)) };
+};
+
+const correlation = (a: number[], b: number[]) => {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  const covariance = dot(a.map((value) => value - meanA), b.map((value) => value - meanB));
+  const spread = Math.sqrt(
+    dot(a.map((value) => value - meanA), a.map((value) => value - meanA)) *
+      dot(b.map((value) => value - meanB), b.map((value) => value - meanB))
+  );
+  return spread === 0 ? 1 : covariance / spread;
+};
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Forecast for one test from its results in date order. fitnessOn gives fitness (CTL) on a
+// result's day and `fitness` today's; without them only the trend over time is fitted.
+// Null until there are enough results over a long enough span.
+export const forecastTest = (
+  results: PerformanceTestResult[],
+  fitnessOn: (date: number) => number | undefined,
+  fitness: number | null,
+  now: number = Date.now()
+): PerformanceForecast | null => {
+  if (results.length < MIN_RESULTS) return null;
+  const latest = results[results.length - 1];
+  if (latest.date - results[0].date < MIN_SPAN) return null;
+
+  const { min } = PERFORMANCE_TESTS[latest.test];
+  const values = results.map((result) => result.value);
+  // Weeks relative to today, so the intercept is today's expected level
+  const weeks = results.map((result) => (result.date - now) / WEEK);
+  const loads = results.map((result) => fitnessOn(result.date));
+
+  const withLoad =
+    fitness !== null &&
+    results.length >= MIN_RESULTS_WITH_LOAD &&
+    loads.every((load) => load !== undefined) &&
+    Math.abs(correlation(weeks, loads as number[])) <= MAX_COLLINEARITY
+      ? fitLeastSquares(results.map((_, k) => [1, weeks[k], loads[k]!]), values)
+      : null;
+  const fit = withLoad ?? fitLeastSquares(results.map((_, k) => [1, weeks[k]]), values);
+  if (!fit) return null;
+
+  const points: ForecastPoint[] = FORECAST_WEEKS.map((ahead) => {
+    const { value, margin } = predict(fit, withLoad ? [1, ahead, fitness!] : [1, ahead]);
+    return {
+      weeks: ahead,
+      date: now + ahead * WEEK,
+      value: round(Math.max(min, value)),
+      low: round(Math.max(min, value - margin)),
+      high: round(Math.max(min, value + margin)),
+    };
+  });
+
+  return {
+    test: latest.test,
+    latest,
+    resultCount: results.length,
+    weeklyChange: round(fit.coefficients[1], 3),
+    loadEffect: withLoad ? round(withLoad.coefficients[2] * 10, 3) : null,
+    fitness: withLoad ? fitness : null,
+    points,
+  };
+};
+
+const resultsRef = (userId: string) => collection(db, 'users', userId, 'testResults');
+
+export const fetchTestResults = async (userId: string) => {
+  const snapshot = await getDocs(query(resultsRef(userId), orderBy('date', 'asc')));
+  return snapshot.docs.map((resultDoc) => resultDoc.data() as PerformanceTestResult);
+};
+
+export const logTestResult = (userId: string, { test, value, date }: Pick<PerformanceTestResult, 'test' | 'value' | 'date'>) => {
+  const resultRef = doc(resultsRef(userId));
+  const result: PerformanceTestResult = { id: resultRef.id, test, value, date, createdAt: Date.now() };
+  return setDoc(resultRef, result);
+};
+
+export const deleteTestResult = (userId: string, resultId: string) => deleteDoc(doc(resultsRef(userId), resultId));
+
+// Every logged result with a forecast for each test that has enough of them
+export const getPerformanceForecasts = async (userId: string, now: number = Date.now()) => {
+  const results = await fetchTestResults(userId);
+  if (results.length === 0) return { results, forecasts: [] };
+
+  // Load history back to the first result; forecasts fall back to trend only without it
+  const days = Math.min(MAX_HISTORY_DAYS, Math.ceil((now - results[0].date) / DAY) + 1);
+  const trainingLoad = await getTrainingLoad(userId, days, now).catch((error) => {
+    console.error('Error loading training load for forecasts:', error);
+    return null;
+  });
+  const fitnessByDay = new Map(trainingLoad?.days.map((day) => [day.date, day.fitness]));
+  const fitness = trainingLoad?.summary?.fitness ?? null;
+
+  const forecasts = (Object.keys(PERFORMANCE_TESTS) as PerformanceTestId[])
+    .map((test) =>
+      forecastTest(
+        results.filter((result) => result.test === test),
+        (date) => fitnessByDay.get(date),
+        fitness,
+        now
+      )
+    )
+    .filter((forecast): forecast is PerformanceForecast => forecast !== null);
+
+  return { results, forecasts };
+};
+
+// React hook for test results and forecasts; `revision` lets callers refetch after logging
+export const usePerformanceForecasts = (userId: string | undefined, revision = 0) => {
+  const [results, setResults] = useState<PerformanceTestResult[]>([]);
+  const [forecasts, setForecasts] = useState<PerformanceForecast[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    getPerformanceForecasts(userId)
+      .then((result) => {
+        if (cancelled) return;
+        setResults(result.results);
+        setForecasts(result.forecasts);
+      })
+      .catch((error) => console.error('Error loading performance forecasts:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, revision]);
+
+  return { results, forecasts, loading };
+};
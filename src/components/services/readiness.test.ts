@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { buildDailyInputs, computeBaseline, computeReadiness, type DailyReadinessInputs } from './readiness';
+import type { TimeSeriesPoint, TrainingLoadSummary } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const start = new Date(2026, 0, 1).getTime();
+
+// 28 baseline days alternating around a mean, then today
+const history = (values: (index: number) => Partial<DailyReadinessInputs>, today: Partial<DailyReadinessInputs>) =>
+  [
+    ...Array.from({ length: 28 }, (_, index) => ({ date: start + index * DAY, trainingLoad: 0, ...values(index) })),
+    { date: start + 28 * DAY, trainingLoad: 0, ...today },
+  ];
+
+const load = (acwr: number | null): TrainingLoadSummary => ({
+  date: start + 28 * DAY,
+  weeklyLoad: 700,
+  acwr,
+  acwrEwma: acwr,
+  fitness: 80,
+  fatigue: 100,
+  form: -20,
+  monotony: null,
+  strain: null,
+});
+
+describe('computeBaseline', () => {
+  it('needs a week of values', () => {
+    expect(computeBaseline([60, 61, 62, 63, 64, 65])).toBeNull();
+  });
+
+  it('reports the mean and sample standard deviation', () => {
+    expect(computeBaseline([58, 62, 58, 62, 58, 62, 58, 62])).toEqual({ mean: 60, standardDeviation: 2.1, days: 8 });
+  });
+});
+
+describe('computeReadiness', () => {
+  it('scores a factor from its z-score against the personal baseline', () => {
+    // HRV alternates 58/62, a baseline of 60 ± 2; today is one standard deviation above
+    const days = history((index) => ({ hrv: index % 2 ? 62 : 58 }), { hrv: 62 });
+    const [hrv] = computeReadiness(days, null).components;
+
+    expect(hrv.factor).toBe('hrv');
+    expect(hrv.zScore).toBe(1);
+    expect(hrv.score).toBe(85);
+    expect(hrv.outOfRange).toBe(false);
+  });
+
+  it('scores a higher resting heart rate as worse', () => {
+    const days = history((index) => ({ restingHeartRate: index % 2 ? 52 : 48 }), { restingHeartRate: 54.2 });
+    const [restingHeartRate] = computeReadiness(days, null).components;
+
+    expect(restingHeartRate.zScore).toBe(2.1);
+    expect(restingHeartRate.score).toBe(39);
+    expect(restingHeartRate.outOfRange).toBe(true);
+  });
+
+  it('flags a reading more than two standard deviations from the baseline', () => {
+    const days = history((index) => ({ hrv: index % 2 ? 62 : 58 }), { hrv: 50 });
+    const readiness = computeReadiness(days, null);
+
+    expect(readiness.components[0].outOfRange).toBe(true);
+    expect(readiness.flagged).toBe(true);
+  });
+
+  it('flags a load ratio above 1.5 and skips an unknown one', () => {
+    const days = history(() => ({}), {});
+    const spiking = computeReadiness(days, load(1.6));
+    expect(spiking.components).toEqual([expect.objectContaining({ factor: 'trainingLoad', score: 20, outOfRange: true })]);
+    expect(spiking.flagged).toBe(true);
+
+    expect(computeReadiness(days, load(null)).components).toEqual([]);
+  });
+
+  it('has no score until a factor has a baseline', () => {
+    const days = history((index) => (index < 25 ? {} : { hrv: 60 }), { hrv: 60 });
+    expect(computeReadiness(days, null).score).toBeNull();
+  });
+
+  it('scores imported SDNN against its own baseline when the day has no RMSSD', () => {
+    // RMSSD around 40 on some days, SDNN around 80 on others; they must not share a baseline
+    const days = history(
+      (index) => (index < 14 ? { hrv: index % 2 ? 42 : 38 } : { hrvSdnn: index % 2 ? 82 : 78 }),
+      { hrvSdnn: 80 }
+    );
+    const [hrv] = computeReadiness(days, null).components;
+
+    expect(hrv).toMatchObject({ factor: 'hrv', measure: 'sdnn', value: 80, zScore: 0, score: 70 });
+    expect(hrv.baseline?.mean).toBe(80);
+  });
+});
+
+describe('buildDailyInputs', () => {
+  it('prefers overnight HRV and keeps RMSSD and SDNN apart', () => {
+    const point = (hour: number, value: number): TimeSeriesPoint => ({
+      timestamp: start + hour * 60 * 60 * 1000,
+      value,
+      min: value,
+      max: value,
+      count: 1,
+    });
+    const [day] = buildDailyInputs(
+      {
+        hrv: [point(3, 60), point(15, 30)],
+        hrvSdnn: [point(15, 90)],
+        heartRate: [point(4, 50), point(12, 90)],
+        sleep: [],
+      },
+      new Map([[start, 120]]),
+      start,
+      start + 23 * 60 * 60 * 1000
+    );
+
+    expect(day).toMatchObject({ hrv: 60, hrvSdnn: 90, restingHeartRate: 50, trainingLoad: 120 });
+  });
+});
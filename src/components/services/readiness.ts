@@ -0,0 +1,274 @@
+import { useEffect, useState } from 'react';
+import { localDayStart, queryMetricSeriesBatch } from './metricHistory';
+import { SLEEP_DEBT_DAYS, SLEEP_DEBT_LIMIT, computeSleepAnalytics, fetchSleepSessions } from './sleep';
+import { getTrainingLoad } from './trainingLoad';
+import type {
+  ReadinessBaseline,
+  ReadinessComponent,
+  ReadinessFactor,
+  ReadinessScore,
+  SleepSession,
+  TimeSeriesPoint,
+  TrainingLoadSummary,
+} from '../types';
+
+// Daily readiness from overnight HRV, resting heart rate, sleep, sleep debt and recent training load.
+// Each factor is compared against the athlete's own rolling baseline (the previous 28 days)
+// rather than population norms, so a value is only "low" relative to what is normal for them.
+// HRV is RMSSD from RR intervals when the day has it, otherwise imported SDNN, which is a
+// different measure on a different scale and so is scored against a baseline of its own.
+
+const DAY = 24 * 60 * 60 * 1000;
+const BASELINE_DAYS = 28;
+const MIN_BASELINE_DAYS = 7;
+// Hours counted as "overnight" for HRV, local time
+const OVERNIGHT_END_HOUR = 7;
+// Readings more than two standard deviations from the baseline are flagged
+const OUT_OF_RANGE_Z = 2;
+// Acute:chronic load ratio above which the training load factor is flagged
+const LOAD_RATIO_LIMIT = 1.5;
+
+const FACTOR_WEIGHTS: Record<ReadinessFactor, number> = {
+  hrv: 0.35,
+  restingHeartRate: 0.25,
+  sleep: 0.15,
+  sleepDebt: 0.1,
+  trainingLoad: 0.15,
+};
+
+type BaselineFactor = Exclude<ReadinessFactor, 'trainingLoad' | 'sleepDebt'>;
+// Inputs a baseline is built from; SDNN stands in for the hrv factor
+type BaselineInput = BaselineFactor | 'hrvSdnn';
+
+// Higher HRV and more sleep are good; a higher resting heart rate is not
+const FACTOR_DIRECTION: Record<BaselineFactor, 1 | -1> = {
+  hrv: 1,
+  restingHeartRate: -1,
+  sleep: 1,
+};
+
+export interface DailyReadinessInputs {
+  date: number;
+  hrv?: number; // RMSSD
+  hrvSdnn?: number;
+  restingHeartRate?: number;
+  sleep?: number;
+  sleepDebt?: number;
+  trainingLoad: number;
+}
+
+const clamp = (value: number) => Math.min(100, Math.max(0, Math.round(value)));
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export const computeBaseline = (values: number[]): ReadinessBaseline | null => {
+  if (values.length < MIN_BASELINE_DAYS) return null;
+  const average = mean(values);
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+  return {
+    mean: Math.round(average * 10) / 10,
+    standardDeviation: Math.round(Math.sqrt(variance) * 10) / 10,
+    days: values.length,
+  };
+};
+
+// Daytime HRV is dominated by activity; prefer overnight readings when there are any
+const dailyHrv = (points: TimeSeriesPoint[] = []) => {
+  const overnight = points.filter((point) => new Date(point.timestamp).getHours() < OVERNIGHT_END_HOUR);
+  const source = overnight.length ? overnight : points;
+  return source.length ? mean(source.map((point) => point.value)) : undefined;
+};
+
+const groupByLocalDay = (points: TimeSeriesPoint[]) =>
+  points.reduce((days, point) => {
+    const day = localDayStart(point.timestamp);
+    days.set(day, [...(days.get(day) ?? []), point]);
+    return days;
+  }, new Map<number, TimeSeriesPoint[]>());
+
+// Collapse hourly history and sessions into one set of readiness inputs per local day.
+// Staged sleep sessions take precedence over the sleep hours in metric history.
+export const buildDailyInputs = (
+  series: { hrv: TimeSeriesPoint[]; hrvSdnn?: TimeSeriesPoint[]; heartRate: TimeSeriesPoint[]; sleep: TimeSeriesPoint[] },
+  dailyLoads: Map<number, number>,
+  start: number,
+  end: number,
+  sleepSessions: SleepSession[] = []
+): DailyReadinessInputs[] => {
+  const hrvByDay = groupByLocalDay(series.hrv);
+  const hrvSdnnByDay = groupByLocalDay(series.hrvSdnn ?? []);
+  const heartRateByDay = groupByLocalDay(series.heartRate);
+  const sleepByDay = groupByLocalDay(series.sleep);
+  const sessionSleep = new Map(sleepSessions.map((session) => [session.date, session.totalSleep / 60]));
+  const sleepDebt = sleepSessions.length
+    ? new Map(
+        computeSleepAnalytics(sleepSessions, { now: end, days: Math.round((end - start) / DAY) + 1 }).days
+          .map((day) => [day.date, day.sleepDebt])
+      )
+    : new Map<number, number>();
+  const days: DailyReadinessInputs[] = [];
+
+  for (let day = localDayStart(start); day <= end; day = localDayStart(day + DAY + DAY / 2)) {
+    const heartRatePoints = heartRateByDay.get(day) ?? [];
+    const sleepPoints = sleepByDay.get(day) ?? [];
+
+    days.push({
+      date: day,
+      hrv: dailyHrv(hrvByDay.get(day)),
+      hrvSdnn: dailyHrv(hrvSdnnByDay.get(day)),
+      // Lowest hourly average, which is far less noisy than the single lowest reading
+      restingHeartRate: heartRatePoints.length ? Math.min(...heartRatePoints.map((point) => point.value)) : undefined,
+      sleep: sessionSleep.get(day) ?? (sleepPoints.length ? Math.max(...sleepPoints.map((point) => point.value)) : undefined),
+      sleepDebt: sleepDebt.get(day),
+      trainingLoad: dailyLoads.get(day) ?? 0,
+    });
+  }
+
+  return days;
+};
+
+const scoreFromZ = (zScore: number) => clamp(70 + 15 * zScore);
+
+const baselineComponent = (
+  factor: BaselineFactor,
+  value: number | undefined,
+  history: DailyReadinessInputs[],
+  input: BaselineInput = factor
+): ReadinessComponent | null => {
+  if (value === undefined) return null;
+
+  const baseline = computeBaseline(
+    history.map((day) => day[input]).filter((entry): entry is number => entry !== undefined)
+  );
+  const zScore = baseline && baseline.standardDeviation > 0
+    ? Math.round(((value - baseline.mean) / baseline.standardDeviation) * 100) / 100
+    : null;
+
+  return {
+    factor,
+    value: Math.round(value * 10) / 10,
+    baseline,
+    zScore,
+    score: zScore === null ? null : scoreFromZ(FACTOR_DIRECTION[factor] * zScore),
+    outOfRange: zScore !== null && Math.abs(zScore) > OUT_OF_RANGE_Z,
+  };
+};
+
+// RMSSD against its baseline, or failing that SDNN against the SDNN baseline, never mixed
+const hrvComponent = (today: DailyReadinessInputs, history: DailyReadinessInputs[]): ReadinessComponent | null => {
+  if (today.hrv !== undefined) return baselineComponent('hrv', today.hrv, history);
+  const component = baselineComponent('hrv', today.hrvSdnn, history, 'hrvSdnn');
+  return component && { ...component, measure: 'sdnn' };
+};
+
+// Hours owed against the athlete's sleep need over the last two weeks
+const sleepDebtComponent = (value: number | undefined, history: DailyReadinessInputs[]): ReadinessComponent | null => {
+  if (value === undefined) return null;
+
+  return {
+    factor: 'sleepDebt',
+    value,
+    baseline: computeBaseline(
+      history.map((day) => day.sleepDebt).filter((entry): entry is number => entry !== undefined)
+    ),
+    zScore: null,
+    // Full marks with no debt, falling to zero at ten hours
+    score: clamp(100 - value * 10),
+    outOfRange: value > SLEEP_DEBT_LIMIT,
+  };
+};
+
+// Acute:chronic workload ratio from the training load engine
+const loadComponent = (load: TrainingLoadSummary | null, history: DailyReadinessInputs[]): ReadinessComponent | null => {
+  if (!load || load.acwr === null) return null;
+
+  return {
+    factor: 'trainingLoad',
+    value: load.acwr,
+    baseline: computeBaseline(history.map((day) => day.trainingLoad)),
+    zScore: null,
+    // Full marks up to a ratio of 0.8, falling to zero at 1.8
+    score: clamp(100 - Math.max(0, load.acwr - 0.8) * 100),
+    outOfRange: load.acwr > LOAD_RATIO_LIMIT,
+  };
+};
+
+// Score the last day of `days` against the days before it
+export const computeReadiness = (days: DailyReadinessInputs[], load: TrainingLoadSummary | null): ReadinessScore => {
+  const today = days[days.length - 1];
+  const history = days.slice(-BASELINE_DAYS - 1, -1);
+
+  const components = [
+    hrvComponent(today, history),
+    baselineComponent('restingHeartRate', today.restingHeartRate, history),
+    baselineComponent('sleep', today.sleep, history),
+    sleepDebtComponent(today.sleepDebt, history),
+    loadComponent(load, history),
+  ].filter((component): component is ReadinessComponent => component !== null);
+
+  // Weights are renormalised over whichever factors have a baseline
+  const scored = components.filter((component) => component.score !== null);
+  const totalWeight = scored.reduce((sum, component) => sum + FACTOR_WEIGHTS[component.factor], 0);
+  const score = totalWeight > 0
+    ? clamp(scored.reduce((sum, component) => sum + component.score! * FACTOR_WEIGHTS[component.factor], 0) / totalWeight)
+    : null;
+
+  // Fatigue reflects the load and cardiovascular strain factors rather than sleep
+  const strain = scored.filter((component) => component.factor === 'trainingLoad' || component.factor === 'restingHeartRate');
+  const fatigueLevel = strain.length
+    ? clamp(100 - mean(strain.map((component) => component.score!)))
+    : score === null ? null : 100 - score;
+
+  return {
+    date: today.date,
+    score,
+    fatigueLevel,
+    components,
+    flagged: components.some((component) => component.outOfRange),
+  };
+};
+
+export const getReadiness = async (userId: string, now: number = Date.now()): Promise<ReadinessScore> => {
+  const start = localDayStart(now - BASELINE_DAYS * DAY);
+  const [series, trainingLoad, sleepSessions] = await Promise.all([
+    queryMetricSeriesBatch(userId, ['hrv', 'hrvSdnn', 'heartRate', 'sleep'], {
+      start: new Date(start),
+      end: new Date(now),
+      resolution: 'hour',
+    }),
+    getTrainingLoad(userId, BASELINE_DAYS + 1, now),
+    // Debt on the first baseline day looks back a further two weeks
+    fetchSleepSessions(userId, localDayStart(start - SLEEP_DEBT_DAYS * DAY)),
+  ]);
+
+  const dailyLoads = new Map(trainingLoad.days.map((day) => [day.date, day.load]));
+  return computeReadiness(buildDailyInputs(series, dailyLoads, start, now, sleepSessions), trainingLoad.summary);
+};
+
+// React hook for the current day's readiness; recomputed when the user changes
+export const useReadiness = (userId: string | undefined) => {
+  const [readiness, setReadiness] = useState<ReadinessScore | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    getReadiness(userId)
+      .then((result) => {
+        if (!cancelled) setReadiness(result);
+      })
+      .catch((error) => console.error('Error computing readiness:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  return { readiness, loading };
+};
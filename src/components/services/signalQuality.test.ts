@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createSignalFilter, filterHealthMetrics, rmssd } from './signalQuality';
+
+const start = Date.UTC(2026, 9, 19, 7, 0, 0);
+
+describe('rmssd', () => {
+  it('is the root mean square of successive differences', () => {
+    expect(rmssd([800, 810, 790, 800])).toBe(Math.round(Math.sqrt((100 + 400 + 100) / 3) * 10) / 10);
+  });
+
+  it('needs at least two intervals', () => {
+    expect(rmssd([800])).toBeUndefined();
+  });
+});
+
+describe('createSignalFilter', () => {
+  it('rejects readings outside what a heart can produce', () => {
+    const assessment = createSignalFilter().process({ heartRate: 300 }, start);
+    expect(assessment).toMatchObject({ heartRate: null, rejected: true, signalQuality: 0 });
+  });
+
+  it('rejects a jump faster than heart rate can climb', () => {
+    const filter = createSignalFilter();
+    filter.process({ heartRate: 70 }, start);
+    expect(filter.process({ heartRate: 150 }, start + 1000).rejected).toBe(true);
+    // Over a minute the same change is plausible
+    expect(filter.process({ heartRate: 150 }, start + 60_000).rejected).toBe(false);
+  });
+
+  it('replaces ectopic RR intervals with the local median', () => {
+    const filter = createSignalFilter();
+    filter.process({ rrIntervals: [800, 810, 790, 800] }, start);
+    const assessment = filter.process({ rrIntervals: [1200] }, start + 1000);
+    expect(assessment.correctedIntervals).toBe(1);
+    expect(assessment.rrIntervals).toEqual([800]);
+  });
+
+  it('reports RMSSD once enough clean beats have been seen', () => {
+    const filter = createSignalFilter();
+    const beats = Array.from({ length: 30 }, (_, index) => (index % 2 ? 810 : 790));
+    expect(filter.process({ rrIntervals: beats.slice(0, 29) }, start).hrv).toBeUndefined();
+    expect(filter.process({ rrIntervals: beats.slice(29) }, start + 1000).hrv).toBe(20);
+  });
+});
+
+describe('filterHealthMetrics', () => {
+  it('leaves a rejected heart rate out so the last accepted reading stands', () => {
+    const filter = createSignalFilter();
+    expect(filterHealthMetrics(filter, { heartRate: 70, steps: 10 }, start).heartRate).toBe(70);
+
+    const update = filterHealthMetrics(filter, { heartRate: 170, steps: 12 }, start + 1000);
+    expect(update).not.toHaveProperty('heartRate');
+    expect(update).toMatchObject({ steps: 12, signalQuality: 0 });
+  });
+
+  it('passes through updates that were already assessed', () => {
+    const metrics = { heartRate: 300, signalQuality: 1 };
+    expect(filterHealthMetrics(createSignalFilter(), metrics, start)).toBe(metrics);
+  });
+
+  it('judges each filter only on its own stream', () => {
+    const strap = createSignalFilter();
+    const watch = createSignalFilter();
+    filterHealthMetrics(strap, { heartRate: 60 }, start);
+    expect(filterHealthMetrics(watch, { heartRate: 150 }, start + 1000).heartRate).toBe(150);
+  });
+});
@@ -0,0 +1,185 @@
+import type { HealthMetrics } from '../types';
+
+// Artifact filtering for live heart rate and RR interval data. Readings outside what a
+// human heart can produce are rejected, ectopic or missed beats in the RR series are
+// replaced by the local median, and every sample gets a 0-1 quality score. A rolling
+// window of those scores marks stretches of data that analytics should not trust.
+
+export const HEART_RATE_LIMITS = { min: 25, max: 240 }; // bpm
+export const RR_INTERVAL_LIMITS = { min: 250, max: 2400 }; // ms, the same range expressed as beat spacing
+
+// An RR interval deviating more than 20% from the local median is treated as ectopic (Malik criterion)
+const ECTOPIC_THRESHOLD = 0.2;
+const RR_REFERENCE_SIZE = 7;
+// Heart rate can climb a few bpm per second at most; anything faster is a contact artifact
+const MAX_HEART_RATE_STEP = 15; // bpm allowed between consecutive readings
+const MAX_HEART_RATE_SLOPE = 5; // additional bpm per second elapsed
+// Heart rate reported by the strap should agree with the one implied by its RR intervals
+const RR_HEART_RATE_TOLERANCE = 15; // bpm
+
+// RMSSD is reported once enough clean beats have been seen; about a minute at rest
+const HRV_WINDOW_BEATS = 60;
+const MIN_HRV_BEATS = 30;
+
+const CONFIDENCE_WINDOW = 30 * 1000;
+const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export interface SignalInput {
+  heartRate?: number;
+  rrIntervals?: number[];
+  sensorContact?: boolean | null;
+}
+
+export interface SignalAssessment {
+  heartRate: number | null; // null when the reading was rejected or there was none
+  rrIntervals?: number[];
+  correctedIntervals: number;
+  rejected: boolean;
+  signalQuality: number;
+  lowConfidence: boolean;
+  hrv?: number; // RMSSD over the most recent clean beats, ms
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Root mean square of successive RR differences, the standard short-term HRV measure
+export const rmssd = (intervals: number[]) => {
+  if (intervals.length < 2) return undefined;
+  let sumOfSquares = 0;
+  for (let i = 1; i < intervals.length; i++) {
+    sumOfSquares += (intervals[i] - intervals[i - 1]) ** 2;
+  }
+  return Math.round(Math.sqrt(sumOfSquares / (intervals.length - 1)) * 10) / 10;
+};
+
+export const isPlausibleHeartRate = (heartRate: number) =>
+  Number.isFinite(heartRate) && heartRate >= HEART_RATE_LIMITS.min && heartRate <= HEART_RATE_LIMITS.max;
+
+// Stateful filter for one live stream; keep one per connected sensor
+export const createSignalFilter = () => {
+  let lastHeartRate: { value: number; at: number } | null = null;
+  let recentIntervals: number[] = [];
+  let hrvWindow: number[] = [];
+  let recentQuality: { at: number; quality: number }[] = [];
+
+  const cleanIntervals = (intervals: number[]) => {
+    let corrected = 0;
+    const cleaned = intervals.map((interval) => {
+      const reference = recentIntervals.length >= 3 ? median(recentIntervals) : null;
+      let accepted = interval;
+
+      if (interval < RR_INTERVAL_LIMITS.min || interval > RR_INTERVAL_LIMITS.max) {
+        corrected++;
+        accepted = reference ?? NaN;
+      } else if (reference !== null && Math.abs(interval - reference) / reference > ECTOPIC_THRESHOLD) {
+        corrected++;
+        accepted = reference;
+      }
+
+      // Only genuine beats feed the reference, so a run of artifacts cannot shift it
+      if (accepted === interval) {
+        recentIntervals = [...recentIntervals, interval].slice(-RR_REFERENCE_SIZE);
+      }
+      return accepted;
+    });
+
+    return { cleaned: cleaned.filter(Number.isFinite).map(Math.round), corrected };
+  };
+
+  const process = (input: SignalInput, at: number = Date.now()): SignalAssessment => {
+    let quality = 1;
+    let heartRate = input.heartRate && input.heartRate > 0 ? input.heartRate : null;
+    let rejected = false;
+
+    if (heartRate !== null) {
+      const allowedStep = lastHeartRate
+        ? MAX_HEART_RATE_STEP + (MAX_HEART_RATE_SLOPE * (at - lastHeartRate.at)) / 1000
+        : Infinity;
+
+      if (!isPlausibleHeartRate(heartRate) || (lastHeartRate && Math.abs(heartRate - lastHeartRate.value) > allowedStep)) {
+        rejected = true;
+        heartRate = null;
+        quality = 0;
+      } else {
+        lastHeartRate = { value: heartRate, at };
+      }
+    }
+
+    let rrIntervals: number[] | undefined;
+    let correctedIntervals = 0;
+    if (input.rrIntervals && input.rrIntervals.length > 0) {
+      const { cleaned, corrected } = cleanIntervals(input.rrIntervals);
+      rrIntervals = cleaned;
+      correctedIntervals = corrected;
+      hrvWindow = [...hrvWindow, ...cleaned].slice(-HRV_WINDOW_BEATS);
+      quality *= 1 - 0.5 * (corrected / input.rrIntervals.length);
+
+      if (heartRate !== null && cleaned.length > 0) {
+        const rrHeartRate = 60000 / (cleaned.reduce((sum, interval) => sum + interval, 0) / cleaned.length);
+        if (Math.abs(rrHeartRate - heartRate) > RR_HEART_RATE_TOLERANCE) {
+          quality *= 0.7;
+        }
+      }
+    }
+
+    if (input.sensorContact === false) {
+      quality *= 0.3;
+    }
+
+    quality = round(quality);
+    recentQuality = [...recentQuality.filter((entry) => at - entry.at <= CONFIDENCE_WINDOW), { at, quality }];
+    const windowQuality = recentQuality.reduce((sum, entry) => sum + entry.quality, 0) / recentQuality.length;
+
+    return {
+      heartRate,
+      rrIntervals,
+      correctedIntervals,
+      rejected,
+      signalQuality: quality,
+      lowConfidence: quality < LOW_CONFIDENCE_THRESHOLD || windowQuality < LOW_CONFIDENCE_THRESHOLD,
+      hrv: hrvWindow.length >= MIN_HRV_BEATS ? rmssd(hrvWindow) : undefined,
+    };
+  };
+
+  const reset = () => {
+    lastHeartRate = null;
+    recentIntervals = [];
+    hrvWindow = [];
+    recentQuality = [];
+  };
+
+  return { process, reset };
+};
+
+export type SignalFilter = ReturnType<typeof createSignalFilter>;
+
+// Apply a filter to a partial metrics update. Updates without heart data, and snapshots that
+// were already assessed (e.g. echoed back from the realtime mirror), pass through untouched.
+// A rejected heart rate is left out of the update, so the last accepted reading stands.
+export const filterHealthMetrics = (
+  filter: SignalFilter,
+  metrics: Partial<HealthMetrics>,
+  at: number = Date.now()
+): Partial<HealthMetrics> => {
+  const hasHeartRate = typeof metrics.heartRate === 'number' && metrics.heartRate > 0;
+  const hasIntervals = Boolean(metrics.rrIntervals?.length);
+  if ((!hasHeartRate && !hasIntervals) || metrics.signalQuality !== undefined) return metrics;
+
+  const { heartRate, ...rest } = metrics;
+  const assessment = filter.process(metrics, at);
+  const acceptedHeartRate = hasHeartRate ? assessment.heartRate : heartRate;
+  return {
+    ...rest,
+    ...(acceptedHeartRate !== null && acceptedHeartRate !== undefined && { heartRate: acceptedHeartRate }),
+    ...(hasIntervals && { rrIntervals: assessment.rrIntervals }),
+    ...(assessment.hrv !== undefined && { hrv: assessment.hrv }),
+    signalQuality: assessment.signalQuality,
+    lowConfidence: assessment.lowConfidence,
+  };
+};
@@ -0,0 +1,123 @@
+import type { HealthMetrics, SimulatorSample, WorkoutSession } from '../../types';
+
+// Recorded streams for the simulator to replay. Fixtures are JSON or CSV:
+//  - CSV with a header row: a `time` column (seconds from the start) or `timestamp` (ISO or
+//    epoch ms), then any of the numeric metric columns below; `rrIntervals` holds
+//    space-separated milliseconds
+//  - JSON: an array (or `{ samples: [...] }`) of the same flat rows, or of `{ offset, metrics }`
+//  - JSON of a stored WorkoutSession, replayed from its per-minute summaries
+
+const NUMERIC_METRICS = [
+  'heartRate', 'steps', 'calories', 'sleep', 'hydration', 'stress', 'distance',
+  'activeMinutes', 'energyExpended', 'hrv', 'bodyMass', 'power', 'cadence', 'speed', 'strideLength',
+] as const;
+
+type FixtureRow = Record<string, unknown>;
+
+// Bundled fixtures, loaded on demand
+const bundledFixtures = import.meta.glob('./fixtures/*.{json,csv}', { query: '?raw', import: 'default' });
+
+export const BUNDLED_FIXTURES = Object.keys(bundledFixtures).map((path) => path.replace('./fixtures/', ''));
+
+const parseTime = (row: FixtureRow): number | null => {
+  if (typeof row.offset === 'number') return row.offset;
+  if (row.time !== undefined && row.time !== '') return Number(row.time) * 1000;
+  if (row.timestamp !== undefined && row.timestamp !== '') {
+    const numeric = Number(row.timestamp);
+    return Number.isFinite(numeric) ? numeric : Date.parse(String(row.timestamp));
+  }
+  return null;
+};
+
+const rowToMetrics = (row: FixtureRow): Partial<HealthMetrics> => {
+  const metrics: Partial<HealthMetrics> = {};
+  NUMERIC_METRICS.forEach((key) => {
+    const value = row[key];
+    if (value !== undefined && value !== '' && Number.isFinite(Number(value))) {
+      metrics[key] = Number(value);
+    }
+  });
+
+  if (Array.isArray(row.rrIntervals)) {
+    metrics.rrIntervals = row.rrIntervals.map(Number);
+  } else if (typeof row.rrIntervals === 'string' && row.rrIntervals.trim()) {
+    metrics.rrIntervals = row.rrIntervals.trim().split(/[\s;|]+/).map(Number);
+  }
+  if (row.sensorContact !== undefined && row.sensorContact !== '') {
+    metrics.sensorContact = row.sensorContact === true || row.sensorContact === 'true';
+  }
+  return metrics;
+};
+
+// Rows to samples with offsets relative to the first one
+const toSamples = (rows: FixtureRow[]): SimulatorSample[] => {
+  const timed = rows.map((row) => {
+    const time = parseTime(row);
+    if (time === null || !Number.isFinite(time)) {
+      throw new Error('Every fixture row needs a time, timestamp or offset');
+    }
+    const metrics = row.metrics && typeof row.metrics === 'object' ? (row.metrics as Partial<HealthMetrics>) : rowToMetrics(row);
+    return { time, metrics };
+  });
+
+  timed.sort((a, b) => a.time - b.time);
+  const start = timed[0]?.time ?? 0;
+  return timed.map(({ time, metrics }) => ({ offset: time - start, metrics }));
+};
+
+const parseCsv = (text: string): FixtureRow[] => {
+  const [header, ...lines] = text.split(/\r?\n/).filter((line) => line.trim());
+  if (!header) return [];
+  const columns = header.split(',').map((column) => column.trim());
+  return lines.map((line) => {
+    const cells = line.split(',');
+    return Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim() ?? '']));
+  });
+};
+
+export const sessionToSamples = (session: WorkoutSession): SimulatorSample[] =>
+  session.minutes
+    .filter((bucket) => bucket.metrics.heartRate)
+    .map((bucket) => {
+      const metrics: Partial<HealthMetrics> = { activities: [session.sport] };
+      (['heartRate', 'speed', 'power', 'cadence'] as const).forEach((metric) => {
+        const summary = bucket.metrics[metric];
+        if (!summary) return;
+        const mean = summary.sum / summary.count;
+        // Speed is in m/s, so whole numbers would be far too coarse
+        metrics[metric] = metric === 'speed' ? Math.round(mean * 100) / 100 : Math.round(mean);
+      });
+      return { offset: bucket.bucketStart - session.startTime, metrics };
+    });
+
+export const parseFixture = (text: string, fileName: string): SimulatorSample[] => {
+  let samples: SimulatorSample[];
+
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    samples = toSamples(parseCsv(text));
+  } else {
+    const data = JSON.parse(text);
+    if (Array.isArray(data)) {
+      samples = toSamples(data);
+    } else if (Array.isArray(data?.minutes) && typeof data.startTime === 'number') {
+      samples = sessionToSamples(data as WorkoutSession);
+    } else if (Array.isArray(data?.samples)) {
+      samples = toSamples(data.samples);
+    } else {
+      throw new Error('Unrecognised fixture format');
+    }
+  }
+
+  if (samples.length === 0) {
+    throw new Error(`${fileName} contains no samples`);
+  }
+  return samples;
+};
+
+export const loadBundledFixture = async (name: string) => {
+  const load = bundledFixtures[`./fixtures/${name}`];
+  if (!load) {
+    throw new Error(`Unknown fixture ${name}`);
+  }
+  return parseFixture((await load()) as string, name);
+};
@@ -0,0 +1,158 @@
+import { create } from 'zustand';
+import { useWearableStore } from '../wearableStore';
+import { DEFAULT_WORKOUT, generateSyntheticWorkout } from './synthetic';
+import { loadBundledFixture, parseFixture } from './fixtures';
+import type { HealthMetrics, SimulatorSample, SyntheticWorkoutOptions } from '../../types';
+
+// Playback engine behind the simulator provider. A stream (a synthetic workout or a
+// recorded fixture) is replayed into the wearable store at real or accelerated speed, so
+// the rest of the dashboard sees it exactly like a live device.
+
+export { BUNDLED_FIXTURES } from './fixtures';
+export { DEFAULT_WORKOUT } from './synthetic';
+
+export type SimulatorSource =
+  | { type: 'synthetic'; options: SyntheticWorkoutOptions }
+  | { type: 'fixture'; name: string };
+
+export const SIMULATOR_SPEEDS = [1, 2, 5, 10, 30];
+
+// How often playback advances, in real time
+const TICK = 250;
+
+interface SimulatorState {
+  source: SimulatorSource;
+  speed: number;
+  loop: boolean;
+  playing: boolean;
+  position: number; // ms into the stream
+  duration: number;
+  error: string | null;
+}
+
+export const useSimulatorStore = create<SimulatorState>()(() => ({
+  source: { type: 'synthetic', options: DEFAULT_WORKOUT },
+  speed: 1,
+  loop: true,
+  playing: false,
+  position: 0,
+  duration: 0,
+  error: null,
+}));
+
+let samples: SimulatorSample[] = [];
+let cursor = 0;
+let timer: ReturnType<typeof setInterval> | null = null;
+let active = false;
+
+const setSamples = (next: SimulatorSample[]) => {
+  samples = next;
+  cursor = 0;
+  useSimulatorStore.setState({ position: 0, duration: next.length ? next[next.length - 1].offset : 0, error: null });
+};
+
+const loadSamples = async (source: SimulatorSource) =>
+  source.type === 'synthetic' ? generateSyntheticWorkout(source.options) : loadBundledFixture(source.name);
+
+// Everything that happened since the last tick as one update: the newest values, plus
+// every RR interval in between so HRV and artifact filtering still see each beat
+const mergeSamples = (due: SimulatorSample[]): Partial<HealthMetrics> => {
+  const rrIntervals = due.flatMap((sample) => sample.metrics.rrIntervals ?? []);
+  const merged = due.reduce<Partial<HealthMetrics>>((metrics, sample) => ({ ...metrics, ...sample.metrics }), {});
+  return rrIntervals.length ? { ...merged, rrIntervals } : merged;
+};
+
+const tick = () => {
+  const { position, speed, loop, duration } = useSimulatorStore.getState();
+  const next = position + TICK * speed;
+
+  const due: SimulatorSample[] = [];
+  while (cursor < samples.length && samples[cursor].offset <= next) {
+    due.push(samples[cursor++]);
+  }
+  if (due.length) {
+    useWearableStore.getState().updateHealthMetrics(mergeSamples(due), 'simulator');
+  }
+
+  if (cursor >= samples.length) {
+    if (loop && samples.length) {
+      cursor = 0;
+      useSimulatorStore.setState({ position: 0 });
+    } else {
+      pauseSimulator();
+      useSimulatorStore.setState({ position: duration });
+    }
+    return;
+  }
+  useSimulatorStore.setState({ position: next });
+};
+
+export const playSimulator = () => {
+  if (timer || !samples.length) return;
+  timer = setInterval(tick, TICK);
+  useSimulatorStore.setState({ playing: true });
+};
+
+export const pauseSimulator = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  useSimulatorStore.setState({ playing: false });
+};
+
+export const restartSimulator = () => {
+  cursor = 0;
+  useSimulatorStore.setState({ position: 0 });
+};
+
+export const setSimulatorSpeed = (speed: number) => useSimulatorStore.setState({ speed });
+
+export const setSimulatorLoop = (loop: boolean) => useSimulatorStore.setState({ loop });
+
+// Switch to another stream; playback continues if it was running
+export const setSimulatorSource = async (source: SimulatorSource) => {
+  const wasPlaying = useSimulatorStore.getState().playing;
+  pauseSimulator();
+  try {
+    useSimulatorStore.setState({ source });
+    setSamples(await loadSamples(source));
+    if (wasPlaying) playSimulator();
+  } catch (error) {
+    console.error('Error loading simulator source:', error);
+    useSimulatorStore.setState({ error: error instanceof Error ? error.message : 'Could not load the stream' });
+  }
+};
+
+// Replay a fixture file picked by the user; it is kept in memory only
+export const loadSimulatorFile = async (file: File) => {
+  const wasPlaying = useSimulatorStore.getState().playing;
+  pauseSimulator();
+  try {
+    setSamples(parseFixture(await file.text(), file.name));
+    useSimulatorStore.setState({ source: { type: 'fixture', name: file.name } });
+    if (wasPlaying) playSimulator();
+  } catch (error) {
+    console.error(`Error loading fixture ${file.name}:`, error);
+    useSimulatorStore.setState({ error: error instanceof Error ? error.message : 'Invalid fixture' });
+  }
+};
+
+export const startSimulator = async () => {
+  active = true;
+  if (!samples.length) {
+    setSamples(await loadSamples(useSimulatorStore.getState().source));
+  }
+  playSimulator();
+};
+
+export const stopSimulator = () => {
+  active = false;
+  pauseSimulator();
+  restartSimulator();
+};
+
+// After a reload the store still says the simulator is connected; pick playback back up
+export const ensureSimulatorStarted = async () => {
+  if (!active) await startSimulator();
+};
@@ -0,0 +1,121 @@
+import type { HealthMetrics, SimulatorSample, SyntheticWorkoutOptions } from '../../types';
+
+// Seeded synthetic workouts. Effort follows a warm-up, interval and cool-down plan; heart
+// rate chases the effort with first-order kinetics (faster on the way up than on the way
+// down) plus cardiac drift, so it visibly lags every change in pace. The same seed and
+// options always produce the same session.
+
+export const DEFAULT_WORKOUT: SyntheticWorkoutOptions = {
+  seed: 1,
+  sport: 'Running',
+  restingHeartRate: 60,
+  maxHeartRate: 190,
+  warmupMinutes: 10,
+  intervals: { count: 6, workSeconds: 180, restSeconds: 120 },
+  cooldownMinutes: 10,
+};
+
+// Heart rate time constants, seconds
+const ON_KINETICS = 25;
+const OFF_KINETICS = 45;
+// Slow upward creep of heart rate at constant effort
+const CARDIAC_DRIFT = 0.1; // bpm per minute of exercise
+// Beat to beat variability at rest, shrinking as effort rises
+const RESTING_RR_JITTER = 40; // ms
+const EXERCISE_RR_JITTER = 4; // ms
+
+interface Phase {
+  seconds: number;
+  from: number; // effort as a fraction of heart rate reserve
+  to: number;
+}
+
+// Small, fast, seedable generator (mulberry32)
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  // Box-Muller
+  const normal = (mean = 0, standardDeviation = 1) =>
+    mean + standardDeviation * Math.sqrt(-2 * Math.log(1 - next())) * Math.cos(2 * Math.PI * next());
+
+  return { next, normal };
+};
+
+const buildPhases = ({ warmupMinutes, intervals, cooldownMinutes }: SyntheticWorkoutOptions): Phase[] => [
+  { seconds: warmupMinutes * 60, from: 0.3, to: 0.6 },
+  ...Array.from({ length: intervals.count }, (_, index) => [
+    { seconds: intervals.workSeconds, from: 0.88, to: 0.92 },
+    // No recovery after the last rep, the cool-down takes over
+    ...(index < intervals.count - 1 ? [{ seconds: intervals.restSeconds, from: 0.45, to: 0.45 }] : []),
+  ]).flat(),
+  { seconds: cooldownMinutes * 60, from: 0.5, to: 0.2 },
+];
+
+export const workoutDuration = (options: SyntheticWorkoutOptions) =>
+  buildPhases(options).reduce((total, phase) => total + phase.seconds, 0) * 1000;
+
+// One sample per second
+export const generateSyntheticWorkout = (options: SyntheticWorkoutOptions = DEFAULT_WORKOUT): SimulatorSample[] => {
+  const random = createRandom(options.seed);
+  const { restingHeartRate, maxHeartRate, sport } = options;
+  const reserve = maxHeartRate - restingHeartRate;
+  const running = sport === 'Running';
+
+  const effortPlan = buildPhases(options).flatMap((phase) =>
+    Array.from({ length: phase.seconds }, (_, second) => phase.from + ((phase.to - phase.from) * second) / phase.seconds)
+  );
+
+  const samples: SimulatorSample[] = [];
+  let heartRate = restingHeartRate + 0.2 * reserve;
+  let noise = 0;
+  let beatPhase = 0;
+  let steps = 0;
+  let calories = 0;
+  let distance = 0; // km
+  let activeSeconds = 0;
+
+  effortPlan.forEach((effort, second) => {
+    const target = restingHeartRate + effort * reserve + (CARDIAC_DRIFT * second) / 60;
+    const tau = target > heartRate ? ON_KINETICS : OFF_KINETICS;
+    heartRate += (target - heartRate) * (1 - Math.exp(-1 / tau));
+    // Autocorrelated noise, a real strap reading wanders rather than jumps
+    noise = 0.8 * noise + random.normal(0, 0.6);
+    const reported = Math.min(maxHeartRate, Math.max(restingHeartRate, Math.round(heartRate + noise)));
+
+    // Beats that fall in this second, with variability shrinking as effort rises
+    beatPhase += heartRate / 60;
+    const beats = Math.floor(beatPhase);
+    beatPhase -= beats;
+    const jitter = EXERCISE_RR_JITTER + (RESTING_RR_JITTER - EXERCISE_RR_JITTER) * (1 - effort) ** 2;
+    const rrIntervals = Array.from({ length: beats }, () => Math.round(60000 / heartRate + random.normal(0, jitter)));
+
+    // Pace and cadence respond instantly, which is what makes the heart rate lag visible
+    const speed = Math.max(0, (running ? 2 + effort * 3.4 : 4 + effort * 7) + random.normal(0, 0.1)); // m/s
+    const cadence = running ? 150 + effort * 35 : 70 + effort * 25;
+    distance += speed / 1000;
+    if (running) steps += cadence / 60;
+    calories += (2 + effort * 14) / 60;
+    if (effort >= 0.4) activeSeconds++;
+
+    const metrics: Partial<HealthMetrics> = {
+      heartRate: reported,
+      rrIntervals,
+      steps: Math.floor(steps),
+      calories: Math.round(calories),
+      distance: Math.round(distance * 100) / 100,
+      activeMinutes: Math.floor(activeSeconds / 60),
+      speed: Math.round(speed * 100) / 100,
+      cadence: Math.round(cadence),
+      activities: [sport],
+    };
+    samples.push({ offset: second * 1000, metrics });
+  });
+
+  return samples;
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { buildSleepSessions, computeSleepAnalytics, sleepQualityScore } from './sleep';
+import type { SleepStageSegment } from '../types';
+
+const at = (day: number, hour: number, minute = 0) => new Date(2026, 0, day, hour, minute).getTime();
+
+const segment = (stage: SleepStageSegment['stage'], start: number, end: number): SleepStageSegment => ({ stage, start, end });
+
+// In bed at 22:00, asleep 22:20 to 06:00 with ten minutes awake at 03:00, up at 06:30
+const night = (day: number) => [
+  segment('inBed', at(day, 22), at(day + 1, 6, 30)),
+  segment('asleep', at(day, 22, 20), at(day + 1, 6)),
+  segment('awake', at(day + 1, 3), at(day + 1, 3, 10)),
+];
+
+describe('buildSleepSessions', () => {
+  it('builds a night from overlapping segments, the more specific stage winning', () => {
+    const [session] = buildSleepSessions(night(1), 'googleFit');
+
+    expect(session.date).toBe(at(2, 0));
+    expect(session.source).toBe('googleFit');
+    expect(session.bedTime).toBe(at(1, 22));
+    expect(session.sleepOnset).toBe(at(1, 22, 20));
+    expect(session.wakeTime).toBe(at(2, 6));
+    expect(session.outOfBed).toBe(at(2, 6, 30));
+    expect(session.latency).toBe(20);
+    expect(session.timeInBed).toBe(510);
+    expect(session.totalSleep).toBe(450);
+    expect(session.efficiency).toBe(88);
+    expect(session.stages).toEqual({ awake: 10, light: 0, deep: 0, rem: 0, asleep: 450 });
+    expect(session.segments.map((part) => part.stage)).toEqual(['inBed', 'asleep', 'awake', 'asleep', 'inBed']);
+  });
+
+  it('counts staged sleep by stage', () => {
+    const [session] = buildSleepSessions(
+      [
+        segment('light', at(1, 23), at(2, 1)),
+        segment('deep', at(2, 1), at(2, 2, 30)),
+        segment('rem', at(2, 2, 30), at(2, 3)),
+        segment('light', at(2, 3), at(2, 6)),
+      ],
+      'appleHealth'
+    );
+
+    expect(session.stages).toEqual({ awake: 0, light: 300, deep: 90, rem: 30, asleep: 0 });
+    expect(session.totalSleep).toBe(420);
+    expect(session.efficiency).toBe(100);
+  });
+
+  it('keeps the night rather than a nap ending on the same day', () => {
+    const sessions = buildSleepSessions([...night(1), segment('asleep', at(2, 14), at(2, 15))], 'googleFit');
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].totalSleep).toBe(450);
+  });
+
+  it('returns one session per night in date order, ignoring empty segments and time only in bed', () => {
+    const sessions = buildSleepSessions(
+      [
+        ...night(3),
+        ...night(1),
+        segment('asleep', at(5, 1), at(5, 1)),
+        segment('inBed', at(6, 22), at(7, 6)),
+      ],
+      'googleFit'
+    );
+
+    expect(sessions.map((session) => session.date)).toEqual([at(2, 0), at(4, 0)]);
+  });
+});
+
+describe('computeSleepAnalytics', () => {
+  // Seven regular nights of seven hours, 23:00 to 06:00, the last ending on the 8th
+  const sessions = buildSleepSessions(
+    Array.from({ length: 7 }, (_, index) => segment('asleep', at(index + 1, 23), at(index + 2, 6))),
+    'googleFit'
+  );
+  const analytics = computeSleepAnalytics(sessions, { now: at(8, 12) });
+
+  it('averages the last week', () => {
+    expect(analytics.nights).toBe(7);
+    expect(analytics.averageSleep).toBe(7);
+    expect(analytics.averageLatency).toBe(0);
+    expect(analytics.averageEfficiency).toBe(100);
+    expect(analytics.efficiencyTrend).toBe(0);
+  });
+
+  it('accumulates debt against the sleep need from recorded nights only', () => {
+    expect(analytics.sleepDebt).toBe(7);
+    expect(computeSleepAnalytics(sessions, { now: at(8, 12), sleepNeed: 6 }).sleepDebt).toBe(0);
+  });
+
+  it('scores identical onset and wake times as fully consistent', () => {
+    expect(analytics.consistency).toBe(100);
+  });
+
+  it('leaves days without a night empty rather than zero', () => {
+    expect(analytics.days).toHaveLength(28);
+    expect(analytics.days[0].totalSleep).toBeNull();
+    expect(analytics.days[analytics.days.length - 1].totalSleep).toBe(7);
+  });
+
+  it('has no stage breakdown for unstaged nights', () => {
+    expect(analytics.stageShare).toBeNull();
+  });
+
+  it('combines efficiency, debt and consistency into one quality score', () => {
+    // Efficiency 100, debt 7 hours scoring 30, consistency 100
+    expect(sleepQualityScore(analytics)).toBe(77);
+    expect(sleepQualityScore(computeSleepAnalytics([], { now: at(8, 12) }))).toBeNull();
+  });
+});
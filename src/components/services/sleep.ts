@@ -0,0 +1,318 @@
+import { useEffect, useState } from 'react';
+import { collection, doc, getDoc, getDocs, query, setDoc, where } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { localDayStart } from './metricHistory';
+import type {
+  SleepAnalytics,
+  SleepSession,
+  SleepStage,
+  SleepStageSegment,
+  SleepTrendDay,
+  WearableProvider,
+} from '../types';
+
+// Sleep sessions built from staged segments (Google Fit sleep segments, Apple Health sleep
+// analysis) and the trends coaches ask about: how much, how regular, how efficient, and how
+// far behind the athlete is. Each night is stored once under the day it ended, so the same
+// night synced from two sources is not counted twice.
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+// Segments separated by less than this belong to the same night
+const SLEEP_SESSION_GAP = 3 * 60 * MINUTE;
+const DEFAULT_SLEEP_NEED = 8; // hours
+// Debt only counts the last two weeks; older shortfalls are assumed repaid or irrelevant
+export const SLEEP_DEBT_DAYS = 14;
+// Debt above this many hours is worth flagging to the athlete and coach
+export const SLEEP_DEBT_LIMIT = 5;
+const CONSISTENCY_DAYS = 7;
+const MIN_CONSISTENCY_NIGHTS = 3;
+// Average standard deviation of onset and wake times at which consistency reaches zero
+const CONSISTENCY_ZERO_SD = 120; // minutes
+const ANALYTICS_DAYS = 28;
+const SYNC_DAYS = 14;
+
+export const SLEEP_STAGES: SleepStage[] = ['awake', 'light', 'deep', 'rem', 'asleep'];
+
+export const SLEEP_STAGE_LABELS: Record<SleepStage, string> = {
+  awake: 'Awake',
+  light: 'Light',
+  deep: 'Deep',
+  rem: 'REM',
+  asleep: 'Unstaged',
+};
+
+// When sources overlap (watch and phone), the most specific stage wins: a watch that saw
+// the athlete wake beats a phone that only knew they were asleep
+const STAGE_PRIORITY: Record<SleepStageSegment['stage'], number> = {
+  inBed: 0,
+  asleep: 1,
+  awake: 2,
+  light: 3,
+  deep: 3,
+  rem: 3,
+};
+
+const isAsleep = (stage: SleepStageSegment['stage']) => stage !== 'awake' && stage !== 'inBed';
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const standardDeviation = (values: number[]) => {
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length);
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const clamp = (value: number) => Math.min(100, Math.max(0, Math.round(value)));
+
+// One non-overlapping timeline for a night, adjacent segments of the same stage merged
+const flattenSegments = (segments: SleepStageSegment[]) => {
+  const boundaries = [...new Set(segments.flatMap((segment) => [segment.start, segment.end]))].sort((a, b) => a - b);
+  const timeline: SleepStageSegment[] = [];
+
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    const covering = segments.filter((segment) => segment.start <= start && segment.end >= end);
+    if (!covering.length) continue;
+
+    const stage = covering.reduce((best, segment) =>
+      STAGE_PRIORITY[segment.stage] > STAGE_PRIORITY[best.stage] ? segment : best
+    ).stage;
+    const previous = timeline[timeline.length - 1];
+    if (previous && previous.stage === stage && previous.end === start) {
+      previous.end = end;
+    } else {
+      timeline.push({ stage, start, end });
+    }
+  }
+
+  return timeline;
+};
+
+const buildSession = (segments: SleepStageSegment[], source: string): SleepSession | null => {
+  const timeline = flattenSegments(segments);
+  const asleep = timeline.filter((segment) => isAsleep(segment.stage));
+  if (!asleep.length) return null;
+
+  const stages = Object.fromEntries(SLEEP_STAGES.map((stage) => [stage, 0])) as Record<SleepStage, number>;
+  let timeInBed = 0;
+  timeline.forEach((segment) => {
+    const minutes = (segment.end - segment.start) / MINUTE;
+    timeInBed += minutes;
+    if (segment.stage !== 'inBed') stages[segment.stage] += minutes;
+  });
+  SLEEP_STAGES.forEach((stage) => {
+    stages[stage] = Math.round(stages[stage]);
+  });
+
+  const totalSleep = stages.light + stages.deep + stages.rem + stages.asleep;
+  const bedTime = timeline[0].start;
+  const sleepOnset = asleep[0].start;
+  const wakeTime = asleep[asleep.length - 1].end;
+  const date = localDayStart(wakeTime);
+
+  return {
+    id: `sleep-${date}`,
+    source,
+    date,
+    bedTime,
+    sleepOnset,
+    wakeTime,
+    outOfBed: timeline[timeline.length - 1].end,
+    latency: Math.round((sleepOnset - bedTime) / MINUTE),
+    timeInBed: Math.round(timeInBed),
+    totalSleep,
+    efficiency: timeInBed > 0 ? Math.min(100, Math.round((totalSleep / timeInBed) * 100)) : 0,
+    stages,
+    segments: timeline,
+  };
+};
+
+// Group raw segments into nights. Only the longest sleep ending on each day is kept,
+// so a nap does not replace the night before it.
+export const buildSleepSessions = (segments: SleepStageSegment[], source: string): SleepSession[] => {
+  const sorted = segments.filter((segment) => segment.end > segment.start).sort((a, b) => a.start - b.start);
+  const groups: SleepStageSegment[][] = [];
+  let groupEnd = -Infinity;
+
+  sorted.forEach((segment) => {
+    if (segment.start - groupEnd >= SLEEP_SESSION_GAP) groups.push([]);
+    groups[groups.length - 1].push(segment);
+    groupEnd = Math.max(groupEnd, segment.end);
+  });
+
+  const byDate = new Map<number, SleepSession>();
+  groups.forEach((group) => {
+    const session = buildSession(group, source);
+    if (!session) return;
+    const existing = byDate.get(session.date);
+    if (!existing || session.totalSleep > existing.totalSleep) byDate.set(session.date, session);
+  });
+
+  return [...byDate.values()].sort((a, b) => a.date - b.date);
+};
+
+const isStaged = (session: SleepSession) => session.stages.light + session.stages.deep + session.stages.rem > 0;
+
+// Store nights under users/{uid}/sleep. A night already stored from another source is kept
+// unless the new one has stages and the stored one does not; the same source overwrites it,
+// since a later sync may have more of the night.
+export const saveSleepSessions = async (userId: string, sessions: SleepSession[]) => {
+  let saved = 0;
+
+  for (const session of sessions) {
+    const sessionRef = doc(db, 'users', userId, 'sleep', session.id);
+    const existing = await getDoc(sessionRef);
+    if (existing.exists()) {
+      const stored = existing.data() as SleepSession;
+      if (stored.source !== session.source && (isStaged(stored) || !isStaged(session))) continue;
+    }
+    await setDoc(sessionRef, session);
+    saved++;
+  }
+
+  return saved;
+};
+
+export const fetchSleepSessions = async (userId: string, start: number) => {
+  const snapshot = await getDocs(query(collection(db, 'users', userId, 'sleep'), where('date', '>=', start)));
+  return snapshot.docs
+    .map((sessionDoc) => sessionDoc.data() as SleepSession)
+    .sort((a, b) => a.date - b.date);
+};
+
+// Pull recent nights from a provider that tracks sleep
+export const syncProviderSleep = async (userId: string, provider: WearableProvider, now: number = Date.now()) => {
+  if (!provider.fetchSleep) return 0;
+
+  const segments = await provider.fetchSleep(new Date(localDayStart(now - SYNC_DAYS * DAY)), new Date(now));
+  return saveSleepSessions(userId, buildSleepSessions(segments, provider.id));
+};
+
+// Minutes past noon, so times either side of midnight stay close together
+const minutesPastNoon = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return (date.getHours() * 60 + date.getMinutes() + 12 * 60) % (24 * 60);
+};
+
+// 100 for identical onset and wake times every night, 0 when they wander by two hours
+const consistencyOf = (nights: SleepSession[]) => {
+  if (nights.length < MIN_CONSISTENCY_NIGHTS) return null;
+  const onsetSpread = standardDeviation(nights.map((night) => minutesPastNoon(night.sleepOnset)));
+  const wakeSpread = standardDeviation(nights.map((night) => minutesPastNoon(night.wakeTime)));
+  return clamp(100 * (1 - (onsetSpread + wakeSpread) / 2 / CONSISTENCY_ZERO_SD));
+};
+
+// Hours short of the sleep need over the nights recorded in the window, surplus nights
+// paying some of it back. Nights without data are unknown rather than zero.
+const debtOf = (nights: SleepSession[], sleepNeed: number) =>
+  round1(Math.max(0, nights.reduce((sum, night) => sum + sleepNeed - night.totalSleep / 60, 0)));
+
+// Least-squares slope of efficiency per day, scaled to a week
+const weeklyTrend = (points: { date: number; value: number }[]) => {
+  if (points.length < MIN_CONSISTENCY_NIGHTS) return null;
+  const xs = points.map((point) => (point.date - points[0].date) / DAY);
+  const xMean = mean(xs);
+  const yMean = mean(points.map((point) => point.value));
+  const denominator = xs.reduce((sum, x) => sum + (x - xMean) ** 2, 0);
+  if (denominator === 0) return null;
+  const slope = points.reduce((sum, point, index) => sum + (xs[index] - xMean) * (point.value - yMean), 0) / denominator;
+  return round1(slope * 7);
+};
+
+export const computeSleepAnalytics = (
+  sessions: SleepSession[],
+  { now = Date.now(), days = ANALYTICS_DAYS, sleepNeed = DEFAULT_SLEEP_NEED }: { now?: number; days?: number; sleepNeed?: number } = {}
+): SleepAnalytics => {
+  const byDate = new Map(sessions.map((session) => [session.date, session]));
+  const nightsBetween = (from: number, to: number) =>
+    sessions.filter((session) => session.date > from && session.date <= to);
+
+  const trend: SleepTrendDay[] = [];
+  const today = localDayStart(now);
+  for (let day = localDayStart(today - (days - 1) * DAY); day <= today; day = localDayStart(day + DAY + DAY / 2)) {
+    const night = byDate.get(day);
+    trend.push({
+      date: day,
+      totalSleep: night ? round1(night.totalSleep / 60) : null,
+      efficiency: night ? night.efficiency : null,
+      sleepDebt: debtOf(nightsBetween(day - SLEEP_DEBT_DAYS * DAY, day), sleepNeed),
+      consistency: consistencyOf(nightsBetween(day - CONSISTENCY_DAYS * DAY, day)),
+    });
+  }
+
+  const lastWeek = nightsBetween(today - CONSISTENCY_DAYS * DAY, today);
+  const inWindow = nightsBetween(today - days * DAY, today);
+  const staged = lastWeek.filter(isStaged);
+  const stagedSleep = staged.reduce((sum, night) => sum + night.totalSleep, 0);
+
+  return {
+    nights: inWindow.length,
+    sleepNeed,
+    averageSleep: lastWeek.length ? round1(mean(lastWeek.map((night) => night.totalSleep / 60))) : null,
+    averageLatency: lastWeek.length ? Math.round(mean(lastWeek.map((night) => night.latency))) : null,
+    averageEfficiency: lastWeek.length ? Math.round(mean(lastWeek.map((night) => night.efficiency))) : null,
+    efficiencyTrend: weeklyTrend(inWindow.map((night) => ({ date: night.date, value: night.efficiency }))),
+    consistency: trend[trend.length - 1].consistency,
+    sleepDebt: trend[trend.length - 1].sleepDebt,
+    stageShare: stagedSleep > 0
+      ? Object.fromEntries(
+          SLEEP_STAGES.map((stage) => [
+            stage,
+            Math.round((staged.reduce((sum, night) => sum + night.stages[stage], 0) / stagedSleep) * 100) / 100,
+          ])
+        ) as Record<SleepStage, number>
+      : null,
+    days: trend,
+  };
+};
+
+// One 0-100 sleep quality score from efficiency, debt and consistency, for recovery views
+export const sleepQualityScore = (analytics: SleepAnalytics) => {
+  if (!analytics.nights) return null;
+  const parts = [
+    // 70% efficiency or worse scores nothing, 95% and above full marks
+    analytics.averageEfficiency === null ? null : clamp(((analytics.averageEfficiency - 70) / 25) * 100),
+    clamp(100 - analytics.sleepDebt * 10),
+    analytics.consistency,
+  ].filter((part): part is number => part !== null);
+  return Math.round(mean(parts));
+};
+
+export const getSleepAnalytics = async (userId: string, now: number = Date.now()) => {
+  const sessions = await fetchSleepSessions(userId, localDayStart(now - (ANALYTICS_DAYS + SLEEP_DEBT_DAYS) * DAY));
+  return { sessions, analytics: computeSleepAnalytics(sessions, { now }) };
+};
+
+// React hook for the sleep panel and recovery views
+export const useSleepAnalytics = (userId: string | undefined) => {
+  const [sessions, setSessions] = useState<SleepSession[]>([]);
+  const [analytics, setAnalytics] = useState<SleepAnalytics | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    getSleepAnalytics(userId)
+      .then((result) => {
+        if (cancelled) return;
+        setSessions(result.sessions);
+        setAnalytics(result.analytics);
+      })
+      .catch((error) => console.error('Error computing sleep analytics:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  return { sessions, analytics, loading };
+};
@@ -0,0 +1,187 @@
+import { create } from 'zustand';
+import { onAuthStateChanged } from 'firebase/auth';
+import { ref, set } from 'firebase/database';
+import { auth, rtdb } from '../config/firebase';
+import { recordHealthSamples } from './metricHistory';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import type { HealthMetrics } from '../types';
+
+// Persistent outbox for health metric uploads. Every sample is written to IndexedDB first
+// and removed only once Firestore has accepted it, so readings captured offline survive
+// reloads. Entries are uploaded strictly in capture order because cumulative metrics keep
+// the last value of each bucket and would otherwise roll up wrong.
+
+const DB_NAME = 'wearable-sync-queue';
+const DB_VERSION = 1;
+const OUTBOX = 'outbox';
+
+// Keeps one flush within a single history transaction (three buckets per sample), so a
+// failed flush never leaves part of a batch written
+const MAX_BATCH = 100;
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+interface QueuedSample {
+  id?: number;
+  userId: string;
+  capturedAt: number;
+  metrics: HealthMetrics;
+}
+
+interface SyncQueueState {
+  online: boolean;
+  pending: number;
+  flushing: boolean;
+  nextRetryAt: number | null;
+  lastError: string | null;
+}
+
+export const useSyncQueueStore = create<SyncQueueState>()(() => ({
+  online: typeof navigator === 'undefined' || navigator.onLine,
+  pending: 0,
+  flushing: false,
+  nextRetryAt: null,
+  lastError: null,
+}));
+
+const openOutbox = () =>
+  openDatabase(DB_NAME, DB_VERSION, (db) => {
+    // Auto-increment keys preserve insertion order
+    db.createObjectStore(OUTBOX, { keyPath: 'id', autoIncrement: true });
+  });
+
+const readQueue = async () => {
+  const db = await openOutbox();
+  return requestToPromise<QueuedSample[]>(db.transaction(OUTBOX).objectStore(OUTBOX).getAll());
+};
+
+const removeFromQueue = async (ids: number[]) => {
+  const db = await openOutbox();
+  const transaction = db.transaction(OUTBOX, 'readwrite');
+  ids.forEach((id) => transaction.objectStore(OUTBOX).delete(id));
+  await transactionDone(transaction);
+};
+
+const refreshPendingCount = async () => {
+  const db = await openOutbox();
+  const pending = await requestToPromise(db.transaction(OUTBOX).objectStore(OUTBOX).count());
+  useSyncQueueStore.setState({ pending });
+};
+
+let flushInFlight: Promise<void> | null = null;
+let flushRequested = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryAttempt = 0;
+
+const scheduleRetry = () => {
+  // Coming back online triggers a flush by itself
+  if (!navigator.onLine) {
+    useSyncQueueStore.setState({ nextRetryAt: null });
+    return;
+  }
+
+  const delay = Math.min(BASE_RETRY_DELAY * 2 ** retryAttempt, MAX_RETRY_DELAY);
+  retryAttempt++;
+  useSyncQueueStore.setState({ nextRetryAt: Date.now() + delay });
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushHealthMetricQueue();
+  }, delay);
+};
+
+const drainQueue = async () => {
+  const userId = auth.currentUser?.uid;
+  if (!userId) return;
+
+  // Entries of other accounts on this browser wait until that account signs in again
+  const queued = (await readQueue()).filter((entry) => entry.userId === userId);
+
+  for (let i = 0; i < queued.length; i += MAX_BATCH) {
+    const batch = queued.slice(i, i + MAX_BATCH);
+    await recordHealthSamples(
+      userId,
+      batch.map((entry) => ({ timestamp: entry.capturedAt, metrics: entry.metrics }))
+    );
+    await removeFromQueue(batch.map((entry) => entry.id!));
+    await refreshPendingCount();
+  }
+
+  // The realtime node only mirrors the newest snapshot. Not awaited: realtime writes are
+  // held until the server acknowledges them and must not stall the queue.
+  const latest = queued[queued.length - 1];
+  if (latest) {
+    set(ref(rtdb, `healthMetrics/${userId}`), {
+      ...latest.metrics,
+      lastUpdated: latest.capturedAt,
+      timestamp: new Date(latest.capturedAt).toISOString(),
+    }).catch((error) => console.error('Error mirroring latest metrics:', error));
+  }
+};
+
+// Upload everything queued for the signed-in user; concurrent calls share one flush
+export const flushHealthMetricQueue = (): Promise<void> => {
+  if (flushInFlight) {
+    // Samples added after the running flush read the queue go out in a follow-up pass
+    flushRequested = true;
+    return flushInFlight;
+  }
+
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  useSyncQueueStore.setState({ flushing: true, nextRetryAt: null });
+  flushInFlight = drainQueue()
+    .then(() => {
+      retryAttempt = 0;
+      useSyncQueueStore.setState({ lastError: null });
+      if (flushRequested) {
+        flushRequested = false;
+        setTimeout(flushHealthMetricQueue, 0);
+      }
+    })
+    .catch((error) => {
+      flushRequested = false;
+      console.error('Error flushing health metric queue:', error);
+      useSyncQueueStore.setState({ lastError: error instanceof Error ? error.message : String(error) });
+      scheduleRetry();
+    })
+    .finally(() => {
+      flushInFlight = null;
+      useSyncQueueStore.setState({ flushing: false });
+      refreshPendingCount().catch(() => undefined);
+    });
+
+  return flushInFlight;
+};
+
+export const enqueueHealthMetrics = async (userId: string, metrics: HealthMetrics, capturedAt: number = Date.now()) => {
+  const db = await openOutbox();
+  const entry: QueuedSample = { userId, capturedAt, metrics };
+  const transaction = db.transaction(OUTBOX, 'readwrite');
+  transaction.objectStore(OUTBOX).add(entry);
+  await transactionDone(transaction);
+
+  await refreshPendingCount();
+  // While a retry is pending the new sample simply waits its turn behind the backlog
+  if (!retryTimer && navigator.onLine) {
+    await flushHealthMetricQueue();
+  }
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    useSyncQueueStore.setState({ online: true });
+    retryAttempt = 0;
+    flushHealthMetricQueue();
+  });
+  window.addEventListener('offline', () => useSyncQueueStore.setState({ online: false }));
+
+  // Pick up whatever was left behind by a previous session once we know who is signed in
+  onAuthStateChanged(auth, (user) => {
+    if (user) flushHealthMetricQueue();
+  });
+
+  refreshPendingCount().catch((error) => console.error('Error opening health metric queue:', error));
+}
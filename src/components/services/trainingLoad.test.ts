@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { banisterTrimp, buildLoadSeries, sessionLoad, summarizeLoad } from './trainingLoad';
+import type { SessionLoad, WorkoutSession } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const start = new Date(2026, 0, 1).getTime();
+const profile = { restingHeartRate: 60, maxHeartRate: 180, weighting: 1.92 };
+
+const session = (day: number, load: number): SessionLoad => ({
+  sessionId: `workout-${day}`,
+  sport: 'running',
+  startTime: start + day * DAY + 8 * 60 * 60 * 1000,
+  duration: 3600,
+  load,
+  method: 'trimp',
+});
+
+const daily = (from: number, count: number, load: number) =>
+  Array.from({ length: count }, (_, index) => session(from + index, load));
+
+describe('banisterTrimp', () => {
+  it('weights minutes by the exponentially scaled heart rate reserve', () => {
+    // Half the reserve for an hour: 60 x 0.5 x 0.64 x e^(1.92 x 0.5)
+    expect(banisterTrimp(60, 120, profile)).toBeCloseTo(50.14, 2);
+  });
+
+  it('clamps heart rates outside the reserve', () => {
+    expect(banisterTrimp(60, 50, profile)).toBe(0);
+    expect(banisterTrimp(60, 200, profile)).toBe(banisterTrimp(60, 180, profile));
+  });
+});
+
+describe('sessionLoad', () => {
+  it('falls back to session RPE x minutes without heart rate', () => {
+    const workout = { id: 'workout-1', sport: 'football', startTime: start, duration: 3600, rpe: 7, minutes: [] };
+    expect(sessionLoad(workout as unknown as WorkoutSession, profile)).toMatchObject({ load: 420, method: 'srpe' });
+  });
+});
+
+describe('buildLoadSeries', () => {
+  it('leaves the ratios unknown until 28 days after the first session', () => {
+    // 42 warm-up days of nothing, then a new athlete trains every day
+    const days = buildLoadSeries(daily(42, 30, 100), start, start + 71 * DAY);
+
+    const firstWeek = days.slice(42, 49);
+    expect(firstWeek.every((day) => day.acwr === null && day.acwrEwma === null)).toBe(true);
+    expect(days[42 + 26].acwr).toBeNull();
+    expect(days[42 + 27].acwr).toBe(1);
+    expect(days[42 + 27].acwrEwma).not.toBeNull();
+  });
+
+  it('compares the last week with the last four weeks', () => {
+    // Three weeks at 100, then a week at 200: 200 / ((21 x 100 + 7 x 200) / 28)
+    const days = buildLoadSeries([...daily(0, 21, 100), ...daily(21, 7, 200)], start, start + 27 * DAY);
+    const today = days[days.length - 1];
+
+    expect(today.acuteLoad).toBe(200);
+    expect(today.chronicLoad).toBe(125);
+    expect(today.acwr).toBe(1.6);
+    expect(today.acwrEwma).toBeGreaterThan(1);
+  });
+
+  it('tracks fitness, fatigue and form as 42 and 7 day curves', () => {
+    const [first, second] = buildLoadSeries([session(0, 42)], start, start + DAY);
+
+    expect(first).toMatchObject({ load: 42, fitness: 1, fatigue: 6, form: 0 });
+    // Form is what the athlete brought into the day, yesterday's fitness minus fatigue
+    expect(second).toMatchObject({ load: 0, fitness: 1, fatigue: 5.1, form: -5 });
+  });
+});
+
+describe('summarizeLoad', () => {
+  it("reports the week's monotony and strain", () => {
+    const sessions = [0, 2, 4, 6].map((day) => session(day, 100));
+    const summary = summarizeLoad(buildLoadSeries(sessions, start, start + 6 * DAY));
+
+    expect(summary).toMatchObject({ weeklyLoad: 400, monotony: 1.15, strain: 460, acwr: null });
+  });
+
+  it('has no summary without days', () => {
+    expect(summarizeLoad([])).toBeNull();
+  });
+});
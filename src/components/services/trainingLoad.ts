@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react';
+import { collection, doc, getDoc, getDocs, query, updateDoc, where } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { localDayStart } from './metricHistory';
+import { saveWorkoutSession } from './workoutFiles';
+import type {
+  SessionLoad,
+  TrainingLoadDay,
+  TrainingLoadSummary,
+  WorkoutSession,
+} from '../types';
+
+// Training load engine. Each session gets a load from heart rate (Banister TRIMP) or, when
+// there is no heart rate, from session RPE x duration (Foster). Daily loads then drive the
+// acute:chronic workload ratio and the fitness / fatigue / form (CTL / ATL / TSB) curves.
+// TRIMP and sRPE are both arbitrary units on different scales, so athletes who mix them
+// will see the ratios shift; recording heart rate wherever possible keeps them comparable.
+
+const DAY = 24 * 60 * 60 * 1000;
+const ACUTE_DAYS = 7;
+const CHRONIC_DAYS = 28;
+const FITNESS_DAYS = 42;
+const FATIGUE_DAYS = 7;
+// Enough history before the displayed range for the 42 day curve to settle
+const WARMUP_DAYS = FITNESS_DAYS;
+
+// Banister's sex-specific weighting of the heart rate reserve fraction
+const TRIMP_WEIGHTING = { male: 1.92, female: 1.67 };
+const DEFAULT_RESTING_HEART_RATE = 60;
+const DEFAULT_AGE = 30;
+
+export interface TrimpProfile {
+  restingHeartRate: number;
+  maxHeartRate: number;
+  weighting: number;
+}
+
+export interface TrainingLoad {
+  sessions: SessionLoad[];
+  days: TrainingLoadDay[];
+  summary: TrainingLoadSummary | null;
+}
+
+export const trimpProfileFromAthlete = (athlete: { age?: number; gender?: string; restingHeartRate?: number }): TrimpProfile => {
+  const gender = athlete.gender?.toLowerCase();
+  return {
+    restingHeartRate: Number(athlete.restingHeartRate) || DEFAULT_RESTING_HEART_RATE,
+    maxHeartRate: 220 - (Number(athlete.age) || DEFAULT_AGE),
+    weighting: gender === 'male' || gender === 'female'
+      ? TRIMP_WEIGHTING[gender]
+      : (TRIMP_WEIGHTING.male + TRIMP_WEIGHTING.female) / 2,
+  };
+};
+
+export const fetchTrimpProfile = async (userId: string) => {
+  const athlete = await getDoc(doc(db, 'athletes', userId));
+  return trimpProfileFromAthlete(athlete.exists() ? athlete.data() : {});
+};
+
+// TRIMP = minutes x HRr x 0.64e^(k x HRr), where HRr is the fraction of heart rate reserve used
+export const banisterTrimp = (minutes: number, averageHeartRate: number, profile: TrimpProfile) => {
+  const reserve = (averageHeartRate - profile.restingHeartRate) / (profile.maxHeartRate - profile.restingHeartRate);
+  const fraction = Math.min(1, Math.max(0, reserve));
+  return minutes * fraction * 0.64 * Math.exp(profile.weighting * fraction);
+};
+
+// Summed minute by minute when the session kept per-minute heart rate, since the
+// exponential weighting makes TRIMP from the session average an underestimate
+export const sessionTrimp = (session: WorkoutSession, profile: TrimpProfile) => {
+  const minutes = session.minutes.filter((bucket) => bucket.metrics.heartRate);
+  if (minutes.length > 0) {
+    return minutes.reduce((total, bucket) => {
+      const heartRate = bucket.metrics.heartRate!;
+      return total + banisterTrimp(1, heartRate.sum / heartRate.count, profile);
+    }, 0);
+  }
+  if (session.averageHeartRate) {
+    return banisterTrimp(session.duration / 60, session.averageHeartRate, profile);
+  }
+  return undefined;
+};
+
+export const sessionLoad = (session: WorkoutSession, profile: TrimpProfile): SessionLoad | null => {
+  const base = {
+    sessionId: session.id,
+    sport: session.sport,
+    startTime: session.startTime,
+    duration: session.duration,
+    rpe: session.rpe,
+  };
+
+  const trimp = sessionTrimp(session, profile);
+  if (trimp !== undefined) {
+    return { ...base, load: Math.round(trimp), method: 'trimp' };
+  }
+  if (session.rpe) {
+    return { ...base, load: Math.round(session.rpe * (session.duration / 60)), method: 'srpe' };
+  }
+  return null;
+};
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// One entry per local day from start to end, including rest days with zero load
+export const buildLoadSeries = (sessions: SessionLoad[], start: number, end: number): TrainingLoadDay[] => {
+  const loadByDay = sessions.reduce((loads, session) => {
+    const day = localDayStart(session.startTime);
+    loads.set(day, (loads.get(day) ?? 0) + session.load);
+    return loads;
+  }, new Map<number, number>());
+
+  const acuteDecay = 2 / (ACUTE_DAYS + 1);
+  const chronicDecay = 2 / (CHRONIC_DAYS + 1);
+  const loads: number[] = [];
+  const days: TrainingLoadDay[] = [];
+  let acuteEwma = 0;
+  let chronicEwma = 0;
+  let fitness = 0;
+  let fatigue = 0;
+  // Days since the first recorded session. The zero loads before it are the warm-up, not rest
+  // days, so a new athlete's ratio would otherwise compare a week of training to nothing.
+  let trackedDays = 0;
+
+  for (let day = localDayStart(start); day <= end; day = localDayStart(day + DAY + DAY / 2)) {
+    const load = loadByDay.get(day) ?? 0;
+    loads.push(load);
+    if (trackedDays > 0 || loadByDay.has(day)) trackedDays++;
+
+    // Form is what the athlete brings into today, so it uses yesterday's curves
+    const form = fitness - fatigue;
+    fitness += (load - fitness) / FITNESS_DAYS;
+    fatigue += (load - fatigue) / FATIGUE_DAYS;
+    acuteEwma = load * acuteDecay + acuteEwma * (1 - acuteDecay);
+    chronicEwma = load * chronicDecay + chronicEwma * (1 - chronicDecay);
+
+    const acuteLoad = average(loads.slice(-ACUTE_DAYS));
+    const chronicLoad = average(loads.slice(-CHRONIC_DAYS));
+    // A ratio is only meaningful once a full chronic window of training has been observed
+    const hasChronicWindow = trackedDays >= CHRONIC_DAYS;
+
+    days.push({
+      date: day,
+      load,
+      acuteLoad: round(acuteLoad),
+      chronicLoad: round(chronicLoad),
+      acwr: hasChronicWindow && chronicLoad > 0 ? round(acuteLoad / chronicLoad, 2) : null,
+      acwrEwma: hasChronicWindow && chronicEwma > 0 ? round(acuteEwma / chronicEwma, 2) : null,
+      fitness: round(fitness),
+      fatigue: round(fatigue),
+      form: round(form),
+    });
+  }
+
+  return days;
+};
+
+// Load state on the last day of the series, including Foster's monotony and strain
+export const summarizeLoad = (days: TrainingLoadDay[]): TrainingLoadSummary | null => {
+  const today = days[days.length - 1];
+  if (!today) return null;
+
+  const week = days.slice(-ACUTE_DAYS).map((day) => day.load);
+  const weeklyLoad = week.reduce((sum, load) => sum + load, 0);
+  const mean = average(week);
+  const standardDeviation = Math.sqrt(average(week.map((load) => (load - mean) ** 2)));
+  const monotony = week.length === ACUTE_DAYS && standardDeviation > 0 ? round(mean / standardDeviation, 2) : null;
+
+  return {
+    date: today.date,
+    weeklyLoad,
+    acwr: today.acwr,
+    acwrEwma: today.acwrEwma,
+    fitness: today.fitness,
+    fatigue: today.fatigue,
+    form: today.form,
+    monotony,
+    strain: monotony === null ? null : Math.round(weeklyLoad * monotony),
+  };
+};
+
+export const fetchSessions = async (userId: string, start: number) => {
+  const snapshot = await getDocs(
+    query(collection(db, 'users', userId, 'sessions'), where('startTime', '>=', start))
+  );
+  return snapshot.docs.map((sessionDoc) => sessionDoc.data() as WorkoutSession);
+};
+
+// Sessions, daily curves and today's summary for the last `days` days
+export const getTrainingLoad = async (userId: string, days = 90, now: number = Date.now()): Promise<TrainingLoad> => {
+  const displayStart = localDayStart(now - (days - 1) * DAY);
+  const start = localDayStart(displayStart - WARMUP_DAYS * DAY);
+  const [sessions, profile] = await Promise.all([fetchSessions(userId, start), fetchTrimpProfile(userId)]);
+
+  const loads = sessions
+    .map((session) => sessionLoad(session, profile))
+    .filter((load): load is SessionLoad => load !== null)
+    .sort((a, b) => a.startTime - b.startTime);
+  const series = buildLoadSeries(loads, start, now);
+
+  return {
+    sessions: loads.filter((load) => load.startTime >= displayStart),
+    days: series.filter((day) => day.date >= displayStart),
+    summary: summarizeLoad(series),
+  };
+};
+
+export const setSessionRpe = (userId: string, sessionId: string, rpe: number) =>
+  updateDoc(doc(db, 'users', userId, 'sessions', sessionId), { rpe });
+
+// Sessions without a device, e.g. team practice, are logged with duration and RPE only
+export const logManualSession = (
+  userId: string,
+  { sport, startTime, durationMinutes, rpe }: { sport: string; startTime: number; durationMinutes: number; rpe: number }
+) => {
+  const duration = durationMinutes * 60;
+  return saveWorkoutSession(userId, {
+    id: `workout-${Math.floor(startTime / 1000)}`,
+    source: 'manual',
+    sport,
+    startTime,
+    duration,
+    distance: 0,
+    rpe,
+    laps: [{ startTime, duration, distance: 0 }],
+    minutes: [],
+    route: [],
+  });
+};
+
+// React hook for the load engine; `revision` lets callers refetch after logging a session
+export const useTrainingLoad = (userId: string | undefined, days = 90, revision = 0) => {
+  const [trainingLoad, setTrainingLoad] = useState<TrainingLoad | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    getTrainingLoad(userId, days)
+      .then((result) => {
+        if (!cancelled) setTrainingLoad(result);
+      })
+      .catch((error) => console.error('Error computing training load:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, days, revision]);
+
+  return { trainingLoad, loading };
+};
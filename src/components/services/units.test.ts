@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { formatUnits, fromDisplayUnits, toDisplayUnits, unitLabel, useUnitStore, withUnitInstruction } from './units';
+import type { UnitQuantity } from '../types';
+
+describe('toDisplayUnits', () => {
+  it('leaves metric base units as they are, apart from distance and speed', () => {
+    expect(toDisplayUnits('weight', 72.34, 'metric')).toBe(72.3);
+    expect(toDisplayUnits('distance', 10000, 'metric')).toBe(10);
+    expect(toDisplayUnits('speed', 5, 'metric')).toBe(18);
+  });
+
+  it('converts to imperial and rounds to the display precision', () => {
+    expect(toDisplayUnits('weight', 100, 'imperial')).toBe(220.5);
+    expect(toDisplayUnits('distance', 10000, 'imperial')).toBe(6.21);
+    expect(toDisplayUnits('height', 180, 'imperial')).toBe(70.9);
+    expect(toDisplayUnits('volume', 1, 'imperial')).toBe(34);
+  });
+
+  it('applies the temperature offset', () => {
+    expect(toDisplayUnits('temperature', 0, 'imperial')).toBe(32);
+    expect(toDisplayUnits('temperature', 37, 'imperial')).toBe(98.6);
+  });
+
+  it('rounds to the requested digits instead when given', () => {
+    expect(toDisplayUnits('distance', 10000, 'imperial', 4)).toBe(6.2137);
+  });
+});
+
+describe('fromDisplayUnits', () => {
+  it('converts typed values back to base units unrounded', () => {
+    expect(fromDisplayUnits('temperature', 212, 'imperial')).toBe(100);
+    expect(fromDisplayUnits('distance', 1, 'imperial')).toBeCloseTo(1609.344, 6);
+    expect(fromDisplayUnits('weight', 1, 'imperial')).toBeCloseTo(0.45359237, 8);
+  });
+
+  it('round-trips every quantity', () => {
+    const quantities: UnitQuantity[] = ['height', 'length', 'weight', 'distance', 'pace', 'speed', 'temperature', 'volume'];
+    quantities.forEach((quantity) => {
+      (['metric', 'imperial'] as const).forEach((system) => {
+        const displayed = toDisplayUnits(quantity, 123.45, system, 10);
+        expect(fromDisplayUnits(quantity, displayed, system)).toBeCloseTo(123.45, 6);
+      });
+    });
+  });
+});
+
+describe('formatUnits', () => {
+  it('formats pace as a clock per kilometer or mile', () => {
+    expect(formatUnits('pace', 300, 'metric')).toBe('5:00 /km');
+    expect(formatUnits('pace', 300, 'imperial')).toBe('8:03 /mi');
+    expect(formatUnits('pace', 3725, 'metric')).toBe('1:02:05 /km');
+  });
+
+  it('formats imperial height in feet and inches', () => {
+    expect(formatUnits('height', 180, 'imperial')).toBe('5′ 11″');
+    expect(formatUnits('height', 180, 'metric')).toBe('180 cm');
+  });
+
+  it('puts degrees directly after the value', () => {
+    expect(formatUnits('temperature', 20, 'imperial')).toBe('68°F');
+    expect(unitLabel('temperature', 'metric')).toBe('°C');
+  });
+});
+
+describe('withUnitInstruction', () => {
+  it('asks for the preferred units', () => {
+    useUnitStore.setState({ system: 'imperial' });
+    expect(withUnitInstruction('Plan a week.')).toMatch(/^Plan a week\.\n.*miles, pounds/);
+    useUnitStore.setState({ system: 'metric' });
+    expect(withUnitInstruction('Plan a week.')).toMatch(/kilometers, kilograms/);
+  });
+});
@@ -0,0 +1,146 @@
+import { create } from 'zustand';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { UnitQuantity, UnitSystem } from '../types';
+
+// Metric / imperial display. Everything is stored and computed in the base units listed on
+// UnitQuantity; values are converted only where they are shown or typed in, so switching
+// the preference never touches stored data.
+
+interface UnitConversion {
+  label: string;
+  // Base unit to display unit
+  factor: number;
+  offset?: number;
+  digits: number;
+}
+
+const CM_PER_INCH = 2.54;
+const KG_PER_POUND = 0.45359237;
+const METERS_PER_MILE = 1609.344;
+const LITERS_PER_FLUID_OUNCE = 0.0295735;
+
+const CONVERSIONS: Record<UnitQuantity, Record<UnitSystem, UnitConversion>> = {
+  height: {
+    metric: { label: 'cm', factor: 1, digits: 0 },
+    imperial: { label: 'in', factor: 1 / CM_PER_INCH, digits: 1 },
+  },
+  length: {
+    metric: { label: 'cm', factor: 1, digits: 0 },
+    imperial: { label: 'in', factor: 1 / CM_PER_INCH, digits: 1 },
+  },
+  weight: {
+    metric: { label: 'kg', factor: 1, digits: 1 },
+    imperial: { label: 'lb', factor: 1 / KG_PER_POUND, digits: 1 },
+  },
+  distance: {
+    metric: { label: 'km', factor: 1 / 1000, digits: 2 },
+    imperial: { label: 'mi', factor: 1 / METERS_PER_MILE, digits: 2 },
+  },
+  pace: {
+    metric: { label: '/km', factor: 1, digits: 0 },
+    imperial: { label: '/mi', factor: METERS_PER_MILE / 1000, digits: 0 },
+  },
+  speed: {
+    metric: { label: 'km/h', factor: 3.6, digits: 1 },
+    imperial: { label: 'mph', factor: 3600 / METERS_PER_MILE, digits: 1 },
+  },
+  temperature: {
+    metric: { label: '°C', factor: 1, digits: 1 },
+    imperial: { label: '°F', factor: 9 / 5, offset: 32, digits: 1 },
+  },
+  volume: {
+    metric: { label: 'L', factor: 1, digits: 1 },
+    imperial: { label: 'fl oz', factor: 1 / LITERS_PER_FLUID_OUNCE, digits: 0 },
+  },
+};
+
+// Countries that still measure in miles and pounds
+const IMPERIAL_REGIONS = ['US', 'LR', 'MM'];
+
+const PREFERENCES_DOC = 'preferences';
+
+// Best guess before the stored preference loads, from the browser locale
+export const defaultUnitSystem = (): UnitSystem => {
+  const region = typeof navigator === 'undefined' ? undefined : navigator.language.split('-')[1]?.toUpperCase();
+  return region && IMPERIAL_REGIONS.includes(region) ? 'imperial' : 'metric';
+};
+
+export const useUnitStore = create<{ system: UnitSystem }>()(() => ({
+  system: defaultUnitSystem(),
+}));
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export const unitLabel = (quantity: UnitQuantity, system: UnitSystem) => CONVERSIONS[quantity][system].label;
+
+// Base unit to the display unit, rounded to the display precision unless digits is given
+export const toDisplayUnits = (quantity: UnitQuantity, value: number, system: UnitSystem, digits?: number) => {
+  const { factor, offset = 0, digits: defaultDigits } = CONVERSIONS[quantity][system];
+  return round(value * factor + offset, digits ?? defaultDigits);
+};
+
+// A value typed in the display unit back to the base unit, unrounded
+export const fromDisplayUnits = (quantity: UnitQuantity, value: number, system: UnitSystem) => {
+  const { factor, offset = 0 } = CONVERSIONS[quantity][system];
+  return (value - offset) / factor;
+};
+
+const formatClock = (totalSeconds: number) => {
+  const seconds = Math.round(totalSeconds);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = String(Math.floor((seconds % 3600) / 60)).padStart(hours ? 2 : 1, '0');
+  const clock = `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+  return hours ? `${hours}:${clock}` : clock;
+};
+
+// "12.4 km", "5′ 11″", "4:52 /mi"
+export const formatUnits = (quantity: UnitQuantity, value: number, system: UnitSystem, digits?: number) => {
+  const displayed = toDisplayUnits(quantity, value, system, digits);
+  const label = unitLabel(quantity, system);
+
+  if (quantity === 'pace') return `${formatClock(displayed)} ${label}`;
+  if (quantity === 'height' && system === 'imperial') {
+    const inches = Math.round(displayed);
+    return `${Math.floor(inches / 12)}′ ${inches % 12}″`;
+  }
+  return label.startsWith('°') ? `${displayed}${label}` : `${displayed} ${label}`;
+};
+
+const PROMPT_UNIT_INSTRUCTIONS: Record<UnitSystem, string> = {
+  metric: 'Express all measurements in metric units: kilometers, kilograms, centimeters, °C and liters.',
+  imperial: 'Express all measurements in US customary units: miles, pounds, feet and inches, °F and fluid ounces.',
+};
+
+// Appended to AI prompts so suggested loads, distances and volumes come back in the preferred units
+export const withUnitInstruction = (prompt: string) =>
+  `${prompt}\n${PROMPT_UNIT_INSTRUCTIONS[useUnitStore.getState().system]}`;
+
+// Units bound to the current preference, for components
+export const useUnits = () => {
+  const system = useUnitStore((state) => state.system);
+  return {
+    system,
+    label: (quantity: UnitQuantity) => unitLabel(quantity, system),
+    toDisplay: (quantity: UnitQuantity, value: number, digits?: number) => toDisplayUnits(quantity, value, system, digits),
+    fromDisplay: (quantity: UnitQuantity, value: number) => fromDisplayUnits(quantity, value, system),
+    format: (quantity: UnitQuantity, value: number, digits?: number) => formatUnits(quantity, value, system, digits),
+  };
+};
+
+// Preferences live under users/{uid}/settings so athletes and recruiters share one place
+const preferencesRef = (userId: string) => doc(db, 'users', userId, 'settings', PREFERENCES_DOC);
+
+export const loadUnitPreference = async (userId: string) => {
+  const snapshot = await getDoc(preferencesRef(userId));
+  const system = snapshot.data()?.unitSystem;
+  if (system === 'metric' || system === 'imperial') {
+    useUnitStore.setState({ system });
+  }
+};
+
+// Applied immediately; the write only makes it stick across devices
+export const saveUnitPreference = (userId: string, system: UnitSystem) => {
+  useUnitStore.setState({ system });
+  return setDoc(preferencesRef(userId), { unitSystem: system }, { merge: true });
+};
@@ -1,14 +1,17 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { ref, set, onValue } from 'firebase/database';
+import { ref, onValue } from 'firebase/database';
 import { rtdb } from '../config/firebase';
+import { enqueueHealthMetrics } from './syncQueue';
+import { createSignalFilter, filterHealthMetrics, type SignalFilter } from './signalQuality';
 import type { HealthMetrics } from '../types';
 
 interface WearableState {
   connectedDevice: string | null;
   healthMetrics: HealthMetrics;
   setConnectedDevice: (device: string | null) => void;
-  updateHealthMetrics: (metrics: Partial<HealthMetrics>) => void;
+  // source names the stream, e.g. a Bluetooth device id or a provider id, for its artifact filter
+  updateHealthMetrics: (metrics: Partial<HealthMetrics>, source: string) => void;
   clearHealthMetrics: () => void;
 }
 
@@ -26,22 +29,43 @@ const initialHealthMetrics: HealthMetrics = {
   lastUpdated: Date.now()
 };
 
+// Every live update passes through the artifact filter of its source before it reaches the
+// store. Each source keeps its own filter, so one stream's readings never judge another's.
+const signalFilters = new Map<string, SignalFilter>();
+
+const signalFilterFor = (source: string) => {
+  let filter = signalFilters.get(source);
+  if (!filter) {
+    filter = createSignalFilter();
+    signalFilters.set(source, filter);
+  }
+  return filter;
+};
+
+// Called when a source goes away, so a later stream under the same id starts fresh
+export const releaseSignalFilter = (source: string) => {
+  signalFilters.delete(source);
+};
+
 export const useWearableStore = create<WearableState>()(
   persist(
     (set) => ({
       connectedDevice: null,
       healthMetrics: initialHealthMetrics,
       setConnectedDevice: (device) => set({ connectedDevice: device }),
-      updateHealthMetrics: (metrics) =>
+      updateHealthMetrics: (metrics, source) =>
         set((state) => ({
-          healthMetrics: { 
-            ...state.healthMetrics, 
-            ...metrics,
+          healthMetrics: {
+            ...state.healthMetrics,
+            ...filterHealthMetrics(signalFilterFor(source), metrics),
             timestamp: new Date().toISOString(),
             lastUpdated: Date.now()
           },
         })),
-      clearHealthMetrics: () => set({ healthMetrics: initialHealthMetrics }),
+      clearHealthMetrics: () => {
+        signalFilters.clear();
+        set({ healthMetrics: initialHealthMetrics });
+      },
     }),
     {
       name: 'wearable-storage',
@@ -49,17 +73,13 @@ export const useWearableStore = create<WearableState>()(
   )
 );
 
-// Firebase real-time data sync
+// Firebase real-time data sync. Samples go through the persistent outbox so readings
+// taken offline are uploaded, in order, once the connection returns.
 export const syncHealthMetricsToFirebase = async (userId: string, metrics: HealthMetrics) => {
   try {
-    const metricsRef = ref(rtdb, `healthMetrics/${userId}`);
-    await set(metricsRef, {
-      ...metrics,
-      lastUpdated: Date.now(),
-      timestamp: new Date().toISOString()
-    });
+    await enqueueHealthMetrics(userId, metrics);
   } catch (error) {
-    console.error('Error syncing metrics to Firebase:', error);
+    console.error('Error queueing metrics for sync:', error);
   }
 };
 
@@ -72,18 +92,3 @@ export const subscribeToHealthMetrics = (userId: string, callback: (metrics: Hea
     }
   });
 };
-
-// Generate random metrics for non-Google Fit devices
-export const generateRandomMetrics = (): HealthMetrics => ({
-  timestamp: new Date().toISOString(),
-  heartRate: Math.floor(60 + Math.random() * 40), // 60-100 BPM
-  steps: Math.floor(2000 + Math.random() * 8000), // 2000-10000 steps
-  calories: Math.floor(1500 + Math.random() * 1000), // 1500-2500 calories
-  sleep: Math.floor(6 + Math.random() * 3), // 6-9 hours
-  hydration: Math.floor(50 + Math.random() * 50), // 50-100%
-  stress: Math.floor(20 + Math.random() * 60), // 20-80%
-  distance: Math.floor(1 + Math.random() * 10), // 1-10 km
-  activities: ['Running', 'Walking', 'Cycling'].sort(() => Math.random() - 0.5),
-  activeMinutes: Math.floor(30 + Math.random() * 60), // 30-90 minutes
-  lastUpdated: Date.now()
-});
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { create } from 'zustand';
+import type { BluetoothSensor, BluetoothSensorProfile, WearableConnectOptions, WearableProvider } from '../../types';
+import { releaseSignalFilter, useWearableStore } from '../wearableStore';
+import { connectGattDevice, type GattConnection } from './bluetoothGatt';
+import { SENSOR_PROFILES, createSensorMerger, createSensorSubscriptions } from './bluetoothSensors';
+
+// Several Bluetooth sensors (heart rate strap, power meter, speed/cadence sensor, foot pod)
+// can be paired at once; their streams are merged into the one live metrics record.
+
+interface SensorConnection {
+  connection: GattConnection;
+  profiles: BluetoothSensorProfile[];
+}
+
+export const useBluetoothSensorStore = create<{ sensors: BluetoothSensor[] }>()(() => ({ sensors: [] }));
+
+// Module level so the streams survive navigating between dashboard sections
+const connections = new Map<string, SensorConnection>();
+const merger = createSensorMerger();
+
+const publishSensors = (status: Record<string, string | undefined> = {}) => {
+  const previous = useBluetoothSensorStore.getState().sensors;
+  useBluetoothSensorStore.setState({
+    sensors: Array.from(connections.entries()).map(([id, { connection, profiles }]) => ({
+      id,
+      name: connection.device.name || 'Bluetooth sensor',
+      profiles,
+      status: id in status ? status[id] : previous.find((sensor) => sensor.id === id)?.status,
+    })),
+  });
+};
+
+export const removeBluetoothSensor = (sensorId: string) => {
+  connections.get(sensorId)?.connection.disconnect();
+  connections.delete(sensorId);
+  const cleared = merger.remove(sensorId);
+  if (Object.keys(cleared).length) {
+    useWearableStore.getState().updateHealthMetrics(cleared, sensorId);
+  }
+  releaseSignalFilter(sensorId);
+  publishSensors();
+};
+
+const disconnect = () => {
+  connections.forEach(({ connection }, id) => {
+    connection.disconnect();
+    releaseSignalFilter(id);
+  });
+  connections.clear();
+  merger.reset();
+  publishSensors();
+};
+
+// Ask the browser for one more sensor and start streaming it next to those already paired
+export const pairBluetoothSensor = async ({ onStatusChange, onConnectionLost }: WearableConnectOptions = {}) => {
+  const device = await navigator.bluetooth.requestDevice({
+    filters: SENSOR_PROFILES.map((profile) => ({ services: [profile] })),
+    // A filter only has to match one service; the others still need permission to be read
+    optionalServices: SENSOR_PROFILES
+  });
+
+  // Pairing the same sensor again replaces its old connection
+  if (connections.has(device.id)) {
+    removeBluetoothSensor(device.id);
+  }
+
+  const subscriptions = createSensorSubscriptions((profile, metrics) => {
+    const merged = merger.merge(device.id, profile, metrics);
+    if (Object.keys(merged).length) {
+      useWearableStore.getState().updateHealthMetrics(merged, device.id);
+    }
+  });
+
+  const connection = await connectGattDevice(device, subscriptions, {
+    onReconnecting: (attempt) => {
+      const status = `Connection lost, reconnecting (attempt ${attempt})...`;
+      publishSensors({ [device.id]: status });
+      onStatusChange?.(`${device.name ?? 'Sensor'}: ${status}`);
+    },
+    onReconnected: () => {
+      publishSensors({ [device.id]: undefined });
+      onStatusChange?.(undefined);
+    },
+    onConnectionLost: (error) => {
+      removeBluetoothSensor(device.id);
+      onStatusChange?.(undefined);
+      // The provider only counts as lost once its last sensor is gone
+      if (connections.size === 0) {
+        onConnectionLost?.(error);
+      }
+    }
+  });
+
+  connections.set(device.id, {
+    connection,
+    profiles: connection.subscriptions.map((subscription) => subscription.service as BluetoothSensorProfile)
+  });
+  publishSensors();
+};
+
+export const bluetoothSensorProvider: WearableProvider = {
+  id: 'bluetooth',
+  name: 'Bluetooth Sensors',
+  connectionType: 'bluetooth',
+  capabilities: ['heartRate', 'rrIntervals', 'power', 'cadence', 'speed', 'strideLength'],
+  // Samples are pushed by GATT notifications; polling only snapshots them for charts and sync
+  pollInterval: 5000,
+  connect: pairBluetoothSensor,
+  disconnect,
+  getDeviceName: () => {
+    const names = Array.from(connections.values()).map(({ connection }) => connection.device.name).filter(Boolean);
+    return names.length ? names.join(' + ') : undefined;
+  },
+  refresh: async () => ({}),
+  // Live sensors don't keep history, everything is recorded live
+  fetchRange: async () => []
+};
@@ -0,0 +1,116 @@
+// Shared Web Bluetooth plumbing: connect to a device, subscribe to notifications on
+// every requested characteristic it actually has, and reconnect automatically when the
+// link drops.
+
+export interface GattSubscription {
+  service: BluetoothServiceUUID;
+  characteristic: BluetoothCharacteristicUUID;
+  onValue: (value: DataView) => void;
+}
+
+export interface GattHandlers {
+  onReconnecting?: (attempt: number) => void;
+  onReconnected?: () => void;
+  onConnectionLost?: (error: unknown) => void;
+}
+
+export interface GattConnection {
+  device: BluetoothDevice;
+  // The subscriptions the device supports, in the order they were requested
+  subscriptions: GattSubscription[];
+  disconnect: () => void;
+}
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY = 1000;
+
+const getService = async (server: BluetoothRemoteGATTServer, service: BluetoothServiceUUID) => {
+  try {
+    return await server.getPrimaryService(service);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'NotFoundError') return null;
+    throw error;
+  }
+};
+
+// Subscribe to whichever of the requested characteristics the device exposes
+const subscribe = async (device: BluetoothDevice, subscriptions: GattSubscription[]) => {
+  if (!device.gatt) {
+    throw new Error('Device does not support GATT');
+  }
+
+  const server = await device.gatt.connect();
+  const subscribed: GattSubscription[] = [];
+
+  for (const subscription of subscriptions) {
+    const service = await getService(server, subscription.service);
+    if (!service) continue;
+
+    const characteristic = await service.getCharacteristic(subscription.characteristic);
+    characteristic.addEventListener('characteristicvaluechanged', (event) => {
+      const target = event.target as BluetoothRemoteGATTCharacteristic;
+      if (target.value) {
+        subscription.onValue(target.value);
+      }
+    });
+    await characteristic.startNotifications();
+    subscribed.push(subscription);
+  }
+
+  if (subscribed.length === 0) {
+    device.gatt.disconnect();
+    throw new Error(`${device.name ?? 'Device'} exposes none of the supported sensor services`);
+  }
+  return subscribed;
+};
+
+// Connect to a paired device and stream notifications until disconnect() is called
+export const connectGattDevice = async (
+  device: BluetoothDevice,
+  subscriptions: GattSubscription[],
+  handlers: GattHandlers = {}
+): Promise<GattConnection> => {
+  let manuallyDisconnected = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const subscribed = await subscribe(device, subscriptions);
+
+  const reconnect = (attempt: number) => {
+    if (manuallyDisconnected) return;
+
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      handlers.onConnectionLost?.(new Error(`Unable to reconnect to ${device.name ?? 'sensor'}`));
+      return;
+    }
+
+    handlers.onReconnecting?.(attempt);
+    reconnectTimer = setTimeout(async () => {
+      try {
+        // Only what worked the first time, a sensor doesn't grow new services
+        await subscribe(device, subscribed);
+        handlers.onReconnected?.();
+      } catch (error) {
+        console.error('Bluetooth reconnect attempt failed:', error);
+        reconnect(attempt + 1);
+      }
+    }, RECONNECT_BASE_DELAY * 2 ** (attempt - 1));
+  };
+
+  const handleDisconnected = () => reconnect(1);
+  device.addEventListener('gattserverdisconnected', handleDisconnected);
+
+  return {
+    device,
+    subscriptions: subscribed,
+    disconnect: () => {
+      manuallyDisconnected = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      device.removeEventListener('gattserverdisconnected', handleDisconnected);
+      if (device.gatt?.connected) {
+        device.gatt.disconnect();
+      }
+    }
+  };
+};
@@ -0,0 +1,62 @@
+// Bluetooth GATT Heart Rate Service (0x180D).
+// Decodes Heart Rate Measurement (0x2A37) notifications from a chest strap; the
+// connection itself is handled by bluetoothGatt.
+
+export interface HeartRateMeasurement {
+  heartRate: number;
+  sensorContact: boolean | null; // null when the sensor does not report contact
+  energyExpended?: number; // kJ since last reset
+  rrIntervals: number[]; // milliseconds
+  timestamp: number;
+}
+
+export const HEART_RATE_SERVICE = 'heart_rate';
+export const HEART_RATE_MEASUREMENT = 'heart_rate_measurement';
+
+// Flag bits of the Heart Rate Measurement characteristic
+const FLAG_HR_16_BIT = 0x01;
+const FLAG_CONTACT_DETECTED = 0x02;
+const FLAG_CONTACT_SUPPORTED = 0x04;
+const FLAG_ENERGY_EXPENDED = 0x08;
+const FLAG_RR_INTERVALS = 0x10;
+
+// Parse a raw Heart Rate Measurement value as defined by the GATT specification
+export const parseHeartRateMeasurement = (value: DataView): HeartRateMeasurement => {
+  const flags = value.getUint8(0);
+  let offset = 1;
+
+  let heartRate: number;
+  if (flags & FLAG_HR_16_BIT) {
+    heartRate = value.getUint16(offset, true);
+    offset += 2;
+  } else {
+    heartRate = value.getUint8(offset);
+    offset += 1;
+  }
+
+  const sensorContact = flags & FLAG_CONTACT_SUPPORTED
+    ? Boolean(flags & FLAG_CONTACT_DETECTED)
+    : null;
+
+  let energyExpended: number | undefined;
+  if (flags & FLAG_ENERGY_EXPENDED) {
+    energyExpended = value.getUint16(offset, true);
+    offset += 2;
+  }
+
+  const rrIntervals: number[] = [];
+  if (flags & FLAG_RR_INTERVALS) {
+    // RR intervals are reported in units of 1/1024 s
+    for (; offset + 1 < value.byteLength; offset += 2) {
+      rrIntervals.push(Math.round((value.getUint16(offset, true) / 1024) * 1000));
+    }
+  }
+
+  return {
+    heartRate,
+    sensorContact,
+    energyExpended,
+    rrIntervals,
+    timestamp: Date.now()
+  };
+};
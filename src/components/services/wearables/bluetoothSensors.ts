@@ -0,0 +1,324 @@
+import type { BluetoothSensorProfile, HealthMetrics } from '../../types';
+import { HEART_RATE_MEASUREMENT, HEART_RATE_SERVICE, parseHeartRateMeasurement } from './bluetoothHeartRate';
+import type { GattSubscription } from './bluetoothGatt';
+
+// Bluetooth GATT fitness sensor profiles beside heart rate:
+//  - Cycling Power (0x1818), Cycling Power Measurement 0x2A63
+//  - Cycling Speed and Cadence (0x1816), CSC Measurement 0x2A5B
+//  - Running Speed and Cadence (0x1814), RSC Measurement 0x2A53
+// Bike sensors only report cumulative revolution counters with event times, so speed and
+// cadence come from the change between consecutive notifications.
+
+export interface RevolutionData {
+  revolutions: number; // cumulative
+  eventTime: number; // time of the last revolution, in the counter's own units
+}
+
+export interface CyclingPowerMeasurement {
+  power: number; // watts
+  pedalPowerBalance?: number; // percent
+  wheel?: RevolutionData; // event time in 1/2048 s
+  crank?: RevolutionData; // event time in 1/1024 s
+  timestamp: number;
+}
+
+export interface CscMeasurement {
+  wheel?: RevolutionData; // event time in 1/1024 s
+  crank?: RevolutionData; // event time in 1/1024 s
+  timestamp: number;
+}
+
+export interface RscMeasurement {
+  speed: number; // m/s
+  cadence: number; // steps per minute
+  strideLength?: number; // meters
+  totalDistance?: number; // meters
+  running: boolean | null; // null when the sensor does not report walking or running
+  timestamp: number;
+}
+
+export const SENSOR_PROFILE_LABELS: Record<BluetoothSensorProfile, string> = {
+  heart_rate: 'Heart rate',
+  cycling_power: 'Power',
+  cycling_speed_and_cadence: 'Speed & cadence',
+  running_speed_and_cadence: 'Running speed & cadence',
+};
+
+export const SENSOR_PROFILES = Object.keys(SENSOR_PROFILE_LABELS) as BluetoothSensorProfile[];
+
+// 700x25c, the most common road tyre
+const DEFAULT_WHEEL_CIRCUMFERENCE = 2.105; // meters
+// A crank or wheel with no new revolution for this long has stopped
+const STOPPED_AFTER = 3000; // ms
+// A lower priority sensor takes over a field when the preferred one goes quiet for this long
+const SOURCE_TIMEOUT = 5000; // ms
+// Instantaneous readings that read zero once their sensor is gone
+const LIVE_FIELDS: (keyof HealthMetrics)[] = ['power', 'cadence', 'speed', 'strideLength'];
+
+const EVENT_TIME_RANGE = 0x10000;
+const CRANK_REVOLUTION_RANGE = 0x10000;
+const WHEEL_REVOLUTION_RANGE = 0x100000000;
+
+// Cycling Power Measurement flag bits, in the order their fields appear
+const CP_PEDAL_POWER_BALANCE = 0x0001;
+const CP_ACCUMULATED_TORQUE = 0x0004;
+const CP_WHEEL_REVOLUTIONS = 0x0010;
+const CP_CRANK_REVOLUTIONS = 0x0020;
+
+// CSC Measurement flag bits
+const CSC_WHEEL_REVOLUTIONS = 0x01;
+const CSC_CRANK_REVOLUTIONS = 0x02;
+
+// RSC Measurement flag bits
+const RSC_STRIDE_LENGTH = 0x01;
+const RSC_TOTAL_DISTANCE = 0x02;
+const RSC_RUNNING = 0x04;
+
+export const parseCyclingPowerMeasurement = (value: DataView): CyclingPowerMeasurement => {
+  const flags = value.getUint16(0, true);
+  const power = value.getInt16(2, true);
+  let offset = 4;
+
+  let pedalPowerBalance: number | undefined;
+  if (flags & CP_PEDAL_POWER_BALANCE) {
+    // Reported in 1/2 percent
+    pedalPowerBalance = value.getUint8(offset) / 2;
+    offset += 1;
+  }
+  if (flags & CP_ACCUMULATED_TORQUE) {
+    offset += 2;
+  }
+
+  let wheel: RevolutionData | undefined;
+  if (flags & CP_WHEEL_REVOLUTIONS) {
+    wheel = { revolutions: value.getUint32(offset, true), eventTime: value.getUint16(offset + 4, true) };
+    offset += 6;
+  }
+
+  let crank: RevolutionData | undefined;
+  if (flags & CP_CRANK_REVOLUTIONS) {
+    crank = { revolutions: value.getUint16(offset, true), eventTime: value.getUint16(offset + 2, true) };
+  }
+  // Force, torque, angle and energy fields follow; nothing on the dashboard uses them
+
+  return { power, pedalPowerBalance, wheel, crank, timestamp: Date.now() };
+};
+
+export const parseCscMeasurement = (value: DataView): CscMeasurement => {
+  const flags = value.getUint8(0);
+  let offset = 1;
+
+  let wheel: RevolutionData | undefined;
+  if (flags & CSC_WHEEL_REVOLUTIONS) {
+    wheel = { revolutions: value.getUint32(offset, true), eventTime: value.getUint16(offset + 4, true) };
+    offset += 6;
+  }
+
+  let crank: RevolutionData | undefined;
+  if (flags & CSC_CRANK_REVOLUTIONS) {
+    crank = { revolutions: value.getUint16(offset, true), eventTime: value.getUint16(offset + 2, true) };
+  }
+
+  return { wheel, crank, timestamp: Date.now() };
+};
+
+export const parseRscMeasurement = (value: DataView): RscMeasurement => {
+  const flags = value.getUint8(0);
+  // Speed in 1/256 m/s, cadence in steps per minute
+  const speed = value.getUint16(1, true) / 256;
+  const cadence = value.getUint8(3);
+  let offset = 4;
+
+  let strideLength: number | undefined;
+  if (flags & RSC_STRIDE_LENGTH) {
+    // Reported in centimeters
+    strideLength = value.getUint16(offset, true) / 100;
+    offset += 2;
+  }
+
+  let totalDistance: number | undefined;
+  if (flags & RSC_TOTAL_DISTANCE) {
+    // Reported in decimeters
+    totalDistance = value.getUint32(offset, true) / 10;
+  }
+
+  return {
+    speed,
+    cadence,
+    strideLength,
+    totalDistance,
+    // The status bit is only meaningful when the sensor sends stride data as well
+    running: flags & RSC_STRIDE_LENGTH ? Boolean(flags & RSC_RUNNING) : null,
+    timestamp: Date.now()
+  };
+};
+
+// Revolutions per second from consecutive cumulative readings. Both counters wrap, and a
+// repeated event time means no new revolution, so the last rate holds until the sensor
+// has been still for STOPPED_AFTER.
+export const createRevolutionRate = (revolutionRange: number, ticksPerSecond: number) => {
+  let previous: RevolutionData | null = null;
+  let rate = 0;
+  let lastRevolutionAt = 0;
+
+  return (reading: RevolutionData, now = Date.now()): number | undefined => {
+    const last = previous;
+    previous = reading;
+    if (!last) {
+      lastRevolutionAt = now;
+      return undefined;
+    }
+
+    const revolutions = (reading.revolutions - last.revolutions + revolutionRange) % revolutionRange;
+    const elapsed = ((reading.eventTime - last.eventTime + EVENT_TIME_RANGE) % EVENT_TIME_RANGE) / ticksPerSecond;
+
+    if (revolutions > 0 && elapsed > 0) {
+      rate = revolutions / elapsed;
+      lastRevolutionAt = now;
+    } else if (now - lastRevolutionAt > STOPPED_AFTER) {
+      rate = 0;
+    }
+    return rate;
+  };
+};
+
+export type SensorMetrics = Partial<HealthMetrics>;
+
+// A characteristic subscription for each profile, with its own revolution state, that
+// turns every notification into metrics for the live record
+export const createSensorSubscriptions = (
+  onMetrics: (profile: BluetoothSensorProfile, metrics: SensorMetrics) => void,
+  wheelCircumference = DEFAULT_WHEEL_CIRCUMFERENCE
+): GattSubscription[] => {
+  const powerWheel = createRevolutionRate(WHEEL_REVOLUTION_RANGE, 2048);
+  const powerCrank = createRevolutionRate(CRANK_REVOLUTION_RANGE, 1024);
+  const cscWheel = createRevolutionRate(WHEEL_REVOLUTION_RANGE, 1024);
+  const cscCrank = createRevolutionRate(CRANK_REVOLUTION_RANGE, 1024);
+
+  const revolutionMetrics = (
+    wheel: number | undefined,
+    crank: number | undefined
+  ): SensorMetrics => ({
+    ...(wheel !== undefined && { speed: wheel * wheelCircumference }),
+    ...(crank !== undefined && { cadence: Math.round(crank * 60) }),
+  });
+
+  return [
+    {
+      service: HEART_RATE_SERVICE,
+      characteristic: HEART_RATE_MEASUREMENT,
+      onValue: (value) => {
+        const measurement = parseHeartRateMeasurement(value);
+        onMetrics('heart_rate', {
+          heartRate: measurement.heartRate,
+          rrIntervals: measurement.rrIntervals,
+          energyExpended: measurement.energyExpended,
+          sensorContact: measurement.sensorContact
+        });
+      }
+    },
+    {
+      service: 'cycling_power',
+      characteristic: 'cycling_power_measurement',
+      onValue: (value) => {
+        const measurement = parseCyclingPowerMeasurement(value);
+        onMetrics('cycling_power', {
+          power: Math.max(0, measurement.power),
+          ...revolutionMetrics(
+            measurement.wheel && powerWheel(measurement.wheel, measurement.timestamp),
+            measurement.crank && powerCrank(measurement.crank, measurement.timestamp)
+          )
+        });
+      }
+    },
+    {
+      service: 'cycling_speed_and_cadence',
+      characteristic: 'csc_measurement',
+      onValue: (value) => {
+        const measurement = parseCscMeasurement(value);
+        onMetrics('cycling_speed_and_cadence', revolutionMetrics(
+          measurement.wheel && cscWheel(measurement.wheel, measurement.timestamp),
+          measurement.crank && cscCrank(measurement.crank, measurement.timestamp)
+        ));
+      }
+    },
+    {
+      service: 'running_speed_and_cadence',
+      characteristic: 'rsc_measurement',
+      onValue: (value) => {
+        const measurement = parseRscMeasurement(value);
+        onMetrics('running_speed_and_cadence', {
+          speed: measurement.speed,
+          cadence: measurement.cadence,
+          ...(measurement.strideLength !== undefined && { strideLength: measurement.strideLength })
+        });
+      }
+    }
+  ];
+};
+
+// Which profile wins when more than one sensor reports the same field: dedicated speed
+// and cadence sensors over the power meter's estimate
+const FIELD_PRIORITY: Partial<Record<keyof HealthMetrics, BluetoothSensorProfile[]>> = {
+  speed: ['cycling_speed_and_cadence', 'running_speed_and_cadence', 'cycling_power'],
+  cadence: ['cycling_speed_and_cadence', 'running_speed_and_cadence', 'cycling_power'],
+};
+
+// Merges every paired sensor's stream into one record. A field only changes hands when
+// its preferred source has gone quiet, so two sensors never make it flicker between them.
+export const createSensorMerger = () => {
+  // field -> sensor key -> last report
+  const reports = new Map<keyof HealthMetrics, Map<string, { profile: BluetoothSensorProfile; at: number }>>();
+
+  const rank = (field: keyof HealthMetrics, profile: BluetoothSensorProfile) => {
+    const priority = FIELD_PRIORITY[field];
+    return priority ? priority.indexOf(profile) : 0;
+  };
+
+  const merge = (
+    sensorId: string,
+    profile: BluetoothSensorProfile,
+    metrics: SensorMetrics,
+    now = Date.now()
+  ): SensorMetrics => {
+    const accepted: SensorMetrics = {};
+
+    (Object.keys(metrics) as (keyof HealthMetrics)[]).forEach((field) => {
+      if (metrics[field] === undefined) return;
+      const sources = reports.get(field) ?? new Map();
+      reports.set(field, sources);
+      sources.set(`${sensorId}:${profile}`, { profile, at: now });
+
+      const outranked = Array.from(sources.values()).some(
+        (source) => now - source.at <= SOURCE_TIMEOUT && rank(field, source.profile) < rank(field, profile)
+      );
+      if (!outranked) {
+        Object.assign(accepted, { [field]: metrics[field] });
+      }
+    });
+    return accepted;
+  };
+
+  // Forget a sensor and return zeros for the live fields nobody else is reporting any more
+  const remove = (sensorId: string, now = Date.now()): SensorMetrics => {
+    const cleared: SensorMetrics = {};
+    reports.forEach((sources, field) => {
+      let removed = false;
+      sources.forEach((_, key) => {
+        if (key.startsWith(`${sensorId}:`)) {
+          sources.delete(key);
+          removed = true;
+        }
+      });
+      const stillReported = Array.from(sources.values()).some((source) => now - source.at <= SOURCE_TIMEOUT);
+      if (removed && !stillReported && LIVE_FIELDS.includes(field)) {
+        Object.assign(cleared, { [field]: 0 });
+      }
+    });
+    return cleared;
+  };
+
+  const reset = () => reports.clear();
+
+  return { merge, remove, reset };
+};
@@ -0,0 +1,284 @@
+import type { HealthMetrics, SleepStageSegment, WearableProvider } from '../../types';
+import { authorizeInPopup } from './oauth';
+import { authorizeEndpoint, disconnectProvider, exchangeAuthorizationCode, getAccessToken } from './tokenBroker';
+
+const GOOGLE_FIT_API_BASE = 'https://www.googleapis.com/fitness/v1/users/me';
+const GOOGLE_AUTHORIZE_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+
+const SCOPES = [
+  'https://www.googleapis.com/auth/fitness.activity.read',
+  'https://www.googleapis.com/auth/fitness.heart_rate.read',
+  'https://www.googleapis.com/auth/fitness.body.read',
+  'https://www.googleapis.com/auth/fitness.location.read',
+  'https://www.googleapis.com/auth/fitness.sleep.read',
+  'https://www.googleapis.com/auth/fitness.nutrition.read',
+];
+
+const SLEEP_SEGMENT_SOURCE = 'derived:com.google.sleep.segment:com.google.android.gms:merged';
+
+// Google Fit sleep stage values
+export const SLEEP_STAGE = {
+  AWAKE: 1,
+  SLEEP: 2,
+  OUT_OF_BED: 3,
+  LIGHT: 4,
+  DEEP: 5,
+  REM: 6,
+} as const;
+
+// Hydration is logged in liters; the dashboard shows it as a percentage of a 3 liter daily target
+const DAILY_HYDRATION_TARGET_LITERS = 3;
+
+const DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_BUCKET = 5 * 60 * 1000;
+
+type AggregateDataType =
+  | 'com.google.heart_rate.bpm'
+  | 'com.google.step_count.delta'
+  | 'com.google.calories.expended'
+  | 'com.google.distance.delta'
+  | 'com.google.hydration';
+
+interface GoogleFitValue {
+  fpVal?: number;
+  intVal?: number;
+}
+
+interface GoogleFitPoint {
+  startTimeNanos: string;
+  endTimeNanos: string;
+  value: GoogleFitValue[];
+}
+
+interface AggregateResponse {
+  bucket?: Array<{
+    startTimeMillis: string;
+    endTimeMillis: string;
+    dataset: Array<{ point: GoogleFitPoint[] }>;
+  }>;
+}
+
+interface SessionsResponse {
+  session?: Array<{ name: string; activityType: number }>;
+}
+
+export interface SleepSegment {
+  stage: number;
+  start: number;
+  end: number;
+}
+
+// Authorized request against the Fitness API, refreshing the token once on 401
+const googleFitFetch = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  let token = await getAccessToken('google_fit');
+
+  const request = (accessToken: string) =>
+    fetch(`${GOOGLE_FIT_API_BASE}/${path}`, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${accessToken}`,
+      },
+    });
+
+  let response = await request(token);
+  if (response.status === 401) {
+    token = await getAccessToken('google_fit', { forceRefresh: true });
+    response = await request(token);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Google Fit request ${path} failed with status ${response.status}`);
+  }
+
+  return response.json();
+};
+
+const aggregate = (dataTypeName: AggregateDataType, start: Date, end: Date, bucketMillis: number) =>
+  googleFitFetch<AggregateResponse>('dataset:aggregate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      aggregateBy: [{ dataTypeName }],
+      bucketByTime: { durationMillis: bucketMillis },
+      startTimeMillis: start.getTime(),
+      endTimeMillis: end.getTime(),
+    }),
+  });
+
+const pointValue = (point: GoogleFitPoint) => point.value[0]?.fpVal ?? point.value[0]?.intVal ?? 0;
+
+// Sum of every point across all buckets
+const totalOf = (response: AggregateResponse) =>
+  (response.bucket || []).reduce(
+    (sum, bucket) => sum + bucket.dataset.reduce(
+      (datasetSum, dataset) => datasetSum + dataset.point.reduce((pointSum, point) => pointSum + pointValue(point), 0),
+      0
+    ),
+    0
+  );
+
+// Heart rate aggregates return [average, max, min]; use the average of the latest bucket
+const latestAverageOf = (response: AggregateResponse) => {
+  const buckets = (response.bucket || []).filter((bucket) => bucket.dataset[0]?.point.length);
+  const latest = buckets[buckets.length - 1];
+  return latest ? pointValue(latest.dataset[0].point[latest.dataset[0].point.length - 1]) : 0;
+};
+
+// Raw sleep stage segments recorded between start and end
+export const fetchSleepSegments = async (start: Date, end: Date): Promise<SleepSegment[]> => {
+  const data = await googleFitFetch<{ point?: GoogleFitPoint[] }>(
+    // Nanosecond timestamps exceed Number.MAX_SAFE_INTEGER, so append the zeros as text
+    `dataSources/${SLEEP_SEGMENT_SOURCE}/datasets/${start.getTime()}000000-${end.getTime()}000000`
+  );
+
+  return (data.point || []).map((point) => ({
+    stage: point.value[0]?.intVal ?? SLEEP_STAGE.SLEEP,
+    start: Number(point.startTimeNanos) / 1000000,
+    end: Number(point.endTimeNanos) / 1000000,
+  }));
+};
+
+// Hours actually asleep, i.e. excluding awake and out-of-bed segments
+export const totalSleepHours = (segments: SleepSegment[]) => {
+  const asleepMillis = segments
+    .filter((segment) => segment.stage !== SLEEP_STAGE.AWAKE && segment.stage !== SLEEP_STAGE.OUT_OF_BED)
+    .reduce((sum, segment) => sum + (segment.end - segment.start), 0);
+  return Math.round((asleepMillis / (60 * 60 * 1000)) * 10) / 10;
+};
+
+const STAGE_NAMES: Partial<Record<number, SleepStageSegment['stage']>> = {
+  [SLEEP_STAGE.AWAKE]: 'awake',
+  [SLEEP_STAGE.SLEEP]: 'asleep',
+  [SLEEP_STAGE.LIGHT]: 'light',
+  [SLEEP_STAGE.DEEP]: 'deep',
+  [SLEEP_STAGE.REM]: 'rem',
+};
+
+// Staged sleep for the sleep analytics; out-of-bed segments are not part of the night
+const fetchSleep = async (start: Date, end: Date): Promise<SleepStageSegment[]> =>
+  (await fetchSleepSegments(start, end)).flatMap(({ stage, start: segmentStart, end: segmentEnd }) => {
+    const name = STAGE_NAMES[stage];
+    return name ? [{ stage: name, start: segmentStart, end: segmentEnd }] : [];
+  });
+
+const hydrationPercent = (liters: number) =>
+  Math.min(100, Math.round((liters / DAILY_HYDRATION_TARGET_LITERS) * 100));
+
+// Today's totals plus the most recent heart rate and last night's sleep
+const refresh = async (): Promise<Partial<HealthMetrics>> => {
+  const now = new Date();
+  const oneDayAgo = new Date(now.getTime() - DAY);
+
+  try {
+    const [heartRate, steps, calories, distance, hydration, sleepSegments, sessions] = await Promise.all([
+      aggregate('com.google.heart_rate.bpm', oneDayAgo, now, DEFAULT_BUCKET),
+      aggregate('com.google.step_count.delta', oneDayAgo, now, DAY),
+      aggregate('com.google.calories.expended', oneDayAgo, now, DAY),
+      aggregate('com.google.distance.delta', oneDayAgo, now, DAY),
+      aggregate('com.google.hydration', oneDayAgo, now, DAY),
+      fetchSleepSegments(oneDayAgo, now),
+      googleFitFetch<SessionsResponse>(
+        `sessions?startTime=${oneDayAgo.toISOString()}&endTime=${now.toISOString()}`
+      ),
+    ]);
+
+    return {
+      heartRate: Math.round(latestAverageOf(heartRate)),
+      steps: Math.round(totalOf(steps)),
+      calories: Math.round(totalOf(calories)),
+      distance: Math.round(totalOf(distance) / 10) / 100, // meters to km
+      hydration: hydrationPercent(totalOf(hydration)),
+      sleep: totalSleepHours(sleepSegments),
+      activities: (sessions.session || []).map((session) => session.name),
+    };
+  } catch (error) {
+    console.error('Error fetching Google Fit data:', error);
+    throw error;
+  }
+};
+
+// Bucketed history between start and end, one HealthMetrics entry per bucket with data
+const fetchRange = async (start: Date, end: Date, bucketMillis = DEFAULT_BUCKET): Promise<HealthMetrics[]> => {
+  const dataTypes: AggregateDataType[] = [
+    'com.google.heart_rate.bpm',
+    'com.google.step_count.delta',
+    'com.google.calories.expended',
+    'com.google.distance.delta',
+  ];
+
+  const responses = await Promise.all(dataTypes.map((type) => aggregate(type, start, end, bucketMillis)));
+  const buckets: Record<number, HealthMetrics> = {};
+
+  responses.forEach((response, index) => {
+    (response.bucket || []).forEach((bucket) => {
+      const points = bucket.dataset[0]?.point || [];
+      const point = points[points.length - 1];
+      if (!point) return;
+
+      const timestamp = Number(bucket.startTimeMillis);
+      buckets[timestamp] ??= {
+        timestamp: new Date(timestamp).toISOString(),
+        heartRate: 0,
+        steps: 0,
+        calories: 0,
+        sleep: 0,
+        hydration: 0,
+        stress: 0,
+        lastUpdated: timestamp,
+      };
+
+      const value = pointValue(point);
+      switch (dataTypes[index]) {
+        case 'com.google.heart_rate.bpm':
+          buckets[timestamp].heartRate = Math.round(value);
+          break;
+        case 'com.google.step_count.delta':
+          buckets[timestamp].steps = Math.round(value);
+          break;
+        case 'com.google.calories.expended':
+          buckets[timestamp].calories = Math.round(value);
+          break;
+        case 'com.google.distance.delta':
+          buckets[timestamp].distance = Math.round(value) / 1000;
+          break;
+      }
+    });
+  });
+
+  return Object.values(buckets).sort((a, b) => (a.lastUpdated || 0) - (b.lastUpdated || 0));
+};
+
+const connect = async () => {
+  const authUrl = `${authorizeEndpoint('google_fit', GOOGLE_AUTHORIZE_URL)}?` +
+    `client_id=${import.meta.env.VITE_GOOGLE_FIT_CLIENT_ID}&` +
+    `redirect_uri=${window.location.origin}/google-fit-callback&` +
+    `response_type=code&` +
+    `scope=${SCOPES.join(' ')}&` +
+    `access_type=offline&` +
+    `prompt=consent`;
+
+  // GoogleFitCallback hands back the raw authorization code; the broker keeps the tokens
+  const { code } = await authorizeInPopup('google_fit', authUrl);
+  if (!code) {
+    throw new Error('Google Fit did not return an authorization code');
+  }
+  await exchangeAuthorizationCode('google_fit', code);
+};
+
+const disconnect = () => {
+  disconnectProvider('google_fit').catch((error) => console.error('Error disconnecting Google Fit:', error));
+};
+
+export const googleFitProvider: WearableProvider = {
+  id: 'google_fit',
+  name: 'Google Fit',
+  connectionType: 'oauth',
+  capabilities: ['heartRate', 'steps', 'calories', 'distance', 'sleep', 'hydration', 'activities'],
+  pollInterval: 5000,
+  connect,
+  disconnect,
+  refresh,
+  fetchRange,
+  fetchSleep,
+};
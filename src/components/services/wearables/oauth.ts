@@ -0,0 +1,53 @@
+// Shared OAuth popup flow. The provider callback pages (GoogleFitCallback, StravaCallback)
+// post an `oauth_callback` message back to the window that opened them.
+
+export interface OAuthCallbackMessage {
+  type: 'oauth_callback';
+  provider: string;
+  success: boolean;
+  code?: string;
+  token?: string;
+  error?: string;
+}
+
+const POPUP_FEATURES = 'width=600,height=600';
+
+// Open the provider's authorize page and resolve with its callback message
+export const authorizeInPopup = (provider: string, authUrl: string): Promise<OAuthCallbackMessage> =>
+  new Promise((resolve, reject) => {
+    const popup = window.open(authUrl, `${provider}_auth`, POPUP_FEATURES);
+    if (!popup) {
+      reject(new Error('Authorization popup was blocked'));
+      return;
+    }
+
+    const cleanup = () => {
+      window.removeEventListener('message', handleMessage);
+      clearInterval(closedCheck);
+    };
+
+    const handleMessage = (event: MessageEvent<OAuthCallbackMessage>) => {
+      if (event.origin !== window.location.origin) return;
+      if (event.data?.type !== 'oauth_callback' || event.data.provider !== provider) return;
+
+      cleanup();
+      if (!popup.closed) {
+        popup.close();
+      }
+
+      if (event.data.success) {
+        resolve(event.data);
+      } else {
+        reject(new Error(`Authorization failed: ${event.data.error}`));
+      }
+    };
+
+    const closedCheck = setInterval(() => {
+      if (popup.closed) {
+        cleanup();
+        reject(new Error('Authorization window was closed'));
+      }
+    }, 500);
+
+    window.addEventListener('message', handleMessage);
+  });
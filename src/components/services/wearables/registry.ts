@@ -0,0 +1,17 @@
+import type { WearableProvider } from '../../types';
+import { googleFitProvider } from './googleFit';
+import { stravaProvider } from './strava';
+import { bluetoothSensorProvider } from './bluetooth';
+import { simulatorProvider } from './simulator';
+
+// Every integration WearableSync can connect to. Add new devices here.
+export const wearableProviders: WearableProvider[] = [
+  googleFitProvider,
+  stravaProvider,
+  bluetoothSensorProvider,
+  // Available in development, or in any build with VITE_ENABLE_SIMULATOR=true
+  ...(import.meta.env.DEV || import.meta.env.VITE_ENABLE_SIMULATOR === 'true' ? [simulatorProvider] : []),
+];
+
+export const getWearableProvider = (id: string): WearableProvider | undefined =>
+  wearableProviders.find((provider) => provider.id === id);
@@ -0,0 +1,21 @@
+import type { WearableProvider } from '../../types';
+import { ensureSimulatorStarted, startSimulator, stopSimulator } from '../simulator';
+
+// Stand-in device for development and demos: replays fixtures or seeded synthetic workouts
+// through the same path as a real sensor, so the dashboard runs without hardware or network
+export const simulatorProvider: WearableProvider = {
+  id: 'simulator',
+  name: 'Device Simulator',
+  connectionType: 'simulated',
+  capabilities: ['heartRate', 'rrIntervals', 'steps', 'calories', 'distance', 'activeMinutes', 'activities'],
+  // Samples are pushed by the player; polling only snapshots them for charts and sync
+  pollInterval: 5000,
+  connect: startSimulator,
+  disconnect: stopSimulator,
+  refresh: async () => {
+    await ensureSimulatorStarted();
+    return {};
+  },
+  // Simulated streams have no stored history
+  fetchRange: async () => [],
+};
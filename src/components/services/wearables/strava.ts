@@ -0,0 +1,241 @@
+import type { HealthMetrics, WearableProvider, WorkoutSample, WorkoutSession } from '../../types';
+import { buildWorkoutSession } from '../workoutFiles/summary';
+import { authorizeInPopup } from './oauth';
+import { authorizeEndpoint, disconnectProvider, exchangeAuthorizationCode, getAccessToken } from './tokenBroker';
+
+const STRAVA_API_BASE = 'https://www.strava.com/api/v3';
+const STRAVA_AUTHORIZE_URL = 'https://www.strava.com/oauth/authorize';
+
+const ACTIVITIES_PER_PAGE = 100;
+
+export interface StravaActivity {
+  id: number;
+  name: string;
+  type: string;
+  sport_type?: string;
+  start_date: string;
+  distance: number; // meters
+  moving_time: number; // seconds
+  elapsed_time: number; // seconds
+  total_elevation_gain: number;
+  average_heartrate?: number;
+  max_heartrate?: number;
+  average_speed?: number; // m/s
+  average_cadence?: number;
+  kilojoules?: number;
+  has_heartrate?: boolean;
+}
+
+export type StravaStreamType = 'time' | 'heartrate' | 'latlng' | 'velocity_smooth' | 'cadence' | 'distance' | 'altitude';
+
+export interface StravaStreams {
+  time?: number[]; // seconds from the activity start
+  heartrate?: number[];
+  latlng?: [number, number][];
+  velocity_smooth?: number[];
+  cadence?: number[];
+  distance?: number[]; // cumulative meters
+  altitude?: number[];
+}
+
+const stravaFetch = async <T>(path: string): Promise<T> => {
+  let token = await getAccessToken('strava');
+  let response = await fetch(`${STRAVA_API_BASE}${path}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  // Token revoked or expired early, refresh once and retry
+  if (response.status === 401) {
+    token = await getAccessToken('strava', { forceRefresh: true });
+    response = await fetch(`${STRAVA_API_BASE}${path}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  }
+
+  if (!response.ok) {
+    throw new Error(`Strava request ${path} failed with status ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Import every activity between `after` and `before`, following Strava's pagination
+export const fetchStravaActivities = async (after: Date, before: Date = new Date()): Promise<StravaActivity[]> => {
+  const activities: StravaActivity[] = [];
+  const afterSeconds = Math.floor(after.getTime() / 1000);
+  const beforeSeconds = Math.floor(before.getTime() / 1000);
+
+  for (let page = 1; ; page++) {
+    const batch = await stravaFetch<StravaActivity[]>(
+      `/athlete/activities?after=${afterSeconds}&before=${beforeSeconds}&page=${page}&per_page=${ACTIVITIES_PER_PAGE}`
+    );
+    activities.push(...batch);
+
+    if (batch.length < ACTIVITIES_PER_PAGE) break;
+  }
+
+  return activities;
+};
+
+// Fetch the recorded sample streams of a single activity
+export const fetchStravaActivityStreams = async (
+  activityId: number,
+  keys: StravaStreamType[] = ['time', 'heartrate', 'latlng', 'velocity_smooth', 'cadence', 'distance', 'altitude']
+): Promise<StravaStreams> => {
+  const data = await stravaFetch<Record<string, { data: unknown[] }>>(
+    `/activities/${activityId}/streams?keys=${keys.join(',')}&key_by_type=true`
+  );
+
+  return Object.fromEntries(
+    Object.entries(data).map(([type, stream]) => [type, stream.data])
+  ) as StravaStreams;
+};
+
+// Map Strava activities onto the fields of our HealthMetrics model
+export const mapStravaActivitiesToMetrics = (activities: StravaActivity[]): Partial<HealthMetrics> => {
+  const latestWithHeartRate = [...activities]
+    .sort((a, b) => new Date(b.start_date).getTime() - new Date(a.start_date).getTime())
+    .find((activity) => activity.average_heartrate);
+
+  // Strava only reports work for rides; 1 kJ of work is roughly 1 kcal burned at typical efficiency
+  const calories = activities.reduce((sum, activity) => sum + (activity.kilojoules || 0), 0);
+
+  return {
+    heartRate: Math.round(latestWithHeartRate?.average_heartrate || 0),
+    calories: Math.round(calories),
+    distance: Math.round(activities.reduce((sum, activity) => sum + activity.distance, 0) / 10) / 100,
+    activeMinutes: Math.round(activities.reduce((sum, activity) => sum + activity.moving_time, 0) / 60),
+    activities: activities.map((activity) => activity.name),
+  };
+};
+
+// Fetch the last 24 hours of Strava activities as health metrics
+export const fetchStravaData = async (): Promise<Partial<HealthMetrics>> => {
+  try {
+    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const activities = await fetchStravaActivities(oneDayAgo);
+    return mapStravaActivitiesToMetrics(activities);
+  } catch (error) {
+    console.error('Error fetching Strava data:', error);
+    throw error;
+  }
+};
+
+// One HealthMetrics entry per activity started between start and end
+const fetchRange = async (start: Date, end: Date): Promise<HealthMetrics[]> => {
+  const activities = await fetchStravaActivities(start, end);
+
+  return activities
+    .map((activity) => ({
+      timestamp: activity.start_date,
+      heartRate: 0,
+      steps: 0,
+      calories: 0,
+      sleep: 0,
+      hydration: 0,
+      stress: 0,
+      ...mapStravaActivitiesToMetrics([activity]),
+      lastUpdated: new Date(activity.start_date).getTime(),
+    }))
+    .sort((a, b) => a.lastUpdated - b.lastUpdated);
+};
+
+// One sample per point of the activity's streams. Activities without streams (manual entries)
+// get a start and end sample so they still count as sessions.
+export const stravaStreamsToSamples = (activity: StravaActivity, streams: StravaStreams): WorkoutSample[] => {
+  const start = new Date(activity.start_date).getTime();
+  if (!streams.time?.length) {
+    return [
+      { timestamp: start, heartRate: activity.average_heartrate, distance: 0 },
+      { timestamp: start + activity.elapsed_time * 1000, heartRate: activity.average_heartrate, distance: activity.distance },
+    ];
+  }
+
+  return streams.time.map((offset, index) => ({
+    timestamp: start + offset * 1000,
+    heartRate: streams.heartrate?.[index],
+    latitude: streams.latlng?.[index]?.[0],
+    longitude: streams.latlng?.[index]?.[1],
+    altitude: streams.altitude?.[index],
+    distance: streams.distance?.[index],
+    speed: streams.velocity_smooth?.[index],
+    cadence: streams.cadence?.[index],
+  }));
+};
+
+export const stravaActivityToSession = (activity: StravaActivity, streams: StravaStreams): WorkoutSession =>
+  buildWorkoutSession(
+    {
+      sport: activity.sport_type || activity.type,
+      laps: [
+        {
+          startTime: new Date(activity.start_date).getTime(),
+          duration: activity.moving_time,
+          distance: activity.distance,
+          averageHeartRate: activity.average_heartrate,
+          maxHeartRate: activity.max_heartrate,
+          averageCadence: activity.average_cadence,
+        },
+      ],
+      samples: stravaStreamsToSamples(activity, streams),
+      calories: activity.kilojoules && Math.round(activity.kilojoules),
+      duration: activity.moving_time,
+    },
+    'strava'
+  );
+
+// Activities with their streams as sessions. Streams are fetched one activity at a time to stay
+// inside the rate limit, and never for an activity that is already imported, so reconnecting
+// doesn't spend requests on them. An activity whose streams can't be read is kept with its
+// summary only.
+const fetchSessions = async (
+  start: Date,
+  end: Date,
+  isImported?: (startTime: number) => Promise<boolean>
+): Promise<WorkoutSession[]> => {
+  const activities = await fetchStravaActivities(start, end);
+  const sessions: WorkoutSession[] = [];
+
+  for (const activity of activities) {
+    if (await isImported?.(new Date(activity.start_date).getTime())) continue;
+
+    const streams = await fetchStravaActivityStreams(activity.id).catch((error) => {
+      console.error(`Error fetching streams for Strava activity ${activity.id}:`, error);
+      return {};
+    });
+    sessions.push(stravaActivityToSession(activity, streams));
+  }
+
+  return sessions;
+};
+
+const connect = async () => {
+  const redirectUri = `${window.location.origin}/strava-callback`;
+  const scope = 'read,activity:read_all';
+  const authUrl = `${authorizeEndpoint('strava', STRAVA_AUTHORIZE_URL)}?client_id=${import.meta.env.VITE_STRAVA_CLIENT_ID}&redirect_uri=${redirectUri}&response_type=code&scope=${scope}`;
+
+  // StravaCallback hands back the raw authorization code; the broker keeps the tokens
+  const { code } = await authorizeInPopup('strava', authUrl);
+  if (!code) {
+    throw new Error('Strava did not return an authorization code');
+  }
+  await exchangeAuthorizationCode('strava', code);
+};
+
+const disconnect = () => {
+  disconnectProvider('strava').catch((error) => console.error('Error disconnecting Strava:', error));
+};
+
+export const stravaProvider: WearableProvider = {
+  id: 'strava',
+  name: 'Strava',
+  connectionType: 'oauth',
+  capabilities: ['heartRate', 'calories', 'distance', 'activeMinutes', 'activities'],
+  // Strava only has uploaded activities and a 100 requests / 15 min rate limit
+  pollInterval: 15 * 60 * 1000,
+  connect,
+  disconnect,
+  refresh: fetchStravaData,
+  fetchRange,
+  fetchSessions,
+};
@@ -0,0 +1,86 @@
+import { onAuthStateChanged } from 'firebase/auth';
+import { auth } from '../../config/firebase';
+
+// Client for the server-side OAuth token broker (api/oauth). Authorization codes are handed
+// to the broker, which keeps the refresh tokens; the browser only ever holds short-lived
+// access tokens, and only in memory.
+
+export type BrokerProvider = 'google_fit' | 'strava';
+
+interface AccessToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+// Refresh a little before the provider's own expiry so in-flight requests don't fail
+const EXPIRY_MARGIN = 60 * 1000;
+
+// Tokens kept by earlier versions of the app, including long-lived refresh tokens
+const LEGACY_STORAGE_KEYS = ['googleFitToken', 'googleFitRefreshToken', 'stravaToken', 'stravaRefreshToken', 'stravaTokenExpiresAt'];
+LEGACY_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key));
+
+const accessTokens = new Map<BrokerProvider, AccessToken>();
+const pendingTokens = new Map<BrokerProvider, Promise<string>>();
+
+// Cached tokens belong to whoever was signed in when they were issued
+onAuthStateChanged(auth, () => accessTokens.clear());
+
+const brokerRequest = async <T>(action: 'exchange' | 'token' | 'disconnect', body: Record<string, unknown>): Promise<T> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('Sign in before connecting a wearable');
+  }
+
+  const response = await fetch(`/api/oauth/${action}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${await user.getIdToken()}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`Token broker ${action} failed with status ${response.status}: ${data.error ?? 'unknown error'}`);
+  }
+  return data;
+};
+
+// Authorize page for a provider, or the mock OAuth server's when running against it locally
+export const authorizeEndpoint = (provider: BrokerProvider, productionUrl: string) => {
+  const mockServer = import.meta.env.VITE_OAUTH_MOCK_SERVER_URL;
+  return mockServer ? `${mockServer}/${provider}/authorize` : productionUrl;
+};
+
+export const exchangeAuthorizationCode = async (provider: BrokerProvider, code: string) => {
+  const token = await brokerRequest<AccessToken>('exchange', { provider, code });
+  accessTokens.set(provider, token);
+  return token.accessToken;
+};
+
+// A valid access token for the provider. Pass forceRefresh after the provider rejected the
+// current one; concurrent callers share one broker request.
+export const getAccessToken = (provider: BrokerProvider, { forceRefresh = false } = {}): Promise<string> => {
+  const cached = accessTokens.get(provider);
+  if (!forceRefresh && cached && Date.now() < cached.expiresAt - EXPIRY_MARGIN) {
+    return Promise.resolve(cached.accessToken);
+  }
+
+  const pending = pendingTokens.get(provider);
+  if (pending) return pending;
+
+  const request = brokerRequest<AccessToken>('token', { provider, forceRefresh })
+    .then((token) => {
+      accessTokens.set(provider, token);
+      return token.accessToken;
+    })
+    .finally(() => pendingTokens.delete(provider));
+  pendingTokens.set(provider, request);
+  return request;
+};
+
+export const disconnectProvider = async (provider: BrokerProvider) => {
+  accessTokens.delete(provider);
+  await brokerRequest('disconnect', { provider });
+};
@@ -0,0 +1,50 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { parseFit } from './fit';
+
+// 31 records 10 s apart over 900 m, one lap and a running session
+const fixture = readFileSync(join(__dirname, '__fixtures__/run.fit'));
+const buffer = fixture.buffer.slice(fixture.byteOffset, fixture.byteOffset + fixture.byteLength);
+const start = Date.UTC(2026, 9, 18, 7, 0, 0);
+
+describe('parseFit', () => {
+  const workout = parseFit(buffer);
+
+  it('reads the sport and calories from the session message', () => {
+    expect(workout.sport).toBe('Running');
+    expect(workout.calories).toBe(75);
+  });
+
+  it('converts record fields to samples', () => {
+    expect(workout.samples).toHaveLength(31);
+    const [first, , third] = workout.samples;
+    expect(first.timestamp).toBe(start);
+    expect(first.latitude).toBeCloseTo(51.5, 5);
+    expect(first.longitude).toBeCloseTo(-0.12, 5);
+    expect(first.heartRate).toBe(140);
+    expect(third.distance).toBe(60);
+    expect(third.speed).toBe(3);
+    expect(workout.samples[30].timestamp).toBe(start + 300_000);
+    expect(workout.samples[30].distance).toBe(900);
+  });
+
+  it('scales lap totals', () => {
+    expect(workout.laps).toEqual([
+      {
+        startTime: start,
+        duration: 300,
+        distance: 900,
+        averageHeartRate: 155,
+        maxHeartRate: 170,
+        averageCadence: undefined,
+        averagePower: undefined,
+        averagePace: 333,
+      },
+    ]);
+  });
+
+  it('rejects files without the FIT signature', () => {
+    expect(() => parseFit(new TextEncoder().encode('<gpx></gpx>').buffer)).toThrow('Not a FIT file');
+  });
+});
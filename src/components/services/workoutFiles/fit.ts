@@ -0,0 +1,208 @@
+import type { ParsedWorkout, WorkoutLap, WorkoutSample } from '../../types';
+import { deriveDistanceAndSpeed } from './summary';
+
+// Minimal decoder for the Garmin FIT protocol. Only the messages a workout import needs
+// (session, lap, record) are interpreted; everything else is skipped using its definition.
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET = 631065600;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+
+// FIT sport enum values we map to readable names
+const SPORTS: Record<number, string> = {
+  0: 'Workout',
+  1: 'Running',
+  2: 'Cycling',
+  4: 'Fitness Equipment',
+  5: 'Swimming',
+  10: 'Training',
+  11: 'Walking',
+  17: 'Hiking',
+};
+
+interface FieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  littleEndian: boolean;
+  globalMessage: number;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+}
+
+type FitMessage = Record<number, number | undefined>;
+
+// Byte size and "invalid" sentinel for each base type, indexed by base type number
+const BASE_TYPES: { size: number; invalid: number | null }[] = [
+  { size: 1, invalid: 0xff }, // enum
+  { size: 1, invalid: 0x7f }, // sint8
+  { size: 1, invalid: 0xff }, // uint8
+  { size: 2, invalid: 0x7fff }, // sint16
+  { size: 2, invalid: 0xffff }, // uint16
+  { size: 4, invalid: 0x7fffffff }, // sint32
+  { size: 4, invalid: 0xffffffff }, // uint32
+  { size: 1, invalid: null }, // string
+  { size: 4, invalid: null }, // float32
+  { size: 8, invalid: null }, // float64
+  { size: 1, invalid: 0x00 }, // uint8z
+  { size: 2, invalid: 0x0000 }, // uint16z
+  { size: 4, invalid: 0x00000000 }, // uint32z
+  { size: 1, invalid: 0xff }, // byte
+];
+
+const readValue = (view: DataView, offset: number, field: FieldDefinition, littleEndian: boolean) => {
+  const typeIndex = field.baseType & 0x1f;
+  const type = BASE_TYPES[typeIndex];
+  // Arrays, strings and 64-bit values are not needed for workouts
+  if (!type || type.size !== field.size) return undefined;
+
+  let value: number;
+  switch (typeIndex) {
+    case 1: value = view.getInt8(offset); break;
+    case 3: value = view.getInt16(offset, littleEndian); break;
+    case 5: value = view.getInt32(offset, littleEndian); break;
+    case 4: case 11: value = view.getUint16(offset, littleEndian); break;
+    case 6: case 12: value = view.getUint32(offset, littleEndian); break;
+    case 8: value = view.getFloat32(offset, littleEndian); break;
+    case 9: value = view.getFloat64(offset, littleEndian); break;
+    default: value = view.getUint8(offset);
+  }
+
+  return value === type.invalid ? undefined : value;
+};
+
+// Decode every data message in the file, grouped by global message number
+export const decodeFit = (buffer: ArrayBuffer): Map<number, FitMessage[]> => {
+  const view = new DataView(buffer);
+  const headerSize = view.getUint8(0);
+  if (buffer.byteLength < 12 || String.fromCharCode(...new Uint8Array(buffer, 8, 4)) !== '.FIT') {
+    throw new Error('Not a FIT file');
+  }
+
+  const dataSize = view.getUint32(4, true);
+  const end = Math.min(headerSize + dataSize, buffer.byteLength);
+  const definitions = new Map<number, MessageDefinition>();
+  const messages = new Map<number, FitMessage[]>();
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  while (offset < end) {
+    const recordHeader = view.getUint8(offset++);
+    const compressedTimestamp = (recordHeader & 0x80) !== 0;
+    const localMessage = compressedTimestamp ? (recordHeader >> 5) & 0x03 : recordHeader & 0x0f;
+
+    if (!compressedTimestamp && recordHeader & 0x40) {
+      // Definition message
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalMessage = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++, offset += 3) {
+        fields.push({
+          number: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2),
+        });
+      }
+
+      let developerDataSize = 0;
+      if (recordHeader & 0x20) {
+        const developerFieldCount = view.getUint8(offset++);
+        for (let i = 0; i < developerFieldCount; i++, offset += 3) {
+          developerDataSize += view.getUint8(offset + 1);
+        }
+      }
+
+      definitions.set(localMessage, { littleEndian, globalMessage, fields, developerDataSize });
+      continue;
+    }
+
+    const definition = definitions.get(localMessage);
+    if (!definition) {
+      throw new Error(`Corrupt FIT file: data message without definition at byte ${offset - 1}`);
+    }
+
+    const message: FitMessage = {};
+    definition.fields.forEach((field) => {
+      message[field.number] = readValue(view, offset, field, definition.littleEndian);
+      offset += field.size;
+    });
+    offset += definition.developerDataSize;
+
+    if (compressedTimestamp) {
+      // The header carries the low 5 bits of the timestamp relative to the last full one
+      const timeOffset = recordHeader & 0x1f;
+      let timestamp = (lastTimestamp & ~0x1f) + timeOffset;
+      if (timeOffset < (lastTimestamp & 0x1f)) timestamp += 0x20;
+      message[253] = timestamp;
+    }
+    if (message[253] !== undefined) {
+      lastTimestamp = message[253]!;
+    }
+
+    if (!messages.has(definition.globalMessage)) {
+      messages.set(definition.globalMessage, []);
+    }
+    messages.get(definition.globalMessage)!.push(message);
+  }
+
+  return messages;
+};
+
+const toMillis = (fitTimestamp: number) => (fitTimestamp + FIT_EPOCH_OFFSET) * 1000;
+const scaled = (value: number | undefined, scale: number, offset = 0) =>
+  value === undefined ? undefined : value / scale - offset;
+
+export const parseFit = (buffer: ArrayBuffer): ParsedWorkout => {
+  const messages = decodeFit(buffer);
+
+  const rawSamples: WorkoutSample[] = (messages.get(MESG_RECORD) || [])
+    .filter((record) => record[253] !== undefined)
+    .map((record) => ({
+      timestamp: toMillis(record[253]!),
+      latitude: record[0] === undefined ? undefined : record[0] * SEMICIRCLES_TO_DEGREES,
+      longitude: record[1] === undefined ? undefined : record[1] * SEMICIRCLES_TO_DEGREES,
+      // enhanced_* fields replace the 16-bit ones on newer devices
+      altitude: scaled(record[78] ?? record[2], 5, 500),
+      heartRate: record[3],
+      cadence: record[4],
+      distance: scaled(record[5], 100),
+      speed: scaled(record[73] ?? record[6], 1000),
+      power: record[7],
+    }));
+
+  const laps: WorkoutLap[] = (messages.get(MESG_LAP) || [])
+    .filter((lap) => lap[2] !== undefined)
+    .map((lap) => {
+      const duration = scaled(lap[8] ?? lap[7], 1000) ?? 0;
+      const distance = scaled(lap[9], 100) ?? 0;
+      return {
+        startTime: toMillis(lap[2]!),
+        duration,
+        distance,
+        averageHeartRate: lap[15],
+        maxHeartRate: lap[16],
+        averageCadence: lap[17],
+        averagePower: lap[19],
+        averagePace: distance > 0 ? Math.round(duration / (distance / 1000)) : undefined,
+      };
+    });
+
+  const session = (messages.get(MESG_SESSION) || [])[0];
+
+  return {
+    sport: (session?.[5] !== undefined && SPORTS[session[5]]) || 'Workout',
+    laps,
+    samples: deriveDistanceAndSpeed(rawSamples),
+    calories: session?.[11],
+  };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseGpx } from './gpx';
+import fixture from './__fixtures__/run.gpx?raw';
+
+// Two track segments of four points, 10 s and about 30 m apart, with a one minute pause between
+const start = Date.UTC(2026, 9, 18, 7, 0, 0);
+
+describe('parseGpx', () => {
+  const workout = parseGpx(fixture);
+
+  it('reads the track type as the sport', () => {
+    expect(workout.sport).toBe('running');
+  });
+
+  it('reads points with the track point extension', () => {
+    expect(workout.samples).toHaveLength(8);
+    const [first] = workout.samples;
+    expect(first.timestamp).toBe(start);
+    expect(first.latitude).toBe(51.5);
+    expect(first.altitude).toBe(20);
+    expect(first.heartRate).toBe(140);
+    expect(first.cadence).toBe(85);
+  });
+
+  it('derives distance and speed across segments', () => {
+    expect(workout.samples[0].distance).toBe(0);
+    expect(workout.samples[3].distance).toBeCloseTo(90, 0);
+    expect(workout.samples[4].distance).toBeCloseTo(120, 0);
+    expect(workout.samples[7].distance).toBeCloseTo(210, 0);
+    expect(workout.samples[1].speed).toBeCloseTo(3, 1);
+  });
+
+  it('turns every segment into a lap', () => {
+    expect(workout.laps).toHaveLength(2);
+    expect(workout.laps[0].startTime).toBe(start);
+    expect(workout.laps[0].duration).toBe(30);
+    expect(workout.laps[0].distance).toBeCloseTo(90, 0);
+    expect(workout.laps[1].startTime).toBe(start + 100_000);
+    expect(workout.laps[1].averageHeartRate).toBe(146);
+    expect(workout.laps[1].maxHeartRate).toBe(147);
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseGpx('<gpx><trk>')).toThrow('Invalid XML');
+  });
+});
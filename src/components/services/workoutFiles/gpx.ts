@@ -0,0 +1,48 @@
+import type { ParsedWorkout, WorkoutLap, WorkoutSample } from '../../types';
+import { childNumber, childText, parseXml } from './xml';
+import { deriveDistanceAndSpeed, summarizeLap } from './summary';
+
+// GPX 1.1 with the Garmin TrackPointExtension for heart rate and cadence.
+// GPX has no laps, so every track segment becomes one lap.
+export const parseGpx = (text: string): ParsedWorkout => {
+  const document = parseXml(text);
+  const segments: WorkoutSample[][] = [];
+
+  Array.from(document.getElementsByTagNameNS('*', 'trkseg')).forEach((segment) => {
+    const segmentSamples: WorkoutSample[] = [];
+
+    Array.from(segment.getElementsByTagNameNS('*', 'trkpt')).forEach((point) => {
+      const time = childText(point, 'time');
+      if (!time) return;
+
+      segmentSamples.push({
+        timestamp: new Date(time).getTime(),
+        latitude: Number(point.getAttribute('lat')),
+        longitude: Number(point.getAttribute('lon')),
+        altitude: childNumber(point, 'ele'),
+        heartRate: childNumber(point, 'hr'),
+        cadence: childNumber(point, 'cad'),
+        power: childNumber(point, 'power'),
+      });
+    });
+
+    if (segmentSamples.length > 0) {
+      segments.push(segmentSamples);
+    }
+  });
+
+  // Distance and speed are derived over the whole track so they stay cumulative across segments
+  const samples = deriveDistanceAndSpeed(segments.flat());
+  const laps: WorkoutLap[] = [];
+  let offset = 0;
+  segments.forEach((segment) => {
+    laps.push(summarizeLap(samples.slice(offset, offset + segment.length)));
+    offset += segment.length;
+  });
+
+  return {
+    sport: childText(document.documentElement, 'type') || 'Workout',
+    laps,
+    samples,
+  };
+};
@@ -0,0 +1,103 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import type { ParsedWorkout, WearableProvider, WorkoutSession, WorkoutSource } from '../../types';
+import { recordHealthSamples } from '../metricHistory';
+import { parseFit } from './fit';
+import { parseGpx } from './gpx';
+import { parseTcx } from './tcx';
+import { buildWorkoutSession, workoutSessionId } from './summary';
+
+export { buildWorkoutSession, computeSplits, elevationChange, summarizeLap, workoutSessionId } from './summary';
+
+export const WORKOUT_FILE_EXTENSIONS = ['.fit', '.gpx', '.tcx'];
+
+const DAY = 24 * 60 * 60 * 1000;
+// How far back provider workouts are pulled on each connection
+const SYNC_DAYS = 7;
+
+export type WorkoutImportStatus = 'imported' | 'duplicate';
+
+type WorkoutFileSource = Extract<WorkoutSource, 'fit' | 'gpx' | 'tcx'>;
+
+const sourceOf = (fileName: string): WorkoutFileSource | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  return extension === 'fit' || extension === 'gpx' || extension === 'tcx' ? extension : null;
+};
+
+// Parse an uploaded FIT, GPX or TCX file into a session with laps and per-minute buckets
+export const parseWorkoutFile = async (file: File): Promise<WorkoutSession> => {
+  const source = sourceOf(file.name);
+  if (!source) {
+    throw new Error(`Unsupported file type: ${file.name}`);
+  }
+
+  let parsed: ParsedWorkout;
+  switch (source) {
+    case 'fit':
+      parsed = parseFit(await file.arrayBuffer());
+      break;
+    case 'gpx':
+      parsed = parseGpx(await file.text());
+      break;
+    case 'tcx':
+      parsed = parseTcx(await file.text());
+      break;
+  }
+
+  return buildWorkoutSession(parsed, source);
+};
+
+// Store the session under users/{uid}/sessions and feed its heart rate into metric history.
+// A session with the same id (same start time) is left untouched. Sessions recorded live
+// skip the history step, their samples already reached it through the sync queue.
+export const saveWorkoutSession = async (
+  userId: string,
+  session: WorkoutSession,
+  { recordHistory = true }: { recordHistory?: boolean } = {}
+): Promise<WorkoutImportStatus> => {
+  const sessionRef = doc(db, 'users', userId, 'sessions', session.id);
+  const existing = await getDoc(sessionRef);
+  if (existing.exists()) {
+    return 'duplicate';
+  }
+
+  // Firestore rejects undefined fields, which optional summary values often are
+  await setDoc(sessionRef, JSON.parse(JSON.stringify(session)));
+  if (!recordHistory) {
+    return 'imported';
+  }
+
+  await recordHealthSamples(
+    userId,
+    session.minutes
+      .filter((bucket) => bucket.metrics.heartRate)
+      .map((bucket) => ({
+        timestamp: bucket.bucketStart,
+        metrics: { heartRate: Math.round(bucket.metrics.heartRate!.sum / bucket.metrics.heartRate!.count) },
+      }))
+  );
+
+  return 'imported';
+};
+
+export const importWorkoutFile = async (userId: string, file: File) => {
+  const session = await parseWorkoutFile(file);
+  const status = await saveWorkoutSession(userId, session);
+  return { session, status };
+};
+
+export const isWorkoutImported = async (userId: string, startTime: number) =>
+  (await getDoc(doc(db, 'users', userId, 'sessions', workoutSessionId(startTime)))).exists();
+
+// Pull recent workouts, with their sample streams, from a provider that keeps them. The provider
+// skips workouts that are already imported before downloading their samples; any that slip
+// through are still caught by saveWorkoutSession.
+export const syncProviderSessions = async (userId: string, provider: WearableProvider, now: number = Date.now()) => {
+  if (!provider.fetchSessions) return 0;
+
+  const sessions = await provider.fetchSessions(new Date(now - SYNC_DAYS * DAY), new Date(now), (startTime) =>
+    isWorkoutImported(userId, startTime)
+  );
+  const statuses = await Promise.all(sessions.map((session) => saveWorkoutSession(userId, session)));
+  return statuses.filter((status) => status === 'imported').length;
+};
@@ -0,0 +1,255 @@
+import type {
+  ParsedWorkout,
+  RoutePoint,
+  SessionBucket,
+  SessionMetric,
+  WorkoutLap,
+  WorkoutSample,
+  WorkoutSession,
+  WorkoutSource,
+  WorkoutSplit,
+} from '../../types';
+import { bucketStartFor, mergeSummary } from '../metricHistory';
+
+const EARTH_RADIUS = 6371000; // meters
+// Enough points to draw a route without blowing through Firestore's document size limit
+const MAX_ROUTE_POINTS = 1000;
+
+const SESSION_METRICS: SessionMetric[] = ['heartRate', 'speed', 'power', 'cadence', 'altitude'];
+const SPLIT_DISTANCE = 1000; // meters
+// A shorter final split is only worth showing past this distance
+const MIN_FINAL_SPLIT = 100; // meters
+// Longer gaps between samples are pauses and add no moving time
+const MAX_MOVING_GAP = 30; // seconds
+// Altitude has to move this far from the last turning point to count as a climb or descent,
+// so GPS and barometer noise doesn't add up to phantom elevation
+const ELEVATION_THRESHOLD = 3; // meters
+
+// Keyed on start time so re-importing the same workout, in any format, is detected
+export const workoutSessionId = (startTime: number) => `workout-${Math.floor(startTime / 1000)}`;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in meters between two GPS fixes
+export const haversineDistance = (
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+) => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.sqrt(h));
+};
+
+const hasPosition = (sample: WorkoutSample): sample is WorkoutSample & { latitude: number; longitude: number } =>
+  Number.isFinite(sample.latitude) && Number.isFinite(sample.longitude);
+
+const average = (values: (number | undefined)[]) => {
+  const present = values.filter((value): value is number => value !== undefined && Number.isFinite(value));
+  return present.length ? Math.round(present.reduce((sum, value) => sum + value, 0) / present.length) : undefined;
+};
+
+const maximum = (values: (number | undefined)[]) => {
+  const present = values.filter((value): value is number => value !== undefined && Number.isFinite(value));
+  return present.length ? Math.max(...present) : undefined;
+};
+
+// Seconds per km; undefined when the distance is too short to be meaningful
+const paceOf = (durationSeconds: number, distanceMeters: number) =>
+  distanceMeters >= 10 ? Math.round(durationSeconds / (distanceMeters / 1000)) : undefined;
+
+// Fill in cumulative distance from GPS and speed from distance where the file didn't record them
+export const deriveDistanceAndSpeed = (samples: WorkoutSample[]): WorkoutSample[] => {
+  const derived: WorkoutSample[] = [];
+
+  samples.forEach((sample, index) => {
+    const previous = derived[index - 1];
+    let distance = sample.distance;
+    if (distance === undefined) {
+      distance = previous?.distance ?? 0;
+      if (previous && hasPosition(previous) && hasPosition(sample)) {
+        distance += haversineDistance(previous, sample);
+      }
+    }
+
+    let speed = sample.speed;
+    if (speed === undefined && previous) {
+      const elapsed = (sample.timestamp - previous.timestamp) / 1000;
+      speed = elapsed > 0 ? Math.max(0, (distance - (previous.distance ?? 0)) / elapsed) : previous.speed;
+    }
+
+    derived.push({ ...sample, distance, speed });
+  });
+
+  return derived;
+};
+
+// Total climb and descent, counting only changes beyond the noise threshold
+export const elevationChange = (samples: WorkoutSample[]) => {
+  let gain = 0;
+  let loss = 0;
+  let reference: number | undefined;
+
+  samples.forEach(({ altitude }) => {
+    if (altitude === undefined || !Number.isFinite(altitude)) return;
+    if (reference === undefined) {
+      reference = altitude;
+      return;
+    }
+    const change = altitude - reference;
+    if (Math.abs(change) >= ELEVATION_THRESHOLD) {
+      if (change > 0) gain += change;
+      else loss -= change;
+      reference = altitude;
+    }
+  });
+
+  return reference === undefined ? null : { gain: Math.round(gain), loss: Math.round(loss) };
+};
+
+const movingSeconds = (from: WorkoutSample, to: WorkoutSample) => {
+  const seconds = (to.timestamp - from.timestamp) / 1000;
+  return seconds > MAX_MOVING_GAP ? 0 : seconds;
+};
+
+// Per-km splits from samples with cumulative distance. Split boundaries fall between
+// samples, so their times are interpolated.
+export const computeSplits = (samples: WorkoutSample[]): WorkoutSplit[] => {
+  const splits: WorkoutSplit[] = [];
+  const withDistance = samples.filter((sample) => sample.distance !== undefined && Number.isFinite(sample.distance));
+  if (withDistance.length < 2) return splits;
+
+  let splitStart = withDistance[0].distance!;
+  let splitSamples: WorkoutSample[] = [withDistance[0]];
+  let duration = 0;
+
+  const closeSplit = (distance: number) => {
+    const heartRates = splitSamples.map((sample) => sample.heartRate);
+    splits.push({
+      index: splits.length + 1,
+      distance: Math.round(distance),
+      duration: Math.round(duration),
+      pace: Math.round(duration / (distance / 1000)),
+      elevationGain: elevationChange(splitSamples)?.gain,
+      averageHeartRate: average(heartRates),
+    });
+  };
+
+  for (let index = 1; index < withDistance.length; index++) {
+    const previous = withDistance[index - 1];
+    const sample = withDistance[index];
+    const seconds = movingSeconds(previous, sample);
+    const covered = sample.distance! - previous.distance!;
+    let consumed = 0;
+
+    // One sample can finish more than one split when fixes are sparse
+    while (sample.distance! >= splitStart + SPLIT_DISTANCE && covered > 0) {
+      const fraction = (splitStart + SPLIT_DISTANCE - previous.distance!) / covered;
+      duration += seconds * (fraction - consumed);
+      consumed = fraction;
+      closeSplit(SPLIT_DISTANCE);
+      splitStart += SPLIT_DISTANCE;
+      splitSamples = [previous];
+      duration = 0;
+    }
+
+    duration += seconds * (1 - consumed);
+    splitSamples.push(sample);
+  }
+
+  const remaining = withDistance[withDistance.length - 1].distance! - splitStart;
+  if (remaining >= MIN_FINAL_SPLIT) {
+    closeSplit(remaining);
+  }
+  return splits;
+};
+
+// Lap statistics from the samples recorded during it. The duration defaults to the time
+// between the first and last sample; the live recorder passes moving time instead.
+export const summarizeLap = (samples: WorkoutSample[], movingTime?: number): WorkoutLap => {
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const duration = movingTime ?? (last.timestamp - first.timestamp) / 1000;
+  const distance = (last.distance ?? 0) - (first.distance ?? 0);
+
+  return {
+    startTime: first.timestamp,
+    duration,
+    distance,
+    averageHeartRate: average(samples.map((sample) => sample.heartRate)),
+    maxHeartRate: maximum(samples.map((sample) => sample.heartRate)),
+    averagePower: average(samples.map((sample) => sample.power)),
+    averageCadence: average(samples.map((sample) => sample.cadence)),
+    averagePace: paceOf(duration, distance),
+  };
+};
+
+// Per-minute summaries matching the metric history rollup shape
+const bucketByMinute = (samples: WorkoutSample[]): SessionBucket[] => {
+  const buckets = new Map<number, SessionBucket>();
+
+  samples.forEach((sample) => {
+    const bucketStart = bucketStartFor(sample.timestamp, 'minute');
+    const bucket = buckets.get(bucketStart) ?? { bucketStart, metrics: {} };
+
+    SESSION_METRICS.forEach((metric) => {
+      const value = sample[metric];
+      if (value !== undefined && Number.isFinite(value)) {
+        bucket.metrics[metric] = mergeSummary(bucket.metrics[metric], value);
+      }
+    });
+
+    buckets.set(bucketStart, bucket);
+  });
+
+  return [...buckets.values()].sort((a, b) => a.bucketStart - b.bucketStart);
+};
+
+const downsampleRoute = (samples: WorkoutSample[]): RoutePoint[] => {
+  const positions = samples.filter(hasPosition);
+  const step = Math.max(1, Math.ceil(positions.length / MAX_ROUTE_POINTS));
+  return positions
+    .filter((_, index) => index % step === 0 || index === positions.length - 1)
+    .map((sample) => ({
+      lat: sample.latitude,
+      lng: sample.longitude,
+      ...(sample.altitude !== undefined && Number.isFinite(sample.altitude) && { alt: Math.round(sample.altitude) }),
+    }));
+};
+
+// Turn a parser result into a stored session with summary statistics
+export const buildWorkoutSession = (parsed: ParsedWorkout, source: WorkoutSource): WorkoutSession => {
+  const samples = [...parsed.samples].sort((a, b) => a.timestamp - b.timestamp);
+  if (samples.length === 0) {
+    throw new Error('The file does not contain any recorded samples');
+  }
+
+  const overall = summarizeLap(samples);
+  const laps = parsed.laps.length > 0 ? parsed.laps : [overall];
+  const lapDistance = laps.reduce((sum, lap) => sum + lap.distance, 0);
+  const distance = Math.max(overall.distance, lapDistance);
+  const duration = parsed.duration ?? Math.max(overall.duration, laps.reduce((sum, lap) => sum + lap.duration, 0));
+  const elevation = elevationChange(samples);
+  const splits = computeSplits(samples);
+
+  return {
+    id: workoutSessionId(samples[0].timestamp),
+    source,
+    sport: parsed.sport,
+    startTime: samples[0].timestamp,
+    duration,
+    distance,
+    calories: parsed.calories,
+    averageHeartRate: overall.averageHeartRate,
+    maxHeartRate: overall.maxHeartRate,
+    averagePower: overall.averagePower,
+    averageCadence: overall.averageCadence,
+    averagePace: paceOf(duration, distance),
+    ...(elevation && { elevationGain: elevation.gain, elevationLoss: elevation.loss }),
+    laps,
+    ...(splits.length > 0 && { splits }),
+    minutes: bucketByMinute(samples),
+    route: downsampleRoute(samples),
+  };
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseTcx } from './tcx';
+import fixture from './__fixtures__/run.tcx?raw';
+
+// Two 30 s laps of three trackpoints each, 30 m apart
+const start = Date.UTC(2026, 9, 18, 7, 0, 0);
+
+describe('parseTcx', () => {
+  const workout = parseTcx(fixture);
+
+  it('reads the activity sport and sums lap calories', () => {
+    expect(workout.sport).toBe('Running');
+    expect(workout.calories).toBe(22);
+  });
+
+  it('reads trackpoints with the activity extension', () => {
+    expect(workout.samples).toHaveLength(6);
+    const [first] = workout.samples;
+    expect(first.timestamp).toBe(start);
+    expect(first.latitude).toBe(51.5);
+    expect(first.altitude).toBe(20);
+    expect(first.heartRate).toBe(150);
+    expect(first.cadence).toBe(88);
+    expect(first.speed).toBe(3);
+    expect(workout.samples[5].distance).toBe(150);
+  });
+
+  it('keeps device lap totals over recomputed ones', () => {
+    expect(workout.laps).toHaveLength(2);
+    expect(workout.laps[0]).toMatchObject({ startTime: start, duration: 30, distance: 90, averageHeartRate: 151, maxHeartRate: 152 });
+    expect(workout.laps[1]).toMatchObject({ startTime: start + 30_000, duration: 30, distance: 90, averageHeartRate: 154 });
+  });
+
+  it('requires an activity', () => {
+    expect(() => parseTcx('<TrainingCenterDatabase><Activities /></TrainingCenterDatabase>')).toThrow('does not contain an activity');
+  });
+});
@@ -0,0 +1,73 @@
+import type { ParsedWorkout, WorkoutLap, WorkoutSample } from '../../types';
+import { childNumber, childText, parseXml } from './xml';
+import { deriveDistanceAndSpeed, summarizeLap } from './summary';
+
+// Garmin Training Center XML (TCX v2) with the ActivityExtension v2 for speed and power
+export const parseTcx = (text: string): ParsedWorkout => {
+  const document = parseXml(text);
+  const activity = document.getElementsByTagNameNS('*', 'Activity')[0];
+  if (!activity) {
+    throw new Error('TCX file does not contain an activity');
+  }
+
+  const lapSamples: WorkoutSample[][] = [];
+  const lapElements = Array.from(activity.getElementsByTagNameNS('*', 'Lap'));
+  let calories = 0;
+
+  lapElements.forEach((lap) => {
+    calories += childNumber(lap, 'Calories') ?? 0;
+
+    const samples: WorkoutSample[] = [];
+    Array.from(lap.getElementsByTagNameNS('*', 'Trackpoint')).forEach((point) => {
+      const time = childText(point, 'Time');
+      if (!time) return;
+
+      const heartRateElement = point.getElementsByTagNameNS('*', 'HeartRateBpm')[0];
+      samples.push({
+        timestamp: new Date(time).getTime(),
+        latitude: childNumber(point, 'LatitudeDegrees'),
+        longitude: childNumber(point, 'LongitudeDegrees'),
+        altitude: childNumber(point, 'AltitudeMeters'),
+        distance: childNumber(point, 'DistanceMeters'),
+        heartRate: heartRateElement ? childNumber(heartRateElement, 'Value') : undefined,
+        // Cyclists record Cadence, runners RunCadence inside the extension
+        cadence: childNumber(point, 'Cadence') ?? childNumber(point, 'RunCadence'),
+        speed: childNumber(point, 'Speed'),
+        power: childNumber(point, 'Watts'),
+      });
+    });
+
+    lapSamples.push(samples);
+  });
+
+  const samples = deriveDistanceAndSpeed(lapSamples.flat());
+  const laps: WorkoutLap[] = [];
+  let offset = 0;
+
+  lapElements.forEach((lap, index) => {
+    const count = lapSamples[index].length;
+    const summary = count > 0 ? summarizeLap(samples.slice(offset, offset + count)) : null;
+    offset += count;
+
+    const startTime = lap.getAttribute('StartTime');
+    const duration = childNumber(lap, 'TotalTimeSeconds');
+    // Lap totals from the device win over values recomputed from the track
+    const lapDistance = Array.from(lap.children).find((child) => child.localName === 'DistanceMeters');
+
+    if (!summary && (!startTime || duration === undefined)) return;
+
+    laps.push({
+      ...summary,
+      startTime: startTime ? new Date(startTime).getTime() : summary!.startTime,
+      duration: duration ?? summary!.duration,
+      distance: lapDistance ? Number(lapDistance.textContent) : summary?.distance ?? 0,
+    });
+  });
+
+  return {
+    sport: activity.getAttribute('Sport') || 'Workout',
+    laps,
+    samples,
+    calories: calories || undefined,
+  };
+};
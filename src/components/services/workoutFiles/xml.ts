@@ -0,0 +1,22 @@
+// Small DOMParser helpers shared by the GPX and TCX parsers. Lookups ignore namespaces
+// because devices disagree on prefixes for the same extension schemas.
+
+export const parseXml = (text: string): Document => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  const error = document.getElementsByTagName('parsererror')[0];
+  if (error) {
+    throw new Error(`Invalid XML: ${error.textContent?.trim() || 'unable to parse file'}`);
+  }
+  return document;
+};
+
+// Text of the first descendant with the given local name
+export const childText = (element: Element, localName: string): string | undefined =>
+  element.getElementsByTagNameNS('*', localName)[0]?.textContent?.trim() || undefined;
+
+export const childNumber = (element: Element, localName: string): number | undefined => {
+  const text = childText(element, localName);
+  if (text === undefined) return undefined;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : undefined;
+};
@@ -0,0 +1,343 @@
+import { create } from 'zustand';
+import { useWearableStore } from './wearableStore';
+import { buildWorkoutSession, computeSplits, elevationChange, saveWorkoutSession, summarizeLap } from './workoutFiles';
+import { zoneForHeartRate } from './heartRateZones';
+import { getGpsTrack, startGpsTracking, stopGpsTracking } from './gps';
+import type { HeartRateZone, PlannedWorkoutLink, WorkoutLap, WorkoutSample, WorkoutSession, WorkoutSplit } from '../types';
+
+// Records a live session from whatever the connected wearable streams into the store.
+// While recording, the latest metrics are sampled once a second; paused time is neither
+// sampled nor counted. Auto-pause stops the clock when the athlete stops moving, or, with
+// no speed sensor, when their heart rate falls below zone 1. With GPS on, position and
+// distance come from the phone, unless a speed sensor is paired.
+
+export type RecorderStatus = 'idle' | 'recording' | 'paused' | 'autoPaused' | 'finished';
+
+export interface LiveWorkoutSummary {
+  duration: number; // moving time, seconds
+  elapsed: number; // since start including pauses, seconds
+  distance: number; // meters
+  heartRate?: number;
+  averageHeartRate?: number;
+  maxHeartRate?: number;
+  speed?: number; // m/s
+  elevationGain?: number; // meters
+  timeInZones: number[]; // seconds per heart rate zone
+  splits: WorkoutSplit[]; // completed kilometres
+  laps: WorkoutLap[]; // completed laps
+  lapDuration: number; // current lap moving time, seconds
+  lapDistance: number; // current lap, meters
+}
+
+interface RecorderState {
+  status: RecorderStatus;
+  sport: string;
+  plannedWorkout: PlannedWorkoutLink | null;
+  zones: HeartRateZone[];
+  autoPause: boolean;
+  gps: boolean;
+  startTime: number | null;
+  summary: LiveWorkoutSummary;
+  saving: boolean;
+  savedSession: WorkoutSession | null;
+  error: string | null;
+}
+
+const TICK = 1000;
+// Readings older than this are a disconnected or silent sensor, not a live value
+const STALE_AFTER = 10000;
+// An older GPS fix means the signal is gone
+const GPS_STALE_AFTER = 5000;
+// Below walking pace counts as stopped
+const AUTO_PAUSE_SPEED = 0.8; // m/s
+// How long a stop or a restart has to last before the clock changes state
+const AUTO_PAUSE_DELAY = 5000;
+const AUTO_RESUME_DELAY = 3000;
+
+const emptySummary = (zoneCount = 0): LiveWorkoutSummary => ({
+  duration: 0,
+  elapsed: 0,
+  distance: 0,
+  timeInZones: Array.from({ length: zoneCount }, () => 0),
+  splits: [],
+  laps: [],
+  lapDuration: 0,
+  lapDistance: 0,
+});
+
+export const useWorkoutRecorderStore = create<RecorderState>()(() => ({
+  status: 'idle',
+  sport: 'Running',
+  plannedWorkout: null,
+  zones: [],
+  autoPause: true,
+  gps: false,
+  startTime: null,
+  summary: emptySummary(),
+  saving: false,
+  savedSession: null,
+  error: null,
+}));
+
+// Module level so a recording survives navigating between dashboard sections
+let samples: WorkoutSample[] = [];
+let lapStart = 0; // index of the current lap's first sample
+let lapMovingTime = 0;
+let distance = 0;
+let lastProviderDistance: number | undefined;
+let lastGpsDistance = 0;
+let lastTick = 0;
+let heartRateSum = 0;
+let heartRateCount = 0;
+// When the current stop or restart began, for the auto-pause delays
+let stateChangeSince: number | null = null;
+let timer: ReturnType<typeof setInterval> | null = null;
+
+const reset = () => {
+  samples = [];
+  lapStart = 0;
+  lapMovingTime = 0;
+  distance = 0;
+  lastProviderDistance = undefined;
+  lastGpsDistance = 0;
+  heartRateSum = 0;
+  heartRateCount = 0;
+  stateChangeSince = null;
+};
+
+const stopTimer = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  stopGpsTracking();
+};
+
+const isStopped = (speed: number | undefined, heartRate: number | undefined, zones: HeartRateZone[]) => {
+  if (speed !== undefined) return speed < AUTO_PAUSE_SPEED;
+  if (heartRate !== undefined && zones.length) return heartRate < zones[0].min;
+  return false;
+};
+
+// Recording and auto-paused flip into each other once the change has lasted long enough
+const nextAutoPauseStatus = (status: RecorderStatus, stopped: boolean, now: number): RecorderStatus => {
+  const changing = status === 'recording' ? stopped : !stopped;
+  if (!changing) {
+    stateChangeSince = null;
+    return status;
+  }
+
+  stateChangeSince ??= now;
+  const delay = status === 'recording' ? AUTO_PAUSE_DELAY : AUTO_RESUME_DELAY;
+  if (now - stateChangeSince < delay) return status;
+
+  stateChangeSince = null;
+  return status === 'recording' ? 'autoPaused' : 'recording';
+};
+
+const tick = () => {
+  const now = Date.now();
+  const seconds = (now - lastTick) / 1000;
+  lastTick = now;
+
+  const state = useWorkoutRecorderStore.getState();
+  const metrics = useWearableStore.getState().healthMetrics;
+  const fresh = metrics.lastUpdated !== undefined && now - metrics.lastUpdated < STALE_AFTER;
+  const heartRate = fresh && metrics.heartRate > 0 && !metrics.lowConfidence ? metrics.heartRate : undefined;
+  const sensorSpeed = fresh ? metrics.speed : undefined;
+
+  // Providers without a speed sensor report a running distance total in km instead
+  const providerDistance = metrics.distance !== undefined ? metrics.distance * 1000 : undefined;
+  const providerDelta = providerDistance !== undefined && lastProviderDistance !== undefined
+    ? Math.max(0, providerDistance - lastProviderDistance)
+    : 0;
+  lastProviderDistance = providerDistance;
+
+  // Consumed every tick so distance covered while paused is never added
+  const track = state.gps ? getGpsTrack() : null;
+  const fix = track?.fix && now - track.fix.timestamp < GPS_STALE_AFTER ? track.fix : null;
+  const gpsDelta = track ? track.distance - lastGpsDistance : 0;
+  if (track) lastGpsDistance = track.distance;
+
+  const speed = sensorSpeed ?? fix?.speed;
+
+  let status = state.status;
+  if (state.autoPause && (status === 'recording' || status === 'autoPaused')) {
+    status = nextAutoPauseStatus(status, isStopped(speed, heartRate, state.zones), now);
+  }
+
+  const elapsed = state.startTime ? (now - state.startTime) / 1000 : 0;
+  if (status !== 'recording') {
+    useWorkoutRecorderStore.setState({ status, summary: { ...state.summary, elapsed, heartRate, speed } });
+    return;
+  }
+
+  if (sensorSpeed !== undefined) distance += sensorSpeed * seconds;
+  else if (track) distance += gpsDelta;
+  else distance += providerDelta;
+  lapMovingTime += seconds;
+  samples.push({
+    timestamp: now,
+    heartRate,
+    speed,
+    power: fresh ? metrics.power : undefined,
+    cadence: fresh ? metrics.cadence : undefined,
+    distance,
+    ...(fix && { latitude: fix.latitude, longitude: fix.longitude, altitude: fix.altitude }),
+  });
+
+  const timeInZones = [...state.summary.timeInZones];
+  if (heartRate !== undefined) {
+    heartRateSum += heartRate;
+    heartRateCount++;
+    const zone = zoneForHeartRate(heartRate, state.zones);
+    if (zone !== null) timeInZones[zone - 1] += seconds;
+  }
+
+  const lapStartDistance = samples[lapStart - 1]?.distance ?? 0;
+  // Splits only change once another kilometre is done
+  const splits = Math.floor(distance / 1000) > state.summary.splits.length
+    ? computeSplits(samples).filter((split) => split.distance >= 1000)
+    : state.summary.splits;
+  useWorkoutRecorderStore.setState({
+    status,
+    summary: {
+      ...state.summary,
+      duration: state.summary.duration + seconds,
+      elapsed,
+      distance,
+      heartRate,
+      speed,
+      elevationGain: fix?.altitude !== undefined ? elevationChange(samples)?.gain : state.summary.elevationGain,
+      averageHeartRate: heartRateCount ? Math.round(heartRateSum / heartRateCount) : undefined,
+      maxHeartRate: heartRate !== undefined ? Math.max(heartRate, state.summary.maxHeartRate ?? 0) : state.summary.maxHeartRate,
+      timeInZones,
+      splits,
+      lapDuration: lapMovingTime,
+      lapDistance: distance - lapStartDistance,
+    },
+  });
+};
+
+export const startWorkout = ({
+  sport,
+  plannedWorkout = null,
+  zones = [],
+  gps = false,
+}: {
+  sport: string;
+  plannedWorkout?: PlannedWorkoutLink | null;
+  zones?: HeartRateZone[];
+  gps?: boolean;
+}) => {
+  if (timer) return;
+  reset();
+  const now = Date.now();
+  lastTick = now;
+  const providerDistance = useWearableStore.getState().healthMetrics.distance;
+  lastProviderDistance = providerDistance !== undefined ? providerDistance * 1000 : undefined;
+
+  useWorkoutRecorderStore.setState({
+    status: 'recording',
+    sport,
+    plannedWorkout,
+    zones,
+    gps,
+    startTime: now,
+    summary: emptySummary(zones.length),
+    savedSession: null,
+    error: null,
+  });
+  if (gps) startGpsTracking();
+  timer = setInterval(tick, TICK);
+};
+
+// A manual pause wins over auto-pause until the athlete resumes
+export const pauseWorkout = () => {
+  const { status } = useWorkoutRecorderStore.getState();
+  if (status === 'recording' || status === 'autoPaused') {
+    stateChangeSince = null;
+    useWorkoutRecorderStore.setState({ status: 'paused' });
+  }
+};
+
+export const resumeWorkout = () => {
+  const { status } = useWorkoutRecorderStore.getState();
+  if (status === 'paused' || status === 'autoPaused') {
+    stateChangeSince = null;
+    useWorkoutRecorderStore.setState({ status: 'recording' });
+  }
+};
+
+export const setAutoPause = (autoPause: boolean) => {
+  stateChangeSince = null;
+  const { status } = useWorkoutRecorderStore.getState();
+  useWorkoutRecorderStore.setState({ autoPause, ...(!autoPause && status === 'autoPaused' && { status: 'recording' }) });
+};
+
+// Close the current lap; laps without any recorded samples are ignored
+export const markLap = () => {
+  const lapSamples = samples.slice(lapStart);
+  if (lapSamples.length === 0) return;
+
+  const { summary } = useWorkoutRecorderStore.getState();
+  const lap = { ...summarizeLap(lapSamples, Math.round(lapMovingTime)), distance: summary.lapDistance };
+  lapStart = samples.length;
+  lapMovingTime = 0;
+  useWorkoutRecorderStore.setState({
+    summary: { ...summary, laps: [...summary.laps, lap], lapDuration: 0, lapDistance: 0 },
+  });
+};
+
+// Stop recording and store the session, linked to the planned workout it fulfils
+export const finishWorkout = async (userId: string) => {
+  const { status, sport, plannedWorkout } = useWorkoutRecorderStore.getState();
+  if (status === 'idle' || status === 'finished') return;
+
+  if (samples.length === 0) {
+    discardWorkout();
+    useWorkoutRecorderStore.setState({ error: 'Nothing was recorded, the workout was discarded' });
+    return;
+  }
+  stopTimer();
+  markLap();
+
+  const { summary } = useWorkoutRecorderStore.getState();
+  useWorkoutRecorderStore.setState({ status: 'finished', saving: true, error: null });
+  try {
+    const session: WorkoutSession = {
+      ...buildWorkoutSession({ sport, laps: summary.laps, samples, duration: Math.round(summary.duration) }, 'recorded'),
+      ...(plannedWorkout && { plannedWorkout }),
+    };
+    await saveWorkoutSession(userId, session, { recordHistory: false });
+    useWorkoutRecorderStore.setState({ savedSession: session });
+  } catch (error) {
+    console.error('Error saving recorded workout:', error);
+    useWorkoutRecorderStore.setState({ error: 'Could not save the workout, try again' });
+  } finally {
+    useWorkoutRecorderStore.setState({ saving: false });
+  }
+};
+
+// Retry a save that failed, with the samples still in memory
+export const retrySaveWorkout = async (userId: string) => {
+  const { status, savedSession } = useWorkoutRecorderStore.getState();
+  if (status !== 'finished' || savedSession) return;
+  useWorkoutRecorderStore.setState({ status: 'paused' });
+  // markLap inside finishWorkout finds no new samples, so the laps stay as they were
+  await finishWorkout(userId);
+};
+
+export const discardWorkout = () => {
+  stopTimer();
+  reset();
+  useWorkoutRecorderStore.setState({
+    status: 'idle',
+    plannedWorkout: null,
+    startTime: null,
+    summary: emptySummary(),
+    saving: false,
+    savedSession: null,
+    error: null,
+  });
+};
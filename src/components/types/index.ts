@@ -1,3 +1,5 @@
+/// <reference types="web-bluetooth" />
+
 export interface Device {
   id: string;
   name: string;
@@ -18,11 +20,540 @@ export interface HealthMetrics {
   distance?: number;
   activities?: string[];
   activeMinutes?: number;
+  rrIntervals?: number[];
+  energyExpended?: number;
+  sensorContact?: boolean | null;
+  hrv?: number; // ms, RMSSD from live RR intervals
+  hrvSdnn?: number; // ms, SDNN imported from Apple Health; not comparable with RMSSD
+  bodyMass?: number; // kg
+  signalQuality?: number; // 0-1 confidence in heartRate and rrIntervals
+  lowConfidence?: boolean;
+  power?: number; // watts
+  cadence?: number; // rpm on the bike, steps per minute on foot
+  speed?: number; // m/s
+  strideLength?: number; // meters
   lastUpdated?: number;
 }
 
 export type MetricType = 'heartRate' | 'steps' | 'calories' | 'sleep' | 'hydration' | 'stress';
 
+export type HistoryMetric =
+  | MetricType | 'distance' | 'activeMinutes' | 'hrv' | 'hrvSdnn' | 'bodyMass' | 'signalQuality'
+  | 'power' | 'cadence' | 'speed' | 'strideLength';
+
+export type MetricResolution = 'minute' | 'hour' | 'day';
+
+export interface MetricSummary {
+  min: number;
+  max: number;
+  sum: number;
+  count: number;
+  last: number;
+}
+
+export interface TimeSeriesPoint {
+  timestamp: number;
+  value: number;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export type ReadinessFactor = 'hrv' | 'restingHeartRate' | 'sleep' | 'sleepDebt' | 'trainingLoad';
+
+export interface ReadinessBaseline {
+  mean: number;
+  standardDeviation: number;
+  days: number;
+}
+
+export interface ReadinessComponent {
+  factor: ReadinessFactor;
+  value: number;
+  baseline: ReadinessBaseline | null;
+  zScore: number | null;
+  score: number | null; // 0-100, higher means more ready
+  outOfRange: boolean;
+  measure?: 'sdnn'; // hrv scored from imported SDNN because the day had no RMSSD
+}
+
+export interface ReadinessScore {
+  date: number; // local midnight of the scored day
+  score: number | null; // null until there is enough history for a baseline
+  fatigueLevel: number | null;
+  components: ReadinessComponent[];
+  flagged: boolean; // at least one factor outside the athlete's normal range
+}
+
+// 'asleep' is sleep the source could not stage, e.g. older watches or phone-only tracking
+export type SleepStage = 'awake' | 'light' | 'deep' | 'rem' | 'asleep';
+
+export interface SleepStageSegment {
+  stage: SleepStage | 'inBed'; // inBed marks time in bed with no stage recorded
+  start: number;
+  end: number;
+}
+
+// One night (or nap) of sleep, stored under users/{uid}/sleep
+export interface SleepSession {
+  id: string;
+  source: string; // wearable provider id, or apple_health for export imports
+  date: number; // local midnight of the day the athlete woke up
+  bedTime: number; // first segment, in bed or asleep
+  sleepOnset: number; // start of the first sleep segment
+  wakeTime: number; // end of the last sleep segment
+  outOfBed: number; // end of the last segment
+  latency: number; // minutes from bedTime to sleepOnset
+  timeInBed: number; // minutes
+  totalSleep: number; // minutes asleep in any stage
+  efficiency: number; // totalSleep as a percentage of timeInBed
+  stages: Record<SleepStage, number>; // minutes per stage
+  segments: SleepStageSegment[];
+}
+
+export interface SleepTrendDay {
+  date: number; // local midnight
+  totalSleep: number | null; // hours, null for nights without data
+  efficiency: number | null;
+  sleepDebt: number; // hours owed over the trailing debt window
+  consistency: number | null; // 0-100 over the trailing week
+}
+
+export interface SleepAnalytics {
+  nights: number;
+  sleepNeed: number; // hours
+  averageSleep: number | null; // hours
+  averageLatency: number | null; // minutes
+  averageEfficiency: number | null;
+  efficiencyTrend: number | null; // percentage points per week, positive is improving
+  consistency: number | null; // 0-100, regularity of sleep onset and wake times
+  sleepDebt: number; // hours
+  stageShare: Record<SleepStage, number> | null; // fraction of sleep per stage
+  days: SleepTrendDay[];
+}
+
+export type WorkoutSource = 'fit' | 'gpx' | 'tcx' | 'apple_health' | 'strava' | 'manual' | 'recorded';
+
+export interface WorkoutSample {
+  timestamp: number;
+  heartRate?: number;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number; // meters
+  distance?: number; // cumulative meters
+  speed?: number; // m/s
+  power?: number; // watts
+  cadence?: number; // rpm or steps per minute
+}
+
+export interface WorkoutLap {
+  startTime: number;
+  duration: number; // seconds
+  distance: number; // meters
+  averageHeartRate?: number;
+  maxHeartRate?: number;
+  averagePower?: number;
+  averageCadence?: number;
+  averagePace?: number; // seconds per km
+}
+
+// Raw result of a workout file parser, before summary statistics are derived
+export interface ParsedWorkout {
+  sport: string;
+  laps: WorkoutLap[];
+  samples: WorkoutSample[];
+  calories?: number;
+  duration?: number; // moving time in seconds, when the recorder knows it
+}
+
+// One kilometre (or the final part of one) of a session
+export interface WorkoutSplit {
+  index: number; // 1-based
+  distance: number; // meters, the split length except for a shorter final split
+  duration: number; // moving seconds
+  pace: number; // seconds per km
+  elevationGain?: number; // meters
+  averageHeartRate?: number;
+}
+
+// A filtered and smoothed position from the browser's Geolocation API
+export interface GeoFix {
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  altitude?: number; // meters
+  accuracy: number; // meters, estimated after smoothing
+  speed?: number; // m/s
+}
+
+export interface RoutePoint {
+  lat: number;
+  lng: number;
+  alt?: number; // meters
+}
+
+// The training plan entry a recorded session fulfils
+export interface PlannedWorkoutLink {
+  id: string; // `${date}:${focus}`, unique per planned day and focus
+  date: number; // local midnight of the planned day
+  focus: string;
+  title: string;
+}
+
+export type SessionMetric = 'heartRate' | 'speed' | 'power' | 'cadence' | 'altitude';
+
+// Per-minute summaries of a session, same shape as the metric history rollups
+export interface SessionBucket {
+  bucketStart: number;
+  metrics: Partial<Record<SessionMetric, MetricSummary>>;
+}
+
+export type TrainingLoadMethod = 'trimp' | 'srpe';
+
+export interface SessionLoad {
+  sessionId: string;
+  sport: string;
+  startTime: number;
+  duration: number; // seconds
+  rpe?: number;
+  load: number; // arbitrary units
+  method: TrainingLoadMethod;
+}
+
+export interface TrainingLoadDay {
+  date: number; // local midnight
+  load: number;
+  acuteLoad: number; // 7 day rolling average
+  chronicLoad: number; // 28 day rolling average
+  acwr: number | null; // rolling average acute:chronic workload ratio, null until 28 days of training
+  acwrEwma: number | null; // exponentially weighted variant
+  fitness: number; // chronic training load (42 day EWMA)
+  fatigue: number; // acute training load (7 day EWMA)
+  form: number; // training stress balance, yesterday's fitness minus fatigue
+}
+
+// Structured load state for one day, as consumed by readiness and injury risk
+export interface TrainingLoadSummary {
+  date: number;
+  weeklyLoad: number;
+  acwr: number | null;
+  acwrEwma: number | null;
+  fitness: number;
+  fatigue: number;
+  form: number;
+  monotony: number | null; // weekly mean over standard deviation of daily load
+  strain: number | null; // weekly load times monotony
+}
+
+export interface WorkoutSession {
+  id: string;
+  source: WorkoutSource;
+  sport: string;
+  startTime: number;
+  duration: number; // seconds
+  distance: number; // meters
+  calories?: number;
+  averageHeartRate?: number;
+  maxHeartRate?: number;
+  averagePower?: number;
+  averageCadence?: number;
+  averagePace?: number; // seconds per km
+  rpe?: number; // session rating of perceived exertion, 1-10
+  plannedWorkout?: PlannedWorkoutLink;
+  elevationGain?: number; // meters
+  elevationLoss?: number; // meters
+  laps: WorkoutLap[];
+  splits?: WorkoutSplit[];
+  minutes: SessionBucket[];
+  route: RoutePoint[];
+}
+
+export type HeartRateZoneMethod = 'karvonen' | 'percentMax' | 'lactateThreshold';
+
+export interface HeartRateZone {
+  zone: number; // 1-5
+  name: string;
+  min: number; // bpm, inclusive
+  max: number; // bpm, exclusive except for the top zone
+}
+
+export interface HeartRateProfile {
+  method: HeartRateZoneMethod;
+  restingHeartRate: number;
+  maxHeartRate: number;
+  maxHeartRateSource: 'manual' | 'detected' | 'age';
+  lactateThresholdHeartRate: number | null;
+  lactateThresholdSource: 'manual' | 'estimated' | null;
+  zones: HeartRateZone[];
+}
+
+// One step of a simulated or replayed stream; offset is milliseconds from the start
+export interface SimulatorSample {
+  offset: number;
+  metrics: Partial<HealthMetrics>;
+}
+
+export interface SyntheticWorkoutOptions {
+  seed: number;
+  sport: 'Running' | 'Cycling';
+  restingHeartRate: number;
+  maxHeartRate: number;
+  warmupMinutes: number;
+  intervals: { count: number; workSeconds: number; restSeconds: number };
+  cooldownMinutes: number;
+}
+
+export type WearableCapability = HistoryMetric | 'activities' | 'rrIntervals';
+
+export type WearableConnectionType = 'oauth' | 'bluetooth' | 'simulated';
+
+// GATT services a Bluetooth sensor can expose, named as Web Bluetooth knows them
+export type BluetoothSensorProfile =
+  | 'heart_rate'
+  | 'cycling_power'
+  | 'cycling_speed_and_cadence'
+  | 'running_speed_and_cadence';
+
+// One paired Bluetooth sensor; several can stream at once
+export interface BluetoothSensor {
+  id: string;
+  name: string;
+  profiles: BluetoothSensorProfile[];
+  status?: string; // set while reconnecting
+}
+
+export interface WearableConnectOptions {
+  // Transient connection state worth showing to the user, e.g. "reconnecting"
+  onStatusChange?: (status: string | undefined) => void;
+  // The provider gave up on the connection and is now disconnected
+  onConnectionLost?: (error: unknown) => void;
+}
+
+// Contract every wearable integration implements so WearableSync can treat them uniformly
+export interface WearableProvider {
+  id: string;
+  name: string;
+  connectionType: WearableConnectionType;
+  capabilities: WearableCapability[];
+  // How often WearableSync calls refresh() while connected
+  pollInterval: number;
+  connect: (options?: WearableConnectOptions) => Promise<void>;
+  disconnect: () => void;
+  // Name of the physical device when it differs per user, e.g. a paired chest strap
+  getDeviceName?: () => string | undefined;
+  // Latest values for today
+  refresh: () => Promise<Partial<HealthMetrics>>;
+  // Historical samples between start and end, oldest first
+  fetchRange: (start: Date, end: Date) => Promise<HealthMetrics[]>;
+  // Staged sleep recorded between start and end, for providers that track sleep
+  fetchSleep?: (start: Date, end: Date) => Promise<SleepStageSegment[]>;
+  // Workouts with their recorded samples started between start and end, for providers that keep them.
+  // Workouts isImported reports by start time are left out without downloading their samples.
+  fetchSessions?: (
+    start: Date,
+    end: Date,
+    isImported?: (startTime: number) => Promise<boolean>
+  ) => Promise<WorkoutSession[]>;
+}
+
+// The JSON Schema subset every LLM provider can constrain its answers to
+export interface LlmResponseSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: string[];
+  items?: LlmResponseSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, LlmResponseSchema>;
+  required?: string[];
+  nullable?: boolean;
+}
+
+// A function the model may ask the app to call instead of, or as well as, answering in text
+export interface LlmTool {
+  name: string;
+  description: string;
+  parameters: LlmResponseSchema; // an object schema
+}
+
+export interface LlmToolCall {
+  name: string;
+  args: Record<string, unknown>; // unvalidated; checked against the tool's schema by the caller
+}
+
+export interface LlmRequest {
+  feature: string; // which AI feature is asking, e.g. trainingPlan; the mock provider keys fixtures on it
+  prompt: string;
+  temperature?: number;
+  responseSchema?: LlmResponseSchema; // set when the answer must be JSON of this shape
+  tools?: LlmTool[];
+}
+
+export interface LlmTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmResponse {
+  text: string; // raw answer; JSON parsing and validation happen in the caller
+  toolCalls?: LlmToolCall[];
+  usage?: LlmTokenUsage; // as reported by the provider; estimated from the text when missing
+}
+
+// Contract every language model backend implements so AI features don't depend on one vendor
+export interface LlmProvider {
+  id: string;
+  name: string;
+  model: string;
+  pricing?: { inputPerMillion: number; outputPerMillion: number }; // USD per million tokens; free when unset
+  // Failures are thrown as LlmErrors so retries can tell transient ones apart
+  generate: (request: LlmRequest) => Promise<LlmResponse>;
+  // Same as generate, reporting the text received so far as it arrives. Providers without it
+  // have their whole answer reported at once.
+  stream?: (request: LlmRequest, onText: (textSoFar: string) => void) => Promise<LlmResponse>;
+}
+
+export interface AiUsageTotals {
+  requests: number; // answers generated by a model
+  cacheHits: number; // answers served from the cache instead
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+// One user's AI usage for one UTC day, stored at users/{uid}/aiUsage/{YYYY-MM-DD}
+export interface AiUsageDay extends AiUsageTotals {
+  userId: string;
+  email: string | null;
+  date: string;
+  features: Record<string, AiUsageTotals>;
+  updatedAt: number;
+}
+
+// The prompt template behind an AI-generated artifact, stored with it so prompt changes can be compared and rolled back
+export interface PromptVersion {
+  name: string; // e.g. trainingPlan
+  version: number;
+}
+
+// Field tests the athlete logs to track physical qualities over time
+export type PerformanceTestId = 'sprint30m' | 'verticalJump' | 'backSquat1rm' | 'benchPress1rm';
+
+// A result at users/{uid}/testResults/{id}
+export interface PerformanceTestResult {
+  id: string;
+  test: PerformanceTestId;
+  value: number; // seconds for sprints, cm for jumps, kg for lifts
+  date: number; // local midnight of the test day
+  createdAt: number;
+}
+
+export interface ForecastPoint {
+  weeks: number; // from today
+  date: number;
+  value: number;
+  low: number; // 80% prediction interval
+  high: number;
+}
+
+// Projection of one test from its trend and, when there is enough history, training load
+export interface PerformanceForecast {
+  test: PerformanceTestId;
+  latest: PerformanceTestResult;
+  resultCount: number;
+  weeklyChange: number; // trend, in test units per week
+  loadEffect: number | null; // change per 10 points of fitness (CTL); null when load wasn't fitted
+  fitness: number | null; // today's fitness, assumed to hold over the forecast
+  points: ForecastPoint[];
+}
+
+export type BodyPartId =
+  | 'knees'
+  | 'lowerBack'
+  | 'shoulders'
+  | 'elbows'
+  | 'groin'
+  | 'ankles'
+  | 'hamstrings'
+  | 'quadriceps'
+  | 'calves';
+
+// How sore each body part felt on a day, 0 (none) to 10; stored at users/{uid}/soreness/{date}
+export interface SorenessReport {
+  date: number; // local midnight
+  parts: Partial<Record<BodyPartId, number>>;
+  createdAt: number;
+}
+
+export type InjuryRuleId = 'exposure' | 'acwrSpike' | 'monotony' | 'priorInjury' | 'soreness' | 'sleepDebt';
+
+// One rule's contribution to a body part's risk, shown so the athlete can see why it is high
+export interface InjuryRiskFactor {
+  rule: InjuryRuleId;
+  points: number;
+  detail: string;
+}
+
+export interface BodyPartRisk {
+  part: BodyPartId;
+  risk: number; // 0-100, the sum of its factors
+  status: 'high' | 'moderate' | 'low';
+  factors: InjuryRiskFactor[];
+}
+
+export interface InjuryRisk {
+  date: number;
+  overallRisk: number; // the highest body part risk
+  bodyParts: BodyPartRisk[]; // highest risk first
+  profile: string; // sport whose rules were applied, or 'default'
+}
+
+// Athlete data the coach can ground an answer in; answers cite these ids
+export type CoachSourceId = 'profile' | 'injuries' | 'plan' | 'readiness' | 'load' | 'metrics';
+
+export interface CoachSource {
+  id: CoachSourceId;
+  label: string;
+  text: string; // as shown to the model
+}
+
+// A training plan change the coach asked for, applied only once the athlete confirms it
+export interface PlanChangeProposal {
+  id: string;
+  tool: string;
+  args: Record<string, unknown>; // validated against the tool's schema when proposed
+  summary: string;
+  reason: string;
+  status: 'pending' | 'applied' | 'declined';
+}
+
+export interface CoachMessage {
+  id: string;
+  role: 'athlete' | 'coach';
+  text: string;
+  createdAt: number;
+  citations?: CoachSource[]; // the sources the reply cites, as they were when it was written
+  proposals?: PlanChangeProposal[];
+  promptVersion?: PromptVersion;
+  failed?: boolean; // the coach couldn't answer; text holds the reason
+}
+
+// A saved conversation at users/{uid}/coachThreads/{id}
+export interface CoachThread {
+  id: string;
+  title: string; // the first question
+  createdAt: number;
+  updatedAt: number;
+  messages: CoachMessage[];
+}
+
+export type UnitSystem = 'metric' | 'imperial';
+
+// Quantities shown in the user's preferred units. Values are always held in the base unit:
+// height and length in cm, weight in kg, distance in m, pace in s/km, speed in m/s,
+// temperature in °C and volume in liters.
+export type UnitQuantity = 'height' | 'length' | 'weight' | 'distance' | 'pace' | 'speed' | 'temperature' | 'volume';
+
 export interface MetricInfo {
   id: MetricType;
   name: string;
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import dotenv from "dotenv";
@@ -9,4 +10,21 @@ export default defineConfig({
   define: {
     "import.meta.env.VITE_FIREBASE_API_KEY": JSON.stringify(process.env.VITE_FIREBASE_API_KEY),
   },
+  server: {
+    // The OAuth token broker runs separately in development (npm run oauth:broker)
+    proxy: {
+      "/api": process.env.OAUTH_BROKER_URL || "http://localhost:3001",
+    },
+  },
+  test: {
+    // The GPX and TCX parsers need DOMParser
+    environment: "jsdom",
+    // Firebase is initialized at import time, so modules that reach it need a config
+    env: {
+      VITE_FIREBASE_API_KEY: "test-api-key",
+      VITE_FIREBASE_PROJECT_ID: "test",
+      VITE_FIREBASE_AUTH_DOMAIN: "test.firebaseapp.com",
+      VITE_FIREBASE_APP_ID: "test",
+    },
+  },
 });